@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { UserManagement } from "@/components/admin/user-management";
+
+export default function AdminUsersPage() {
+  return (
+    <>
+      <AppHeader title="사용자 관리" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <UserManagement />
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { MaintenanceFees } from "@/components/buildings/maintenance-fees";
+
+export default function BuildingMaintenanceFeesPage({ params }: { params: { id: string } }) {
+  return (
+    <>
+      <AppHeader title="관리비 관리" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <MaintenanceFees buildingId={params.id} />
+      </main>
+    </>
+  );
+}
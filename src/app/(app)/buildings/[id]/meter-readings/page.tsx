@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { MeterReadings } from "@/components/buildings/meter-readings";
+
+export default function BuildingMeterReadingsPage({ params }: { params: { id: string } }) {
+  return (
+    <>
+      <AppHeader title="검침 관리" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <MeterReadings buildingId={params.id} />
+      </main>
+    </>
+  );
+}
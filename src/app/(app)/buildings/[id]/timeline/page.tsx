@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { UnitTimeline } from "@/components/buildings/unit-timeline";
+
+export default function BuildingTimelinePage({ params }: { params: { id: string } }) {
+  return (
+    <>
+      <AppHeader title="입주 현황" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <UnitTimeline buildingId={params.id} />
+      </main>
+    </>
+  );
+}
@@ -6,17 +6,23 @@ import { Suspense } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import Link from "next/link";
 import { PlusCircle } from "lucide-react";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { canEditPortfolioData } from "@/lib/portfolio";
 
 export default function BuildingsPage() {
+  const membership = usePortfolio()?.membership;
+
   return (
     <>
       <AppHeader title="건물 관리">
-        <Button asChild>
-            <Link href="/buildings/new">
-                <PlusCircle className="mr-2" />
-                건물 추가
-            </Link>
-        </Button>
+        {canEditPortfolioData(membership) && (
+          <Button asChild>
+              <Link href="/buildings/new">
+                  <PlusCircle className="mr-2" />
+                  건물 추가
+              </Link>
+          </Button>
+        )}
       </AppHeader>
       <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
         <Suspense fallback={<Skeleton className="w-full h-32" />}>
@@ -1,6 +1,7 @@
 'use client';
 
 import { StatCards } from "@/components/dashboard/stat-cards";
+import { VacantUnitsCard } from "@/components/dashboard/vacant-units-card";
 import { AllTenantsTable } from "@/components/dashboard/all-tenants-table";
 import { columns } from "@/components/dashboard/columns";
 import { AppHeader } from "@/components/app-header";
@@ -15,6 +16,7 @@ export default function DashboardPage() {
         <Suspense fallback={<Skeleton className="h-24 w-full" />}>
             <StatCards />
         </Suspense>
+        <VacantUnitsCard />
         <div className="flex-1 rounded-lg border bg-card p-4 shadow-sm">
             <AllTenantsTable columns={columns as any} />
         </div>
@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { RentInvoices } from "@/components/invoices/rent-invoices";
+
+export default function InvoicesPage() {
+  return (
+    <>
+      <AppHeader title="청구서" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <RentInvoices />
+      </main>
+    </>
+  );
+}
@@ -3,15 +3,22 @@
 import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/sidebar-nav";
 import { useUser, useFirebase } from "@/firebase";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
-import { Loader2, ShieldAlert } from "lucide-react";
-import { doc, getDoc } from "firebase/firestore";
-import { UserProfile } from "@/lib/types";
+import { Loader2, ShieldAlert, ShieldX } from "lucide-react";
+import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { Portfolio, PortfolioMember, UserProfile } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { signOut } from "firebase/auth";
 import { useToast } from "@/hooks/use-toast";
 import { AppLogo } from "@/components/icons";
+import { UserProfileContext } from "@/hooks/use-user-profile";
+import { canAccessRoute, getUserRole } from "@/lib/roles";
+import { PortfolioContext } from "@/hooks/use-portfolio";
+import { NotificationProvider } from "@/components/notifications/notification-provider";
+import { canAccessPortfolioRoute, getPersonalPortfolioId } from "@/lib/portfolio";
+import { createPersonalPortfolio, fetchPortfolioMemberships, fetchPortfolios } from "@/firebase/firestore/portfolios";
+import Link from "next/link";
 
 function AwaitingApprovalScreen() {
     const { auth } = useFirebase();
@@ -43,6 +50,21 @@ function AwaitingApprovalScreen() {
     );
 }
 
+function AccessDeniedScreen({ message }: { message: string }) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center p-8 text-center">
+        <ShieldX className="w-16 h-16 text-muted-foreground mb-6" />
+        <h1 className="text-2xl font-bold mb-2">접근 권한 없음</h1>
+        <p className="text-muted-foreground mb-8">
+            {message}
+        </p>
+        <Button asChild>
+            <Link href="/dashboard">대시보드로 이동</Link>
+        </Button>
+      </div>
+    );
+}
+
 export default function AppLayout({
   children,
 }: {
@@ -51,11 +73,18 @@ export default function AppLayout({
   const { user, isUserLoading } = useUser();
   const { firestore } = useFirebase();
   const router = useRouter();
+  const pathname = usePathname();
 
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [profileLoading, setProfileLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const [memberships, setMemberships] = useState<PortfolioMember[]>([]);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [activePortfolioId, setActivePortfolioId] = useState<string | undefined>();
+  const [portfoliosLoading, setPortfoliosLoading] = useState(true);
+  const [portfolioFetchTrigger, setPortfolioFetchTrigger] = useState(0);
+
   useEffect(() => {
     if (!isUserLoading && !user) {
       router.push('/login');
@@ -69,7 +98,9 @@ export default function AppLayout({
           const docSnap = await getDoc(userProfileRef);
           
           if (docSnap.exists()) {
-            setProfile(docSnap.data() as UserProfile);
+            const data = docSnap.data() as UserProfile;
+            setProfile(data);
+            setActivePortfolioId(data.activePortfolioId);
           } else {
              console.error(`User profile document does not exist at /users/${user.uid}`);
              setError(`사용자 프로필 문서가 Firestore에 존재하지 않습니다.`);
@@ -85,7 +116,42 @@ export default function AppLayout({
     }
   }, [user, isUserLoading, router, firestore]);
 
-  const isLoading = isUserLoading || profileLoading;
+  const isApproved = !!profile?.isApproved;
+
+  useEffect(() => {
+    if (!user || !firestore || !isApproved) return;
+
+    const loadPortfolios = async () => {
+      try {
+        let fetchedMemberships = await fetchPortfolioMemberships(firestore, user.uid);
+        let fetchedPortfolios: Portfolio[];
+        if (fetchedMemberships.length === 0) {
+          // First sign-in since portfolios were introduced: create the personal portfolio
+          // and move the user's existing data into it.
+          const { portfolio, membership } = await createPersonalPortfolio(firestore, user);
+          fetchedMemberships = [membership];
+          fetchedPortfolios = [portfolio];
+        } else {
+          fetchedPortfolios = await fetchPortfolios(firestore, fetchedMemberships.map(m => m.portfolioId));
+        }
+
+        if (fetchedPortfolios.length === 0) {
+          setError('접근할 수 있는 포트폴리오가 없습니다.');
+          return;
+        }
+        setMemberships(fetchedMemberships);
+        setPortfolios(fetchedPortfolios.sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (e: any) {
+        console.error("Failed to load portfolios:", e);
+        setError(`포트폴리오를 불러오는 중 오류가 발생했습니다: ${e.message}`);
+      } finally {
+        setPortfoliosLoading(false);
+      }
+    };
+    loadPortfolios();
+  }, [user, firestore, isApproved, portfolioFetchTrigger]);
+
+  const isLoading = isUserLoading || profileLoading || (isApproved && portfoliosLoading);
 
   if (error) {
     return (
@@ -115,7 +181,12 @@ export default function AppLayout({
       return <AwaitingApprovalScreen />;
   }
 
-  if (!user || !profile) {
+  const portfolio = portfolios.find(p => p.id === activePortfolioId)
+    ?? portfolios.find(p => p.id === getPersonalPortfolioId(user?.uid || ''))
+    ?? portfolios[0];
+  const membership = portfolio && memberships.find(m => m.portfolioId === portfolio.id);
+
+  if (!user || !profile || !portfolio || !membership) {
      // This state can be reached if loading is finished but user/profile is still null
      // (e.g., due to an error that didn't set the error state).
      return (
@@ -124,16 +195,38 @@ export default function AppLayout({
         </div>
     );
   }
-  
+
+  const switchPortfolio = (portfolioId: string) => {
+    setActivePortfolioId(portfolioId);
+    // Remembered for the next sign-in; a failed write only loses that.
+    updateDoc(doc(firestore, 'users', user.uid), { activePortfolioId: portfolioId })
+      .catch(e => console.error("Failed to save the active portfolio:", e));
+  };
 
   return (
-    <SidebarProvider>
-      <AppSidebar />
-      <SidebarInset>
-        <div className="flex flex-col min-h-screen">
-          {children}
-        </div>
-      </SidebarInset>
-    </SidebarProvider>
+    <UserProfileContext.Provider value={profile}>
+      <PortfolioContext.Provider value={{
+        portfolio,
+        membership,
+        portfolios,
+        switchPortfolio,
+        reloadPortfolios: () => setPortfolioFetchTrigger(t => t + 1),
+      }}>
+        <NotificationProvider>
+          <SidebarProvider>
+            <AppSidebar />
+            <SidebarInset>
+              <div className="flex flex-col min-h-screen">
+                {!canAccessRoute(getUserRole(profile), pathname) ? (
+                  <AccessDeniedScreen message="이 화면은 관리자만 사용할 수 있습니다." />
+                ) : !canAccessPortfolioRoute(membership, pathname) ? (
+                  <AccessDeniedScreen message="읽기 전용 게스트는 데이터를 입력하거나 수정하는 화면을 사용할 수 없습니다." />
+                ) : children}
+              </div>
+            </SidebarInset>
+          </SidebarProvider>
+        </NotificationProvider>
+      </PortfolioContext.Provider>
+    </UserProfileContext.Provider>
   );
 }
@@ -0,0 +1,13 @@
+import { BankImport } from "@/components/payments/bank-import";
+import { AppHeader } from "@/components/app-header";
+
+export default function BankImportPage() {
+  return (
+    <>
+      <AppHeader title="은행 거래내역 가져오기" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <BankImport />
+      </main>
+    </>
+  );
+}
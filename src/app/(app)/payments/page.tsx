@@ -7,24 +7,28 @@ import { Suspense } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { Home, PlusCircle } from "lucide-react";
+import { Home, PlusCircle, Upload } from "lucide-react";
 import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { canEditPortfolioData } from '@/lib/portfolio';
 import { Building } from '@/lib/types';
-import { collection, query, where, getDocs } from 'firebase/firestore';
+import { collection, query, getDocs } from 'firebase/firestore';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 export default function PaymentsPage() {
   const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
   const [selectedBuildingId, setSelectedBuildingId] = React.useState<string | null>(null);
   const [buildings, setBuildings] = React.useState<Building[]>([]);
   const [isLoadingBuildings, setIsLoadingBuildings] = React.useState(true);
 
   React.useEffect(() => {
     async function fetchBuildings() {
-        if (!firestore || !user) return;
+        if (!firestore || !user || !membership) return;
         setIsLoadingBuildings(true);
         try {
-            const buildingsQuery = query(collection(firestore, 'buildings'), where('ownerId', '==', user.uid));
+            const buildingsQuery = query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'));
             const querySnapshot = await getDocs(buildingsQuery);
             const buildingsData = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Building));
             setBuildings(buildingsData);
@@ -38,7 +42,7 @@ export default function PaymentsPage() {
         }
     }
     fetchBuildings();
-  }, [firestore, user, selectedBuildingId]);
+  }, [firestore, user, membership, selectedBuildingId]);
 
 
   const headerActions = (
@@ -55,13 +59,24 @@ export default function PaymentsPage() {
               {buildings?.map(b => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
           </SelectContent>
       </Select>
-      <Button asChild>
-          <Link href="/payments/new">
-              <PlusCircle className="mr-2" />
-              <span className="hidden md:inline">납부 기록 추가</span>
-              <span className="inline md:hidden">추가</span>
-          </Link>
-      </Button>
+      {canEditPortfolioData(membership) && (
+        <>
+          <Button variant="outline" asChild>
+              <Link href="/payments/import">
+                  <Upload className="mr-2" />
+                  <span className="hidden md:inline">거래내역 가져오기</span>
+                  <span className="inline md:hidden">가져오기</span>
+              </Link>
+          </Button>
+          <Button asChild>
+              <Link href="/payments/new">
+                  <PlusCircle className="mr-2" />
+                  <span className="hidden md:inline">납부 기록 추가</span>
+                  <span className="inline md:hidden">추가</span>
+              </Link>
+          </Button>
+        </>
+      )}
     </>
   );
 
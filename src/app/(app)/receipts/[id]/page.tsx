@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { PaymentReceiptView } from "@/components/receipts/payment-receipt-view";
+
+export default function ReceiptDetailPage({ params }: { params: { id: string } }) {
+  return (
+    <>
+      <AppHeader title="영수증" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <PaymentReceiptView receiptId={params.id} />
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { PaymentReminders } from "@/components/reminders/payment-reminders";
+
+export default function RemindersPage() {
+  return (
+    <>
+      <AppHeader title="미납 안내" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <PaymentReminders />
+      </main>
+    </>
+  );
+}
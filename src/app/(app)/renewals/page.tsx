@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { RenewalPipeline } from "@/components/renewals/renewal-pipeline";
+
+export default function RenewalsPage() {
+  return (
+    <>
+      <AppHeader title="재계약 관리" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <RenewalPipeline />
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { AgingReport } from "@/components/reports/aging-report";
+
+export default function AgingReportPage() {
+  return (
+    <>
+      <AppHeader title="연체 분석" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <AgingReport />
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { RentRoll } from "@/components/reports/rent-roll";
+
+export default function RentRollPage() {
+  return (
+    <>
+      <AppHeader title="임대 현황" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <RentRoll />
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { VacancyReport } from "@/components/reports/vacancy-report";
+
+export default function VacancyReportPage() {
+  return (
+    <>
+      <AppHeader title="공실 현황" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <VacancyReport />
+      </main>
+    </>
+  );
+}
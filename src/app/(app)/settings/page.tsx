@@ -1,12 +1,16 @@
 
 import { AppHeader } from "@/components/app-header";
 import { DataManagement } from "@/components/settings/data-management";
+import { PortfolioMembers } from "@/components/settings/portfolio-members";
+import { NotificationSettingsCard } from "@/components/settings/notification-settings";
 
 export default function SettingsPage() {
   return (
     <>
       <AppHeader title="설정" />
       <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <PortfolioMembers />
+        <NotificationSettingsCard />
         <DataManagement />
       </main>
     </>
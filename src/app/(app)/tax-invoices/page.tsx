@@ -0,0 +1,13 @@
+import { AppHeader } from "@/components/app-header";
+import { TaxInvoices } from "@/components/tax-invoices/tax-invoices";
+
+export default function TaxInvoicesPage() {
+  return (
+    <>
+      <AppHeader title="세금계산서" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <TaxInvoices />
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { AppHeader } from "@/components/app-header";
+import { DepositLedger } from "@/components/tenants/deposit-ledger";
+import { Suspense } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function TenantDepositPage({ params }: { params: { id: string } }) {
+  return (
+    <>
+      <AppHeader title="보증금 정산" />
+      <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
+        <Suspense fallback={<Skeleton className="h-[600px] w-full" />}>
+          <DepositLedger tenantId={params.id} />
+        </Suspense>
+      </main>
+    </>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { AppHeader } from "@/components/app-header";
 import { TenantLedger } from "@/components/tenants/tenant-ledger";
+import { ReminderHistory } from "@/components/reminders/reminder-history";
 import { Suspense } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -12,6 +13,7 @@ export default function TenantDetailPage({ params }: { params: { id: string } })
       <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
         <Suspense fallback={<Skeleton className="h-[600px] w-full" />}>
           <TenantLedger tenantId={params.id} />
+          <ReminderHistory leaseId={params.id} />
         </Suspense>
       </main>
     </>
@@ -5,8 +5,11 @@ import { AppHeader } from "@/components/app-header";
 import { TenantsByBuildingTable } from "@/components/tenants/tenants-by-building-table";
 import { columns } from "@/components/dashboard/columns";
 import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { canEditPortfolioData } from '@/lib/portfolio';
 import { Building } from '@/lib/types';
-import { collection, query, where, getDocs } from 'firebase/firestore';
+import { collection, query, getDocs } from 'firebase/firestore';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Home, PlusCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -15,16 +18,17 @@ import { Skeleton } from '@/components/ui/skeleton';
 
 export default function TenantsPage() {
   const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
   const [selectedBuildingId, setSelectedBuildingId] = React.useState<string | null>(null);
   const [buildings, setBuildings] = React.useState<Building[]>([]);
   const [isLoadingBuildings, setIsLoadingBuildings] = React.useState(true);
 
   React.useEffect(() => {
     async function fetchBuildings() {
-        if (!firestore || !user) return;
+        if (!firestore || !user || !membership) return;
         setIsLoadingBuildings(true);
         try {
-            const buildingsQuery = query(collection(firestore, 'buildings'), where('ownerId', '==', user.uid));
+            const buildingsQuery = query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'));
             const querySnapshot = await getDocs(buildingsQuery);
             const buildingsData = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Building));
             setBuildings(buildingsData);
@@ -38,17 +42,19 @@ export default function TenantsPage() {
         }
     }
     fetchBuildings();
-  }, [firestore, user]);
+  }, [firestore, user, membership]);
 
   return (
     <>
       <AppHeader title="임차인 관리">
-        <Button asChild>
-            <Link href="/tenants/new">
-                <PlusCircle className="mr-2" />
-                임차인 추가
-            </Link>
-        </Button>
+        {canEditPortfolioData(membership) && (
+          <Button asChild>
+              <Link href="/tenants/new">
+                  <PlusCircle className="mr-2" />
+                  임차인 추가
+              </Link>
+          </Button>
+        )}
       </AppHeader>
       <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6">
         <div className="flex-1 rounded-lg border bg-card p-4 shadow-sm">
@@ -0,0 +1,208 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useFirebase } from '@/firebase';
+import { collection, getDocs } from 'firebase/firestore';
+import { UserProfile, UserRole } from '@/lib/types';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getUserRole, userRoleLabels } from '@/lib/roles';
+import { updateUserAccess } from '@/firebase/non-blocking-updates';
+
+interface ConfirmActionProps {
+  label: string;
+  title: string;
+  description: string;
+  variant?: 'default' | 'outline' | 'destructive';
+  disabled?: boolean;
+  onConfirm: () => Promise<void>;
+}
+
+function ConfirmAction({ label, title, description, variant = 'outline', disabled, onConfirm }: ConfirmActionProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant={variant} disabled={disabled || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {label}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>취소</AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm}>확인</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export function UserManagement() {
+  const { firestore, user } = useFirebase();
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const snapshot = await getDocs(collection(firestore, 'users'));
+        const data = snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as UserProfile);
+        // Pending users first, then by email.
+        data.sort((a, b) => Number(a.isApproved) - Number(b.isApproved) || (a.email || '').localeCompare(b.email || ''));
+        setProfiles(data);
+      } catch (e: any) {
+        console.error('Failed to load users:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user]);
+
+  const handleUpdate = async (profile: UserProfile, data: Partial<Pick<UserProfile, 'isApproved' | 'role'>>, successMessage: string) => {
+    if (!firestore) return;
+    try {
+      await updateUserAccess(firestore, profile.id, data);
+      setProfiles(prev => prev.map(p => p.id === profile.id ? { ...p, ...data } : p));
+      toast({ title: '변경 완료', description: successMessage });
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '변경 실패', description: '사용자 정보를 변경하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[400px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const pendingCount = profiles.filter(p => !p.isApproved).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">사용자 관리</CardTitle>
+        <CardDescription>
+          가입한 사용자의 승인 상태와 역할을 관리합니다.{pendingCount > 0 ? ` 승인 대기 중인 사용자가 ${pendingCount}명 있습니다.` : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>이름</TableHead>
+              <TableHead>이메일</TableHead>
+              <TableHead>상태</TableHead>
+              <TableHead>역할</TableHead>
+              <TableHead className="text-right">작업</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {profiles.length > 0 ? profiles.map(profile => {
+              const role = getUserRole(profile);
+              const nextRole: UserRole = role === 'admin' ? 'member' : 'admin';
+              const name = profile.displayName || profile.email;
+              // Admins cannot revoke or demote themselves, so there is always an admin left.
+              const isSelf = profile.id === user?.uid;
+
+              return (
+                <TableRow key={profile.id}>
+                  <TableCell>
+                    {profile.displayName || '-'}
+                    {isSelf && <span className="ml-2 text-xs text-muted-foreground">(나)</span>}
+                  </TableCell>
+                  <TableCell>{profile.email}</TableCell>
+                  <TableCell>
+                    <Badge variant={profile.isApproved ? 'default' : 'secondary'}>{profile.isApproved ? '승인됨' : '승인 대기'}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={role === 'admin' ? 'default' : 'outline'}>{userRoleLabels[role]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      {profile.isApproved ? (
+                        <ConfirmAction
+                          label="승인 취소"
+                          variant="destructive"
+                          disabled={isSelf}
+                          title="승인을 취소하시겠습니까?"
+                          description={`${name}님은 다시 승인될 때까지 앱을 사용할 수 없습니다.`}
+                          onConfirm={() => handleUpdate(profile, { isApproved: false }, `${name}님의 승인이 취소되었습니다.`)}
+                        />
+                      ) : (
+                        <ConfirmAction
+                          label="승인"
+                          variant="default"
+                          title="사용자를 승인하시겠습니까?"
+                          description={`${name}님이 ${userRoleLabels[role]} 권한으로 앱을 사용할 수 있게 됩니다.`}
+                          onConfirm={() => handleUpdate(profile, { isApproved: true }, `${name}님이 승인되었습니다.`)}
+                        />
+                      )}
+                      <ConfirmAction
+                        label={nextRole === 'admin' ? '관리자로 지정' : '일반 사용자로 변경'}
+                        disabled={isSelf}
+                        title="역할을 변경하시겠습니까?"
+                        description={`${name}님의 역할을 ${userRoleLabels[role]}에서 ${userRoleLabels[nextRole]}(으)로 변경합니다.`}
+                        onConfirm={() => handleUpdate(profile, { role: nextRole }, `${name}님의 역할이 ${userRoleLabels[nextRole]}(으)로 변경되었습니다.`)}
+                      />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            }) : (
+              <TableRow>
+                <TableCell colSpan={5} className="h-24 text-center">
+                  등록된 사용자가 없습니다.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,6 +21,7 @@ import { useFirebase } from "@/firebase";
 import { signOut } from "firebase/auth";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
+import { NotificationBell } from "@/components/notifications/notification-bell";
 
 type AppHeaderProps = {
   title: string;
@@ -60,6 +61,7 @@ export function AppHeader({ title, children, actions }: AppHeaderProps) {
       {children}
       <div className="flex items-center gap-2">
         {actions}
+        <NotificationBell />
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="secondary" size="icon" className="rounded-full">
@@ -0,0 +1,103 @@
+'use client';
+
+import Link from 'next/link';
+import { ExternalLink } from 'lucide-react';
+import { AuditLog } from '@/lib/types';
+import { formatDate } from '@/lib/utils';
+import { AuditLogDetails, auditCollectionLabels, formatAuditValue, getAuditActionLabel, getAuditLogLink } from '@/lib/audit-log';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '../ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { getActionVariant } from './columns';
+
+// Fields shown in the header or the diff table rather than in the remaining details.
+const summaryFields = ['collection', 'documentId', 'leaseAgreementId', 'buildingId', 'changes'];
+
+export function AuditLogDetailSheet({ log, onOpenChange }: { log: AuditLog | null; onOpenChange: (open: boolean) => void }) {
+  const details = log?.details as AuditLogDetails | undefined;
+  const changes = Object.entries(details?.changes || {});
+  const extraDetails = Object.entries(details || {}).filter(([key]) => !summaryFields.includes(key));
+  const link = log ? getAuditLogLink(log) : null;
+
+  return (
+    <Sheet open={!!log} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        {log && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2">
+                <Badge variant={getActionVariant(log.action)}>{getAuditActionLabel(log.action)}</Badge>
+                {details?.collection && <span>{auditCollectionLabels[details.collection] || details.collection}</span>}
+              </SheetTitle>
+              <SheetDescription>
+                {formatDate(log.timestamp)} · {log.userEmail}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6">
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                {details?.documentId && (
+                  <>
+                    <dt className="text-muted-foreground">문서 ID</dt>
+                    <dd className="font-mono break-all">{details.documentId}</dd>
+                  </>
+                )}
+                {details?.leaseAgreementId && (
+                  <>
+                    <dt className="text-muted-foreground">계약 ID</dt>
+                    <dd className="font-mono break-all">{details.leaseAgreementId}</dd>
+                  </>
+                )}
+                {details?.buildingId && (
+                  <>
+                    <dt className="text-muted-foreground">건물 ID</dt>
+                    <dd className="font-mono break-all">{details.buildingId}</dd>
+                  </>
+                )}
+              </dl>
+
+              {link && (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={link.href}>
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    {link.label}로 이동
+                  </Link>
+                </Button>
+              )}
+
+              {changes.length > 0 && (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>필드</TableHead>
+                        <TableHead>변경 전</TableHead>
+                        <TableHead>변경 후</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changes.map(([field, change]) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-mono text-xs align-top">{field}</TableCell>
+                          <TableCell className="text-xs align-top break-all text-destructive">{formatAuditValue(change.before)}</TableCell>
+                          <TableCell className="text-xs align-top break-all text-green-700">{formatAuditValue(change.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {extraDetails.length > 0 && (
+                <pre className="text-xs bg-muted p-2 rounded-md whitespace-pre-wrap break-all">
+                  {JSON.stringify(Object.fromEntries(extraDetails), null, 2)}
+                </pre>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -21,11 +21,18 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '../ui/skeleton';
-import { AlertTriangle, ShieldCheck } from 'lucide-react';
+import { AlertTriangle, Download, Loader2, ShieldCheck } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { useFirebase } from '@/firebase';
-import { collection, query, orderBy, getDocs, where, Timestamp } from 'firebase/firestore';
+import { collection, query, orderBy, getDocs, limit, startAfter, where, Timestamp, Firestore, QueryDocumentSnapshot } from 'firebase/firestore';
 import { AuditLog } from '@/lib/types';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { endOfDay, format as formatDateFns, parse, startOfDay } from 'date-fns';
+import * as XLSX from 'xlsx';
+import { downloadCsv } from '@/lib/utils';
+import { AuditLogDetails, auditCollectionLabels, formatAuditValue, getAuditActionLabel } from '@/lib/audit-log';
+import { AuditLogDetailSheet } from './audit-log-detail-sheet';
 import {
   Select,
   SelectContent,
@@ -34,6 +41,28 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
+const ALL = 'all';
+
+const parseDay = (text: string) => {
+  const parsed = parse(text, 'yyyy-MM-dd', new Date());
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const getLogDate = (log: AuditLog) => (log.timestamp as Timestamp | null)?.toDate?.() ?? null;
+
+// Logs are read newest first, this many at a time.
+const LOG_PAGE_SIZE = 500;
+
+// The date range is applied in the query so older logs are reachable without loading everything after them.
+const logsQuery = (firestore: Firestore, from: Date | null, to: Date | null, cursor: QueryDocumentSnapshot | null) => query(
+  collection(firestore, 'logs'),
+  ...(from ? [where('timestamp', '>=', Timestamp.fromDate(startOfDay(from)))] : []),
+  ...(to ? [where('timestamp', '<=', Timestamp.fromDate(endOfDay(to)))] : []),
+  orderBy('timestamp', 'desc'),
+  ...(cursor ? [startAfter(cursor)] : []),
+  limit(LOG_PAGE_SIZE)
+);
+
 interface AuditLogsTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
 }
@@ -45,6 +74,9 @@ export function AuditLogsTable<TData, TValue>({
 
   const [logs, setLogs] = React.useState<AuditLog[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false);
+  const [cursor, setCursor] = React.useState<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = React.useState(false);
   const [error, setError] = React.useState<Error | null>(null);
 
   const [sorting, setSorting] = React.useState<SortingState>([
@@ -54,29 +86,28 @@ export function AuditLogsTable<TData, TValue>({
     pageIndex: 0,
     pageSize: 15,
   });
+  const [actionFilter, setActionFilter] = React.useState(ALL);
+  const [collectionFilter, setCollectionFilter] = React.useState(ALL);
+  const [entityIdFilter, setEntityIdFilter] = React.useState('');
+  const [fromText, setFromText] = React.useState('');
+  const [toText, setToText] = React.useState('');
+  const [selectedLog, setSelectedLog] = React.useState<AuditLog | null>(null);
   
+  const from = React.useMemo(() => fromText ? parseDay(fromText) : null, [fromText]);
+  const to = React.useMemo(() => toText ? parseDay(toText) : null, [toText]);
+
   React.useEffect(() => {
     async function fetchLogs() {
         if (!firestore || !user) return;
         setIsLoading(true);
         setError(null);
         try {
-            // Firestore 쿼리에서 orderBy를 제거합니다.
-            const logsQuery = query(
-              collection(firestore, "logs"), 
-              where("userId", "==", user.uid)
-            );
-            const querySnapshot = await getDocs(logsQuery);
-            const logsData = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditLog));
-
-            // 데이터를 가져온 후 클라이언트 측에서 정렬합니다.
-            logsData.sort((a, b) => {
-                const timeA = (a.timestamp as Timestamp)?.toMillis() || 0;
-                const timeB = (b.timestamp as Timestamp)?.toMillis() || 0;
-                return timeB - timeA;
-            });
-            
-            setLogs(logsData);
+            // 관리자만 이 화면에 들어올 수 있으며, 보안 규칙상 관리자는 모든 사용자의 로그를 읽을 수 있습니다.
+            const querySnapshot = await getDocs(logsQuery(firestore, from, to, null));
+            setLogs(querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditLog)));
+            setCursor(querySnapshot.docs[querySnapshot.docs.length - 1] ?? null);
+            setHasMore(querySnapshot.docs.length === LOG_PAGE_SIZE);
+            setPagination(p => ({ ...p, pageIndex: 0 }));
         } catch (err: any) {
             console.error("Error fetching audit logs:", err);
             setError(err);
@@ -85,11 +116,79 @@ export function AuditLogsTable<TData, TValue>({
         }
     }
     fetchLogs();
-  }, [firestore, user]);
+  }, [firestore, user, from, to]);
+
+  const handleLoadMore = async () => {
+    if (!firestore || !cursor) return;
+    setIsLoadingMore(true);
+    try {
+        const querySnapshot = await getDocs(logsQuery(firestore, from, to, cursor));
+        setLogs(prev => [...prev, ...querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditLog))]);
+        setCursor(querySnapshot.docs[querySnapshot.docs.length - 1] ?? cursor);
+        setHasMore(querySnapshot.docs.length === LOG_PAGE_SIZE);
+    } catch (err: any) {
+        console.error("Error fetching more audit logs:", err);
+        setError(err);
+    } finally {
+        setIsLoadingMore(false);
+    }
+  };
+
+
+  const actionOptions = React.useMemo(() => Array.from(new Set(logs.map(log => log.action))).sort(), [logs]);
+  const collectionOptions = React.useMemo(
+    () => Array.from(new Set(logs.map(log => (log.details as AuditLogDetails | undefined)?.collection).filter((c): c is string => !!c))).sort(),
+    [logs]
+  );
+
+  const filteredLogs = React.useMemo(() => {
+    const entityId = entityIdFilter.trim().toLowerCase();
+
+    return logs.filter(log => {
+      const details = log.details as AuditLogDetails | undefined;
+      if (actionFilter !== ALL && log.action !== actionFilter) return false;
+      if (collectionFilter !== ALL && details?.collection !== collectionFilter) return false;
+      if (entityId) {
+        const ids = [details?.documentId, details?.leaseAgreementId, details?.buildingId];
+        if (!ids.some(id => id?.toLowerCase().includes(entityId))) return false;
+      }
+      return true;
+    });
+  }, [logs, actionFilter, collectionFilter, entityIdFilter]);
+
+  const handleExport = (type: 'xlsx' | 'csv') => {
+    const header = ['시간', '사용자', '작업', '대상', '문서 ID', '계약 ID', '건물 ID', '변경 내용'];
+    const rows = filteredLogs.map(log => {
+      const details = log.details as AuditLogDetails | undefined;
+      const date = getLogDate(log);
+      return [
+        date ? formatDateFns(date, 'yyyy-MM-dd HH:mm:ss') : '',
+        log.userEmail,
+        getAuditActionLabel(log.action),
+        details?.collection ? auditCollectionLabels[details.collection] || details.collection : '',
+        details?.documentId || '',
+        details?.leaseAgreementId || '',
+        details?.buildingId || '',
+        Object.entries(details?.changes || {})
+          .map(([field, change]) => `${field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`)
+          .join('\n'),
+      ];
+    });
+    const fileName = `활동기록_${formatDateFns(new Date(), 'yyyyMMdd')}`;
+
+    if (type === 'csv') {
+      downloadCsv([header, ...rows], `${fileName}.csv`);
+      return;
+    }
 
+    const ws = XLSX.utils.aoa_to_sheet([header, ...rows]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "활동 기록");
+    XLSX.writeFile(wb, `${fileName}.xlsx`);
+  };
 
   const table = useReactTable({
-    data: (logs as TData[]) ?? [],
+    data: filteredLogs as TData[],
     columns,
     getCoreRowModel: getCoreRowModel(),
     onSortingChange: setSorting,
@@ -109,7 +208,7 @@ export function AuditLogsTable<TData, TValue>({
           <Table>
             <TableHeader>
               <TableRow>
-                {[...Array(4)].map((_, i) => (
+                {[...Array(columns.length)].map((_, i) => (
                   <TableHead key={i}>
                     <Skeleton className="h-6 w-full" />
                   </TableHead>
@@ -119,7 +218,7 @@ export function AuditLogsTable<TData, TValue>({
             <TableBody>
               {[...Array(pagination.pageSize)].map((_, i) => (
                 <TableRow key={i}>
-                  {[...Array(4)].map((_, j) => (
+                  {[...Array(columns.length)].map((_, j) => (
                     <TableCell key={j}>
                       <Skeleton className="h-6 w-full" />
                     </TableCell>
@@ -145,7 +244,7 @@ export function AuditLogsTable<TData, TValue>({
     );
   }
 
-  if (table.getCoreRowModel().rows.length === 0) {
+  if (logs.length === 0 && !from && !to) {
     return (
       <div className="flex flex-col items-center justify-center rounded-lg border border-dashed shadow-sm p-8 text-center h-[400px]">
         <ShieldCheck className="w-16 h-16 text-muted-foreground" />
@@ -159,6 +258,58 @@ export function AuditLogsTable<TData, TValue>({
 
   return (
     <div>
+      <div className="flex flex-wrap items-end gap-4 pb-4">
+        <div className="space-y-2">
+          <Label>작업</Label>
+          <Select value={actionFilter} onValueChange={setActionFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>전체</SelectItem>
+              {actionOptions.map(action => (
+                <SelectItem key={action} value={action}>{getAuditActionLabel(action)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>대상</Label>
+          <Select value={collectionFilter} onValueChange={setCollectionFilter}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>전체</SelectItem>
+              {collectionOptions.map(name => (
+                <SelectItem key={name} value={name}>{auditCollectionLabels[name] || name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auditEntityId">문서·계약·건물 ID</Label>
+          <Input id="auditEntityId" className="w-[220px]" placeholder="ID 일부 입력" value={entityIdFilter} onChange={(e) => setEntityIdFilter(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auditFrom">시작일</Label>
+          <Input id="auditFrom" type="date" className="w-[160px]" value={fromText} onChange={(e) => setFromText(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auditTo">종료일</Label>
+          <Input id="auditTo" type="date" className="w-[160px]" value={toText} onChange={(e) => setToText(e.target.value)} />
+        </div>
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={filteredLogs.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Excel
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={filteredLogs.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+        </div>
+      </div>
       <div className="rounded-md border">
         <Table>
           <TableHeader>
@@ -183,6 +334,8 @@ export function AuditLogsTable<TData, TValue>({
                 <TableRow
                   key={row.id}
                   data-state={row.getIsSelected() && "selected"}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedLog(row.original as AuditLog)}
                 >
                   {row.getVisibleCells().map((cell) => (
                     <TableCell key={cell.id}>
@@ -208,8 +361,14 @@ export function AuditLogsTable<TData, TValue>({
         </Table>
       </div>
       <div className="flex items-center justify-end space-x-2 py-4">
-        <div className="flex-1 text-sm text-muted-foreground">
-          총 {table.getFilteredRowModel().rows.length}개의 로그
+        <div className="flex flex-1 items-center gap-2 text-sm text-muted-foreground">
+          <span>불러온 {logs.length}개 중 {table.getFilteredRowModel().rows.length}개의 로그</span>
+          {hasMore && (
+            <Button variant="outline" size="sm" className="h-8" onClick={handleLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              이전 기록 더 불러오기
+            </Button>
+          )}
         </div>
         <div className="flex items-center space-x-2">
           <p className="text-sm font-medium">페이지당 행 수</p>
@@ -274,6 +433,7 @@ export function AuditLogsTable<TData, TValue>({
           </Button>
         </div>
       </div>
+      <AuditLogDetailSheet log={selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)} />
     </div>
   );
 }
@@ -5,31 +5,14 @@ import type { ColumnDef } from "@tanstack/react-table";
 import { formatDate } from "@/lib/utils";
 import { Timestamp } from "firebase/firestore";
 import { Badge } from "../ui/badge";
+import { AuditLogDetails, auditCollectionLabels, getAuditActionLabel } from "@/lib/audit-log";
 
-const actionTextMap: { [key: string]: string } = {
-  login: "로그인",
-  create_tenant: "임차인 생성",
-  update_tenant: "임차인 수정",
-  delete_tenant: "임차인 삭제",
-  create_building: "건물 생성",
-  update_building: "건물 수정",
-  delete_building: "건물 삭제",
-  create_payment: "납부 생성",
-  delete_payment: "납부 삭제",
-  update_rent_adjustment: "임대료 조정",
-};
-
-const actionVariantMap: { [key: string]: "default" | "secondary" | "destructive" } = {
-    login: "secondary",
-    create_tenant: "default",
-    create_building: "default",
-    create_payment: "default",
-    update_tenant: "default",
-    update_building: "default",
-    update_rent_adjustment: "default",
-    delete_tenant: "destructive",
-    delete_building: "destructive",
-    delete_payment: "destructive",
+// Creations and updates are "default", deletions and bulk data operations are "destructive".
+export function getActionVariant(action: string): "default" | "secondary" | "destructive" {
+  if (action === "login") return "secondary";
+  if (action.startsWith("delete_") || action === "restore_data" || action === "clear_data" || action === "revoke_user" || action === "remove_portfolio_member") return "destructive";
+  if (action.startsWith("create_") || action.startsWith("update_") || action === "approve_user" || action === "change_user_role" || action.includes("portfolio") || action === "sync_building_ids") return "default";
+  return "secondary";
 }
 
 
@@ -51,16 +34,36 @@ export const columns: ColumnDef<AuditLog>[] = [
     header: "작업",
     cell: ({ row }) => {
         const action = row.getValue("action") as string;
-        return <Badge variant={actionVariantMap[action] || "secondary"}>{actionTextMap[action] || action}</Badge>;
+        return <Badge variant={getActionVariant(action)}>{getAuditActionLabel(action)}</Badge>;
     }
   },
+  {
+    id: "target",
+    header: "대상",
+    cell: ({ row }) => {
+      const details = row.original.details as AuditLogDetails | undefined;
+      if (!details?.collection) return "-";
+      return (
+        <div>
+          <div>{auditCollectionLabels[details.collection] || details.collection}</div>
+          {details.documentId && <div className="text-xs text-muted-foreground font-mono">{details.documentId}</div>}
+        </div>
+      );
+    },
+  },
   {
     accessorKey: "details",
     header: "상세 정보",
     cell: ({ row }) => {
-      const details = row.getValue("details") as Record<string, any> | undefined;
+      const details = row.getValue("details") as AuditLogDetails | undefined;
       if (!details) return "N/A";
-      return <pre className="text-xs bg-muted p-2 rounded-md">{JSON.stringify(details, null, 2)}</pre>;
+      const fields = Object.keys(details.changes || {});
+      if (fields.length === 0) return <span className="text-xs text-muted-foreground">상세 보기</span>;
+      return (
+        <span className="text-xs text-muted-foreground">
+          {fields.slice(0, 3).join(', ')}{fields.length > 3 ? ` 외 ${fields.length - 3}개` : ''} 변경
+        </span>
+      );
     },
   },
 ];
@@ -65,6 +65,7 @@ export function SignUpForm() {
               email: user.email,
               displayName: displayName,
               isApproved: false, // Default to not approved
+              role: 'member',
             });
             
             // Now everything is set up, trigger the redirect and toast
@@ -1,10 +1,13 @@
 'use client';
 
 import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { canEditPortfolioData } from '@/lib/portfolio';
 import { Building, LeaseAgreement } from '@/lib/types';
 import { collection, query, where, doc, getDocs } from 'firebase/firestore';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertTriangle, Home, Trash2 } from 'lucide-react';
+import { AlertTriangle, CalendarRange, Gauge, Home, Receipt, Trash2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { Skeleton } from '../ui/skeleton';
 import { Button } from '../ui/button';
@@ -26,6 +29,8 @@ import Link from 'next/link';
 
 export function BuildingsList() {
   const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const canEdit = canEditPortfolioData(membership);
   const { toast } = useToast();
   
   const [buildings, setBuildings] = useState<Building[]>([]);
@@ -35,12 +40,12 @@ export function BuildingsList() {
 
   useEffect(() => {
     async function fetchData() {
-        if (!firestore || !user) return;
+        if (!firestore || !user || !membership) return;
         setIsLoading(true);
         setError(null);
         try {
-            const buildingsQuery = query(collection(firestore, 'buildings'), where('ownerId', '==', user.uid));
-            const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('ownerId', '==', user.uid));
+            const buildingsQuery = query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'));
+            const leasesQuery = query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership));
             
             const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
                 getDocs(buildingsQuery),
@@ -60,7 +65,7 @@ export function BuildingsList() {
         }
     }
     fetchData();
-  }, [firestore, user]);
+  }, [firestore, user, membership]);
 
 
   const tenantCountByBuilding = useMemo(() => {
@@ -135,31 +140,57 @@ export function BuildingsList() {
                         <CardTitle>{building.name}</CardTitle>
                         <CardDescription>{building.address}</CardDescription>
                     </Link>
-                     <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                            <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive w-auto px-2 h-auto py-1 absolute top-4 right-4">
-                                <Trash2 className="h-4 w-4" />
-                            </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                            <AlertDialogHeader>
-                                <AlertDialogTitle>정말 삭제하시겠습니까?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                    '삭제'를 클릭하면 {building.name} 건물이 영구적으로 삭제됩니다. 이 작업은 되돌릴 수 없습니다.
-                                </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                                <AlertDialogCancel>취소</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => handleDeleteBuilding(building.id, building.name)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-                                    삭제
-                                </AlertDialogAction>
-                            </AlertDialogFooter>
-                        </AlertDialogContent>
-                    </AlertDialog>
+                    {canEdit && (
+                      <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive w-auto px-2 h-auto py-1 absolute top-4 right-4">
+                                  <Trash2 className="h-4 w-4" />
+                              </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                              <AlertDialogHeader>
+                                  <AlertDialogTitle>정말 삭제하시겠습니까?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                      '삭제'를 클릭하면 {building.name} 건물이 영구적으로 삭제됩니다. 이 작업은 되돌릴 수 없습니다.
+                                  </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                  <AlertDialogCancel>취소</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDeleteBuilding(building.id, building.name)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                                      삭제
+                                  </AlertDialogAction>
+                              </AlertDialogFooter>
+                          </AlertDialogContent>
+                      </AlertDialog>
+                    )}
                 </CardHeader>
                 <CardContent>
                     <p className="text-sm text-muted-foreground">임차인: {tenantCountByBuilding[building.id] || 0}명</p>
                     <p className="text-sm text-muted-foreground">호실: {building.units?.length || 0}개</p>
+                    <div className="mt-4 flex flex-wrap gap-2">
+                        <Button asChild variant="outline" size="sm">
+                            <Link href={`/buildings/${building.id}/timeline`}>
+                                <CalendarRange className="mr-2 h-4 w-4" />
+                                입주 현황
+                            </Link>
+                        </Button>
+                        {canEdit && (
+                          <>
+                            <Button asChild variant="outline" size="sm">
+                                <Link href={`/buildings/${building.id}/maintenance-fees`}>
+                                    <Receipt className="mr-2 h-4 w-4" />
+                                    관리비 관리
+                                </Link>
+                            </Button>
+                            <Button asChild variant="outline" size="sm">
+                                <Link href={`/buildings/${building.id}/meter-readings`}>
+                                    <Gauge className="mr-2 h-4 w-4" />
+                                    검침 관리
+                                </Link>
+                            </Button>
+                          </>
+                        )}
+                    </div>
                 </CardContent>
             </div>
         </Card>
@@ -21,23 +21,30 @@ import {
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { canEditPortfolioData } from '@/lib/portfolio';
 import { updateDocumentNonBlocking } from '@/firebase/non-blocking-updates';
 import { doc, getDoc } from 'firebase/firestore';
 import { Skeleton } from '../ui/skeleton';
 import { Building } from '@/lib/types';
 import { PlusCircle, Trash2 } from 'lucide-react';
 import { Separator } from '../ui/separator';
+import { BusinessInfoFields } from '../business-info-fields';
+import { businessInfoSchema, emptyBusinessInfo } from '@/lib/business-info';
 
 const unitSchema = z.object({
   id: z.string(),
   name: z.string().min(1, { message: '호실 이름을 입력해주세요.' }),
   area: z.coerce.number().min(0, { message: '면적은 0 이상이어야 합니다.' }),
+  marketRent: z.coerce.number().min(0, { message: '시장 임대료는 0 이상이어야 합니다.' }).optional().default(0),
 });
 
 const formSchema = z.object({
   name: z.string().min(1, { message: '건물 이름을 입력해주세요.' }),
   address: z.string().min(1, { message: '주소를 입력해주세요.' }),
+  bankAccount: z.string().optional().default(''),
   units: z.array(unitSchema).optional(),
+  businessInfo: businessInfoSchema,
 });
 
 type EditBuildingFormProps = {
@@ -48,6 +55,8 @@ export function EditBuildingForm({ buildingId }: EditBuildingFormProps) {
   const { toast } = useToast();
   const router = useRouter();
   const { firestore, user } = useFirebase();
+  // Guests see the building read-only.
+  const canEdit = canEditPortfolioData(usePortfolio()?.membership);
   const [isLoadingBuilding, setIsLoadingBuilding] = useState(true);
 
   const form = useForm<z.infer<typeof formSchema>>({
@@ -55,7 +64,9 @@ export function EditBuildingForm({ buildingId }: EditBuildingFormProps) {
     defaultValues: {
       name: '',
       address: '',
+      bankAccount: '',
       units: [],
+      businessInfo: emptyBusinessInfo,
     },
   });
 
@@ -71,7 +82,9 @@ export function EditBuildingForm({ buildingId }: EditBuildingFormProps) {
           form.reset({
             name: building.name,
             address: building.address,
-            units: building.units || [],
+            bankAccount: building.bankAccount || '',
+            units: (building.units || []).map(unit => ({ ...unit, marketRent: unit.marketRent || 0 })),
+            businessInfo: { ...emptyBusinessInfo, ...building.businessInfo },
           });
         }
       } catch (error) {
@@ -146,91 +159,142 @@ export function EditBuildingForm({ buildingId }: EditBuildingFormProps) {
         <form onSubmit={form.handleSubmit(onSubmit)}>
           <CardHeader>
             <CardTitle>건물 정보</CardTitle>
-            <CardDescription>건물의 이름, 주소 및 호실 목록을 관리하세요.</CardDescription>
+            <CardDescription>
+              {canEdit ? '건물의 이름, 주소 및 호실 목록을 관리하세요.' : '건물의 이름, 주소 및 호실 목록입니다. 읽기 전용 권한으로는 수정할 수 없습니다.'}
+            </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-8">
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>건물 이름</FormLabel>
-                  <FormControl>
-                    <Input placeholder="예: 스타워크 빌딩" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="address"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>건물 주소</FormLabel>
-                  <FormControl>
-                    <Input placeholder="예: 서울특별시 강남구 테헤란로 427" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <Separator />
-
-            <div>
-              <h3 className="text-lg font-medium mb-4">호실 관리</h3>
-              <div className="space-y-4">
-                {fields.map((field, index) => (
-                  <div key={field.id} className="flex items-center gap-2">
-                    <FormField
-                      control={form.control}
-                      name={`units.${index}.name`}
-                      render={({ field }) => (
-                        <FormItem className="flex-1">
-                           <FormLabel className="sr-only">호실 이름</FormLabel>
-                          <FormControl>
-                            <Input placeholder={`예: ${101 + index}호`} {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name={`units.${index}.area`}
-                      render={({ field }) => (
-                        <FormItem>
-                           <FormLabel className="sr-only">면적</FormLabel>
-                          <FormControl>
-                            <div className="relative">
-                               <Input type="number" className="w-28 pr-8" placeholder="면적" {...field} />
-                               <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">㎡</span>
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
+          <CardContent>
+            <fieldset disabled={!canEdit} className="space-y-8">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>건물 이름</FormLabel>
+                    <FormControl>
+                      <Input placeholder="예: 스타워크 빌딩" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>건물 주소</FormLabel>
+                    <FormControl>
+                      <Input placeholder="예: 서울특별시 강남구 테헤란로 427" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bankAccount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>임대료 입금 계좌</FormLabel>
+                    <FormControl>
+                      <Input placeholder="예: 국민은행 123456-01-234567 (예금주 홍길동)" {...field} />
+                    </FormControl>
+                    <FormDescription>미납 안내 메시지의 {'{계좌}'} 자리에 표시됩니다.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Separator />
+
+              <div>
+                <h3 className="text-lg font-medium">호실 관리</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  호실별 면적과 월 시장 임대료를 입력하세요. 시장 임대료는 공실 손실 추정에 사용되며, 비워 두면 마지막 계약의 임대료를 사용합니다.
+                </p>
+                <div className="space-y-4">
+                  {fields.map((field, index) => (
+                    <div key={field.id} className="flex items-center gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`units.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                             <FormLabel className="sr-only">호실 이름</FormLabel>
+                            <FormControl>
+                              <Input placeholder={`예: ${101 + index}호`} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`units.${index}.area`}
+                        render={({ field }) => (
+                          <FormItem>
+                             <FormLabel className="sr-only">면적</FormLabel>
+                            <FormControl>
+                              <div className="relative">
+                                 <Input type="number" className="w-28 pr-8" placeholder="면적" {...field} />
+                                 <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">㎡</span>
+                              </div>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`units.${index}.marketRent`}
+                        render={({ field }) => (
+                          <FormItem>
+                             <FormLabel className="sr-only">시장 임대료</FormLabel>
+                            <FormControl>
+                              <div className="relative">
+                                 <Input type="number" className="w-40 pr-8" placeholder="시장 임대료" title="공실 손실 추정에 쓰는 월 시장 임대료 (0이면 마지막 계약 임대료 사용)" {...field} />
+                                 <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">원</span>
+                              </div>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {canEdit && (
+                        <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
                       )}
-                    />
-                    <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  </div>
-                ))}
+                    </div>
+                  ))}
+                </div>
+                {canEdit && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-4"
+                    onClick={() => append({ id: uuidv4(), name: '', area: 0, marketRent: 0 })}
+                  >
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    호실 추가
+                  </Button>
+                )}
               </div>
-               <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  className="mt-4"
-                  onClick={() => append({ id: uuidv4(), name: '', area: 0 })}
-                >
-                  <PlusCircle className="mr-2 h-4 w-4" />
-                  호실 추가
-                </Button>
-            </div>
-
-            <Button type="submit">건물 정보 저장</Button>
+
+              <Separator />
+
+              <div>
+                <h3 className="text-lg font-medium">임대인 사업자 정보</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  세금계산서 발급 시 공급자 정보로 사용됩니다.
+                </p>
+                <BusinessInfoFields name="businessInfo" />
+              </div>
+
+              {canEdit && <Button type="submit">건물 정보 저장</Button>}
+            </fieldset>
           </CardContent>
         </form>
       </Form>
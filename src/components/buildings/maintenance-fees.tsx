@@ -0,0 +1,421 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useFirebase, errorEmitter, FirestorePermissionError } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { doc, collection, query, where, getDocs, getDoc, Timestamp } from 'firebase/firestore';
+import { Building, LeaseAgreement, MaintenanceFee } from '@/lib/types';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { format as formatDateFns, parse, startOfMonth } from 'date-fns';
+import { AlertTriangle, Loader2, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { getBuildingArea, getLeasedArea, getMaintenanceFeeMethod, getMaintenanceFeeShare, maintenanceFeeMethodLabels } from '@/lib/maintenance-fee';
+import { saveMaintenanceFee, deleteMaintenanceFee } from '@/firebase/non-blocking-updates';
+
+const maintenanceFeeFormSchema = z.object({
+  billingMonth: z.string().regex(/^\d{4}-\d{2}$/, { message: '부과 월을 선택해주세요.' }),
+  totalAmount: z.preprocess(
+    (val) => (typeof val === 'string' ? val.replace(/,/g, '') : val),
+    z.coerce.number().min(1, { message: '관리비 총액을 1원 이상 입력해주세요.' })
+  ),
+  notes: z.string().optional(),
+});
+
+function MaintenanceFeeDialog({
+  building,
+  fee,
+  existingMonths,
+  triggerButton,
+  onSave,
+}: {
+  building: Building;
+  fee?: MaintenanceFee;
+  existingMonths: string[];
+  triggerButton: React.ReactNode;
+  onSave: () => void;
+}) {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const defaultValues = useMemo(() => ({
+    billingMonth: formatDateFns(fee ? toDate(fee.billingMonth) : new Date(), 'yyyy-MM'),
+    totalAmount: fee?.totalAmount || 0,
+    notes: fee?.notes || '',
+  }), [fee]);
+
+  const form = useForm<z.infer<typeof maintenanceFeeFormSchema>>({
+    resolver: zodResolver(maintenanceFeeFormSchema),
+    defaultValues,
+  });
+
+  useEffect(() => {
+    form.reset(defaultValues);
+  }, [form, defaultValues, isOpen]);
+
+  const onSubmit = async (data: z.infer<typeof maintenanceFeeFormSchema>) => {
+    if (!firestore || !user || !portfolioId) return;
+
+    const isMonthChanged = !fee || formatDateFns(toDate(fee.billingMonth), 'yyyy-MM') !== data.billingMonth;
+    if (isMonthChanged && existingMonths.includes(data.billingMonth)) {
+      form.setError('billingMonth', { message: '이미 관리비가 등록된 월입니다.' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const billingMonth = startOfMonth(parse(data.billingMonth, 'yyyy-MM', new Date()));
+
+    try {
+      await saveMaintenanceFee(firestore, {
+        id: fee?.id || uuidv4(),
+        portfolioId,
+        buildingId: building.id,
+        billingMonth: Timestamp.fromDate(billingMonth),
+        totalAmount: data.totalAmount,
+        notes: data.notes || '',
+      });
+      toast({ title: '관리비 저장됨', description: `${formatDateFns(billingMonth, 'yyyy년 M월')} 관리비가 저장되었습니다.` });
+      onSave();
+      setIsOpen(false);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '관리비를 저장하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{triggerButton}</DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{fee ? '관리비 수정' : '월 관리비 추가'}</DialogTitle>
+          <DialogDescription>
+            {building.name}의 월 관리비 총액을 입력합니다. 면적 비율 배분 계약에 호실 면적 비율로 배분됩니다.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="billingMonth">부과 월</Label>
+            <Input id="billingMonth" type="month" {...form.register('billingMonth')} />
+            {form.formState.errors.billingMonth && <p className="text-sm font-medium text-destructive">{form.formState.errors.billingMonth.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="totalAmount">관리비 총액 (원)</Label>
+            <Controller
+              name="totalAmount"
+              control={form.control}
+              render={({ field }) => (
+                <Input
+                  id="totalAmount"
+                  type="text"
+                  value={new Intl.NumberFormat('ko-KR').format(field.value || 0)}
+                  onChange={(e) => {
+                    const rawValue = e.target.value.replace(/,/g, '');
+                    if (/^\d*$/.test(rawValue)) {
+                      field.onChange(Number(rawValue));
+                    }
+                  }}
+                />
+              )}
+            />
+            {form.formState.errors.totalAmount && <p className="text-sm font-medium text-destructive">{form.formState.errors.totalAmount.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="feeNotes">비고</Label>
+            <Textarea id="feeNotes" placeholder="예: 난방비 포함" {...form.register('notes')} />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              저장
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function MaintenanceFees({ buildingId }: { buildingId: string }) {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [building, setBuilding] = useState<Building | null>(null);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [fees, setFees] = useState<MaintenanceFee[]>([]);
+  const [selectedFeeId, setSelectedFeeId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !portfolioId || !buildingId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const buildingDocRef = doc(firestore, 'buildings', buildingId);
+        const buildingSnapshot = await getDoc(buildingDocRef);
+
+        if (!buildingSnapshot.exists()) {
+          throw new Error("건물 정보를 찾을 수 없습니다.");
+        }
+
+        if (buildingSnapshot.data()?.portfolioId !== portfolioId) {
+          const permissionError = new FirestorePermissionError({
+            path: buildingDocRef.path,
+            operation: 'get',
+          });
+          errorEmitter.emit('permission-error', permissionError);
+          throw permissionError;
+        }
+
+        setBuilding({ id: buildingSnapshot.id, ...buildingSnapshot.data() } as Building);
+
+        const [leasesSnapshot, feesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId), where('buildingId', '==', buildingId))),
+          getDocs(query(collection(firestore, 'maintenanceFees'), where('portfolioId', '==', portfolioId), where('buildingId', '==', buildingId))),
+        ]);
+
+        const fetchedFees = feesSnapshot.docs
+          .map(doc => ({ id: doc.id, ...doc.data() }) as MaintenanceFee)
+          .sort((a, b) => toDate(b.billingMonth).getTime() - toDate(a.billingMonth).getTime());
+
+        setLeases(leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement));
+        setFees(fetchedFees);
+        setSelectedFeeId(prev => fetchedFees.some(f => f.id === prev) ? prev : fetchedFees[0]?.id || null);
+      } catch (e: any) {
+        console.error('Failed to load maintenance fees:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, portfolioId, buildingId, triggerFetch]);
+
+  const allocationsByFee = useMemo(() => {
+    const allocations = new Map<string, { lease: LeaseAgreement; area: number; amount: number; notes?: string }[]>();
+    fees.forEach(fee => {
+      allocations.set(fee.id, leases.flatMap(lease => {
+        const share = getMaintenanceFeeShare(lease, building, fee);
+        return share ? [{ lease, area: getLeasedArea(lease, building), amount: share.amount, notes: share.notes }] : [];
+      }));
+    });
+    return allocations;
+  }, [fees, leases, building]);
+
+  const handleDelete = async (fee: MaintenanceFee) => {
+    if (!firestore) return;
+    try {
+      await deleteMaintenanceFee(firestore, fee.id);
+      toast({ title: '관리비 삭제됨', description: `${formatDateFns(toDate(fee.billingMonth), 'yyyy년 M월')} 관리비가 삭제되었습니다.` });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '삭제 실패', description: '관리비를 삭제하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[400px] w-full" />;
+  }
+
+  if (error || !building) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">
+          {error || '건물 정보를 불러올 수 없습니다.'}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const buildingArea = getBuildingArea(building);
+  const existingMonths = fees.map(f => formatDateFns(toDate(f.billingMonth), 'yyyy-MM'));
+  const selectedFee = fees.find(f => f.id === selectedFeeId) || null;
+  const selectedAllocations = selectedFee ? allocationsByFee.get(selectedFee.id) || [] : [];
+  const selectedAllocatedTotal = selectedAllocations.reduce((sum, a) => sum + a.amount, 0);
+  const refresh = () => setTriggerFetch(v => v + 1);
+
+  return (
+    <div className="space-y-6">
+      {buildingArea <= 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>호실 면적 없음</AlertTitle>
+          <AlertDescription>
+            호실 면적이 입력되지 않아 관리비를 면적 비율로 배분할 수 없습니다. 건물 정보에서 호실 면적을 입력하세요.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="text-xl">{building.name} 월 관리비</CardTitle>
+            <CardDescription>건물 전체 면적 {buildingArea}㎡ 기준으로 면적 비율 배분 계약에 배분됩니다.</CardDescription>
+          </div>
+          <MaintenanceFeeDialog
+            building={building}
+            existingMonths={existingMonths}
+            onSave={refresh}
+            triggerButton={
+              <Button size="sm">
+                <PlusCircle className="mr-2 h-4 w-4" />
+                월 관리비 추가
+              </Button>
+            }
+          />
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>부과 월</TableHead>
+                <TableHead className="text-right">관리비 총액</TableHead>
+                <TableHead className="text-right">임차인 배분액</TableHead>
+                <TableHead className="text-right">공실 부담액</TableHead>
+                <TableHead>비고</TableHead>
+                <TableHead className="w-[80px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fees.length > 0 ? fees.map(fee => {
+                const allocatedTotal = (allocationsByFee.get(fee.id) || []).reduce((sum, a) => sum + a.amount, 0);
+                return (
+                  <TableRow
+                    key={fee.id}
+                    className={cn("cursor-pointer", fee.id === selectedFeeId && "bg-muted/50")}
+                    onClick={() => setSelectedFeeId(fee.id)}
+                  >
+                    <TableCell>{formatDateFns(toDate(fee.billingMonth), 'yyyy년 M월')}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(fee.totalAmount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(allocatedTotal)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{formatCurrency(fee.totalAmount - allocatedTotal)}</TableCell>
+                    <TableCell className="text-xs">{fee.notes}</TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <div className="flex gap-1">
+                        <MaintenanceFeeDialog
+                          building={building}
+                          fee={fee}
+                          existingMonths={existingMonths}
+                          onSave={refresh}
+                          triggerButton={
+                            <Button variant="ghost" size="icon" className="h-6 w-6">
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                          }
+                        />
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-6 w-6">
+                              <Trash2 className="h-3 w-3 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>정말 삭제하시겠습니까?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                이 달의 관리비를 삭제하면 각 임차인 원장에서도 해당 관리비 청구가 사라집니다.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>취소</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(fee)} className="bg-destructive hover:bg-destructive/90">삭제</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">등록된 관리비가 없습니다.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedFee && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">{formatDateFns(toDate(selectedFee.billingMonth), 'yyyy년 M월')} 배분 내역</CardTitle>
+            <CardDescription>
+              월 고정 금액 또는 부과 안 함으로 설정된 계약은 배분 대상에서 제외됩니다.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>임차인</TableHead>
+                  <TableHead className="text-right">면적</TableHead>
+                  <TableHead className="text-right">배분액</TableHead>
+                  <TableHead>비고</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedAllocations.length > 0 ? selectedAllocations.map(({ lease, area, amount, notes }) => (
+                  <TableRow key={lease.id}>
+                    <TableCell>{lease.tenantName}</TableCell>
+                    <TableCell className="text-right">{area}㎡</TableCell>
+                    <TableCell className="text-right">{formatCurrency(amount)}</TableCell>
+                    <TableCell className="text-xs">{notes}</TableCell>
+                  </TableRow>
+                )) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="h-24 text-center">이 달에 배분 대상 계약이 없습니다.</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2} className="font-bold">합계</TableCell>
+                  <TableCell className="text-right font-bold">{formatCurrency(selectedAllocatedTotal)}</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+            {leases.some(l => getMaintenanceFeeMethod(l) !== 'area') && (
+              <p className="mt-4 text-xs text-muted-foreground">
+                배분 제외 계약: {leases.filter(l => getMaintenanceFeeMethod(l) !== 'area').map(l => `${l.tenantName} (${maintenanceFeeMethodLabels[getMaintenanceFeeMethod(l)]})`).join(', ')}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
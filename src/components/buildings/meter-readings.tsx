@@ -0,0 +1,402 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useFirebase, errorEmitter, FirestorePermissionError } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { doc, collection, query, where, getDocs, getDoc, Timestamp } from 'firebase/firestore';
+import { Building, LeaseAgreement, MeterReading, UtilityType } from '@/lib/types';
+import { v4 as uuidv4 } from 'uuid';
+import { format as formatDateFns, isSameMonth, parse, startOfMonth } from 'date-fns';
+import { AlertTriangle, Loader2, Save, Trash2 } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { getActiveDaysInMonth } from '@/lib/maintenance-fee';
+import { UNUSUAL_USAGE_RATIO, calculateMeterUsages, getPreviousReading, utilityTypeLabels, utilityUnitLabels } from '@/lib/utility-billing';
+import { saveMeterReadings, deleteMeterReading } from '@/firebase/non-blocking-updates';
+
+const formatNumber = (value: number) => new Intl.NumberFormat('ko-KR').format(value);
+
+export function MeterReadings({ buildingId }: { buildingId: string }) {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [building, setBuilding] = useState<Building | null>(null);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [readings, setReadings] = useState<MeterReading[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+
+  const [utilityType, setUtilityType] = useState<UtilityType>('electricity');
+  const [readingMonthText, setReadingMonthText] = useState(formatDateFns(new Date(), 'yyyy-MM'));
+  const [tariffText, setTariffText] = useState('');
+  const [entries, setEntries] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !portfolioId || !buildingId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const buildingDocRef = doc(firestore, 'buildings', buildingId);
+        const buildingSnapshot = await getDoc(buildingDocRef);
+
+        if (!buildingSnapshot.exists()) {
+          throw new Error("건물 정보를 찾을 수 없습니다.");
+        }
+
+        if (buildingSnapshot.data()?.portfolioId !== portfolioId) {
+          const permissionError = new FirestorePermissionError({
+            path: buildingDocRef.path,
+            operation: 'get',
+          });
+          errorEmitter.emit('permission-error', permissionError);
+          throw permissionError;
+        }
+
+        setBuilding({ id: buildingSnapshot.id, ...buildingSnapshot.data() } as Building);
+
+        const [leasesSnapshot, readingsSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId), where('buildingId', '==', buildingId))),
+          getDocs(query(collection(firestore, 'meterReadings'), where('portfolioId', '==', portfolioId), where('buildingId', '==', buildingId))),
+        ]);
+
+        setLeases(leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement));
+        setReadings(readingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as MeterReading));
+      } catch (e: any) {
+        console.error('Failed to load meter readings:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, portfolioId, buildingId, triggerFetch]);
+
+  const readingMonth = useMemo(() => {
+    const parsed = parse(readingMonthText, 'yyyy-MM', new Date());
+    return isNaN(parsed.getTime()) ? null : startOfMonth(parsed);
+  }, [readingMonthText]);
+
+  const utilityReadings = useMemo(() => readings.filter(r => r.utilityType === utilityType), [readings, utilityType]);
+
+  // Pre-fill the sheet with the readings already saved for the selected month, and the tariff last used.
+  useEffect(() => {
+    if (!readingMonth) return;
+    const monthReadings = utilityReadings.filter(r => isSameMonth(toDate(r.readingMonth), readingMonth));
+    setEntries(Object.fromEntries(monthReadings.map(r => [r.unitId, String(r.reading)])));
+
+    const latest = [...utilityReadings].sort((a, b) => toDate(b.readingMonth).getTime() - toDate(a.readingMonth).getTime())[0];
+    const tariff = monthReadings[0]?.tariff ?? latest?.tariff;
+    setTariffText(tariff !== undefined ? String(tariff) : '');
+  }, [utilityReadings, readingMonth]);
+
+  const usages = useMemo(() => calculateMeterUsages(utilityReadings), [utilityReadings]);
+
+  const unitOccupants = useMemo(() => {
+    const occupants = new Map<string, string[]>();
+    if (!readingMonth) return occupants;
+    leases.forEach(lease => {
+      if (getActiveDaysInMonth(lease, readingMonth) <= 0) return;
+      (lease.unitIds || []).forEach(unitId => {
+        occupants.set(unitId, [...(occupants.get(unitId) || []), lease.tenantName]);
+      });
+    });
+    return occupants;
+  }, [leases, readingMonth]);
+
+  const tariff = Number(tariffText.replace(/,/g, '')) || 0;
+
+  const sheetRows = useMemo(() => {
+    if (!building || !readingMonth) return [];
+    return (building.units || []).map(unit => {
+      const meter = { unitId: unit.id, utilityType };
+      const previous = getPreviousReading(utilityReadings, meter, readingMonth);
+      const rawValue = entries[unit.id];
+      const current = rawValue !== undefined && rawValue !== '' ? Number(rawValue.replace(/,/g, '')) : null;
+      const usage = current !== null && previous ? current - previous.reading : null;
+
+      const history = usages
+        .filter(u => u.reading.unitId === unit.id && u.usage !== null && u.usage >= 0 && toDate(u.reading.readingMonth) < readingMonth)
+        .slice(-3);
+      const averageUsage = history.length > 0 ? history.reduce((sum, u) => sum + (u.usage || 0), 0) / history.length : null;
+
+      return {
+        unit,
+        previous,
+        current,
+        usage,
+        amount: usage !== null && usage > 0 ? Math.round(usage * tariff) : 0,
+        averageUsage,
+        isBelowPrevious: usage !== null && usage < 0,
+        isUnusual: usage !== null && averageUsage !== null && averageUsage > 0 && usage > averageUsage * UNUSUAL_USAGE_RATIO,
+      };
+    });
+  }, [building, readingMonth, utilityType, utilityReadings, usages, entries, tariff]);
+
+  const handleSave = async () => {
+    if (!firestore || !user || !portfolioId || !building || !readingMonth) return;
+
+    const rowsToSave = sheetRows.filter(row => row.current !== null);
+    if (rowsToSave.length === 0) {
+      toast({ variant: 'destructive', title: '저장할 검침값 없음', description: '하나 이상의 호실에 검침값을 입력해주세요.' });
+      return;
+    }
+    if (rowsToSave.some(row => row.isBelowPrevious)) {
+      toast({ variant: 'destructive', title: '검침값 오류', description: '전월 지침보다 작은 검침값이 있습니다. 입력값을 확인해주세요.' });
+      return;
+    }
+
+    setIsSaving(true);
+    const monthReadings = utilityReadings.filter(r => isSameMonth(toDate(r.readingMonth), readingMonth));
+
+    try {
+      await saveMeterReadings(firestore, rowsToSave.map(row => ({
+        id: monthReadings.find(r => r.unitId === row.unit.id)?.id || uuidv4(),
+        portfolioId,
+        buildingId: building.id,
+        unitId: row.unit.id,
+        utilityType,
+        readingMonth: Timestamp.fromDate(readingMonth),
+        reading: row.current!,
+        tariff,
+      })));
+
+      const unusualCount = rowsToSave.filter(row => row.isUnusual).length;
+      toast({
+        title: '검침값 저장됨',
+        description: `${rowsToSave.length}개 호실의 ${utilityTypeLabels[utilityType]} 검침값이 저장되었습니다.${unusualCount > 0 ? ` 사용량 급증 ${unusualCount}건을 확인하세요.` : ''}`,
+      });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '검침값을 저장하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (reading: MeterReading) => {
+    if (!firestore) return;
+    try {
+      await deleteMeterReading(firestore, reading.id);
+      toast({ title: '검침값 삭제됨', description: '선택한 검침값이 삭제되었습니다.' });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '삭제 실패', description: '검침값을 삭제하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error || !building) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">
+          {error || '건물 정보를 불러올 수 없습니다.'}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const unitLabel = utilityUnitLabels[utilityType];
+  const unitNameById = new Map((building.units || []).map(u => [u.id, u.name]));
+  const hasWarnings = sheetRows.some(row => row.isBelowPrevious || row.isUnusual);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">{building.name} 검침 입력</CardTitle>
+          <CardDescription>
+            호실별 누적 지침을 입력하면 전월 지침과의 차이에 단가를 곱한 금액이 해당 월에 호실을 사용한 임차인의 원장에 청구됩니다.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>구분</Label>
+              <Select value={utilityType} onValueChange={(value) => setUtilityType(value as UtilityType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(utilityTypeLabels) as UtilityType[]).map(type => (
+                    <SelectItem key={type} value={type}>{utilityTypeLabels[type]} ({utilityUnitLabels[type]})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="readingMonth">검침 월</Label>
+              <Input id="readingMonth" type="month" value={readingMonthText} onChange={(e) => setReadingMonthText(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tariff">단가 (원/{unitLabel})</Label>
+              <Input
+                id="tariff"
+                type="text"
+                inputMode="decimal"
+                placeholder="0"
+                value={tariffText}
+                onChange={(e) => {
+                  if (/^[\d.]*$/.test(e.target.value)) setTariffText(e.target.value);
+                }}
+              />
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>호실</TableHead>
+                <TableHead>사용 임차인</TableHead>
+                <TableHead className="text-right">전월 지침</TableHead>
+                <TableHead className="w-[160px]">당월 지침</TableHead>
+                <TableHead className="text-right">사용량</TableHead>
+                <TableHead className="text-right">금액</TableHead>
+                <TableHead>확인</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sheetRows.length > 0 ? sheetRows.map(row => (
+                <TableRow key={row.unit.id} className={cn(row.isBelowPrevious && "bg-red-50 dark:bg-red-900/20", row.isUnusual && "bg-yellow-50 dark:bg-yellow-900/20")}>
+                  <TableCell>{row.unit.name}</TableCell>
+                  <TableCell className="text-xs">{(unitOccupants.get(row.unit.id) || []).join(', ') || <span className="text-muted-foreground">공실</span>}</TableCell>
+                  <TableCell className="text-right">{row.previous ? formatNumber(row.previous.reading) : '-'}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      className="h-8"
+                      value={entries[row.unit.id] ?? ''}
+                      onChange={(e) => {
+                        const value = e.target.value.replace(/,/g, '');
+                        if (/^[\d.]*$/.test(value)) setEntries(prev => ({ ...prev, [row.unit.id]: value }));
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">{row.usage !== null ? `${formatNumber(row.usage)}${unitLabel}` : ''}</TableCell>
+                  <TableCell className="text-right">{row.amount > 0 ? formatCurrency(row.amount) : ''}</TableCell>
+                  <TableCell className="text-xs">
+                    {row.isBelowPrevious && <Badge variant="destructive">전월보다 작음</Badge>}
+                    {row.isUnusual && (
+                      <Badge variant="outline" className="border-yellow-500 text-yellow-700">
+                        급증 (평균 {formatNumber(Math.round(row.averageUsage!))}{unitLabel})
+                      </Badge>
+                    )}
+                    {row.current !== null && !row.previous && <span className="text-muted-foreground">최초 검침 (청구 없음)</span>}
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">등록된 호실이 없습니다.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          {hasWarnings && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>검침값 확인 필요</AlertTitle>
+              <AlertDescription>
+                전월 지침보다 작은 값은 저장할 수 없습니다. 사용량이 최근 평균의 {UNUSUAL_USAGE_RATIO}배를 넘는 호실은 누수나 오검침 여부를 확인하세요.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={isSaving || !readingMonth}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              검침값 저장
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">{utilityTypeLabels[utilityType]} 검침 이력</CardTitle>
+          <CardDescription>호실별 검침값과 사용량, 청구 금액입니다.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>검침 월</TableHead>
+                <TableHead>호실</TableHead>
+                <TableHead className="text-right">지침</TableHead>
+                <TableHead className="text-right">사용량</TableHead>
+                <TableHead className="text-right">단가</TableHead>
+                <TableHead className="text-right">금액</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {usages.length > 0 ? [...usages].reverse().map(({ reading, usage, amount, isUnusual }) => (
+                <TableRow key={reading.id} className={cn(isUnusual && "bg-yellow-50 dark:bg-yellow-900/20")}>
+                  <TableCell>{formatDateFns(toDate(reading.readingMonth), 'yyyy년 M월')}</TableCell>
+                  <TableCell>{unitNameById.get(reading.unitId) || reading.unitId}</TableCell>
+                  <TableCell className="text-right">{formatNumber(reading.reading)}</TableCell>
+                  <TableCell className="text-right">{usage !== null ? `${formatNumber(usage)}${unitLabel}` : '최초 검침'}</TableCell>
+                  <TableCell className="text-right">{formatNumber(reading.tariff)}</TableCell>
+                  <TableCell className="text-right">{amount > 0 ? formatCurrency(amount) : ''}</TableCell>
+                  <TableCell>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-6 w-6">
+                          <Trash2 className="h-3 w-3 text-destructive" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>정말 삭제하시겠습니까?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            이 검침값을 삭제하면 해당 월과 다음 월의 사용량이 다시 계산되고, 임차인 원장의 공과금 청구도 바뀝니다.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>취소</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleDelete(reading)} className="bg-destructive hover:bg-destructive/90">삭제</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">검침 이력이 없습니다.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
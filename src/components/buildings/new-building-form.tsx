@@ -19,6 +19,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
 import { addDocumentNonBlocking } from '@/firebase/non-blocking-updates';
 import { collection, doc } from 'firebase/firestore';
 import { v4 as uuidv4 } from 'uuid';
@@ -32,6 +33,7 @@ export function NewBuildingForm() {
   const { toast } = useToast();
   const router = useRouter();
   const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -42,7 +44,7 @@ export function NewBuildingForm() {
   });
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
-    if (!firestore || !user) {
+    if (!firestore || !user || !portfolioId) {
         toast({
             variant: 'destructive',
             title: '오류',
@@ -58,7 +60,7 @@ export function NewBuildingForm() {
         await addDocumentNonBlocking(buildingRef, {
             id: newBuildingId,
             ...values,
-            ownerId: user.uid,
+            portfolioId,
             units: [],
         });
 
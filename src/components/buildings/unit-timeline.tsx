@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase, errorEmitter, FirestorePermissionError } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { doc, collection, query, where, getDocs, getDoc } from 'firebase/firestore';
+import { Building, LeaseAgreement } from '@/lib/types';
+import { addMonths, differenceInCalendarDays, eachMonthOfInterval, endOfMonth, format as formatDateFns, startOfDay, startOfMonth, subMonths } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { cn } from '@/lib/utils';
+import { UnitConflict, buildUnitTimelines, findUnitConflicts } from '@/lib/occupancy';
+import { isLeaseActiveOn } from '@/lib/rent-roll';
+
+// 표시 기간(개월). 오늘을 가운데 두고 앞뒤로 절반씩 보여줌
+const rangeOptions = [
+  { months: 12, label: '1년' },
+  { months: 24, label: '2년' },
+  { months: 36, label: '3년' },
+];
+
+const formatDay = (date: Date) => formatDateFns(date, 'yyyy-MM-dd');
+
+export function UnitTimeline({ buildingId }: { buildingId: string }) {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const [building, setBuilding] = useState<Building | null>(null);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rangeMonths, setRangeMonths] = useState('24');
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !portfolioId || !buildingId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const buildingDocRef = doc(firestore, 'buildings', buildingId);
+        const buildingSnapshot = await getDoc(buildingDocRef);
+
+        if (!buildingSnapshot.exists()) {
+          throw new Error("건물 정보를 찾을 수 없습니다.");
+        }
+
+        if (buildingSnapshot.data()?.portfolioId !== portfolioId) {
+          const permissionError = new FirestorePermissionError({
+            path: buildingDocRef.path,
+            operation: 'get',
+          });
+          errorEmitter.emit('permission-error', permissionError);
+          throw permissionError;
+        }
+
+        setBuilding({ id: buildingSnapshot.id, ...buildingSnapshot.data() } as Building);
+
+        const leasesSnapshot = await getDocs(query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId), where('buildingId', '==', buildingId)));
+        setLeases(leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement));
+      } catch (e: any) {
+        console.error('Failed to load unit timeline:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, portfolioId, buildingId]);
+
+  const today = useMemo(() => startOfDay(new Date()), []);
+
+  const range = useMemo(() => {
+    const months = Number(rangeMonths);
+    const start = startOfMonth(subMonths(today, months / 2));
+    const end = endOfMonth(addMonths(start, months - 1));
+    return { start, end, totalDays: differenceInCalendarDays(end, start) + 1 };
+  }, [rangeMonths, today]);
+
+  const timelines = useMemo(
+    () => (building ? buildUnitTimelines(building, leases, range.start, range.end) : []),
+    [building, leases, range]
+  );
+
+  // 같은 호실에 기간이 겹치는 계약 쌍. 중복 검증 도입 전에 저장된 계약에서만 생김
+  const conflicts = useMemo(() => {
+    const pairs: (UnitConflict & { leaseA: LeaseAgreement })[] = [];
+    leases.forEach((lease, index) => {
+      findUnitConflicts(lease, leases.slice(index + 1)).forEach(conflict => pairs.push({ ...conflict, leaseA: lease }));
+    });
+    return pairs;
+  }, [leases]);
+
+  const months = useMemo(() => eachMonthOfInterval({ start: range.start, end: range.end }), [range]);
+
+  const occupiedCount = useMemo(() => {
+    const occupied = new Set(leases.filter(l => isLeaseActiveOn(l, today)).flatMap(l => l.unitIds || []));
+    return (building?.units || []).filter(u => occupied.has(u.id)).length;
+  }, [building, leases, today]);
+
+  const position = (start: Date, end: Date) => ({
+    left: `${(differenceInCalendarDays(start, range.start) / range.totalDays) * 100}%`,
+    width: `${((differenceInCalendarDays(end, start) + 1) / range.totalDays) * 100}%`,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription>입주 현황을 불러오는 중 오류가 발생했습니다: {error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!building) return null;
+
+  const unitName = (unitId: string) => building.units?.find(u => u.id === unitId)?.name || unitId;
+  const todayLeft = `${(differenceInCalendarDays(today, range.start) / range.totalDays) * 100}%`;
+  const labelEvery = months.length > 24 ? 3 : months.length > 12 ? 2 : 1;
+
+  return (
+    <div className="grid gap-4">
+      {conflicts.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>기간이 겹치는 계약 {conflicts.length}건</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 list-disc pl-4">
+              {conflicts.map(conflict => (
+                <li key={`${conflict.leaseA.id}-${conflict.lease.id}-${conflict.unitId}`}>
+                  {unitName(conflict.unitId)}: {conflict.leaseA.tenantName} / {conflict.lease.tenantName} ({formatDay(conflict.overlapStart)} ~ {formatDay(conflict.overlapEnd)})
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>{building.name}</CardTitle>
+            <CardDescription>
+              호실 {building.units?.length || 0}개 중 {occupiedCount}개 입주 중 · 재계약으로 연장된 기간까지 표시합니다.
+            </CardDescription>
+          </div>
+          <Select value={rangeMonths} onValueChange={setRangeMonths}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rangeOptions.map(option => (
+                <SelectItem key={option.months} value={String(option.months)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {timelines.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">등록된 호실이 없습니다.</p>
+          ) : (
+            <div className="min-w-[720px]">
+              <div className="flex">
+                <div className="w-24 shrink-0" />
+                <div className="relative h-6 flex-1 border-b">
+                  {months.map((month, index) => index % labelEvery === 0 && (
+                    <span
+                      key={month.toISOString()}
+                      className="absolute top-0 whitespace-nowrap text-xs text-muted-foreground"
+                      style={{ left: position(month, month).left }}
+                    >
+                      {formatDateFns(month, month.getMonth() === 0 || index === 0 ? 'yy.M월' : 'M월')}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              {timelines.map(({ unit, segments }) => (
+                <div key={unit.id} className="flex items-center border-b py-1">
+                  <div className="w-24 shrink-0 truncate pr-2 text-sm font-medium">{unit.name}</div>
+                  <div className="relative h-8 flex-1">
+                    {segments.map(segment => segment.type === 'lease' ? (
+                      <Link
+                        key={`${segment.lease.id}-${segment.start.toISOString()}`}
+                        href={`/tenants/${segment.lease.id}`}
+                        title={`${segment.lease.tenantName} (${formatDay(segment.start)} ~ ${formatDay(segment.end)})`}
+                        className={cn(
+                          'absolute top-1 bottom-1 truncate rounded px-1 text-xs leading-6',
+                          segment.hasConflict ? 'bg-destructive text-destructive-foreground opacity-90' : 'bg-primary text-primary-foreground'
+                        )}
+                        style={position(segment.start, segment.end)}
+                      >
+                        {segment.lease.tenantName}
+                      </Link>
+                    ) : (
+                      <div
+                        key={`vacant-${segment.start.toISOString()}`}
+                        title={`공실 ${segment.days}일 (${formatDay(segment.start)} ~ ${formatDay(segment.end)})`}
+                        className="absolute top-1 bottom-1 truncate rounded border border-dashed bg-muted px-1 text-xs leading-6 text-muted-foreground"
+                        style={position(segment.start, segment.end)}
+                      >
+                        공실 {segment.days}일
+                      </div>
+                    ))}
+                    <div className="absolute inset-y-0 w-px bg-orange-500" style={{ left: todayLeft }} />
+                  </div>
+                </div>
+              ))}
+              <div className="mt-3 flex flex-wrap gap-4 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-primary" />계약</span>
+                <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-destructive" />기간 중복</span>
+                <span className="flex items-center gap-1"><span className="h-3 w-3 rounded border border-dashed bg-muted" />공실</span>
+                <span className="flex items-center gap-1"><span className="h-3 w-px bg-orange-500" />오늘</span>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { formatBusinessNumber } from '@/lib/business-info';
+
+type BusinessInfoFieldsProps = {
+  name: string; // 폼 값에서 BusinessInfo 객체의 경로 (예: "businessInfo")
+};
+
+/**
+ * Form fields of a BusinessInfo object, used for both the landlord (building) and the tenant (lease).
+ * Must be rendered inside a <Form> whose schema contains `businessInfoSchema` at `name`.
+ */
+export function BusinessInfoFields({ name }: BusinessInfoFieldsProps) {
+  const { control } = useFormContext();
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={control}
+          name={`${name}.registrationNumber`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>사업자등록번호</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="예: 123-45-67890"
+                  {...field}
+                  value={field.value ?? ''}
+                  onChange={e => field.onChange(formatBusinessNumber(e.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`${name}.name`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>상호</FormLabel>
+              <FormControl>
+                <Input placeholder="예: (주)스타워크" {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`${name}.representative`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>대표자 성명</FormLabel>
+              <FormControl>
+                <Input placeholder="예: 홍길동" {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={control}
+        name={`${name}.address`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>사업장 주소</FormLabel>
+            <FormControl>
+              <Input placeholder="예: 서울특별시 강남구 테헤란로 427" {...field} value={field.value ?? ''} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={control}
+          name={`${name}.businessType`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>업태</FormLabel>
+              <FormControl>
+                <Input placeholder="예: 부동산업" {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`${name}.businessItem`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>종목</FormLabel>
+              <FormControl>
+                <Input placeholder="예: 비주거용 건물 임대업" {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`${name}.email`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>이메일</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="예: tax@example.com" {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
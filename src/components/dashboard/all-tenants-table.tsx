@@ -25,14 +25,19 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '../ui/skeleton';
 import { AlertTriangle, Users } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
-import { useFirebase } from '@/firebase';
-import { collection, query, where, Timestamp, getDocs } from 'firebase/firestore';
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { getGuestBuildingIds } from '@/lib/portfolio';
+import { collection, query, getDocs } from 'firebase/firestore';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
-import { Building, TenantLeaseInfo, Payment } from '@/lib/types';
+import { Building, TenantLeaseInfo } from '@/lib/types';
 import { useRouter } from 'next/navigation';
 import { isBefore } from 'date-fns';
 import { FirestorePermissionError } from '@/firebase/errors';
 import { getLeaseDetails } from '@/lib/utils';
+import { calculateLeaseBalance } from '@/lib/rent-schedule';
+import { calculateLeaseFees } from '@/lib/utility-billing';
 
 interface AllTenantsTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
@@ -42,6 +47,7 @@ export function AllTenantsTable<TData extends TenantLeaseInfo, TValue>({
   columns,
 }: AllTenantsTableProps<TData, TValue>) {
   const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
   const router = useRouter();
   
   const [tableData, setTableData] = React.useState<TData[]>([]);
@@ -57,13 +63,13 @@ export function AllTenantsTable<TData extends TenantLeaseInfo, TValue>({
 
   React.useEffect(() => {
     async function fetchData() {
-      if (!firestore || !user) return;
+      if (!firestore || !user || !membership) return;
       setIsLoading(true);
       setError(null);
 
       try {
-        const buildingsQuery = query(collection(firestore, 'buildings'), where('ownerId', '==', user.uid));
-        const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('ownerId', '==', user.uid));
+        const buildingsQuery = query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'));
+        const leasesQuery = query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership));
         
         const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
           getDocs(buildingsQuery),
@@ -75,49 +81,21 @@ export function AllTenantsTable<TData extends TenantLeaseInfo, TValue>({
 
         const buildingsMap = new Map(buildings.map(b => [b.id, b]));
         
-        const leaseIds = leases.map(l => l.id);
-        let allPayments: Payment[] = [];
-        
-        if (leaseIds.length > 0) {
-            const paymentPromises = [];
-            for (let i = 0; i < leaseIds.length; i += 30) {
-                const batchIds = leaseIds.slice(i, i + 30);
-                const paymentsQuery = query(
-                    collection(firestore, 'payments'),
-                    where('ownerId', '==', user.uid),
-                    where('leaseAgreementId', 'in', batchIds)
-                );
-                paymentPromises.push(getDocs(paymentsQuery));
-            }
-            const paymentSnapshots = await Promise.all(paymentPromises);
-            allPayments = paymentSnapshots.flatMap(snapshot => snapshot.docs.map(doc => doc.data() as Payment));
-        }
-
-        const paymentsByLease = new Map<string, Payment[]>();
-        allPayments.forEach(p => {
-            if (!paymentsByLease.has(p.leaseAgreementId)) {
-                paymentsByLease.set(p.leaseAgreementId, []);
-            }
-            paymentsByLease.get(p.leaseAgreementId)!.push(p);
-        });
+        const [{ paymentsByLease, adjustmentsByLease }, { feesByBuilding, readingsByBuilding }] = await Promise.all([
+          fetchLeaseRecords(firestore, membership.portfolioId, leases.map(l => l.id), getGuestBuildingIds(membership)),
+          fetchBuildingCharges(firestore, membership.portfolioId, buildings.map(b => b.id)),
+        ]);
 
         const leaseDataWithDetails = leases.map(lease => {
           const payments = paymentsByLease.get(lease.id) || [];
-          const startDate = (lease.leaseStartDate as Timestamp).toDate();
+          const adjustments = adjustmentsByLease.get(lease.id) || [];
           const today = new Date();
           
-          const { rentAmount, leaseEndDate } = getLeaseDetails(lease);
-
-
-          let totalDue = 0;
-          let currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
-          while (currentDate <= today && currentDate <= leaseEndDate) {
-            totalDue += rentAmount; // Using current rent amount is a simplification for dashboard
-            currentDate.setMonth(currentDate.getMonth() + 1);
-          }
-
-          const totalPaid = payments.reduce((sum, p) => sum + p.paymentAmount, 0);
-          const balance = totalDue - totalPaid;
+          const building = buildingsMap.get(lease.buildingId);
+          const maintenanceFees = calculateLeaseFees(lease, building, feesByBuilding.get(lease.buildingId) || [], readingsByBuilding.get(lease.buildingId) || [], today);
+          
+          const { leaseEndDate } = getLeaseDetails(lease);
+          const { balance } = calculateLeaseBalance(lease, adjustments, payments, today, maintenanceFees);
           
           let status: TenantLeaseInfo['status'];
           if (isBefore(leaseEndDate, today)) {
@@ -128,7 +106,6 @@ export function AllTenantsTable<TData extends TenantLeaseInfo, TValue>({
             status = 'paid';
           }
           
-          const building = buildingsMap.get(lease.buildingId);
           const unitNames = (lease.unitIds || []).map(unitId => building?.units?.find(u => u.id === unitId)?.name || unitId);
           
           return {
@@ -150,7 +127,7 @@ export function AllTenantsTable<TData extends TenantLeaseInfo, TValue>({
       }
     }
     fetchData();
-  }, [firestore, user]);
+  }, [firestore, user, membership]);
 
 
   const table = useReactTable({
@@ -17,6 +17,8 @@ import { formatCurrency, formatDate } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 import { Timestamp } from 'firebase/firestore';
 import Link from 'next/link';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { canEditPortfolioData } from '@/lib/portfolio';
 
 const statusVariantMap: {
   [key in TenantLeaseInfo['status']]:
@@ -36,6 +38,37 @@ const statusTextMap: { [key in TenantLeaseInfo['status']]: string } = {
   vacant: '공실',
 };
 
+function LeaseActions({ lease }: { lease: TenantLeaseInfo }) {
+  const canEdit = canEditPortfolioData(usePortfolio()?.membership);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="h-8 w-8 p-0">
+          <span className="sr-only">메뉴 열기</span>
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>작업</DropdownMenuLabel>
+        <DropdownMenuItem asChild>
+            <Link href={`/tenants/${lease.id}`}>상세 정보 보기</Link>
+        </DropdownMenuItem>
+        {canEdit && (
+          <DropdownMenuItem asChild>
+              <Link href={`/tenants/${lease.id}/edit`}>계약 수정</Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem
+          onClick={() => navigator.clipboard.writeText(lease.tenantContact)}
+        >
+          연락처 복사
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 export const columns: ColumnDef<TenantLeaseInfo>[] = [
   {
     accessorKey: 'unitNames',
@@ -91,33 +124,6 @@ export const columns: ColumnDef<TenantLeaseInfo>[] = [
   },
   {
     id: 'actions',
-    cell: ({ row }) => {
-      const lease = row.original;
-
-      return (
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" className="h-8 w-8 p-0">
-              <span className="sr-only">메뉴 열기</span>
-              <MoreHorizontal className="h-4 w-4" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuLabel>작업</DropdownMenuLabel>
-            <DropdownMenuItem asChild>
-                <Link href={`/tenants/${lease.id}`}>상세 정보 보기</Link>
-            </DropdownMenuItem>
-            <DropdownMenuItem asChild>
-                <Link href={`/tenants/${lease.id}/edit`}>계약 수정</Link>
-            </DropdownMenuItem>
-            <DropdownMenuItem
-              onClick={() => navigator.clipboard.writeText(lease.tenantContact)}
-            >
-              연락처 복사
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
-      );
-    },
+    cell: ({ row }) => <LeaseActions lease={row.original} />,
   },
 ];
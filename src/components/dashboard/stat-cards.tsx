@@ -8,28 +8,39 @@ import {
 } from "@/components/ui/card";
 import { DollarSign, Home, Users, AlertCircle } from "lucide-react";
 import { formatCurrency, getLeaseDetails } from "@/lib/utils";
-import { useFirebase } from "@/firebase";
-import { collection, query, where, getDocs, Timestamp } from "firebase/firestore";
+import Link from "next/link";
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges } from "@/firebase";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { portfolioScope } from "@/firebase/firestore/portfolios";
+import { getGuestBuildingIds } from "@/lib/portfolio";
+import { collection, query, getDocs } from "firebase/firestore";
 import { Skeleton } from "../ui/skeleton";
 import { useEffect, useMemo, useState } from "react";
-import { Building, LeaseAgreement, Payment } from "@/lib/types";
+import { Building, LeaseAgreement, MaintenanceFee, MeterReading, Payment, RentAdjustment } from "@/lib/types";
+import { calculateLeaseBalance } from "@/lib/rent-schedule";
+import { calculateLeaseFees } from "@/lib/utility-billing";
+import { isLeaseActiveOn } from "@/lib/rent-roll";
 import { isBefore } from "date-fns";
 
 export function StatCards() {
   const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
   const [buildings, setBuildings] = useState<Building[]>([]);
   const [leases, setLeases] = useState<LeaseAgreement[]>([]);
-  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentsByLease, setPaymentsByLease] = useState<Map<string, Payment[]>>(new Map());
+  const [adjustmentsByLease, setAdjustmentsByLease] = useState<Map<string, RentAdjustment[]>>(new Map());
+  const [feesByBuilding, setFeesByBuilding] = useState<Map<string, MaintenanceFee[]>>(new Map());
+  const [readingsByBuilding, setReadingsByBuilding] = useState<Map<string, MeterReading[]>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     async function fetchData() {
-      if (!firestore || !user) return;
+      if (!firestore || !user || !membership) return;
 
       setIsLoading(true);
       try {
-        const buildingsQuery = query(collection(firestore, 'buildings'), where('ownerId', '==', user.uid));
-        const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('ownerId', '==', user.uid));
+        const buildingsQuery = query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'));
+        const leasesQuery = query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership));
         
         const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
             getDocs(buildingsQuery),
@@ -42,23 +53,14 @@ export function StatCards() {
         setBuildings(buildingsData);
         setLeases(leasesData);
 
-        let paymentsData: Payment[] = [];
-        if (leasesData.length > 0) {
-            const leaseIds = leasesData.map(l => l.id);
-            const paymentPromises = [];
-            for (let i = 0; i < leaseIds.length; i += 30) {
-                const batchIds = leaseIds.slice(i, i + 30);
-                const paymentsQuery = query(
-                    collection(firestore, 'payments'),
-                    where('ownerId', '==', user.uid),
-                    where('leaseAgreementId', 'in', batchIds)
-                );
-                paymentPromises.push(getDocs(paymentsQuery));
-            }
-            const paymentSnapshots = await Promise.all(paymentPromises);
-            paymentsData = paymentSnapshots.flatMap(snapshot => snapshot.docs.map(doc => doc.data() as Payment));
-        }
-        setPayments(paymentsData);
+        const [{ paymentsByLease, adjustmentsByLease }, { feesByBuilding, readingsByBuilding }] = await Promise.all([
+            fetchLeaseRecords(firestore, membership.portfolioId, leasesData.map(l => l.id), getGuestBuildingIds(membership)),
+            fetchBuildingCharges(firestore, membership.portfolioId, buildingsData.map(b => b.id)),
+        ]);
+        setPaymentsByLease(paymentsByLease);
+        setAdjustmentsByLease(adjustmentsByLease);
+        setFeesByBuilding(feesByBuilding);
+        setReadingsByBuilding(readingsByBuilding);
 
       } catch (error) {
         console.error("Error fetching stats data:", error);
@@ -68,7 +70,7 @@ export function StatCards() {
     }
 
     fetchData();
-  }, [firestore, user]);
+  }, [firestore, user, membership]);
 
 
   const stats = useMemo(() => {
@@ -81,7 +83,11 @@ export function StatCards() {
     const totalTenants = activeLeases.length;
     
     const totalUnitsInBuildings = buildings.reduce((sum, b) => sum + (b.units?.length || 0), 0);
-    const occupiedUnits = new Set(activeLeases.flatMap(l => l.unitIds)).size;
+    // 오늘 입주 중인 계약의 호실만 셈. 예정 계약이나 삭제된 호실은 제외
+    const buildingUnitIds = new Set(buildings.flatMap(b => (b.units || []).map(u => u.id)));
+    const occupiedUnits = new Set(
+      leases.filter(l => isLeaseActiveOn(l, today)).flatMap(l => l.unitIds || []).filter(unitId => buildingUnitIds.has(unitId))
+    ).size;
     const occupancyRate = totalUnitsInBuildings > 0 ? (occupiedUnits / totalUnitsInBuildings) * 100 : 0;
     
     const totalMonthlyRent = activeLeases.reduce((sum, l) => {
@@ -89,31 +95,20 @@ export function StatCards() {
         return sum + rentAmount;
     }, 0);
 
-    const paymentsByLease = payments.reduce((acc, p) => {
-        if (!acc[p.leaseAgreementId]) {
-            acc[p.leaseAgreementId] = [];
-        }
-        acc[p.leaseAgreementId].push(p);
-        return acc;
-    }, {} as Record<string, Payment[]>);
-
     const overdueRent = activeLeases.reduce((totalOverdue, lease) => {
-        const leasePayments = paymentsByLease[lease.id] || [];
-        const totalPaid = leasePayments.reduce((sum, p) => sum + p.paymentAmount, 0);
-        
-        const { rentAmount, leaseEndDate } = getLeaseDetails(lease);
-        const startDate = (lease.leaseStartDate as Timestamp).toDate();
-        let totalDue = 0;
-        let currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
-
-        while (currentDate <= today && currentDate <= leaseEndDate) {
-            // This calculation is simplified. The ledger has the full logic.
-            // For dashboard stats, using the current rent amount is a reasonable approximation.
-            totalDue += rentAmount;
-            currentDate.setMonth(currentDate.getMonth() + 1);
-        }
-
-        const balance = totalDue - totalPaid;
+        const { balance } = calculateLeaseBalance(
+            lease,
+            adjustmentsByLease.get(lease.id) || [],
+            paymentsByLease.get(lease.id) || [],
+            today,
+            calculateLeaseFees(
+                lease,
+                buildings.find(b => b.id === lease.buildingId),
+                feesByBuilding.get(lease.buildingId) || [],
+                readingsByBuilding.get(lease.buildingId) || [],
+                today
+            )
+        );
         return balance > 0 ? totalOverdue + balance : totalOverdue;
     }, 0);
 
@@ -124,7 +119,7 @@ export function StatCards() {
         totalMonthlyRent,
         overdueRent,
     }
-  }, [leases, buildings, payments]);
+  }, [leases, buildings, paymentsByLease, adjustmentsByLease, feesByBuilding, readingsByBuilding]);
 
   if (isLoading) {
     return (
@@ -184,7 +179,9 @@ export function StatCards() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold text-destructive">{formatCurrency(stats.overdueRent)}</div>
-          <p className="text-xs text-muted-foreground">현재까지 누적된 연체 총액</p>
+          <p className="text-xs text-muted-foreground">
+            현재까지 누적된 연체 총액 · <Link href="/reports/aging" className="underline">연체 분석</Link>
+          </p>
         </CardContent>
       </Card>
     </div>
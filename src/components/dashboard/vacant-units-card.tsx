@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { collection, query, getDocs } from 'firebase/firestore';
+import { Building, LeaseAgreement } from '@/lib/types';
+import { DoorOpen } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { formatCurrency } from '@/lib/utils';
+import { buildVacancyReport } from '@/lib/vacancy';
+
+// 대시보드에는 공실 기간이 긴 호실부터 일부만 표시
+const MAX_ROWS = 5;
+
+export function VacantUnitsCard() {
+  const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !membership) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      try {
+        const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership))),
+        ]);
+        setBuildings(buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building));
+        setLeases(leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement));
+      } catch (error) {
+        console.error('Failed to load vacant units:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, membership]);
+
+  const vacantUnits = useMemo(() => {
+    const today = new Date();
+    return buildings
+      .flatMap(building => buildVacancyReport(building, leases, today, today).units
+        .filter(vacancy => vacancy.isVacant)
+        .map(vacancy => ({ building, vacancy })))
+      // Units never leased have no start date and are listed first.
+      .sort((a, b) => (b.vacancy.currentVacantDays ?? Infinity) - (a.vacancy.currentVacantDays ?? Infinity));
+  }, [buildings, leases]);
+
+  const monthlyLoss = vacantUnits.reduce((sum, { vacancy }) => sum + vacancy.monthlyRent, 0);
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <DoorOpen className="h-4 w-4 text-muted-foreground" />
+            현재 공실 {vacantUnits.length}실
+          </CardTitle>
+          <CardDescription>
+            {vacantUnits.length > 0 ? `월 추정 손실 ${formatCurrency(monthlyLoss)}` : '모든 호실이 입주 중입니다.'}
+          </CardDescription>
+        </div>
+        <Button asChild variant="outline" size="sm">
+          <Link href="/reports/vacancy">공실 현황</Link>
+        </Button>
+      </CardHeader>
+      {vacantUnits.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>건물</TableHead>
+                <TableHead>호실</TableHead>
+                <TableHead className="text-right">공실 일수</TableHead>
+                <TableHead className="text-right">월 추정 손실</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vacantUnits.slice(0, MAX_ROWS).map(({ building, vacancy }) => (
+                <TableRow key={vacancy.unit.id}>
+                  <TableCell>
+                    <Link href={`/buildings/${building.id}/timeline`} className="hover:underline">{building.name}</Link>
+                  </TableCell>
+                  <TableCell>{vacancy.unit.name}</TableCell>
+                  <TableCell className="text-right">
+                    {vacancy.currentVacantDays !== null ? `${vacancy.currentVacantDays.toLocaleString()}일` : '계약 이력 없음'}
+                  </TableCell>
+                  <TableCell className="text-right">{vacancy.rentSource !== 'none' ? formatCurrency(vacancy.monthlyRent) : '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {vacantUnits.length > MAX_ROWS && (
+            <p className="mt-2 text-xs text-muted-foreground">외 {vacantUnits.length - MAX_ROWS}실</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
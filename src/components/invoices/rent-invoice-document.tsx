@@ -0,0 +1,108 @@
+'use client';
+
+import React from 'react';
+import { RentInvoice } from '@/lib/types';
+import { format as formatDateFns } from 'date-fns';
+import { cn, formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { formatBusinessNumber } from '@/lib/business-info';
+
+const formatDay = (date: RentInvoice['issueDate']) => formatDateFns(toDate(date), 'yyyy년 M월 d일');
+
+/**
+ * The printed form of a rent invoice (청구서). Everything shown comes from the invoice record, so
+ * a reprint matches what was issued even after the ledger changes. Each invoice starts a new page.
+ */
+export function RentInvoiceDocument({ invoice, className }: { invoice: RentInvoice; className?: string }) {
+  const isVoid = invoice.status === 'void';
+
+  return (
+    <article className={cn('invoice-page relative mx-auto max-w-[800px] space-y-6 bg-white p-8 text-sm text-black', className)}>
+      {isVoid && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <span className="rotate-[-20deg] border-4 border-red-600 px-6 py-2 text-5xl font-bold text-red-600 opacity-40">무효</span>
+        </div>
+      )}
+
+      <header className="flex items-start justify-between border-b-2 border-black pb-4">
+        <div>
+          <h2 className="text-3xl font-bold tracking-widest">임대료 청구서</h2>
+          <p className="mt-1 text-gray-600">{formatDateFns(toDate(invoice.billingMonth), 'yyyy년 M월')}분</p>
+        </div>
+        <dl className="grid grid-cols-[auto_auto] gap-x-4 gap-y-1 text-right">
+          <dt className="text-gray-600">청구서 번호</dt>
+          <dd className="font-mono">{invoice.invoiceNumber}</dd>
+          <dt className="text-gray-600">발행일</dt>
+          <dd>{formatDay(invoice.issueDate)}</dd>
+        </dl>
+      </header>
+
+      <section className="grid grid-cols-2 gap-6">
+        <div className="space-y-1">
+          <p className="text-gray-600">임차인</p>
+          <p className="text-lg font-semibold">{invoice.tenantName} 귀하</p>
+          <p>{invoice.buildingName} {invoice.unitNames.join(', ')}</p>
+        </div>
+        <div className="space-y-1 text-right">
+          <p className="text-gray-600">임대인</p>
+          <p className="text-lg font-semibold">{invoice.landlordName}</p>
+          {invoice.landlordRegistrationNumber && <p>사업자등록번호 {formatBusinessNumber(invoice.landlordRegistrationNumber)}</p>}
+        </div>
+      </section>
+
+      <section className="rounded border-2 border-black p-4 text-center">
+        <p className="text-gray-600">청구 금액</p>
+        <p className="text-3xl font-bold">{formatCurrency(Math.max(invoice.totalDue, 0))}</p>
+        <p className="mt-1">납부기한 {formatDay(invoice.dueDate)}</p>
+      </section>
+
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-y border-black bg-gray-100">
+            <th className="px-2 py-2 text-left font-semibold">항목</th>
+            <th className="px-2 py-2 text-right font-semibold">공급가액</th>
+            <th className="px-2 py-2 text-right font-semibold">부가세</th>
+            <th className="px-2 py-2 text-right font-semibold">금액</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.lines.length > 0 ? invoice.lines.map((line, index) => (
+            <tr key={index} className="border-b border-gray-300">
+              <td className="px-2 py-2">{line.description}</td>
+              <td className="px-2 py-2 text-right">{formatCurrency(line.supplyValue)}</td>
+              <td className="px-2 py-2 text-right">{formatCurrency(line.vat)}</td>
+              <td className="px-2 py-2 text-right">{formatCurrency(line.amount)}</td>
+            </tr>
+          )) : (
+            <tr className="border-b border-gray-300">
+              <td colSpan={4} className="px-2 py-2 text-center text-gray-600">이번 달 청구 항목이 없습니다.</td>
+            </tr>
+          )}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={3} className="px-2 pt-3 text-right">이번 달 청구액</td>
+            <td className="px-2 pt-3 text-right">{formatCurrency(invoice.currentCharges)}</td>
+          </tr>
+          <tr>
+            <td colSpan={3} className="px-2 py-1 text-right">{invoice.previousBalance < 0 ? '선납액' : '전월까지 미납액'}</td>
+            <td className="px-2 py-1 text-right">{formatCurrency(invoice.previousBalance)}</td>
+          </tr>
+          <tr className="border-t border-black font-bold">
+            <td colSpan={3} className="px-2 py-2 text-right">합계</td>
+            <td className="px-2 py-2 text-right">{formatCurrency(invoice.totalDue)}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <section className="space-y-1 border-t pt-4">
+        <p className="font-semibold">입금 계좌</p>
+        <p>{invoice.bankAccount || '임대인에게 문의해주세요.'}</p>
+        <p className="text-xs text-gray-600">
+          발행일 현재의 납부 내역을 반영했습니다. 발행일 이후 입금하신 금액은 다음 청구서에 반영됩니다.
+        </p>
+        {isVoid && invoice.voidReason && <p className="text-xs text-red-600">무효 사유: {invoice.voidReason}</p>}
+      </section>
+    </article>
+  );
+}
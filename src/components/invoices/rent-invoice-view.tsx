@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase, errorEmitter, FirestorePermissionError } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { doc, getDoc } from 'firebase/firestore';
+import { RentInvoice } from '@/lib/types';
+import { AlertTriangle, ArrowLeft, Printer } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { RentInvoiceDocument } from './rent-invoice-document';
+
+/**
+ * One issued invoice with a print button, for reprinting it later.
+ */
+export function RentInvoiceView({ invoiceId }: { invoiceId: string }) {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const [invoice, setInvoice] = useState<RentInvoice | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchInvoice() {
+      if (!firestore || !user || !portfolioId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const invoiceDocRef = doc(firestore, 'rentInvoices', invoiceId);
+        const snapshot = await getDoc(invoiceDocRef);
+
+        if (!snapshot.exists()) {
+          throw new Error("청구서를 찾을 수 없습니다.");
+        }
+
+        if (snapshot.data()?.portfolioId !== portfolioId) {
+          const permissionError = new FirestorePermissionError({
+            path: invoiceDocRef.path,
+            operation: 'get',
+          });
+          errorEmitter.emit('permission-error', permissionError);
+          throw permissionError;
+        }
+
+        setInvoice({ id: snapshot.id, ...snapshot.data() } as RentInvoice);
+      } catch (e: any) {
+        console.error('Failed to load rent invoice:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchInvoice();
+  }, [firestore, user, portfolioId, invoiceId]);
+
+  if (isLoading) {
+    return <Skeleton className="h-[800px] w-full" />;
+  }
+
+  if (error || !invoice) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error || "청구서를 찾을 수 없습니다."}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between no-print">
+        <Button asChild variant="outline" size="sm">
+          <Link href="/invoices">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            청구서 목록
+          </Link>
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          인쇄 / PDF 저장
+        </Button>
+      </div>
+      <RentInvoiceDocument invoice={invoice} className="rounded-lg border print:rounded-none print:border-0" />
+    </div>
+  );
+}
@@ -0,0 +1,451 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges, LeaseRecords, BuildingCharges } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
+import { Building, LeaseAgreement, RentInvoice, RentInvoiceStatus } from '@/lib/types';
+import { v4 as uuidv4 } from 'uuid';
+import { format as formatDateFns, isSameMonth, parse, startOfDay, startOfMonth } from 'date-fns';
+import { AlertTriangle, FilePlus2, Loader2, Printer } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { RentInvoiceDraft, buildRentInvoiceDraft, formatInvoiceNumber, getLastInvoiceSequence, rentInvoiceStatusLabels } from '@/lib/rent-invoice';
+import { saveRentInvoices } from '@/firebase/non-blocking-updates';
+import { saveNumberedDocuments } from '@/firebase/firestore/document-counters';
+import { RentInvoiceDocument } from './rent-invoice-document';
+
+const ALL_BUILDINGS = 'all';
+
+const statusVariants: Record<RentInvoiceStatus, 'default' | 'destructive'> = {
+  issued: 'default',
+  void: 'destructive',
+};
+
+interface InvoiceRow {
+  lease: LeaseAgreement;
+  draft: RentInvoiceDraft | null;
+  issued?: RentInvoice;
+}
+
+// Stores the draft's dates as timestamps, like every other date in Firestore.
+const toInvoiceDocument = (draft: RentInvoiceDraft, id: string, portfolioId: string, invoiceNumber: string): RentInvoice => ({
+  ...draft,
+  id,
+  portfolioId,
+  invoiceNumber,
+  billingMonth: Timestamp.fromDate(toDate(draft.billingMonth)),
+  issueDate: Timestamp.fromDate(toDate(draft.issueDate)),
+  dueDate: Timestamp.fromDate(toDate(draft.dueDate)),
+  status: 'issued',
+});
+
+function VoidInvoiceDialog({ invoice, replacement, onConfirm }: {
+  invoice: RentInvoice;
+  replacement: boolean; // true이면 무효 처리 후 새 번호로 다시 발행
+  onConfirm: (reason: string) => Promise<void>;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onConfirm(reason.trim() || (replacement ? '재발행' : ''));
+      setIsOpen(false);
+      setReason('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">{replacement ? '재발행' : '무효'}</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{replacement ? '청구서 재발행' : '청구서 무효 처리'}</DialogTitle>
+          <DialogDescription>
+            {replacement
+              ? `${invoice.invoiceNumber} 청구서를 무효로 바꾸고 현재 원장으로 새 번호의 청구서를 발행합니다.`
+              : `${invoice.invoiceNumber} 청구서를 무효로 기록합니다. 무효 청구서도 대장에 남고 다시 인쇄할 수 있습니다.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="voidReason">사유</Label>
+          <Input id="voidReason" placeholder={replacement ? '재발행' : '예: 금액 오류'} value={reason} onChange={(e) => setReason(e.target.value)} />
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={isSubmitting || (!replacement && !reason.trim())}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {replacement ? '재발행' : '무효 처리'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function RentInvoices() {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [records, setRecords] = useState<(LeaseRecords & BuildingCharges) | null>(null);
+  const [invoices, setInvoices] = useState<RentInvoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+  const [monthText, setMonthText] = useState(formatDateFns(new Date(), 'yyyy-MM'));
+  const [issueDateText, setIssueDateText] = useState(formatDateFns(new Date(), 'yyyy-MM-dd'));
+  const [buildingId, setBuildingId] = useState(ALL_BUILDINGS);
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !portfolioId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [buildingsSnapshot, leasesSnapshot, invoicesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'rentInvoices'), where('portfolioId', '==', portfolioId))),
+        ]);
+
+        const buildingsData = buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building);
+        const leasesData = leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement);
+        const [leaseRecords, buildingCharges] = await Promise.all([
+          fetchLeaseRecords(firestore, portfolioId, leasesData.map(l => l.id)),
+          fetchBuildingCharges(firestore, portfolioId, buildingsData.map(b => b.id)),
+        ]);
+
+        setBuildings(buildingsData.sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+        setLeases(leasesData);
+        setRecords({ ...leaseRecords, ...buildingCharges });
+        setInvoices(invoicesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as RentInvoice));
+      } catch (e: any) {
+        console.error('Failed to load rent invoices:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, portfolioId, triggerFetch]);
+
+  const month = useMemo(() => {
+    const parsed = parse(monthText, 'yyyy-MM', new Date());
+    return isNaN(parsed.getTime()) ? null : startOfMonth(parsed);
+  }, [monthText]);
+
+  const issueDate = useMemo(() => {
+    const parsed = parse(issueDateText, 'yyyy-MM-dd', new Date());
+    return isNaN(parsed.getTime()) ? null : startOfDay(parsed);
+  }, [issueDateText]);
+
+  // Invoices of the month in the selected building, in number order.
+  const monthInvoices = useMemo(() => {
+    if (!month) return [];
+    return invoices
+      .filter(invoice => isSameMonth(toDate(invoice.billingMonth), month))
+      .filter(invoice => buildingId === ALL_BUILDINGS || invoice.buildingId === buildingId)
+      .sort((a, b) => a.invoiceNumber.localeCompare(b.invoiceNumber));
+  }, [invoices, month, buildingId]);
+
+  const rows = useMemo((): InvoiceRow[] => {
+    if (!records || !month || !issueDate) return [];
+    const buildingsMap = new Map(buildings.map(b => [b.id, b]));
+    return leases
+      .filter(lease => buildingId === ALL_BUILDINGS || lease.buildingId === buildingId)
+      .map(lease => {
+        const draft = buildRentInvoiceDraft(lease, buildingsMap.get(lease.buildingId), {
+          adjustments: records.adjustmentsByLease.get(lease.id) || [],
+          payments: records.paymentsByLease.get(lease.id) || [],
+          fees: records.feesByBuilding.get(lease.buildingId) || [],
+          readings: records.readingsByBuilding.get(lease.buildingId) || [],
+        }, month, issueDate);
+        const issued = monthInvoices.find(invoice => invoice.leaseAgreementId === lease.id && invoice.status === 'issued');
+        return { lease, draft, issued };
+      })
+      .filter(row => row.draft || row.issued)
+      .sort((a, b) => a.lease.buildingName.localeCompare(b.lease.buildingName, 'ko') || a.lease.tenantName.localeCompare(b.lease.tenantName, 'ko'));
+  }, [records, buildings, leases, buildingId, month, issueDate, monthInvoices]);
+
+  const pendingRows = rows.filter(row => row.draft && !row.issued);
+  const printableInvoices = monthInvoices.filter(invoice => invoice.status === 'issued');
+
+  // Numbers come from the portfolio's counter for the month, shared by every building, so
+  // invoices issued at the same time elsewhere never take the same number.
+  const issueInvoices = async (drafts: RentInvoiceDraft[], voided: RentInvoice[] = []) => {
+    if (!firestore || !portfolioId || !month) return;
+    const ids = drafts.map(() => uuidv4());
+    return saveNumberedDocuments(firestore, 'rentInvoices', portfolioId, month, getLastInvoiceSequence(invoices, month), drafts.length,
+      sequences => drafts.map((draft, i) => toInvoiceDocument(draft, ids[i], portfolioId, formatInvoiceNumber(month, sequences[i]))),
+      voided);
+  };
+
+  const handleIssue = async (targetRows: InvoiceRow[]) => {
+    const drafts = targetRows.flatMap(row => row.draft ? [row.draft] : []);
+    if (drafts.length === 0) {
+      toast({ title: '발행할 청구서 없음', description: '선택한 월에 새로 발행할 청구서가 없습니다.' });
+      return;
+    }
+
+    setIsIssuing(true);
+    try {
+      const issued = await issueInvoices(drafts);
+      toast({ title: '청구서 발행됨', description: `${issued?.length || 0}건의 청구서를 발행했습니다. 대장에서 인쇄할 수 있습니다.` });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '발행 실패', description: '청구서를 발행하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleVoid = async (invoice: RentInvoice, reason: string, reissueDraft?: RentInvoiceDraft | null) => {
+    const voided: RentInvoice = { ...invoice, status: 'void', voidReason: reason };
+    try {
+      if (reissueDraft) {
+        await issueInvoices([reissueDraft], [voided]);
+        toast({ title: '청구서 재발행됨', description: `${invoice.tenantName}의 청구서를 새 번호로 발행했습니다.` });
+      } else {
+        await saveRentInvoices(firestore!, [voided]);
+        toast({ title: '무효 처리됨', description: `${invoice.invoiceNumber} 청구서가 무효로 기록되었습니다.` });
+      }
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '청구서를 저장하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const buildingsWithoutAccount = buildings
+    .filter(b => !b.bankAccount && pendingRows.some(row => row.lease.buildingId === b.id))
+    .map(b => b.name);
+
+  return (
+    <>
+      <div className="space-y-6 no-print">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">청구서 발행</CardTitle>
+            <CardDescription>
+              원장을 바탕으로 이번 달 임대료, 부가세, 관리비·공과금과 전월까지 미납액을 담은 청구서를 계약별 또는 건물 단위로 발행합니다.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invoiceMonth">청구 월</Label>
+                <Input id="invoiceMonth" type="month" className="w-[180px]" value={monthText} onChange={(e) => setMonthText(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoiceIssueDate">발행일</Label>
+                <Input id="invoiceIssueDate" type="date" className="w-[180px]" value={issueDateText} onChange={(e) => setIssueDateText(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>건물</Label>
+                <Select value={buildingId} onValueChange={setBuildingId}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_BUILDINGS}>전체 건물</SelectItem>
+                    {buildings.map(b => (
+                      <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={() => handleIssue(pendingRows)} disabled={isIssuing || pendingRows.length === 0}>
+                {isIssuing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FilePlus2 className="mr-2 h-4 w-4" />}
+                {buildingId === ALL_BUILDINGS ? '전체' : '건물 전체'} 발행{pendingRows.length > 0 ? ` (${pendingRows.length}건)` : ''}
+              </Button>
+            </div>
+
+            {buildingsWithoutAccount.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>입금 계좌 없음</AlertTitle>
+                <AlertDescription>
+                  {buildingsWithoutAccount.join(', ')}의 입금 계좌가 없어 청구서에 계좌가 표시되지 않습니다. 건물 수정 화면에서 입력하세요.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>임차인</TableHead>
+                  <TableHead>건물 및 호실</TableHead>
+                  <TableHead className="text-right">이번 달 청구액</TableHead>
+                  <TableHead className="text-right">전월까지 미납액</TableHead>
+                  <TableHead className="text-right">청구 합계</TableHead>
+                  <TableHead>청구서</TableHead>
+                  <TableHead className="text-right">작업</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length > 0 ? rows.map(({ lease, draft, issued }) => {
+                  const amounts = issued || draft!;
+                  return (
+                    <TableRow key={lease.id}>
+                      <TableCell>
+                        <Link href={`/tenants/${lease.id}`} className="hover:underline">{lease.tenantName}</Link>
+                      </TableCell>
+                      <TableCell>{amounts.buildingName} {amounts.unitNames.join(', ')}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(amounts.currentCharges)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(amounts.previousBalance)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(amounts.totalDue)}</TableCell>
+                      <TableCell>
+                        {issued ? (
+                          <>
+                            <div className="font-mono text-xs">{issued.invoiceNumber}</div>
+                            <div className="text-xs text-muted-foreground">{formatDateFns(toDate(issued.issueDate), 'yyyy-MM-dd')} 발행</div>
+                          </>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">미발행</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          {issued ? (
+                            <>
+                              <Button asChild variant="outline" size="sm">
+                                <Link href={`/invoices/${issued.id}`}>
+                                  <Printer className="mr-2 h-4 w-4" />
+                                  인쇄
+                                </Link>
+                              </Button>
+                              {draft && (
+                                <VoidInvoiceDialog invoice={issued} replacement onConfirm={(reason) => handleVoid(issued, reason, draft)} />
+                              )}
+                            </>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => handleIssue([{ lease, draft }])} disabled={isIssuing}>발행</Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                }) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">해당 월에 청구할 계약이 없습니다.</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle className="text-xl">청구서 대장</CardTitle>
+              <CardDescription>
+                {month ? formatDateFns(month, 'yyyy년 M월') : '선택한 월'}에 발행한 청구서입니다. 발행한 내용 그대로 다시 인쇄할 수 있습니다.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => window.print()} disabled={printableInvoices.length === 0}>
+              <Printer className="mr-2 h-4 w-4" />
+              발행 청구서 일괄 인쇄{printableInvoices.length > 0 ? ` (${printableInvoices.length}건)` : ''}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>청구서 번호</TableHead>
+                  <TableHead>발행일</TableHead>
+                  <TableHead>임차인</TableHead>
+                  <TableHead>건물 및 호실</TableHead>
+                  <TableHead className="text-right">청구 합계</TableHead>
+                  <TableHead>상태</TableHead>
+                  <TableHead className="text-right">작업</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {monthInvoices.length > 0 ? monthInvoices.map(invoice => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-mono text-xs">{invoice.invoiceNumber}</TableCell>
+                    <TableCell>{formatDateFns(toDate(invoice.issueDate), 'yyyy-MM-dd')}</TableCell>
+                    <TableCell>{invoice.tenantName}</TableCell>
+                    <TableCell>{invoice.buildingName} {invoice.unitNames.join(', ')}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(invoice.totalDue)}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[invoice.status]}>{rentInvoiceStatusLabels[invoice.status]}</Badge>
+                      {invoice.voidReason && <div className="text-xs text-muted-foreground">{invoice.voidReason}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button asChild variant="ghost" size="icon" className="h-8 w-8">
+                          <Link href={`/invoices/${invoice.id}`}>
+                            <Printer className="h-4 w-4" />
+                            <span className="sr-only">인쇄</span>
+                          </Link>
+                        </Button>
+                        {invoice.status === 'issued' && (
+                          <VoidInvoiceDialog invoice={invoice} replacement={false} onConfirm={(reason) => handleVoid(invoice, reason)} />
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">해당 월에 발행한 청구서가 없습니다.</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="hidden print:block">
+        {printableInvoices.map(invoice => (
+          <RentInvoiceDocument key={invoice.id} invoice={invoice} />
+        ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import Link from 'next/link';
+import { AlarmClockOff, Bell, CalendarClock, Check, Hourglass, Loader2, ReceiptText, RefreshCw, RotateCcw } from 'lucide-react';
+import { useNotifications } from '@/hooks/use-notifications';
+import { NotificationType, notificationTypeLabels } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+
+import { Button } from '../ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../ui/dropdown-menu';
+
+const typeIcons: Record<NotificationType, React.ElementType> = {
+  overdue: Hourglass,
+  expiring: CalendarClock,
+  renewal_rent: RotateCcw,
+  unpaid_adjustment: ReceiptText,
+};
+
+const snoozeOptions = [
+  { days: 1, label: '1일' },
+  { days: 7, label: '7일' },
+  { days: 30, label: '30일' },
+];
+
+export function NotificationBell() {
+  const center = useNotifications();
+  if (!center) return null;
+
+  const { notifications, states, unreadCount, isLoading, markRead, snooze, refresh } = center;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative rounded-full">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">알림</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="font-semibold">알림</span>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => markRead(notifications.map(n => n.id))} disabled={unreadCount === 0}>
+              모두 읽음
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={refresh} disabled={isLoading}>
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              <span className="sr-only">다시 검사</span>
+            </Button>
+          </div>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">
+            {isLoading ? '포트폴리오를 검사하는 중입니다.' : '확인할 알림이 없습니다.'}
+          </p>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto">
+            <ul className="divide-y">
+              {notifications.map(notification => {
+                const Icon = typeIcons[notification.type];
+                const isRead = !!states[notification.id]?.readAt;
+                return (
+                  <li key={notification.id} className={cn('flex gap-3 px-4 py-3', isRead && 'opacity-60')}>
+                    <Icon className={cn('mt-0.5 h-4 w-4 shrink-0', notification.type === 'overdue' ? 'text-destructive' : 'text-muted-foreground')} />
+                    <Link href={notification.href} className="min-w-0 flex-1" onClick={() => markRead([notification.id])}>
+                      <p className="text-xs text-muted-foreground">{notificationTypeLabels[notification.type]}</p>
+                      <p className={cn('text-sm', !isRead && 'font-semibold')}>{notification.title}</p>
+                      <p className="text-xs text-muted-foreground">{notification.description}</p>
+                    </Link>
+                    <div className="flex shrink-0 flex-col gap-1">
+                      {!isRead && (
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => markRead([notification.id])}>
+                          <Check className="h-4 w-4" />
+                          <span className="sr-only">읽음</span>
+                        </Button>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-7 w-7">
+                            <AlarmClockOff className="h-4 w-4" />
+                            <span className="sr-only">미루기</span>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {snoozeOptions.map(option => (
+                            <DropdownMenuItem key={option.days} onClick={() => snooze(notification.id, option.days)}>
+                              {option.label} 동안 숨기기
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+        <div className="border-t px-4 py-2 text-right">
+          <Link href="/settings" className="text-xs text-muted-foreground hover:underline">알림 기준 설정</Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { NotificationContext } from '@/hooks/use-notifications';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { saveNotificationSettings, saveNotificationStates } from '@/firebase/firestore/notifications';
+import { getGuestBuildingIds } from '@/lib/portfolio';
+import { collection, query, getDocs, Timestamp } from 'firebase/firestore';
+import { Building, LeaseAgreement, NotificationSettings, NotificationState } from '@/lib/types';
+import { addDays } from 'date-fns';
+import { AppNotification, getNotificationSettings, isNotificationSnoozed, scanNotifications } from '@/lib/notifications';
+
+export function NotificationProvider({ children }: { children: React.ReactNode }) {
+  const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const profile = useUserProfile();
+  const [settings, setSettings] = useState(() => getNotificationSettings(profile?.notificationSettings));
+  const [allStates, setAllStates] = useState(() => profile?.notificationStates || {});
+  const [scanned, setScanned] = useState<AppNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [triggerScan, setTriggerScan] = useState(0);
+
+  useEffect(() => {
+    async function scan() {
+      if (!firestore || !user || !membership) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      try {
+        const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership))),
+        ]);
+        const buildings = buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building);
+        const leases = leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement);
+
+        const [leaseRecords, buildingCharges] = await Promise.all([
+          fetchLeaseRecords(firestore, membership.portfolioId, leases.map(l => l.id), getGuestBuildingIds(membership)),
+          fetchBuildingCharges(firestore, membership.portfolioId, buildings.map(b => b.id)),
+        ]);
+
+        setScanned(scanNotifications({ buildings, leases, ...leaseRecords, ...buildingCharges }, settings));
+      } catch (error) {
+        // The bell simply stays empty; the screens themselves report load errors.
+        console.error('Failed to scan notifications:', error);
+        setScanned([]);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    scan();
+  }, [firestore, user, membership, settings, triggerScan]);
+
+  const portfolioId = membership?.portfolioId;
+  const states = useMemo(() => (portfolioId && allStates[portfolioId]) || {}, [allStates, portfolioId]);
+
+  const notifications = useMemo(() => {
+    const now = new Date();
+    return scanned.filter(notification => !isNotificationSnoozed(states[notification.id], now));
+  }, [scanned, states]);
+
+  const unreadCount = notifications.filter(notification => !states[notification.id]?.readAt).length;
+
+  // Keeps only the states of notifications found by the last scan, then saves them.
+  const updateStates = useCallback((update: (current: Record<string, NotificationState>) => Record<string, NotificationState>) => {
+    if (!firestore || !user || !portfolioId) return;
+    const scannedIds = new Set(scanned.map(notification => notification.id));
+    const next = Object.fromEntries(Object.entries(update(states)).filter(([id]) => scannedIds.has(id)));
+    setAllStates(prev => ({ ...prev, [portfolioId]: next }));
+    saveNotificationStates(firestore, user.uid, portfolioId, next)
+      .catch(error => console.error('Failed to save notification states:', error));
+  }, [firestore, user, portfolioId, scanned, states]);
+
+  const markRead = useCallback((ids: string[]) => {
+    const readAt = Timestamp.now();
+    updateStates(current => ({
+      ...current,
+      ...Object.fromEntries(ids.map(id => [id, { ...current[id], readAt }])),
+    }));
+  }, [updateStates]);
+
+  const snooze = useCallback((id: string, days: number) => {
+    const snoozedUntil = Timestamp.fromDate(addDays(new Date(), days));
+    updateStates(current => ({ ...current, [id]: { ...current[id], snoozedUntil } }));
+  }, [updateStates]);
+
+  const saveSettings = useCallback(async (next: NotificationSettings) => {
+    if (!firestore || !user) return;
+    await saveNotificationSettings(firestore, user.uid, next);
+    setSettings(next);
+  }, [firestore, user]);
+
+  const value = useMemo(() => ({
+    notifications,
+    states,
+    unreadCount,
+    isLoading,
+    settings,
+    markRead,
+    snooze,
+    saveSettings,
+    refresh: () => setTriggerScan(t => t + 1),
+  }), [notifications, states, unreadCount, isLoading, settings, markRead, snooze, saveSettings]);
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+}
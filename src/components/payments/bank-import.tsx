@@ -0,0 +1,447 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { Building, DepositorAlias, LeaseAgreement, MaintenanceFee, MeterReading, Payment, RentAdjustment } from '@/lib/types';
+import { v4 as uuidv4 } from 'uuid';
+import { endOfMonth, format as formatDateFns, isAfter, startOfDay } from 'date-fns';
+import { AlertTriangle, Loader2, Trash2 } from 'lucide-react';
+import * as XLSX from 'xlsx';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { calculateLeaseFees } from '@/lib/utility-billing';
+import {
+  BankMatch,
+  BankTransaction,
+  MatchConfidence,
+  findDuplicatePayment,
+  getExpectedPayments,
+  matchBankTransaction,
+  matchConfidenceLabels,
+  normalizeDepositorName,
+  parseBankStatement,
+} from '@/lib/bank-import';
+import { importBankPayments, deleteDepositorAlias } from '@/firebase/non-blocking-updates';
+
+const NO_LEASE = 'none';
+
+const confidenceVariants: Record<MatchConfidence, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  high: 'default',
+  medium: 'secondary',
+  low: 'outline',
+  none: 'destructive',
+};
+
+interface ImportRow {
+  match: BankMatch;
+  leaseAgreementId: string | null;
+  maintenanceFeeAmount: number;
+  isSelected: boolean;
+  duplicate?: Payment;
+}
+
+export function BankImport() {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const router = useRouter();
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [paymentsByLease, setPaymentsByLease] = useState<Map<string, Payment[]>>(new Map());
+  const [adjustmentsByLease, setAdjustmentsByLease] = useState<Map<string, RentAdjustment[]>>(new Map());
+  const [feesByBuilding, setFeesByBuilding] = useState<Map<string, MaintenanceFee[]>>(new Map());
+  const [readingsByBuilding, setReadingsByBuilding] = useState<Map<string, MeterReading[]>>(new Map());
+  const [aliases, setAliases] = useState<DepositorAlias[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !portfolioId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [buildingsSnapshot, leasesSnapshot, aliasesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'depositorAliases'), where('portfolioId', '==', portfolioId))),
+        ]);
+
+        const buildingsData = buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building);
+        const leasesData = leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement);
+
+        const [{ paymentsByLease, adjustmentsByLease }, { feesByBuilding, readingsByBuilding }] = await Promise.all([
+          fetchLeaseRecords(firestore, portfolioId, leasesData.map(l => l.id)),
+          fetchBuildingCharges(firestore, portfolioId, buildingsData.map(b => b.id)),
+        ]);
+
+        setBuildings(buildingsData);
+        setLeases(leasesData);
+        setPaymentsByLease(paymentsByLease);
+        setAdjustmentsByLease(adjustmentsByLease);
+        setFeesByBuilding(feesByBuilding);
+        setReadingsByBuilding(readingsByBuilding);
+        setAliases(aliasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as DepositorAlias));
+      } catch (e: any) {
+        console.error('Failed to load data for bank import:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, portfolioId, triggerFetch]);
+
+  const buildingNameById = useMemo(() => new Map(buildings.map(b => [b.id, b.name])), [buildings]);
+
+  const getCandidates = (transaction: BankTransaction) => leases
+    .filter(lease => !isAfter(startOfDay(toDate(lease.leaseStartDate)), transaction.date))
+    .map(lease => {
+      const building = buildings.find(b => b.id === lease.buildingId);
+      const fees = calculateLeaseFees(
+        lease,
+        building,
+        feesByBuilding.get(lease.buildingId) || [],
+        readingsByBuilding.get(lease.buildingId) || [],
+        endOfMonth(transaction.date)
+      );
+      return {
+        lease,
+        expectedPayments: getExpectedPayments(
+          lease,
+          adjustmentsByLease.get(lease.id) || [],
+          paymentsByLease.get(lease.id) || [],
+          fees,
+          transaction.date
+        ),
+      };
+    });
+
+  const toImportRow = (match: BankMatch): ImportRow => {
+    const duplicate = match.leaseAgreementId
+      ? findDuplicatePayment(match.transaction, paymentsByLease.get(match.leaseAgreementId) || [])
+      : undefined;
+    return {
+      match,
+      leaseAgreementId: match.leaseAgreementId,
+      maintenanceFeeAmount: match.maintenanceFeeAmount,
+      isSelected: match.confidence === 'high' && !duplicate,
+      duplicate,
+    };
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setIsParsing(true);
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const sheetRows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+      const transactions = parseBankStatement(sheetRows);
+
+      if (transactions.length === 0) {
+        toast({ variant: 'destructive', title: '입금 내역 없음', description: '파일에서 입금 거래를 찾지 못했습니다.' });
+        setRows([]);
+        return;
+      }
+
+      setRows(transactions.map(transaction => toImportRow(matchBankTransaction(transaction, getCandidates(transaction), aliases))));
+    } catch (error) {
+      console.error('Failed to parse bank statement:', error);
+      toast({ variant: 'destructive', title: '파일 읽기 실패', description: (error as Error).message });
+      setRows([]);
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleLeaseChange = (index: number, value: string) => {
+    const row = rows[index];
+    const leaseAgreementId = value === NO_LEASE ? null : value;
+    const candidate = leaseAgreementId ? getCandidates(row.match.transaction).find(c => c.lease.id === leaseAgreementId) : undefined;
+    const expected = candidate?.expectedPayments.find(e => e.amount === row.match.transaction.amount);
+    const duplicate = leaseAgreementId
+      ? findDuplicatePayment(row.match.transaction, paymentsByLease.get(leaseAgreementId) || [])
+      : undefined;
+
+    updateRow(index, {
+      leaseAgreementId,
+      maintenanceFeeAmount: expected?.maintenanceFeeAmount || 0,
+      isSelected: !!leaseAgreementId && !duplicate,
+      duplicate,
+    });
+  };
+
+  const selectedRows = rows.filter(row => row.isSelected && row.leaseAgreementId);
+
+  const handleConfirm = async () => {
+    if (!firestore || !user || !portfolioId || selectedRows.length === 0) return;
+
+    if (selectedRows.some(row => row.maintenanceFeeAmount > row.match.transaction.amount)) {
+      toast({ variant: 'destructive', title: '관리비 충당액 오류', description: '관리비 충당액은 입금액을 초과할 수 없습니다.' });
+      return;
+    }
+
+    const buildingIdByLease = new Map(leases.map(l => [l.id, l.buildingId]));
+    const payments: Payment[] = selectedRows.map(row => ({
+      id: uuidv4(),
+      portfolioId,
+      leaseAgreementId: row.leaseAgreementId!,
+      buildingId: buildingIdByLease.get(row.leaseAgreementId!)!,
+      paymentDate: startOfDay(row.match.transaction.date),
+      paymentAmount: row.match.transaction.amount,
+      ...(row.maintenanceFeeAmount > 0 ? { maintenanceFeeAmount: row.maintenanceFeeAmount } : {}),
+      paymentMethod: 'bank_transfer' as const,
+      ...(row.match.transaction.depositorName ? { depositorName: row.match.transaction.depositorName } : {}),
+      ...(row.match.transaction.memo ? { memo: row.match.transaction.memo } : {}),
+    }));
+
+    // Remember depositor names that differ from the tenant name, so the next import matches them directly.
+    const newAliases: DepositorAlias[] = [];
+    selectedRows.forEach(row => {
+      const alias = row.match.transaction.depositorName;
+      const normalized = normalizeDepositorName(alias);
+      const lease = leases.find(l => l.id === row.leaseAgreementId);
+      if (!normalized || !lease || normalized === normalizeDepositorName(lease.tenantName)) return;
+
+      const isKnown = [...aliases, ...newAliases].some(a =>
+        a.leaseAgreementId === lease.id && normalizeDepositorName(a.alias) === normalized
+      );
+      if (!isKnown) {
+        newAliases.push({ id: uuidv4(), portfolioId, leaseAgreementId: lease.id, alias });
+      }
+    });
+
+    setIsSubmitting(true);
+    try {
+      await importBankPayments(firestore, payments, newAliases);
+      toast({
+        title: '납부 기록 추가됨',
+        description: `${payments.length}개의 납부 기록이 추가되었습니다.${newAliases.length > 0 ? ` 입금자명 ${newAliases.length}건을 기억했습니다.` : ''}`,
+      });
+      router.push('/payments');
+    } catch (error) {
+      console.error('Error importing bank payments:', error);
+      toast({ variant: 'destructive', title: '오류', description: '납부 기록을 추가하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteAlias = async (alias: DepositorAlias) => {
+    if (!firestore) return;
+    try {
+      await deleteDepositorAlias(firestore, alias.id);
+      toast({ title: '입금자명 삭제됨', description: `'${alias.alias}'는 더 이상 자동으로 매칭되지 않습니다.` });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '삭제 실패', description: '입금자명을 삭제하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const leaseLabel = (lease: LeaseAgreement) => `${lease.tenantName} (${buildingNameById.get(lease.buildingId) || '-'})`;
+  const sortedLeases = [...leases].sort((a, b) => a.tenantName.localeCompare(b.tenantName, 'ko'));
+  const duplicateCount = rows.filter(row => row.duplicate).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">은행 거래내역 가져오기</CardTitle>
+          <CardDescription>
+            은행에서 내려받은 거래내역(CSV, Excel)을 올리면 입금자명과 금액으로 임차인을 찾아 제안합니다. 제안을 확인하고 선택한 입금을 납부 기록으로 한번에 추가하세요.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex max-w-sm items-center gap-2">
+            <Input
+              type="file"
+              accept=".csv,.xls,.xlsx"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              disabled={isParsing || isSubmitting}
+            />
+            {isParsing && <Loader2 className="h-4 w-4 animate-spin" />}
+          </div>
+
+          {duplicateCount > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>이미 등록된 납부 기록</AlertTitle>
+              <AlertDescription>
+                같은 날짜와 금액의 납부 기록이 이미 있는 입금 {duplicateCount}건은 선택에서 제외했습니다.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]"></TableHead>
+                    <TableHead>거래일</TableHead>
+                    <TableHead>입금자명</TableHead>
+                    <TableHead className="text-right">입금액</TableHead>
+                    <TableHead className="w-[240px]">임차인</TableHead>
+                    <TableHead className="w-[140px]">관리비 충당액</TableHead>
+                    <TableHead>매칭</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => {
+                    const { transaction } = row.match;
+                    const isChanged = row.leaseAgreementId !== row.match.leaseAgreementId;
+                    return (
+                      <TableRow key={transaction.rowNumber} className={cn(row.duplicate && "bg-muted/50", !row.leaseAgreementId && "bg-yellow-50 dark:bg-yellow-900/20")}>
+                        <TableCell>
+                          <Checkbox
+                            checked={row.isSelected}
+                            disabled={!row.leaseAgreementId}
+                            onCheckedChange={(checked) => updateRow(index, { isSelected: checked === true })}
+                          />
+                        </TableCell>
+                        <TableCell>{formatDateFns(transaction.date, 'yyyy-MM-dd')}</TableCell>
+                        <TableCell>
+                          <div>{transaction.depositorName || '-'}</div>
+                          {transaction.memo && <div className="text-xs text-muted-foreground">{transaction.memo}</div>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(transaction.amount)}</TableCell>
+                        <TableCell>
+                          <Select value={row.leaseAgreementId || NO_LEASE} onValueChange={(value) => handleLeaseChange(index, value)}>
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_LEASE}>선택 안 함</SelectItem>
+                              {sortedLeases.map(lease => (
+                                <SelectItem key={lease.id} value={lease.id}>{leaseLabel(lease)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="text"
+                            inputMode="numeric"
+                            className="h-8"
+                            value={new Intl.NumberFormat('ko-KR').format(row.maintenanceFeeAmount)}
+                            disabled={!row.leaseAgreementId}
+                            onChange={(e) => updateRow(index, { maintenanceFeeAmount: Number(e.target.value.replace(/,/g, '')) || 0 })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-xs space-y-1">
+                          {isChanged ? (
+                            <Badge variant="outline">직접 선택</Badge>
+                          ) : (
+                            <Badge variant={confidenceVariants[row.match.confidence]}>{matchConfidenceLabels[row.match.confidence]}</Badge>
+                          )}
+                          {!isChanged && row.match.reasons.map(reason => (
+                            <div key={reason} className="text-muted-foreground">{reason}</div>
+                          ))}
+                          {row.duplicate && <div className="text-destructive">이미 등록된 납부 기록</div>}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-end gap-4">
+                <span className="text-sm text-muted-foreground">
+                  {selectedRows.length}건 선택 · {formatCurrency(selectedRows.reduce((sum, row) => sum + row.match.transaction.amount, 0))}
+                </span>
+                <Button onClick={handleConfirm} disabled={isSubmitting || selectedRows.length === 0}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  선택한 입금을 납부 기록으로 추가
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">기억된 입금자명</CardTitle>
+          <CardDescription>
+            임차인 이름과 다른 입금자명을 확정하면 기억해두고 다음 가져오기부터 해당 계약에 바로 매칭합니다.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>입금자명</TableHead>
+                <TableHead>임차인</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {aliases.length > 0 ? aliases.map(alias => {
+                const lease = leases.find(l => l.id === alias.leaseAgreementId);
+                return (
+                  <TableRow key={alias.id}>
+                    <TableCell>{alias.alias}</TableCell>
+                    <TableCell>{lease ? leaseLabel(lease) : '-'}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleDeleteAlias(alias)}>
+                        <Trash2 className="h-3 w-3 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="h-24 text-center">기억된 입금자명이 없습니다.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -22,14 +22,17 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
 import { LeaseAgreement, Building } from '@/lib/types';
-import { collection, query, where, doc, getDocs, writeBatch } from 'firebase/firestore';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { createPayments } from '@/firebase/non-blocking-updates';
 import { v4 as uuidv4 } from 'uuid';
 import React, { useMemo, useEffect, useState } from 'react';
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
 import { CalendarIcon, Loader2 } from 'lucide-react';
 import { Calendar } from '../ui/calendar';
 import { cn, getLeaseDetails } from '@/lib/utils';
+import { getPaymentMethod, paymentMethodLabels, paymentMethods } from '@/lib/payment-method';
 import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
 import { Separator } from '../ui/separator';
 
@@ -39,6 +42,14 @@ const formSchema = z.object({
     (val) => (typeof val === 'string' ? val.replace(/,/g, '') : val),
     z.coerce.number().min(1, { message: '납부액을 1원 이상 입력해주세요.' })
   ),
+  maintenanceFeeAmount: z.preprocess(
+    (val) => (typeof val === 'string' ? val.replace(/,/g, '') : val),
+    z.coerce.number().min(0).default(0)
+  ),
+  paymentMethod: z.enum(['bank_transfer', 'credit_card', 'cash'], { required_error: '결제 방식을 선택해주세요.' }),
+  depositorName: z.string().default(''),
+  bankReference: z.string().default(''),
+  memo: z.string().default(''),
   // Single payment
   singlePaymentDate: z.date().optional(),
   // Bulk payment
@@ -61,6 +72,9 @@ const formSchema = z.object({
 }, {
     message: '필요한 모든 필드를 입력해주세요.',
     path: ['bulkMode'], // You can refine the path to be more specific if needed
+}).refine(data => data.maintenanceFeeAmount <= data.paymentAmount, {
+    message: '관리비 충당액은 납부액을 초과할 수 없습니다.',
+    path: ['maintenanceFeeAmount'],
 });
 
 type LeaseWithUnitNames = LeaseAgreement & { displayUnitNames: string };
@@ -69,6 +83,7 @@ export function NewPaymentForm() {
   const { toast } = useToast();
   const router = useRouter();
   const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
 
   const [leases, setLeases] = useState<LeaseWithUnitNames[]>([]);
   const [buildings, setBuildings] = useState<Building[]>([]);
@@ -80,6 +95,10 @@ export function NewPaymentForm() {
     resolver: zodResolver(formSchema),
     defaultValues: {
       paymentAmount: 0,
+      maintenanceFeeAmount: 0,
+      depositorName: '',
+      bankReference: '',
+      memo: '',
       singlePaymentDate: new Date(),
       bulkMode: 'single',
       bulkType: 'monthly',
@@ -94,11 +113,11 @@ export function NewPaymentForm() {
 
   useEffect(() => {
     async function fetchInitialData() {
-        if (!firestore || !user) return;
+        if (!firestore || !user || !portfolioId) return;
         setIsLoading(true);
         try {
-            const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('ownerId', '==', user.uid));
-            const buildingsQuery = query(collection(firestore, 'buildings'), where('ownerId', '==', user.uid));
+            const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId));
+            const buildingsQuery = query(collection(firestore, 'buildings'), where('portfolioId', '==', portfolioId));
 
             const [leasesSnapshot, buildingsSnapshot] = await Promise.all([
                 getDocs(leasesQuery),
@@ -129,7 +148,7 @@ export function NewPaymentForm() {
         }
     }
     fetchInitialData();
-  }, [firestore, user, toast]);
+  }, [firestore, user, portfolioId, toast]);
 
   useEffect(() => {
     const lease = leases.find(l => l.id === selectedLeaseId);
@@ -142,7 +161,11 @@ export function NewPaymentForm() {
         amountToSet = Math.round(rentAmount * 1.1);
       }
       
-      form.setValue('paymentAmount', amountToSet);
+      const feeToSet = lease.maintenanceFeeMethod === 'fixed' ? (lease.maintenanceFeeAmount || 0) : 0;
+
+      form.setValue('paymentAmount', amountToSet + feeToSet);
+      form.setValue('maintenanceFeeAmount', feeToSet);
+      form.setValue('paymentMethod', getPaymentMethod({}, lease) || 'bank_transfer');
     } else {
       setSelectedLease(null);
     }
@@ -175,7 +198,7 @@ export function NewPaymentForm() {
   }, [bulkMode, form.watch('bulkStartDate'), form.watch('bulkEndDate'), form.watch('bulkType'), form.watch('bulkMonthlyDay'), form.watch('bulkManualDates')]);
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
-    if (!firestore || !user) {
+    if (!firestore || !user || !portfolioId) {
       toast({ variant: 'destructive', title: '오류', description: '로그인이 필요합니다.' });
       return;
     }
@@ -189,22 +212,22 @@ export function NewPaymentForm() {
         return;
     }
 
-    try {
-        const batch = writeBatch(firestore);
-        
-        paymentDates.forEach(paymentDate => {
-            const paymentId = uuidv4();
-            const paymentRef = doc(firestore, 'payments', paymentId);
-            batch.set(paymentRef, {
-                id: paymentId,
-                ownerId: user.uid,
-                leaseAgreementId: values.leaseAgreementId,
-                paymentDate: startOfDay(paymentDate),
-                paymentAmount: values.paymentAmount,
-            });
-        });
+    const buildingId = leases.find(l => l.id === values.leaseAgreementId)?.buildingId;
 
-        await batch.commit();
+    try {
+        await createPayments(firestore, paymentDates.map(paymentDate => ({
+            id: uuidv4(),
+            portfolioId,
+            leaseAgreementId: values.leaseAgreementId,
+            ...(buildingId ? { buildingId } : {}),
+            paymentDate: startOfDay(paymentDate),
+            paymentAmount: values.paymentAmount,
+            ...(values.maintenanceFeeAmount > 0 ? { maintenanceFeeAmount: values.maintenanceFeeAmount } : {}),
+            paymentMethod: values.paymentMethod,
+            ...(values.depositorName.trim() ? { depositorName: values.depositorName.trim() } : {}),
+            ...(values.bankReference.trim() ? { bankReference: values.bankReference.trim() } : {}),
+            ...(values.memo.trim() ? { memo: values.memo.trim() } : {}),
+        })));
 
       toast({
         title: '납부 기록 추가됨',
@@ -287,6 +310,99 @@ export function NewPaymentForm() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="maintenanceFeeAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>관리비 충당액 (건별)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      placeholder="0"
+                      value={new Intl.NumberFormat('ko-KR').format(field.value || 0)}
+                      onChange={(e) => {
+                        const rawValue = e.target.value.replace(/,/g, '');
+                        if (/^\d*$/.test(rawValue)) {
+                           field.onChange(Number(rawValue));
+                        }
+                      }}
+                      disabled={!selectedLeaseId}
+                    />
+                  </FormControl>
+                  <FormDescription>납부액 중 관리비로 처리할 금액입니다. 나머지는 임대료로 처리됩니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="paymentMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>결제 방식</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={!selectedLeaseId}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="결제 방식을 선택하세요" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {paymentMethods.map(method => (
+                        <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>임차인을 선택하면 계약의 결제 방식으로 채워집니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="depositorName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>입금자명 (선택)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="예: 홍길동" {...field} disabled={!selectedLeaseId} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bankReference"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>거래 참조번호 (선택)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="은행 거래번호, 카드 승인번호 등" {...field} disabled={!selectedLeaseId} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="memo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>메모 (선택)</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={!selectedLeaseId} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="bulkMode"
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useFirebase, fetchIssuedPaymentReceipts } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { LeaseAgreement, Payment, PaymentType } from '@/lib/types';
+import { v4 as uuidv4 } from 'uuid';
+import { format as formatDateFns, parse, startOfDay } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { getWithdrawableAmount, getWithdrawalFeePart, paymentTypeLabels } from '@/lib/rent-schedule';
+import { recordPaymentWithdrawal } from '@/firebase/non-blocking-updates';
+
+type WithdrawalType = Exclude<PaymentType, 'payment'>;
+
+const withdrawalTypes: WithdrawalType[] = ['refund', 'reversal', 'chargeback'];
+
+const withdrawalTypeDescriptions: Record<WithdrawalType, string> = {
+  refund: '과납·선납된 금액을 임차인에게 돌려줍니다. 충당된 월은 그대로 두고 잔액만 늘어납니다.',
+  reversal: '이체가 반환되는 등 입금이 취소되었습니다. 이 입금이 충당한 월이 다시 미납이 됩니다.',
+  chargeback: '카드 결제가 취소되었습니다. 이 결제가 충당한 월이 다시 미납이 됩니다.',
+};
+
+interface PaymentWithdrawalDialogProps {
+  payment: Payment; // 환불·취소의 대상 입금
+  lease: LeaseAgreement;
+  leasePayments: Payment[];
+  defaultType?: WithdrawalType;
+  defaultAmount?: number;
+  trigger: React.ReactNode;
+  onSave: () => void;
+}
+
+/**
+ * Records a refund, reversal or chargeback against a payment as a negative payment, so the
+ * original stays in the ledger and the correction shows as its own line.
+ */
+export function PaymentWithdrawalDialog({ payment, lease, leasePayments, defaultType = 'reversal', defaultAmount, trigger, onSave }: PaymentWithdrawalDialogProps) {
+  const { firestore } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [type, setType] = useState<WithdrawalType>(defaultType);
+  const [dateText, setDateText] = useState(formatDateFns(new Date(), 'yyyy-MM-dd'));
+  const [amount, setAmount] = useState(0);
+  const [reason, setReason] = useState('');
+
+  const withdrawable = getWithdrawableAmount(payment, leasePayments);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setType(defaultType);
+    setDateText(formatDateFns(new Date(), 'yyyy-MM-dd'));
+    setAmount(Math.max(0, Math.min(defaultAmount ?? withdrawable, withdrawable)));
+    setReason('');
+  }, [isOpen, defaultType, defaultAmount, withdrawable]);
+
+  const date = parse(dateText, 'yyyy-MM-dd', new Date());
+  const validationError =
+    isNaN(date.getTime()) ? '날짜를 입력해주세요.' :
+    amount <= 0 ? '금액을 1원 이상 입력해주세요.' :
+    amount > withdrawable ? `이 입금에서 환불·취소할 수 있는 금액은 ${formatCurrency(withdrawable)}입니다.` :
+    !reason.trim() ? '사유를 입력해주세요.' :
+    null;
+
+  const handleSubmit = async () => {
+    if (!firestore || !portfolioId || validationError) return;
+    setIsSubmitting(true);
+
+    const feePart = getWithdrawalFeePart(payment, leasePayments, type, amount);
+
+    try {
+      // A reversal or chargeback changes what the payment stands for, so its receipts no longer hold;
+      // a new one can be issued for what is left.
+      const issuedReceipts = type !== 'refund' ? await fetchIssuedPaymentReceipts(firestore, portfolioId, payment.id) : [];
+
+      await recordPaymentWithdrawal(firestore, {
+        id: uuidv4(),
+        portfolioId,
+        leaseAgreementId: payment.leaseAgreementId,
+        buildingId: payment.buildingId || lease.buildingId,
+        paymentDate: startOfDay(date),
+        paymentAmount: -amount,
+        ...(feePart > 0 ? { maintenanceFeeAmount: -feePart } : {}),
+        ...(payment.paymentMethod ? { paymentMethod: payment.paymentMethod } : {}),
+        type,
+        originalPaymentId: payment.id,
+        reason: reason.trim(),
+      }, issuedReceipts, `${paymentTypeLabels[type]}: ${reason.trim()}`);
+      const voidedNumbers = issuedReceipts.map(receipt => receipt.receiptNumber).join(', ');
+      toast({
+        title: `${paymentTypeLabels[type]} 기록됨`,
+        description: `${formatCurrency(-amount)}을 원장에 별도 항목으로 기록했습니다.${voidedNumbers ? ` 영수증 ${voidedNumbers}은 무효 처리했습니다.${amount < withdrawable ? ' 남은 금액으로 다시 발행할 수 있습니다.' : ''}` : ''}`,
+      });
+      setIsOpen(false);
+      onSave();
+    } catch (error) {
+      console.error('Error recording payment withdrawal:', error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '환불·취소를 기록하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>환불·입금 취소</DialogTitle>
+          <DialogDescription>
+            {lease.tenantName} · {formatDate(payment.paymentDate)} 입금 {formatCurrency(payment.paymentAmount)}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>구분</Label>
+            <Select value={type} onValueChange={(value) => setType(value as WithdrawalType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {withdrawalTypes.map(t => (
+                  <SelectItem key={t} value={t}>{paymentTypeLabels[t]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{withdrawalTypeDescriptions[type]}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="withdrawalDate">일자</Label>
+              <Input id="withdrawalDate" type="date" value={dateText} onChange={(e) => setDateText(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="withdrawalAmount">금액</Label>
+              <Input
+                id="withdrawalAmount"
+                type="text"
+                value={new Intl.NumberFormat('ko-KR').format(amount || 0)}
+                onChange={(e) => {
+                  const rawValue = e.target.value.replace(/,/g, '');
+                  if (/^\d*$/.test(rawValue)) {
+                    setAmount(Number(rawValue));
+                  }
+                }}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="withdrawalReason">사유</Label>
+            <Input id="withdrawalReason" placeholder="예: 잔액 부족으로 이체 반환" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          {validationError && <p className="text-sm font-medium text-destructive">{validationError}</p>}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !!validationError}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            기록
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,21 +1,23 @@
 'use client';
 
-import { LeaseAgreement, Payment, BuildingUnit } from '@/lib/types';
-import { collection, query, where, orderBy, getDocs, doc, Timestamp, onSnapshot } from 'firebase/firestore';
+import { LeaseAgreement, Payment, BuildingUnit, RentAdjustment, PaymentAllocation, PaymentMethod, PaymentReceipt } from '@/lib/types';
+import { collection, query, where, orderBy, getDocs, doc, Timestamp, onSnapshot, deleteField } from 'firebase/firestore';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertTriangle, Wallet, Pencil, Loader2, CalendarIcon } from 'lucide-react';
+import { AlertTriangle, Wallet, Pencil, Loader2, CalendarIcon, ReceiptText, Undo2, Trash2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { Skeleton } from '../ui/skeleton';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
 import React, { useEffect, useState, useMemo } from 'react';
-import { useFirebase, errorEmitter, FirestorePermissionError, useMemoFirebase } from '@/firebase';
+import { useFirebase, errorEmitter, FirestorePermissionError, useMemoFirebase, fetchLeaseRecords, fetchIssuedPaymentReceipts } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { canEditPortfolioData, getGuestBuildingIds } from '@/lib/portfolio';
 import { Button } from '../ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { updateDocumentNonBlocking, deleteDocumentNonBlocking } from '@/firebase/non-blocking-updates';
+import { deleteDocumentNonBlocking, deletePayment, updatePayment } from '@/firebase/non-blocking-updates';
 import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Popover, PopoverTrigger, PopoverContent } from '../ui/popover';
@@ -23,6 +25,14 @@ import { Calendar } from '../ui/calendar';
 import { format as formatDateFns } from 'date-fns';
 import { ko } from 'date-fns/locale';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '../ui/accordion';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { DueLine, allocatePayments, calculateDues, getWithdrawableAmount, isPaymentWithdrawal, paymentTypeLabels } from '@/lib/rent-schedule';
+import { PaymentWithdrawalDialog } from './payment-withdrawal-dialog';
+import { Badge } from '../ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { PaymentReceiptDialog } from '../receipts/payment-receipt-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { getPaymentMethod, paymentMethodLabels, paymentMethods } from '@/lib/payment-method';
 
 type PaymentWithLease = Payment & { 
   lease: LeaseAgreement & { unitNames?: string[] }
@@ -34,32 +44,126 @@ const paymentFormSchema = z.object({
     (val) => (typeof val === 'string' ? val.replace(/,/g, '') : val),
     z.coerce.number().min(1, { message: '납부액을 1원 이상 입력해주세요.' })
   ),
+  maintenanceFeeAmount: z.preprocess(
+    (val) => (typeof val === 'string' ? val.replace(/,/g, '') : val),
+    z.coerce.number().min(0).default(0)
+  ),
+  paymentMethod: z.enum(['bank_transfer', 'credit_card', 'cash']),
+  depositorName: z.string().default(''),
+  bankReference: z.string().default(''),
+  memo: z.string().default(''),
+  allocationMethod: z.enum(['fifo', 'manual']).default('fifo'),
+  allocations: z.array(z.object({
+    month: z.string(),
+    amount: z.coerce.number().min(0),
+  })).default([]),
+}).refine(data => data.maintenanceFeeAmount <= data.paymentAmount, {
+  message: '관리비 충당액은 납부액을 초과할 수 없습니다.',
+  path: ['maintenanceFeeAmount'],
+}).refine(data => data.allocationMethod === 'fifo' || data.allocations.reduce((sum, a) => sum + a.amount, 0) <= data.paymentAmount - data.maintenanceFeeAmount, {
+  message: '월별 충당액 합계는 임대료 납부액(납부액 - 관리비 충당액)을 초과할 수 없습니다.',
+  path: ['allocations'],
 });
 
-function EditPaymentDialog({ payment, onSave, onDelete }: { payment: Payment, onSave: () => void, onDelete: (paymentId: string) => void }) {
+const ALL_METHODS = 'all';
+
+const voidedReceiptsNotice = (receipts: PaymentReceipt[]) =>
+  receipts.length > 0 ? ` 영수증 ${receipts.map(receipt => receipt.receiptNumber).join(', ')}은 무효 처리했습니다.` : '';
+
+function PaymentSummary({ payment, lease }: { payment: Payment, lease: LeaseAgreement }) {
+  const method = getPaymentMethod(payment, lease);
+  const isWithdrawal = isPaymentWithdrawal(payment);
+  const references = [payment.reason, payment.depositorName && `입금자 ${payment.depositorName}`, payment.bankReference, payment.memo].filter(Boolean);
+  return (
+    <div className='flex justify-between items-center'>
+      <div>
+        <p className='text-sm text-muted-foreground'>
+          {formatDate(payment.paymentDate)}
+          {isWithdrawal && <Badge variant="destructive" className='ml-2 px-1.5 py-0 text-[10px]'>{paymentTypeLabels[payment.type!]}</Badge>}
+          {method && <span className='ml-2 text-xs'>{paymentMethodLabels[method]}</span>}
+        </p>
+        {references.length > 0 && <p className='text-xs text-muted-foreground'>{references.join(' · ')}</p>}
+      </div>
+      <div className='text-right'>
+        <p className={cn('font-semibold', isWithdrawal && 'text-destructive')}>{formatCurrency(payment.paymentAmount)}</p>
+        {payment.maintenanceFeeAmount ? (
+          <p className='text-xs text-muted-foreground'>관리비 {formatCurrency(payment.maintenanceFeeAmount)} 포함</p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function EditPaymentDialog({ payment, lease, dues, leasePayments, onSave, onDelete }: { payment: Payment, lease: LeaseAgreement, dues: DueLine[], leasePayments: Payment[], onSave: () => void, onDelete: (paymentId: string) => void }) {
   const { firestore, user } = useFirebase();
   const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // What each month still owes without this payment, and how this payment is applied now.
+  const allocationMonths = useMemo(() => {
+    const { settlements } = allocatePayments(dues, leasePayments.filter(p => p.id !== payment.id));
+    const current = allocatePayments(dues, leasePayments).allocationsByPayment.get(payment.id) || [];
+    return settlements
+      .map(s => ({ month: s.month, total: s.due.total, open: s.remaining, current: current.find(a => a.month === s.month)?.amount || 0 }))
+      .filter(m => m.open > 0 || m.current > 0);
+  }, [dues, leasePayments, payment.id]);
+
+  const defaultValues = useMemo(() => ({
+    paymentDate: payment.paymentDate instanceof Timestamp ? payment.paymentDate.toDate() : payment.paymentDate,
+    paymentAmount: payment.paymentAmount,
+    maintenanceFeeAmount: payment.maintenanceFeeAmount || 0,
+    paymentMethod: getPaymentMethod(payment, lease) || 'bank_transfer',
+    depositorName: payment.depositorName || '',
+    bankReference: payment.bankReference || '',
+    memo: payment.memo || '',
+    allocationMethod: payment.allocations ? 'manual' as const : 'fifo' as const,
+    allocations: allocationMonths.map(m => ({ month: m.month, amount: m.current })),
+  }), [payment, lease, allocationMonths]);
+
+  // The refunds and reversals already recorded against the payment cannot take back more than it holds.
+  const withdrawn = payment.paymentAmount - getWithdrawableAmount(payment, leasePayments);
+  const schema = useMemo(() => paymentFormSchema.refine(data => data.paymentAmount >= withdrawn, {
+    message: `이 납부에서 이미 환불·취소한 ${formatCurrency(withdrawn)}보다 적게 수정할 수 없습니다.`,
+    path: ['paymentAmount'],
+  }), [withdrawn]);
+
   const form = useForm<z.infer<typeof paymentFormSchema>>({
-    resolver: zodResolver(paymentFormSchema),
-    defaultValues: {
-      paymentDate: payment.paymentDate instanceof Timestamp ? payment.paymentDate.toDate() : payment.paymentDate,
-      paymentAmount: payment.paymentAmount,
-    }
+    resolver: zodResolver(schema),
+    defaultValues,
   });
 
+  const { fields: allocationFields } = useFieldArray({
+    control: form.control,
+    name: 'allocations',
+  });
+
+  useEffect(() => {
+    if (isOpen) form.reset(defaultValues);
+  }, [form, defaultValues, isOpen]);
+
+  const allocationMethod = form.watch('allocationMethod');
+
   const onSubmit = async (data: z.infer<typeof paymentFormSchema>) => {
     if (!firestore || !user) return;
     setIsSubmitting(true);
 
-    const paymentRef = doc(firestore, 'payments', payment.id);
+    const { allocationMethod, allocations, depositorName, bankReference, memo, ...values } = data;
+    const optionalText = (value: string) => value.trim() || deleteField();
+    const amountsChanged = values.paymentAmount !== payment.paymentAmount || values.maintenanceFeeAmount !== (payment.maintenanceFeeAmount || 0);
 
     try {
-      await updateDocumentNonBlocking(paymentRef, data);
-
-      toast({ title: "수정 완료", description: "납부 기록이 성공적으로 수정되었습니다."});
+      // A receipt prints the amounts, so changing them leaves its issued receipts wrong.
+      const issuedReceipts = amountsChanged ? await fetchIssuedPaymentReceipts(firestore, payment.portfolioId, payment.id) : [];
+      await updatePayment(firestore, payment.id, {
+        ...values,
+        depositorName: optionalText(depositorName),
+        bankReference: optionalText(bankReference),
+        memo: optionalText(memo),
+        allocations: allocationMethod === 'manual' ? allocations.filter(a => a.amount > 0) : deleteField(),
+      }, issuedReceipts, '납부액 수정');
+
+      toast({ title: "수정 완료", description: `납부 기록이 성공적으로 수정되었습니다.${voidedReceiptsNotice(issuedReceipts)}`});
       onSave();
       setIsOpen(false);
     } catch(error) {
@@ -70,28 +174,37 @@ function EditPaymentDialog({ payment, onSave, onDelete }: { payment: Payment, on
     }
   }
 
-  const handleDeleteClick = () => {
+  const handleDeleteClick = async () => {
     if (!firestore || !user) return;
-    const paymentRef = doc(firestore, 'payments', payment.id);
-    
-    deleteDocumentNonBlocking(paymentRef);
+    if (leasePayments.some(p => p.originalPaymentId === payment.id)) {
+      toast({ variant: 'destructive', title: '삭제할 수 없음', description: '이 납부 기록에 연결된 환불·취소 기록을 먼저 삭제해주세요.' });
+      return;
+    }
+    setIsSubmitting(true);
 
-    toast({
-      title: '납부 기록 삭제됨',
-      description: '선택한 납부 기록이 삭제되었습니다.',
-    });
-    onDelete(payment.id);
-    setIsOpen(false);
+    try {
+      const issuedReceipts = await fetchIssuedPaymentReceipts(firestore, payment.portfolioId, payment.id);
+      await deletePayment(firestore, payment.id, issuedReceipts, '납부 기록 삭제');
+
+      toast({
+        title: '납부 기록 삭제됨',
+        description: `선택한 납부 기록이 삭제되었습니다.${voidedReceiptsNotice(issuedReceipts)}`,
+      });
+      onDelete(payment.id);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error deleting payment:", error);
+      toast({ variant: 'destructive', title: '삭제 실패', description: '납부 기록 삭제 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
-        <div className="relative cursor-pointer hover:bg-muted/50 transition-colors p-4 border-b">
-            <div className='flex justify-between items-center'>
-              <p className='text-sm text-muted-foreground'>{formatDate(payment.paymentDate)}</p>
-              <p className='font-semibold'>{formatCurrency(payment.paymentAmount)}</p>
-            </div>
+        <div className="relative cursor-pointer hover:bg-muted/50 transition-colors p-4">
+            <PaymentSummary payment={payment} lease={lease} />
         </div>
       </DialogTrigger>
       <DialogContent>
@@ -155,6 +268,115 @@ function EditPaymentDialog({ payment, onSave, onDelete }: { payment: Payment, on
               />
               {form.formState.errors.paymentAmount && <p className="text-sm font-medium text-destructive">{form.formState.errors.paymentAmount.message}</p>}
             </div>
+           <div className="space-y-2">
+              <Label htmlFor="maintenanceFeeAmount">관리비 충당액</Label>
+              <Controller
+                name="maintenanceFeeAmount"
+                control={form.control}
+                render={({ field }) => (
+                  <Input
+                    id="maintenanceFeeAmount"
+                    type="text"
+                    value={new Intl.NumberFormat('ko-KR').format(field.value || 0)}
+                    onChange={(e) => {
+                      const rawValue = e.target.value.replace(/,/g, '');
+                      if (/^\d*$/.test(rawValue)) {
+                        field.onChange(Number(rawValue));
+                      }
+                    }}
+                  />
+                )}
+              />
+              {form.formState.errors.maintenanceFeeAmount && <p className="text-sm font-medium text-destructive">{form.formState.errors.maintenanceFeeAmount.message}</p>}
+            </div>
+           <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>결제 방식</Label>
+                <Controller
+                  name="paymentMethod"
+                  control={form.control}
+                  render={({ field }) => (
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {paymentMethods.map(method => (
+                          <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="depositorName">입금자명</Label>
+                <Input id="depositorName" {...form.register('depositorName')} />
+              </div>
+            </div>
+           <div className="space-y-2">
+              <Label htmlFor="bankReference">거래 참조번호</Label>
+              <Input id="bankReference" placeholder="은행 거래번호, 카드 승인번호 등" {...form.register('bankReference')} />
+            </div>
+           <div className="space-y-2">
+              <Label htmlFor="memo">메모</Label>
+              <Input id="memo" {...form.register('memo')} />
+            </div>
+           <div className="space-y-2">
+              <Label>임대료 충당</Label>
+              <Controller
+                name="allocationMethod"
+                control={form.control}
+                render={({ field }) => (
+                  <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-4">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="fifo" id="allocation-fifo" />
+                      <Label htmlFor="allocation-fifo" className="font-normal">자동 (오래된 달부터)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="manual" id="allocation-manual" />
+                      <Label htmlFor="allocation-manual" className="font-normal">직접 지정</Label>
+                    </div>
+                  </RadioGroup>
+                )}
+              />
+              {allocationMethod === 'manual' && (
+                <div className="max-h-60 overflow-y-auto rounded-md border p-2 space-y-2">
+                  {allocationFields.length > 0 ? allocationFields.map((item, index) => {
+                    const month = allocationMonths[index];
+                    return (
+                      <div key={item.id} className="flex items-center gap-2 text-sm">
+                        <div className="flex-1">
+                          <p>{item.month}월분</p>
+                          <p className="text-xs text-muted-foreground">청구 {formatCurrency(month?.total || 0)} · 미충당 {formatCurrency(month?.open || 0)}</p>
+                        </div>
+                        <Controller
+                          name={`allocations.${index}.amount`}
+                          control={form.control}
+                          render={({ field }) => (
+                            <Input
+                              type="text"
+                              className="w-32 h-8"
+                              value={new Intl.NumberFormat('ko-KR').format(field.value || 0)}
+                              onChange={(e) => {
+                                const rawValue = e.target.value.replace(/,/g, '');
+                                if (/^\d*$/.test(rawValue)) {
+                                  field.onChange(Number(rawValue));
+                                }
+                              }}
+                            />
+                          )}
+                        />
+                      </div>
+                    );
+                  }) : (
+                    <p className="text-sm text-muted-foreground text-center py-4">충당할 미납 월이 없습니다.</p>
+                  )}
+                </div>
+              )}
+              {form.formState.errors.allocations && <p className="text-sm font-medium text-destructive">{form.formState.errors.allocations.message}</p>}
+              <p className="text-xs text-muted-foreground">지정하지 않은 나머지 금액은 오래된 달부터 충당됩니다.</p>
+            </div>
 
           <DialogFooter className="sm:justify-end pt-4">
             <Button type="button" variant="destructive" onClick={handleDeleteClick} disabled={isSubmitting}>삭제</Button>
@@ -169,13 +391,60 @@ function EditPaymentDialog({ payment, onSave, onDelete }: { payment: Payment, on
   );
 }
 
+// Refunds, reversals and chargebacks are not edited; a wrong one is deleted and recorded again.
+function WithdrawalRow({ payment, lease, onDelete }: { payment: Payment, lease: LeaseAgreement, onDelete: (paymentId: string) => void }) {
+  const { firestore } = useFirebase();
+  const { toast } = useToast();
+
+  const handleDelete = () => {
+    if (!firestore) return;
+    deleteDocumentNonBlocking(doc(firestore, 'payments', payment.id));
+    toast({ title: `${paymentTypeLabels[payment.type!]} 삭제됨`, description: '선택한 기록이 삭제되었습니다.' });
+    onDelete(payment.id);
+  };
+
+  return (
+    <div className="flex items-center border-b">
+      <div className="flex-1 p-4">
+        <PaymentSummary payment={payment} lease={lease} />
+      </div>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="ghost" size="icon" className="mx-2 h-8 w-8">
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">삭제</span>
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{paymentTypeLabels[payment.type!]} 기록 삭제</AlertDialogTitle>
+            <AlertDialogDescription>
+              {formatDate(payment.paymentDate)} {formatCurrency(payment.paymentAmount)} 기록을 삭제합니다. 원래 입금은 그대로 남습니다.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>취소</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>삭제</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
 
 export function PaymentsList({ buildingId }: { buildingId: string }) {
   const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const portfolioId = membership?.portfolioId;
+  // Guests only read payments, so the rows do not open the edit dialog.
+  const canEdit = canEditPortfolioData(membership);
   const [paymentsByTenant, setPaymentsByTenant] = useState<Map<string, PaymentWithLease[]>>(new Map());
+  const [paymentsByLease, setPaymentsByLease] = useState<Map<string, Payment[]>>(new Map());
+  const [adjustmentsByLease, setAdjustmentsByLease] = useState<Map<string, RentAdjustment[]>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [methodFilter, setMethodFilter] = useState<PaymentMethod | typeof ALL_METHODS>(ALL_METHODS);
 
   const buildingRef = useMemoFirebase(() => {
     if (!firestore || !buildingId) return null;
@@ -195,12 +464,12 @@ export function PaymentsList({ buildingId }: { buildingId: string }) {
 
   useEffect(() => {
     async function fetchData() {
-        if (!firestore || !user || !buildingId || !building) return;
+        if (!firestore || !user || !portfolioId || !buildingId || !building) return;
         setIsLoading(true);
         setError(null);
 
         try {
-            const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('ownerId', '==', user.uid), where('buildingId', '==', buildingId));
+            const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId), where('buildingId', '==', buildingId));
             const leasesSnapshot = await getDocs(leasesQuery);
             const leases = leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement);
             
@@ -211,9 +480,10 @@ export function PaymentsList({ buildingId }: { buildingId: string }) {
               return;
             }
 
-            const paymentsQuery = query(collection(firestore, 'payments'), where('ownerId', '==', user.uid), where('leaseAgreementId', 'in', leaseIds));
-            const paymentsSnapshot = await getDocs(paymentsQuery);
-            const allPayments = paymentsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Payment);
+            const { paymentsByLease, adjustmentsByLease } = await fetchLeaseRecords(firestore, portfolioId, leaseIds, getGuestBuildingIds(membership));
+            setPaymentsByLease(paymentsByLease);
+            setAdjustmentsByLease(adjustmentsByLease);
+            const allPayments = Array.from(paymentsByLease.values()).flat();
             
             // Sort payments by date in descending order on the client-side
             allPayments.sort((a, b) => {
@@ -248,7 +518,36 @@ export function PaymentsList({ buildingId }: { buildingId: string }) {
         }
     }
     fetchData();
-  }, [firestore, user, buildingId, building, refreshKey]);
+  }, [firestore, user, membership, buildingId, building, refreshKey]);
+
+  const duesByLease = useMemo(() => {
+    const dues = new Map<string, DueLine[]>();
+    paymentsByTenant.forEach(payments => payments.forEach(p => {
+      if (!dues.has(p.leaseAgreementId)) {
+        dues.set(p.leaseAgreementId, calculateDues(p.lease, adjustmentsByLease.get(p.leaseAgreementId) || []));
+      }
+    }));
+    return dues;
+  }, [paymentsByTenant, adjustmentsByLease]);
+
+  // The months each payment covers, as shown on its receipt.
+  const allocationsByPayment = useMemo(() => {
+    const allocations = new Map<string, PaymentAllocation[]>();
+    duesByLease.forEach((dues, leaseId) => {
+      allocatePayments(dues, paymentsByLease.get(leaseId) || []).allocationsByPayment.forEach((value, paymentId) => allocations.set(paymentId, value));
+    });
+    return allocations;
+  }, [duesByLease, paymentsByLease]);
+
+  const filteredPaymentsByTenant = useMemo(() => {
+    if (methodFilter === ALL_METHODS) return paymentsByTenant;
+    const filtered = new Map<string, PaymentWithLease[]>();
+    paymentsByTenant.forEach((payments, key) => {
+      const matching = payments.filter(p => getPaymentMethod(p, p.lease) === methodFilter);
+      if (matching.length > 0) filtered.set(key, matching);
+    });
+    return filtered;
+  }, [paymentsByTenant, methodFilter]);
 
   const handleSave = () => {
     setRefreshKey(oldKey => oldKey + 1);
@@ -267,6 +566,13 @@ export function PaymentsList({ buildingId }: { buildingId: string }) {
         }
         return newMap;
     });
+    setPaymentsByLease(prevMap => {
+        const newMap = new Map(prevMap);
+        for (const [leaseId, payments] of newMap.entries()) {
+            newMap.set(leaseId, payments.filter(p => p.id !== paymentId));
+        }
+        return newMap;
+    });
   }
 
 
@@ -305,29 +611,89 @@ export function PaymentsList({ buildingId }: { buildingId: string }) {
   }
 
   return (
-    <Accordion type="multiple" className="w-full">
-      {Array.from(paymentsByTenant.entries()).map(([key, payments], index) => {
-        const tenantInfo = payments[0].lease;
-        const totalAmount = payments.reduce((sum, p) => sum + p.paymentAmount, 0);
-
-        return (
-          <AccordionItem value={`item-${index}`} key={key}>
-            <AccordionTrigger>
-              <div className='flex justify-between items-center w-full pr-4'>
-                <div className='text-left'>
-                    <p className='font-semibold'>{tenantInfo.tenantName} ({tenantInfo.unitNames?.join(', ')})</p>
-                    <p className='text-sm text-muted-foreground'>총 납부액: {formatCurrency(totalAmount)} / {payments.length}건</p>
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={methodFilter} onValueChange={(value) => setMethodFilter(value as PaymentMethod | typeof ALL_METHODS)}>
+          <SelectTrigger className="w-[180px]" aria-label="결제 방식">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_METHODS}>모든 결제 방식</SelectItem>
+            {paymentMethods.map(method => (
+              <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {filteredPaymentsByTenant.size === 0 && (
+        <p className="py-8 text-center text-sm text-muted-foreground">{paymentMethodLabels[methodFilter as PaymentMethod]}(으)로 납부한 기록이 없습니다.</p>
+      )}
+      <Accordion type="multiple" className="w-full">
+        {Array.from(filteredPaymentsByTenant.entries()).map(([key, payments], index) => {
+          const tenantInfo = payments[0].lease;
+          const totalAmount = payments.reduce((sum, p) => sum + p.paymentAmount, 0);
+
+          return (
+            <AccordionItem value={`item-${index}`} key={key}>
+              <AccordionTrigger>
+                <div className='flex justify-between items-center w-full pr-4'>
+                  <div className='text-left'>
+                      <p className='font-semibold'>{tenantInfo.tenantName} ({tenantInfo.unitNames?.join(', ')})</p>
+                      <p className='text-sm text-muted-foreground'>총 납부액: {formatCurrency(totalAmount)} / {payments.length}건</p>
+                  </div>
                 </div>
-              </div>
-            </AccordionTrigger>
-            <AccordionContent>
-                {payments.map(p => (
-                   <EditPaymentDialog key={p.id} payment={p} onSave={handleSave} onDelete={handleDelete} />
-                ))}
-            </AccordionContent>
-          </AccordionItem>
-        )
-      })}
-    </Accordion>
+              </AccordionTrigger>
+              <AccordionContent>
+                  {payments.map(p => canEdit && isPaymentWithdrawal(p) ? (
+                     <WithdrawalRow key={p.id} payment={p} lease={p.lease} onDelete={handleDelete} />
+                  ) : canEdit ? (
+                     <div key={p.id} className="flex items-center border-b">
+                       <div className="flex-1">
+                         <EditPaymentDialog
+                           payment={p}
+                           lease={p.lease}
+                           dues={duesByLease.get(p.leaseAgreementId) || []}
+                           leasePayments={paymentsByLease.get(p.leaseAgreementId) || []}
+                           onSave={handleSave}
+                           onDelete={handleDelete}
+                         />
+                       </div>
+                       <PaymentWithdrawalDialog
+                         payment={p}
+                         lease={p.lease}
+                         leasePayments={paymentsByLease.get(p.leaseAgreementId) || []}
+                         onSave={handleSave}
+                         trigger={
+                           <Button variant="ghost" size="icon" className="ml-2 h-8 w-8">
+                             <Undo2 className="h-4 w-4" />
+                             <span className="sr-only">환불·취소</span>
+                           </Button>
+                         }
+                       />
+                       <PaymentReceiptDialog
+                         payment={p}
+                         lease={p.lease}
+                         building={building}
+                         allocations={allocationsByPayment.get(p.id) || []}
+                         leasePayments={paymentsByLease.get(p.leaseAgreementId) || []}
+                         trigger={
+                           <Button variant="ghost" size="icon" className="mr-2 h-8 w-8">
+                             <ReceiptText className="h-4 w-4" />
+                             <span className="sr-only">영수증</span>
+                           </Button>
+                         }
+                       />
+                     </div>
+                  ) : (
+                     <div key={p.id} className="p-4 border-b">
+                       <PaymentSummary payment={p} lease={p.lease} />
+                     </div>
+                  ))}
+              </AccordionContent>
+            </AccordionItem>
+          )
+        })}
+      </Accordion>
+    </div>
   );
 }
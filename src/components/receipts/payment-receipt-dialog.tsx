@@ -0,0 +1,208 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
+import { Building, LeaseAgreement, Payment, PaymentAllocation, PaymentReceipt, PaymentReceiptStatus } from '@/lib/types';
+import { v4 as uuidv4 } from 'uuid';
+import { format as formatDateFns, parse, startOfDay } from 'date-fns';
+import { Loader2, Printer } from 'lucide-react';
+
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Skeleton } from '../ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { getNetPaymentAmounts, toDate } from '@/lib/rent-schedule';
+import { buildPaymentReceiptDraft, formatReceiptNumber, getLastReceiptSequence, paymentReceiptStatusLabels } from '@/lib/payment-receipt';
+import { savePaymentReceipts } from '@/firebase/non-blocking-updates';
+import { saveNumberedDocuments } from '@/firebase/firestore/document-counters';
+
+export const paymentReceiptStatusVariants: Record<PaymentReceiptStatus, 'default' | 'destructive'> = {
+  issued: 'default',
+  void: 'destructive',
+};
+
+interface PaymentReceiptDialogProps {
+  payment: Payment;
+  lease: LeaseAgreement;
+  building: Building | null | undefined;
+  allocations: PaymentAllocation[]; // 이 납부가 충당된 월 (원장 기준)
+  leasePayments: Payment[]; // 계약의 납부 기록 (이 납부에 연결된 입금 취소를 반영)
+  trigger: React.ReactNode;
+}
+
+/**
+ * Issues, reissues and voids the receipt of one payment, and lists the receipts already issued for it.
+ */
+export function PaymentReceiptDialog({ payment, lease, building, allocations, leasePayments, trigger }: PaymentReceiptDialogProps) {
+  const { firestore } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [issueDateText, setIssueDateText] = useState(formatDateFns(new Date(), 'yyyy-MM-dd'));
+  const [reason, setReason] = useState('');
+  const [triggerFetch, setTriggerFetch] = useState(0);
+
+  // Numbering needs every receipt of the portfolio, so they are all loaded when the dialog opens.
+  useEffect(() => {
+    async function fetchReceipts() {
+      if (!isOpen || !firestore || !portfolioId) return;
+      setIsLoading(true);
+      try {
+        const snapshot = await getDocs(query(collection(firestore, 'paymentReceipts'), where('portfolioId', '==', portfolioId)));
+        setReceipts(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as PaymentReceipt));
+      } catch (error) {
+        console.error('Failed to load payment receipts:', error);
+        toast({ variant: 'destructive', title: '불러오기 실패', description: '영수증 내역을 불러오지 못했습니다.' });
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchReceipts();
+  }, [isOpen, firestore, portfolioId, triggerFetch, toast]);
+
+  const paymentReceipts = useMemo(() =>
+    receipts
+      .filter(receipt => receipt.paymentId === payment.id)
+      .sort((a, b) => b.receiptNumber.localeCompare(a.receiptNumber)),
+  [receipts, payment.id]);
+  const issued = paymentReceipts.find(receipt => receipt.status === 'issued');
+  const { paymentAmount: netAmount } = getNetPaymentAmounts(payment, leasePayments);
+
+  const issueDate = useMemo(() => {
+    const parsed = parse(issueDateText, 'yyyy-MM-dd', new Date());
+    return isNaN(parsed.getTime()) ? null : startOfDay(parsed);
+  }, [issueDateText]);
+
+  // Runs a write and shows the message it returns.
+  const save = async (write: () => Promise<{ title: string; description: string }>) => {
+    setIsSubmitting(true);
+    try {
+      toast(await write());
+      setReason('');
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '영수증을 저장하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Issues a new receipt from the payment as it is now; a reissue voids the current one in the same
+  // transaction. The number comes from the portfolio's counter for the issue month.
+  const handleIssue = () => {
+    if (!firestore || !portfolioId || !issueDate) return;
+    const draft = buildPaymentReceiptDraft(payment, lease, building, allocations, issueDate, leasePayments);
+    const id = uuidv4();
+    const voided = issued ? [{ ...issued, status: 'void' as const, voidReason: reason.trim() || '재발행' }] : [];
+    save(async () => {
+      const [receipt] = await saveNumberedDocuments<PaymentReceipt>(firestore, 'paymentReceipts', portfolioId, issueDate, getLastReceiptSequence(receipts, issueDate), 1,
+        ([sequence]) => [{
+          ...draft,
+          id,
+          portfolioId,
+          receiptNumber: formatReceiptNumber(issueDate, sequence),
+          issueDate: Timestamp.fromDate(issueDate),
+          paymentDate: Timestamp.fromDate(toDate(draft.paymentDate)),
+          status: 'issued',
+          ...(issued ? { originalReceiptId: issued.id } : {}),
+        }],
+        voided);
+      return {
+        title: issued ? '영수증 재발행됨' : '영수증 발행됨',
+        description: `${receipt.receiptNumber} 영수증을 발행했습니다.`,
+      };
+    });
+  };
+
+  const handleVoid = () => {
+    if (!firestore || !issued) return;
+    save(async () => {
+      await savePaymentReceipts(firestore, [{ ...issued, status: 'void', voidReason: reason.trim() }]);
+      return {
+        title: '무효 처리됨',
+        description: `${issued.receiptNumber} 영수증이 무효로 기록되었습니다.`,
+      };
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>영수증</DialogTitle>
+          <DialogDescription>
+            {lease.tenantName} · {formatDate(payment.paymentDate)} 납부 {formatCurrency(payment.paymentAmount)}
+            {netAmount !== payment.paymentAmount && ` (취소 후 ${formatCurrency(netAmount)})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : paymentReceipts.length > 0 ? (
+          <ul className="divide-y rounded-md border text-sm">
+            {paymentReceipts.map(receipt => (
+              <li key={receipt.id} className="flex items-center gap-3 p-2">
+                <div className="flex-1">
+                  <p className="font-mono text-xs">{receipt.receiptNumber}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(receipt.issueDate)} 발행{receipt.voidReason ? ` · ${receipt.voidReason}` : ''}
+                  </p>
+                </div>
+                <Badge variant={paymentReceiptStatusVariants[receipt.status]}>{paymentReceiptStatusLabels[receipt.status]}</Badge>
+                <Button asChild variant="ghost" size="icon" className="h-8 w-8">
+                  <Link href={`/receipts/${receipt.id}`}>
+                    <Printer className="h-4 w-4" />
+                    <span className="sr-only">인쇄</span>
+                  </Link>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground">발행한 영수증이 없습니다.</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="receiptIssueDate">발행일</Label>
+            <Input id="receiptIssueDate" type="date" value={issueDateText} onChange={(e) => setIssueDateText(e.target.value)} />
+          </div>
+          {issued && (
+            <div className="space-y-2">
+              <Label htmlFor="receiptVoidReason">무효·재발행 사유</Label>
+              <Input id="receiptVoidReason" placeholder="예: 금액 정정" value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+          )}
+        </div>
+        {issued && (
+          <p className="text-xs text-muted-foreground">
+            재발행하면 {issued.receiptNumber} 영수증은 무효가 되고, 현재 납부 기록으로 새 번호의 영수증을 발행합니다.
+          </p>
+        )}
+
+        <DialogFooter>
+          {issued && (
+            <Button variant="outline" onClick={handleVoid} disabled={isSubmitting || isLoading || !reason.trim()}>무효 처리</Button>
+          )}
+          <Button onClick={handleIssue} disabled={isSubmitting || isLoading || !issueDate || netAmount <= 0}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {issued ? '재발행' : '영수증 발행'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+import { PaymentReceipt } from '@/lib/types';
+import { format as formatDateFns, parse } from 'date-fns';
+import { cn, formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { formatBusinessNumber } from '@/lib/business-info';
+import { formatKoreanAmount, getUnappliedReceiptAmount } from '@/lib/payment-receipt';
+import { formatPaymentMethod } from '@/lib/payment-method';
+
+const formatDay = (date: PaymentReceipt['issueDate']) => formatDateFns(toDate(date), 'yyyy년 M월 d일');
+const formatMonth = (month: string) => formatDateFns(parse(month, 'yyyy-MM', new Date()), 'yyyy년 M월');
+
+/**
+ * The printed form of a payment receipt (영수증), laid out from the receipt record alone so a
+ * reprint shows what was issued.
+ */
+export function PaymentReceiptDocument({ receipt, className }: { receipt: PaymentReceipt; className?: string }) {
+  const isVoid = receipt.status === 'void';
+  const unapplied = getUnappliedReceiptAmount(receipt);
+
+  return (
+    <article className={cn('invoice-page relative mx-auto max-w-[800px] space-y-6 bg-white p-8 text-sm text-black', className)}>
+      {isVoid && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <span className="rotate-[-20deg] border-4 border-red-600 px-6 py-2 text-5xl font-bold text-red-600 opacity-40">무효</span>
+        </div>
+      )}
+
+      <header className="flex items-start justify-between border-b-2 border-black pb-4">
+        <h2 className="text-3xl font-bold tracking-[0.5em]">영수증</h2>
+        <dl className="grid grid-cols-[auto_auto] gap-x-4 gap-y-1 text-right">
+          <dt className="text-gray-600">영수증 번호</dt>
+          <dd className="font-mono">{receipt.receiptNumber}</dd>
+          <dt className="text-gray-600">발행일</dt>
+          <dd>{formatDay(receipt.issueDate)}</dd>
+        </dl>
+      </header>
+
+      <section className="space-y-1">
+        <p className="text-lg font-semibold">{receipt.tenantName} 귀하</p>
+        {receipt.tenantRegistrationNumber && <p>사업자등록번호 {formatBusinessNumber(receipt.tenantRegistrationNumber)}</p>}
+        <p>{receipt.buildingName} {receipt.unitNames.join(', ')}</p>
+      </section>
+
+      <section className="rounded border-2 border-black p-4 text-center">
+        <p className="text-2xl font-bold">일금 {formatKoreanAmount(receipt.amount)}원정</p>
+        <p className="mt-1 text-lg">({formatCurrency(receipt.amount)})</p>
+        <p className="mt-2">위 금액을 정히 영수합니다.</p>
+      </section>
+
+      <table className="w-full border-collapse">
+        <tbody>
+          <tr className="border-y border-gray-300">
+            <th className="w-1/4 bg-gray-100 px-2 py-2 text-left font-semibold">납부일</th>
+            <td className="px-2 py-2">{formatDay(receipt.paymentDate)}</td>
+          </tr>
+          <tr className="border-b border-gray-300">
+            <th className="bg-gray-100 px-2 py-2 text-left font-semibold">결제 방식</th>
+            <td className="px-2 py-2">{formatPaymentMethod(receipt.paymentMethod)}</td>
+          </tr>
+          <tr className="border-b border-gray-300">
+            <th className="bg-gray-100 px-2 py-2 text-left align-top font-semibold">내역</th>
+            <td className="px-2 py-2">
+              <ul className="space-y-1">
+                {receipt.allocations.map(allocation => (
+                  <li key={allocation.month} className="flex justify-between">
+                    <span>{formatMonth(allocation.month)}분 임대료</span>
+                    <span>{formatCurrency(allocation.amount)}</span>
+                  </li>
+                ))}
+                {receipt.maintenanceFeeAmount > 0 && (
+                  <li className="flex justify-between">
+                    <span>관리비</span>
+                    <span>{formatCurrency(receipt.maintenanceFeeAmount)}</span>
+                  </li>
+                )}
+                {unapplied > 0 && (
+                  <li className="flex justify-between">
+                    <span>선납 임대료</span>
+                    <span>{formatCurrency(unapplied)}</span>
+                  </li>
+                )}
+              </ul>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <section className="space-y-1 border-t pt-4 text-right">
+        <p className="text-gray-600">영수자 (임대인)</p>
+        <p className="text-lg font-semibold">{receipt.landlordName}{receipt.landlordRepresentative ? ` 대표 ${receipt.landlordRepresentative}` : ''} (인)</p>
+        {receipt.landlordRegistrationNumber && <p>사업자등록번호 {formatBusinessNumber(receipt.landlordRegistrationNumber)}</p>}
+        {receipt.landlordAddress && <p>{receipt.landlordAddress}</p>}
+        {isVoid && receipt.voidReason && <p className="text-xs text-red-600">무효 사유: {receipt.voidReason}</p>}
+      </section>
+    </article>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase, errorEmitter, FirestorePermissionError } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { doc, getDoc } from 'firebase/firestore';
+import { PaymentReceipt } from '@/lib/types';
+import { AlertTriangle, ArrowLeft, Printer } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { PaymentReceiptDocument } from './payment-receipt-document';
+
+/**
+ * One issued receipt with a print button, for reprinting it later or saving it as a PDF.
+ */
+export function PaymentReceiptView({ receiptId }: { receiptId: string }) {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const [receipt, setReceipt] = useState<PaymentReceipt | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReceipt() {
+      if (!firestore || !user || !portfolioId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const receiptDocRef = doc(firestore, 'paymentReceipts', receiptId);
+        const snapshot = await getDoc(receiptDocRef);
+
+        if (!snapshot.exists()) {
+          throw new Error("영수증을 찾을 수 없습니다.");
+        }
+
+        if (snapshot.data()?.portfolioId !== portfolioId) {
+          const permissionError = new FirestorePermissionError({
+            path: receiptDocRef.path,
+            operation: 'get',
+          });
+          errorEmitter.emit('permission-error', permissionError);
+          throw permissionError;
+        }
+
+        setReceipt({ id: snapshot.id, ...snapshot.data() } as PaymentReceipt);
+      } catch (e: any) {
+        console.error('Failed to load payment receipt:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchReceipt();
+  }, [firestore, user, portfolioId, receiptId]);
+
+  if (isLoading) {
+    return <Skeleton className="h-[800px] w-full" />;
+  }
+
+  if (error || !receipt) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error || "영수증을 찾을 수 없습니다."}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between no-print">
+        <Button asChild variant="outline" size="sm">
+          <Link href="/receipts">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            영수증 대장
+          </Link>
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          인쇄 / PDF 저장
+        </Button>
+      </div>
+      <PaymentReceiptDocument receipt={receipt} className="rounded-lg border print:rounded-none print:border-0" />
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { PaymentReceipt } from '@/lib/types';
+import { format as formatDateFns, isSameMonth, parse } from 'date-fns';
+import { AlertTriangle, Printer } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { paymentReceiptStatusLabels } from '@/lib/payment-receipt';
+import { formatPaymentMethod } from '@/lib/payment-method';
+import { paymentReceiptStatusVariants } from './payment-receipt-dialog';
+
+/**
+ * The receipt register: every receipt issued in a month, including voided ones, with links to reprint them.
+ * Receipts are issued from the payment rows of the payments list and the tenant ledger.
+ */
+export function PaymentReceipts() {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [monthText, setMonthText] = useState(formatDateFns(new Date(), 'yyyy-MM'));
+
+  useEffect(() => {
+    async function fetchReceipts() {
+      if (!firestore || !user || !portfolioId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const snapshot = await getDocs(query(collection(firestore, 'paymentReceipts'), where('portfolioId', '==', portfolioId)));
+        setReceipts(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as PaymentReceipt));
+      } catch (e: any) {
+        console.error('Failed to load payment receipts:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchReceipts();
+  }, [firestore, user, portfolioId]);
+
+  const monthReceipts = useMemo(() => {
+    const month = parse(monthText, 'yyyy-MM', new Date());
+    if (isNaN(month.getTime())) return [];
+    return receipts
+      .filter(receipt => isSameMonth(toDate(receipt.issueDate), month))
+      .sort((a, b) => a.receiptNumber.localeCompare(b.receiptNumber));
+  }, [receipts, monthText]);
+
+  const issuedTotal = monthReceipts
+    .filter(receipt => receipt.status === 'issued')
+    .reduce((sum, receipt) => sum + receipt.amount, 0);
+
+  if (isLoading) {
+    return <Skeleton className="h-[400px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-end justify-between gap-4">
+        <div>
+          <CardTitle className="text-xl">영수증 대장</CardTitle>
+          <CardDescription>
+            발행 월별 영수증 내역입니다. 영수증은 납부 기록 목록이나 임차인 원장의 입금 행에서 발행하고, 재발행·무효 처리도 그 자리에서 합니다.
+          </CardDescription>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="receiptMonth">발행 월</Label>
+          <Input id="receiptMonth" type="month" className="w-[180px]" value={monthText} onChange={(e) => setMonthText(e.target.value)} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>영수증 번호</TableHead>
+              <TableHead>발행일</TableHead>
+              <TableHead>임차인</TableHead>
+              <TableHead>건물 및 호실</TableHead>
+              <TableHead>납부일</TableHead>
+              <TableHead>결제 방식</TableHead>
+              <TableHead className="text-right">금액</TableHead>
+              <TableHead>상태</TableHead>
+              <TableHead className="text-right">인쇄</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {monthReceipts.length > 0 ? monthReceipts.map(receipt => (
+              <TableRow key={receipt.id}>
+                <TableCell className="font-mono text-xs">{receipt.receiptNumber}</TableCell>
+                <TableCell>{formatDate(receipt.issueDate)}</TableCell>
+                <TableCell>
+                  <Link href={`/tenants/${receipt.leaseAgreementId}`} className="hover:underline">{receipt.tenantName}</Link>
+                </TableCell>
+                <TableCell>{receipt.buildingName} {receipt.unitNames.join(', ')}</TableCell>
+                <TableCell>{formatDate(receipt.paymentDate)}</TableCell>
+                <TableCell>{formatPaymentMethod(receipt.paymentMethod)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(receipt.amount)}</TableCell>
+                <TableCell>
+                  <Badge variant={paymentReceiptStatusVariants[receipt.status]}>{paymentReceiptStatusLabels[receipt.status]}</Badge>
+                  {receipt.voidReason && <div className="text-xs text-muted-foreground">{receipt.voidReason}</div>}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button asChild variant="ghost" size="icon" className="h-8 w-8">
+                    <Link href={`/receipts/${receipt.id}`}>
+                      <Printer className="h-4 w-4" />
+                      <span className="sr-only">인쇄</span>
+                    </Link>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={9} className="h-24 text-center">해당 월에 발행한 영수증이 없습니다.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+        {monthReceipts.length > 0 && (
+          <p className="mt-4 text-right text-sm text-muted-foreground">발행 상태 영수증 합계 {formatCurrency(issuedTotal)}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
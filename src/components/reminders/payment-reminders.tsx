@@ -0,0 +1,683 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges, LeaseRecords, BuildingCharges } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
+import { Building, LeaseAgreement, MessageChannel, MessageTemplate, ReminderMessage } from '@/lib/types';
+import { v4 as uuidv4 } from 'uuid';
+import { format as formatDateFns } from 'date-fns';
+import { AlertTriangle, Eye, ListPlus, Loader2, Pencil, PlusCircle, Send, Trash2 } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { LeaseAging, calculateLeaseAging } from '@/lib/aging';
+import { calculateLeaseFees } from '@/lib/utility-billing';
+import {
+  ReminderValues,
+  buildReminderValues,
+  defaultMessageTemplates,
+  getReminderRecipient,
+  isValidRecipient,
+  messageChannelLabels,
+  messageChannels,
+  renderTemplate,
+  templatePlaceholders,
+} from '@/lib/messaging';
+import { getMessageProvider, getMessageProviders } from '@/lib/message-providers';
+import { deleteMessageTemplate, queueReminderMessages, saveMessageTemplate, sendReminderMessages } from '@/firebase/firestore/messages';
+import { ReminderMessagesTable, sortReminderMessages } from './reminder-history';
+
+const DEFAULT_TEMPLATE = 'default';
+const HISTORY_LIMIT = 100;
+
+interface ReminderCandidate {
+  lease: LeaseAgreement;
+  building?: Building;
+  aging: LeaseAging;
+  values: ReminderValues;
+  recipient: string;
+  isOverdue: boolean; // 납부기한이 지난 미납이 있음
+  lastSentAt: Date | null;
+}
+
+function MessageTemplateDialog({ template, defaultChannel, onSave, triggerButton }: {
+  template?: MessageTemplate;
+  defaultChannel: MessageChannel;
+  onSave: () => void;
+  triggerButton: React.ReactNode;
+}) {
+  const { firestore } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [name, setName] = useState('');
+  const [channel, setChannel] = useState<MessageChannel>(defaultChannel);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const initialChannel = template?.channel || defaultChannel;
+    setName(template?.name || '');
+    setChannel(initialChannel);
+    setSubject(template?.subject ?? defaultMessageTemplates[initialChannel].subject ?? '');
+    setBody(template?.body ?? defaultMessageTemplates[initialChannel].body);
+  }, [isOpen, template, defaultChannel]);
+
+  // A new template starts from the default text of the chosen channel.
+  const handleChannelChange = (value: MessageChannel) => {
+    setChannel(value);
+    setSubject(defaultMessageTemplates[value].subject ?? '');
+    setBody(defaultMessageTemplates[value].body);
+  };
+
+  const handleSubmit = async () => {
+    if (!firestore || !portfolioId) return;
+    if (!name.trim() || !body.trim() || (channel === 'email' && !subject.trim())) {
+      toast({ variant: 'destructive', title: '입력 확인', description: channel === 'email' ? '문안 이름, 제목과 본문을 입력해주세요.' : '문안 이름과 본문을 입력해주세요.' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await saveMessageTemplate(firestore, {
+        id: template?.id || uuidv4(),
+        portfolioId,
+        name: name.trim(),
+        channel,
+        ...(channel === 'email' ? { subject: subject.trim() } : {}),
+        body: body.trim(),
+      });
+      toast({ title: '문안 저장됨', description: `'${name.trim()}' 문안이 저장되었습니다.` });
+      onSave();
+      setIsOpen(false);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '문안을 저장하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{triggerButton}</DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{template ? '문안 수정' : '문안 추가'}</DialogTitle>
+          <DialogDescription>
+            {templatePlaceholders.map(p => `{${p.key}}`).join(' ')} 자리에는 발송할 때 임차인별 값이 들어갑니다.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">문안 이름</Label>
+              <Input id="templateName" placeholder="예: 1차 안내" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>채널</Label>
+              <Select value={channel} onValueChange={(value) => handleChannelChange(value as MessageChannel)} disabled={!!template}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {messageChannels.map(c => (
+                    <SelectItem key={c} value={c}>{messageChannelLabels[c]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {channel === 'email' && (
+            <div className="space-y-2">
+              <Label htmlFor="templateSubject">제목</Label>
+              <Input id="templateSubject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="templateBody">본문</Label>
+            <Textarea id="templateBody" rows={8} value={body} onChange={(e) => setBody(e.target.value)} />
+          </div>
+          <ul className="grid grid-cols-2 gap-x-4 text-xs text-muted-foreground">
+            {templatePlaceholders.map(p => (
+              <li key={p.key}><code>{`{${p.key}}`}</code> {p.description}</li>
+            ))}
+          </ul>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            저장
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PreviewDialog({ tenantName, recipient, subject, body }: { tenantName: string; recipient: string; subject?: string; body: string }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8">
+          <Eye className="h-4 w-4" />
+          <span className="sr-only">미리보기</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{tenantName}</DialogTitle>
+          <DialogDescription>수신처: {recipient || '없음'}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 rounded-md border bg-muted/40 p-4 text-sm">
+          {subject && <p className="font-semibold">{subject}</p>}
+          <p className="whitespace-pre-wrap">{body}</p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function PaymentReminders() {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [records, setRecords] = useState<(LeaseRecords & BuildingCharges) | null>(null);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [messages, setMessages] = useState<ReminderMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+  const [channel, setChannel] = useState<MessageChannel>('sms');
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE);
+  const [providerId, setProviderId] = useState(() => getMessageProviders('sms')[0]?.id || '');
+  const [overdueOnly, setOverdueOnly] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !portfolioId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [buildingsSnapshot, leasesSnapshot, templatesSnapshot, messagesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'messageTemplates'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'reminderMessages'), where('portfolioId', '==', portfolioId))),
+        ]);
+
+        const buildingsData = buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building);
+        const leasesData = leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement);
+        const [leaseRecords, buildingCharges] = await Promise.all([
+          fetchLeaseRecords(firestore, portfolioId, leasesData.map(l => l.id)),
+          fetchBuildingCharges(firestore, portfolioId, buildingsData.map(b => b.id)),
+        ]);
+
+        setBuildings(buildingsData);
+        setLeases(leasesData);
+        setRecords({ ...leaseRecords, ...buildingCharges });
+        setTemplates(templatesSnapshot.docs
+          .map(doc => ({ id: doc.id, ...doc.data() }) as MessageTemplate)
+          .sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+        setMessages(sortReminderMessages(messagesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as ReminderMessage)));
+      } catch (e: any) {
+        console.error('Failed to load payment reminders:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, portfolioId, triggerFetch]);
+
+  const candidates = useMemo(() => {
+    if (!records) return [];
+    const today = new Date();
+    const buildingsMap = new Map(buildings.map(b => [b.id, b]));
+    const lastSentByLease = new Map<string, Date>();
+    messages.forEach(message => {
+      if (message.status !== 'sent' || !message.sentAt) return;
+      const sentAt = toDate(message.sentAt);
+      const last = lastSentByLease.get(message.leaseAgreementId);
+      if (!last || sentAt > last) lastSentByLease.set(message.leaseAgreementId, sentAt);
+    });
+
+    return leases.flatMap((lease): ReminderCandidate[] => {
+      const building = buildingsMap.get(lease.buildingId);
+      const fees = calculateLeaseFees(lease, building, records.feesByBuilding.get(lease.buildingId) || [], records.readingsByBuilding.get(lease.buildingId) || [], today);
+      const aging = calculateLeaseAging(lease, records.adjustmentsByLease.get(lease.id) || [], records.paymentsByLease.get(lease.id) || [], fees, today);
+      if (aging.total <= 0) return [];
+      return [{
+        lease,
+        building,
+        aging,
+        values: buildReminderValues(lease, building, aging),
+        recipient: getReminderRecipient(lease, channel),
+        isOverdue: aging.items.some(item => item.daysPastDue > 0),
+        lastSentAt: lastSentByLease.get(lease.id) || null,
+      }];
+    }).sort((a, b) => b.aging.total - a.aging.total || a.lease.tenantName.localeCompare(b.lease.tenantName, 'ko'));
+  }, [records, buildings, leases, messages, channel]);
+
+  const visibleCandidates = overdueOnly ? candidates.filter(c => c.isOverdue) : candidates;
+  const sendableCandidates = visibleCandidates.filter(c => isValidRecipient(channel, c.recipient));
+  const selectedCandidates = sendableCandidates.filter(c => selectedIds.has(c.lease.id));
+  const channelTemplates = templates.filter(t => t.channel === channel);
+  const savedTemplate = channelTemplates.find(t => t.id === templateId);
+  const template = savedTemplate || defaultMessageTemplates[channel];
+  const providers = getMessageProviders(channel);
+  const pendingMessages = messages.filter(m => m.status !== 'sent');
+  const buildingsWithoutAccount = Array.from(new Set(
+    visibleCandidates.filter(c => !c.values.계좌).map(c => c.values.건물)
+  ));
+
+  const handleChannelChange = (value: MessageChannel) => {
+    setChannel(value);
+    setTemplateId(DEFAULT_TEMPLATE);
+    if (!getMessageProviders(value).some(p => p.id === providerId)) {
+      setProviderId(getMessageProviders(value)[0]?.id || '');
+    }
+  };
+
+  const toggleSelected = (leaseId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(leaseId);
+      else next.delete(leaseId);
+      return next;
+    });
+  };
+
+  const handleSubmit = async (sendNow: boolean) => {
+    if (!firestore || !portfolioId || selectedCandidates.length === 0) return;
+    const provider = getMessageProvider(providerId);
+    if (!provider) {
+      toast({ variant: 'destructive', title: '발송 서비스 없음', description: `${messageChannelLabels[channel]}를 보낼 발송 서비스를 선택해주세요.` });
+      return;
+    }
+
+    const queuedAt = Timestamp.now();
+    const newMessages: ReminderMessage[] = selectedCandidates.map(({ lease, aging, values, recipient }) => ({
+      id: uuidv4(),
+      portfolioId,
+      leaseAgreementId: lease.id,
+      buildingId: lease.buildingId,
+      tenantName: lease.tenantName,
+      channel,
+      recipient,
+      ...(channel === 'email' ? { subject: renderTemplate(template.subject || '', values) } : {}),
+      body: renderTemplate(template.body, values),
+      amountDue: aging.total,
+      ...(savedTemplate ? { templateId: savedTemplate.id } : {}),
+      providerId: provider.id,
+      status: 'queued',
+      queuedAt,
+    }));
+
+    setIsSubmitting(true);
+    try {
+      await queueReminderMessages(firestore, newMessages);
+      if (sendNow) {
+        const results = await sendReminderMessages(firestore, newMessages, provider);
+        const failedCount = results.filter(m => m.status === 'failed').length;
+        toast({
+          variant: failedCount > 0 ? 'destructive' : 'default',
+          title: '미납 안내 발송',
+          description: `${results.length - failedCount}건을 보냈습니다.${failedCount > 0 ? ` ${failedCount}건은 실패했습니다. 발송 내역에서 사유를 확인하세요.` : ''}`,
+        });
+      } else {
+        toast({ title: '발송 대기에 추가됨', description: `${newMessages.length}건이 발송 대기로 등록되었습니다.` });
+      }
+      setSelectedIds(new Set());
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '발송 실패', description: '미납 안내를 등록하거나 보내는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Retries queued and failed messages, each through the provider it was queued with.
+  const handleSendPending = async () => {
+    if (!firestore || pendingMessages.length === 0) return;
+    const byProvider = new Map<string, ReminderMessage[]>();
+    pendingMessages.forEach(message => byProvider.set(message.providerId, [...(byProvider.get(message.providerId) || []), message]));
+
+    setIsSubmitting(true);
+    try {
+      let sentCount = 0;
+      let failedCount = 0;
+      for (const [id, group] of Array.from(byProvider.entries())) {
+        const provider = getMessageProvider(id);
+        if (!provider) {
+          failedCount += group.length;
+          continue;
+        }
+        const results = await sendReminderMessages(firestore, group, provider);
+        sentCount += results.filter(m => m.status === 'sent').length;
+        failedCount += results.filter(m => m.status === 'failed').length;
+      }
+      toast({
+        variant: failedCount > 0 ? 'destructive' : 'default',
+        title: '대기 중인 안내 발송',
+        description: `${sentCount}건을 보냈습니다.${failedCount > 0 ? ` ${failedCount}건은 보내지 못했습니다.` : ''}`,
+      });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '발송 실패', description: '대기 중인 미납 안내를 보내는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (target: MessageTemplate) => {
+    if (!firestore) return;
+    try {
+      await deleteMessageTemplate(firestore, target.id);
+      if (templateId === target.id) setTemplateId(DEFAULT_TEMPLATE);
+      toast({ title: '문안 삭제됨', description: `'${target.name}' 문안이 삭제되었습니다.` });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '삭제 실패', description: '문안을 삭제하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const allSelected = sendableCandidates.length > 0 && selectedCandidates.length === sendableCandidates.length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">미납 안내</CardTitle>
+          <CardDescription>
+            원장 잔액이 남은 임차인에게 문안을 채워 문자, 카카오톡 또는 이메일로 미납 안내를 보냅니다. 보낸 안내는 계약별 발송 내역에 남습니다.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>채널</Label>
+              <Select value={channel} onValueChange={(value) => handleChannelChange(value as MessageChannel)}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {messageChannels.map(c => (
+                    <SelectItem key={c} value={c}>{messageChannelLabels[c]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>문안</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_TEMPLATE}>{defaultMessageTemplates[channel].name}</SelectItem>
+                  {channelTemplates.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>발송 서비스</Label>
+              <Select value={providerId} onValueChange={setProviderId}>
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue placeholder="발송 서비스 없음" />
+                </SelectTrigger>
+                <SelectContent>
+                  {providers.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex h-10 items-center gap-2">
+              <Checkbox id="overdueOnly" checked={overdueOnly} onCheckedChange={(checked) => setOverdueOnly(checked === true)} />
+              <Label htmlFor="overdueOnly">납부기한이 지난 임차인만</Label>
+            </div>
+          </div>
+
+          {buildingsWithoutAccount.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>입금 계좌 없음</AlertTitle>
+              <AlertDescription>
+                {buildingsWithoutAccount.join(', ')}의 입금 계좌가 없어 {'{계좌}'} 자리가 비어 있습니다. 건물 수정 화면에서 입력하세요.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allSelected}
+                    disabled={sendableCandidates.length === 0}
+                    onCheckedChange={(checked) => setSelectedIds(checked === true ? new Set(sendableCandidates.map(c => c.lease.id)) : new Set())}
+                  />
+                </TableHead>
+                <TableHead>임차인</TableHead>
+                <TableHead>건물 및 호실</TableHead>
+                <TableHead>미납 월</TableHead>
+                <TableHead className="text-right">미납액</TableHead>
+                <TableHead>수신처</TableHead>
+                <TableHead>최근 안내</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleCandidates.length > 0 ? visibleCandidates.map(candidate => {
+                const { lease, values, recipient, lastSentAt } = candidate;
+                const isSendable = isValidRecipient(channel, recipient);
+                return (
+                  <TableRow key={lease.id} className={cn(!isSendable && "bg-muted/50")}>
+                    <TableCell>
+                      <Checkbox
+                        checked={isSendable && selectedIds.has(lease.id)}
+                        disabled={!isSendable}
+                        onCheckedChange={(checked) => toggleSelected(lease.id, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/tenants/${lease.id}`} className="hover:underline">{lease.tenantName}</Link>
+                    </TableCell>
+                    <TableCell>{values.건물} {values.호실}</TableCell>
+                    <TableCell>{values.월}</TableCell>
+                    <TableCell className="text-right text-destructive">{formatCurrency(candidate.aging.total)}</TableCell>
+                    <TableCell className="text-xs">
+                      {isSendable ? recipient : (
+                        <span className="text-destructive">
+                          {recipient ? `${recipient} (사용할 수 없음)` : channel === 'email' ? '이메일 없음' : '연락처 없음'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{lastSentAt ? formatDateFns(lastSentAt, 'yyyy-MM-dd') : '-'}</TableCell>
+                    <TableCell>
+                      <PreviewDialog
+                        tenantName={lease.tenantName}
+                        recipient={recipient}
+                        subject={channel === 'email' ? renderTemplate(template.subject || '', values) : undefined}
+                        body={renderTemplate(template.body, values)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center">안내할 미납 임차인이 없습니다.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          {visibleCandidates.length > sendableCandidates.length && (
+            <p className="text-sm text-muted-foreground">
+              {channel === 'email'
+                ? '이메일은 계약의 임차인 사업자 정보에 입력한 이메일로 보냅니다.'
+                : '문자와 카카오톡은 계약의 연락처가 휴대폰 번호인 임차인에게만 보낼 수 있습니다.'}
+            </p>
+          )}
+
+          <div className="flex items-center justify-end gap-4">
+            <span className="text-sm text-muted-foreground">
+              {selectedCandidates.length}건 선택 · {formatCurrency(selectedCandidates.reduce((sum, c) => sum + c.aging.total, 0))}
+            </span>
+            <Button variant="outline" onClick={() => handleSubmit(false)} disabled={isSubmitting || selectedCandidates.length === 0}>
+              <ListPlus className="mr-2 h-4 w-4" />
+              발송 대기에 추가
+            </Button>
+            <Button onClick={() => handleSubmit(true)} disabled={isSubmitting || selectedCandidates.length === 0 || !providerId}>
+              {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              바로 발송
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="text-xl">메시지 문안</CardTitle>
+            <CardDescription>채널별로 자주 쓰는 안내 문안을 저장해두세요. 저장한 문안이 없으면 기본 문안을 사용합니다.</CardDescription>
+          </div>
+          <MessageTemplateDialog
+            defaultChannel={channel}
+            onSave={() => setTriggerFetch(v => v + 1)}
+            triggerButton={
+              <Button variant="outline" size="sm">
+                <PlusCircle className="mr-2 h-4 w-4" />
+                문안 추가
+              </Button>
+            }
+          />
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>이름</TableHead>
+                <TableHead>채널</TableHead>
+                <TableHead>내용</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.length > 0 ? templates.map(t => (
+                <TableRow key={t.id}>
+                  <TableCell>{t.name}</TableCell>
+                  <TableCell>{messageChannelLabels[t.channel]}</TableCell>
+                  <TableCell className="max-w-[480px]">
+                    {t.subject && <div className="truncate font-medium">{t.subject}</div>}
+                    <div className="truncate text-xs text-muted-foreground" title={t.body}>{t.body}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <MessageTemplateDialog
+                        template={t}
+                        defaultChannel={t.channel}
+                        onSave={() => setTriggerFetch(v => v + 1)}
+                        triggerButton={
+                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        }
+                      />
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>문안을 삭제하시겠습니까?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              &apos;{t.name}&apos; 문안을 삭제합니다. 이미 보낸 안내의 발송 내역은 그대로 남습니다.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>취소</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDeleteTemplate(t)} className="bg-destructive hover:bg-destructive/90">삭제</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-16 text-center">저장한 문안이 없습니다.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="text-xl">발송 내역</CardTitle>
+            <CardDescription>최근 {HISTORY_LIMIT}건의 미납 안내입니다. 임차인별 전체 내역은 임차인 원장에서 볼 수 있습니다.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleSendPending} disabled={isSubmitting || pendingMessages.length === 0}>
+            <Send className="mr-2 h-4 w-4" />
+            대기·실패 {pendingMessages.length}건 발송
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <ReminderMessagesTable messages={messages.slice(0, HISTORY_LIMIT)} showTenant />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { canEditPortfolioData } from '@/lib/portfolio';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { ReminderMessage, ReminderMessageStatus } from '@/lib/types';
+import { format as formatDateFns } from 'date-fns';
+import { MessageSquareText } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { messageChannelLabels, reminderMessageStatusLabels } from '@/lib/messaging';
+import { getMessageProvider } from '@/lib/message-providers';
+
+const statusVariants: Record<ReminderMessageStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  sent: 'default',
+  failed: 'destructive',
+};
+
+// Newest first.
+export const sortReminderMessages = (messages: ReminderMessage[]) =>
+  [...messages].sort((a, b) => toDate(b.queuedAt).getTime() - toDate(a.queuedAt).getTime());
+
+export function ReminderMessagesTable({ messages, showTenant = false }: { messages: ReminderMessage[]; showTenant?: boolean }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>등록</TableHead>
+          {showTenant && <TableHead>임차인</TableHead>}
+          <TableHead>채널</TableHead>
+          <TableHead>수신처</TableHead>
+          <TableHead>내용</TableHead>
+          <TableHead className="text-right">안내 금액</TableHead>
+          <TableHead>상태</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {messages.length > 0 ? messages.map(message => (
+          <TableRow key={message.id}>
+            <TableCell className="whitespace-nowrap">{formatDateFns(toDate(message.queuedAt), 'yyyy-MM-dd HH:mm')}</TableCell>
+            {showTenant && (
+              <TableCell>
+                <Link href={`/tenants/${message.leaseAgreementId}`} className="hover:underline">{message.tenantName}</Link>
+              </TableCell>
+            )}
+            <TableCell>{messageChannelLabels[message.channel]}</TableCell>
+            <TableCell className="text-xs">{message.recipient || '-'}</TableCell>
+            <TableCell className="max-w-[360px]">
+              {message.subject && <div className="truncate font-medium">{message.subject}</div>}
+              <div className="truncate text-xs text-muted-foreground" title={message.body}>{message.body}</div>
+            </TableCell>
+            <TableCell className="text-right">{formatCurrency(message.amountDue)}</TableCell>
+            <TableCell>
+              <Badge variant={statusVariants[message.status]}>{reminderMessageStatusLabels[message.status]}</Badge>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {message.status === 'sent' && message.sentAt
+                  ? formatDateFns(toDate(message.sentAt), 'yyyy-MM-dd HH:mm')
+                  : getMessageProvider(message.providerId)?.label || message.providerId}
+              </div>
+              {message.status === 'failed' && message.error && <div className="text-xs text-destructive">{message.error}</div>}
+            </TableCell>
+          </TableRow>
+        )) : (
+          <TableRow>
+            <TableCell colSpan={showTenant ? 7 : 6} className="h-24 text-center">발송한 미납 안내가 없습니다.</TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * The payment reminders sent to one lease, shown under its ledger.
+ */
+export function ReminderHistory({ leaseId }: { leaseId: string }) {
+  const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const canEdit = canEditPortfolioData(membership);
+  const [messages, setMessages] = useState<ReminderMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchMessages() {
+      if (!firestore || !user || !membership) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      try {
+        const snapshot = await getDocs(query(collection(firestore, 'reminderMessages'), ...portfolioScope(membership), where('leaseAgreementId', '==', leaseId)));
+        setMessages(sortReminderMessages(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as ReminderMessage)));
+      } catch (error) {
+        // The ledger above reports load errors; the history simply stays empty.
+        console.error('Failed to load reminder messages:', error);
+        setMessages([]);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchMessages();
+  }, [firestore, user, membership, leaseId]);
+
+  if (isLoading) {
+    return <Skeleton className="h-[160px] w-full" />;
+  }
+
+  return (
+    <Card className="no-print">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="text-xl">미납 안내 내역</CardTitle>
+          <CardDescription>이 임차인에게 보낸 문자, 카카오톡, 이메일 미납 안내입니다.</CardDescription>
+        </div>
+        {canEdit && (
+          <Button asChild variant="outline" size="sm">
+            <Link href="/reminders">
+              <MessageSquareText className="mr-2 h-4 w-4" />
+              미납 안내 보내기
+            </Link>
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ReminderMessagesTable messages={messages} />
+      </CardContent>
+    </Card>
+  );
+}
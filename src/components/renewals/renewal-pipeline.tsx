@@ -0,0 +1,461 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { collection, query, getDocs, Timestamp } from 'firebase/firestore';
+import { Building, LeaseAgreement, RenewalStatus } from '@/lib/types';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format as formatDateFns, isAfter, startOfDay } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { AlertTriangle, CalendarIcon, Loader2, Pencil, RefreshCw } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Badge } from '../ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { Calendar } from '../ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+import { getApplicableRent } from '@/lib/rent-schedule';
+import { ExpiringLease, expiryWindows, getExpiringLeases, getSuggestedRenewal, renewalStatusLabels } from '@/lib/renewals';
+import { recordLeaseRenewal, updateLeaseRenewalStatus } from '@/firebase/non-blocking-updates';
+import { UnitConflictError } from '@/lib/occupancy';
+
+const formatDay = (date: Date) => formatDateFns(date, 'yyyy-MM-dd');
+
+const statusVariants: Record<RenewalStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  not_contacted: 'outline',
+  negotiating: 'secondary',
+  renewing: 'default',
+  leaving: 'destructive',
+};
+
+const renewalFormSchema = z.object({
+  renewalDate: z.date({ required_error: '재계약 날짜를 선택해주세요.' }),
+  newLeaseEndDate: z.date({ required_error: '새 계약 종료일을 선택해주세요.' }),
+  newRentAmount: z.coerce.number().min(0, { message: '새 임대료를 입력해주세요.' }),
+  newDepositAmount: z.coerce.number().min(0, { message: '보증금은 0 이상이어야 합니다.' }),
+}).refine(data => isAfter(data.newLeaseEndDate, data.renewalDate), {
+  message: '새 계약 종료일은 재계약 날짜 이후여야 합니다.',
+  path: ['newLeaseEndDate'],
+});
+
+type RenewalFormValues = z.infer<typeof renewalFormSchema>;
+
+const numberInputProps = (value: number, onChange: (value: number) => void) => ({
+  type: 'text',
+  value: new Intl.NumberFormat('ko-KR').format(value || 0),
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+    const rawValue = e.target.value.replace(/,/g, '');
+    if (/^\d*$/.test(rawValue)) {
+      onChange(Number(rawValue));
+    }
+  },
+});
+
+function DatePickerField({ label, value, onChange, error }: { label: string; value?: Date; onChange: (date?: Date) => void; error?: string }) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn("w-full justify-start text-left font-normal", !value && "text-muted-foreground")}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? formatDateFns(value, "yyyy년 M월 d일", { locale: ko }) : <span>날짜 선택</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={onChange}
+            captionLayout="dropdown-buttons"
+            fromYear={2010}
+            toYear={new Date().getFullYear() + 10}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Records a renewal on the lease. The values start from the current term, so a renewal on the
+ * same terms only needs to be confirmed.
+ */
+function RecordRenewalDialog({ item, building, onSave }: { item: ExpiringLease; building: Building | undefined; onSave: () => void }) {
+  const { firestore, user } = useFirebase();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const defaultValues = useMemo(() => getSuggestedRenewal(item.lease, item.endDate), [item]);
+
+  const form = useForm<RenewalFormValues>({
+    resolver: zodResolver(renewalFormSchema),
+    defaultValues,
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(defaultValues);
+    }
+  }, [form, defaultValues, isOpen]);
+
+  const onSubmit = async (data: RenewalFormValues) => {
+    if (!firestore || !user) return;
+    setIsSubmitting(true);
+
+    try {
+      await recordLeaseRenewal(firestore, item.lease.id, {
+        renewalDate: Timestamp.fromDate(startOfDay(data.renewalDate)),
+        newRentAmount: data.newRentAmount,
+        newLeaseEndDate: Timestamp.fromDate(startOfDay(data.newLeaseEndDate)),
+        ...(data.newDepositAmount !== undefined ? { newDepositAmount: data.newDepositAmount } : {}),
+      });
+      toast({ title: '재계약 기록됨', description: `${item.lease.tenantName} 님의 계약이 ${formatDay(data.newLeaseEndDate)}까지 연장되었습니다.` });
+      onSave();
+      setIsOpen(false);
+    } catch (error) {
+      console.error(error);
+      if (error instanceof UnitConflictError) {
+        const first = error.conflicts[0];
+        const unitName = (unitId: string) => building?.units?.find(u => u.id === unitId)?.name || unitId;
+        form.setError('newLeaseEndDate', {
+          type: 'manual',
+          message: `이 기간에 다른 계약이 사용 중인 호실이 있습니다: ${Array.from(new Set(error.conflicts.map(c => unitName(c.unitId)))).join(', ')}`,
+        });
+        toast({
+          variant: 'destructive',
+          title: '호실 중복 계약',
+          description: `${unitName(first.unitId)} 호실은 ${first.lease.tenantName} 님이 ${formatDay(first.overlapStart)} ~ ${formatDay(first.overlapEnd)} 기간에 사용 중입니다.${error.conflicts.length > 1 ? ` 외 ${error.conflicts.length - 1}건` : ''}`,
+        });
+        return;
+      }
+      toast({ variant: 'destructive', title: '저장 실패', description: '재계약을 기록하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <RefreshCw className="mr-2 h-4 w-4" />
+          재계약 기록
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{item.lease.tenantName} 재계약</DialogTitle>
+          <DialogDescription>
+            계약에 재계약 내역을 추가합니다. 현재 만기일은 {formatDay(item.endDate)}이며, 기록한 내용은 계약 수정 화면의 재계약 목록에서도 고칠 수 있습니다.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-4">
+          <Controller
+            control={form.control}
+            name="renewalDate"
+            render={({ field }) => (
+              <DatePickerField label="재계약 날짜" value={field.value} onChange={field.onChange} error={form.formState.errors.renewalDate?.message} />
+            )}
+          />
+          <Controller
+            control={form.control}
+            name="newLeaseEndDate"
+            render={({ field }) => (
+              <DatePickerField label="새 계약 종료일" value={field.value} onChange={field.onChange} error={form.formState.errors.newLeaseEndDate?.message} />
+            )}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="newRentAmount">새 월 임대료 (원)</Label>
+            <Controller
+              name="newRentAmount"
+              control={form.control}
+              render={({ field }) => <Input id="newRentAmount" {...numberInputProps(field.value, field.onChange)} />}
+            />
+            {form.formState.errors.newRentAmount && <p className="text-sm font-medium text-destructive">{form.formState.errors.newRentAmount.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="newDepositAmount">보증금 (원)</Label>
+            <Controller
+              name="newDepositAmount"
+              control={form.control}
+              render={({ field }) => <Input id="newDepositAmount" {...numberInputProps(field.value, field.onChange)} />}
+            />
+            {form.formState.errors.newDepositAmount && <p className="text-sm font-medium text-destructive">{form.formState.errors.newDepositAmount.message}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              저장
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RenewalNoteDialog({ item, onSave }: { item: ExpiringLease; onSave: (note: string) => Promise<void> }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setNote(item.lease.renewalNote || '');
+    }
+  }, [isOpen, item]);
+
+  const handleSave = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSave(note.trim());
+      setIsOpen(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0">
+          <Pencil className="h-3.5 w-3.5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{item.lease.tenantName} 협의 메모</DialogTitle>
+          <DialogDescription>연락 일자, 제시 조건, 임차인 의사 등 재계약 협의 내용을 기록합니다.</DialogDescription>
+        </DialogHeader>
+        <Textarea rows={6} value={note} onChange={(e) => setNote(e.target.value)} />
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            저장
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function RenewalPipeline() {
+  const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const { toast } = useToast();
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+  const [windowDays, setWindowDays] = useState('90');
+  const [statusFilter, setStatusFilter] = useState<RenewalStatus | 'all'>('all');
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !membership) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership))),
+        ]);
+        setBuildings(buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building));
+        setLeases(leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement));
+      } catch (e: any) {
+        console.error('Failed to load renewal pipeline:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, membership, triggerFetch]);
+
+  const expiringLeases = useMemo(() => getExpiringLeases(leases, new Date(), Number(windowDays)), [leases, windowDays]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<RenewalStatus, number> = { not_contacted: 0, negotiating: 0, renewing: 0, leaving: 0 };
+    expiringLeases.forEach(item => { counts[item.status] += 1; });
+    return counts;
+  }, [expiringLeases]);
+
+  const visibleLeases = statusFilter === 'all' ? expiringLeases : expiringLeases.filter(item => item.status === statusFilter);
+
+  const unitNames = (lease: LeaseAgreement) => {
+    const building = buildings.find(b => b.id === lease.buildingId);
+    return (lease.unitIds || []).map(id => building?.units?.find(u => u.id === id)?.name || id).join(', ');
+  };
+
+  // Applies a status or note change locally once saved, so the list keeps its order.
+  const saveRenewalStatus = async (lease: LeaseAgreement, data: Pick<LeaseAgreement, 'renewalStatus' | 'renewalNote'>) => {
+    if (!firestore) return;
+    try {
+      await updateLeaseRenewalStatus(firestore, lease.id, data);
+      setLeases(prev => prev.map(l => l.id === lease.id ? { ...l, ...data } : l));
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '재계약 상태를 저장하는 중 오류가 발생했습니다.' });
+      throw error;
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl">재계약 관리</CardTitle>
+            <CardDescription>
+              {windowDays}일 이내에 만기가 돌아오는 계약 {expiringLeases.length}건입니다. 만기일은 재계약으로 연장된 날짜 기준입니다.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2">
+              <Label>만기</Label>
+              <Select value={windowDays} onValueChange={setWindowDays}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryWindows.map(days => (
+                    <SelectItem key={days} value={String(days)}>{days}일 이내</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>상태</Label>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as RenewalStatus | 'all')}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">전체</SelectItem>
+                  {(Object.keys(renewalStatusLabels) as RenewalStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{renewalStatusLabels[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {(Object.keys(renewalStatusLabels) as RenewalStatus[]).map(status => (
+            <Badge key={status} variant={statusVariants[status]}>{renewalStatusLabels[status]} {statusCounts[status]}</Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>임차인</TableHead>
+              <TableHead>건물 / 호실</TableHead>
+              <TableHead>만기일</TableHead>
+              <TableHead className="text-right">월 임대료</TableHead>
+              <TableHead>상태</TableHead>
+              <TableHead>메모</TableHead>
+              <TableHead className="text-right">재계약</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleLeases.length > 0 ? visibleLeases.map(item => (
+              <TableRow key={item.lease.id}>
+                <TableCell>
+                  <Link href={`/tenants/${item.lease.id}`} className="font-medium hover:underline">{item.lease.tenantName}</Link>
+                </TableCell>
+                <TableCell>
+                  <div>{item.lease.buildingName}</div>
+                  <div className="text-xs text-muted-foreground">{unitNames(item.lease)}</div>
+                </TableCell>
+                <TableCell>
+                  <div>{formatDay(item.endDate)}</div>
+                  <div className={cn('text-xs', item.daysLeft <= 30 ? 'text-destructive' : 'text-muted-foreground')}>
+                    {item.daysLeft === 0 ? '오늘 만기' : `D-${item.daysLeft}`}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(getApplicableRent(item.lease, item.endDate).rent)}</TableCell>
+                <TableCell>
+                  <Select
+                    value={item.status}
+                    onValueChange={(value) => saveRenewalStatus(item.lease, { renewalStatus: value as RenewalStatus }).catch(() => {})}
+                  >
+                    <SelectTrigger className="w-[130px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(renewalStatusLabels) as RenewalStatus[]).map(status => (
+                        <SelectItem key={status} value={status}>{renewalStatusLabels[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="max-w-[240px]">
+                  <div className="flex items-start gap-1">
+                    <p className="line-clamp-2 whitespace-pre-wrap text-sm text-muted-foreground">{item.lease.renewalNote || '-'}</p>
+                    <RenewalNoteDialog item={item} onSave={(note) => saveRenewalStatus(item.lease, { renewalNote: note })} />
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  {item.status !== 'leaving' && (
+                    <RecordRenewalDialog item={item} building={buildings.find(b => b.id === item.lease.buildingId)} onSave={() => setTriggerFetch(t => t + 1)} />
+                  )}
+                </TableCell>
+              </TableRow>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center">
+                  해당 기간에 만기가 돌아오는 계약이 없습니다.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
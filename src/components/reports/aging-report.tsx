@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { getGuestBuildingIds } from '@/lib/portfolio';
+import { collection, query, getDocs } from 'firebase/firestore';
+import { Building, LeaseAgreement } from '@/lib/types';
+import { format as formatDateFns } from 'date-fns';
+import { AlertTriangle, Download } from 'lucide-react';
+import * as XLSX from 'xlsx';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+import { calculateLeaseFees } from '@/lib/utility-billing';
+import { AgingBucket, LeaseAging, agingBucketLabels, agingBuckets, calculateLeaseAging, emptyAgingBuckets } from '@/lib/aging';
+
+interface AgingRow {
+  lease: LeaseAgreement;
+  unitNames: string[];
+  aging: LeaseAging;
+}
+
+interface AgingGroup {
+  buildingId: string;
+  buildingName: string;
+  rows: AgingRow[];
+  totals: AgingTotals;
+}
+
+type AgingTotals = Record<AgingBucket, number> & { interest: number; credit: number; total: number };
+
+const emptyTotals = (): AgingTotals => ({ ...emptyAgingBuckets(), interest: 0, credit: 0, total: 0 });
+
+function addTotals(totals: AgingTotals, aging: LeaseAging | AgingTotals): AgingTotals {
+  const buckets = 'buckets' in aging ? aging.buckets : aging;
+  const next = { ...totals };
+  agingBuckets.forEach(bucket => { next[bucket] += buckets[bucket]; });
+  next.interest += aging.interest;
+  next.credit += aging.credit;
+  next.total += aging.total;
+  return next;
+}
+
+const bucketClassNames: Record<AgingBucket, string> = {
+  current: '',
+  days1to30: '',
+  days31to60: 'text-orange-600',
+  days61to90: 'text-orange-600',
+  days90plus: 'text-destructive font-semibold',
+};
+
+export function AgingReport() {
+  const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const { toast } = useToast();
+  const [groups, setGroups] = useState<AgingGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [asOf] = useState(() => new Date());
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !membership) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership))),
+        ]);
+
+        const buildings = buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building);
+        const leases = leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement);
+        const buildingsMap = new Map(buildings.map(b => [b.id, b]));
+
+        const [{ paymentsByLease, adjustmentsByLease }, { feesByBuilding, readingsByBuilding }] = await Promise.all([
+          fetchLeaseRecords(firestore, membership.portfolioId, leases.map(l => l.id), getGuestBuildingIds(membership)),
+          fetchBuildingCharges(firestore, membership.portfolioId, buildings.map(b => b.id)),
+        ]);
+
+        // Ended leases stay in the report while they still owe money.
+        const groupsMap = new Map<string, AgingGroup>();
+        leases.forEach(lease => {
+          const building = buildingsMap.get(lease.buildingId);
+          const fees = calculateLeaseFees(lease, building, feesByBuilding.get(lease.buildingId) || [], readingsByBuilding.get(lease.buildingId) || [], asOf);
+          const aging = calculateLeaseAging(lease, adjustmentsByLease.get(lease.id) || [], paymentsByLease.get(lease.id) || [], fees, asOf);
+          if (aging.total <= 0) return;
+
+          if (!groupsMap.has(lease.buildingId)) {
+            groupsMap.set(lease.buildingId, {
+              buildingId: lease.buildingId,
+              buildingName: building?.name || '알 수 없는 건물',
+              rows: [],
+              totals: emptyTotals(),
+            });
+          }
+          const group = groupsMap.get(lease.buildingId)!;
+          group.rows.push({
+            lease,
+            unitNames: (lease.unitIds || []).map(unitId => building?.units?.find(u => u.id === unitId)?.name || unitId),
+            aging,
+          });
+          group.totals = addTotals(group.totals, aging);
+        });
+
+        const sortedGroups = Array.from(groupsMap.values()).sort((a, b) => a.buildingName.localeCompare(b.buildingName, 'ko'));
+        sortedGroups.forEach(group => {
+          group.rows.sort((a, b) => b.aging.total - a.aging.total || a.lease.tenantName.localeCompare(b.lease.tenantName, 'ko'));
+        });
+        setGroups(sortedGroups);
+      } catch (e: any) {
+        console.error('Failed to load aging report:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, membership, asOf]);
+
+  const grandTotals = useMemo(() => groups.reduce((totals, group) => addTotals(totals, group.totals), emptyTotals()), [groups]);
+
+  const handleExport = () => {
+    if (groups.length === 0) {
+      toast({ variant: 'destructive', title: '내보낼 데이터 없음', description: '미납 내역이 있는 임차인이 없습니다.' });
+      return;
+    }
+
+    const header = ['건물', '임차인', '호실', ...agingBuckets.map(bucket => agingBucketLabels[bucket]), '연체이자', '선납액', '합계', '최초 미납일'];
+    const totalsRow = (label: string, name: string, totals: AgingTotals) => [
+      label, name, '', ...agingBuckets.map(bucket => totals[bucket]), totals.interest, totals.credit, totals.total, '',
+    ];
+    const rows: (string | number)[][] = [];
+    groups.forEach(group => {
+      group.rows.forEach(({ lease, unitNames, aging }) => {
+        rows.push([
+          group.buildingName,
+          lease.tenantName,
+          unitNames.join(', '),
+          ...agingBuckets.map(bucket => aging.buckets[bucket]),
+          aging.interest,
+          aging.credit,
+          aging.total,
+          aging.oldestDueDate ? formatDateFns(aging.oldestDueDate, 'yyyy-MM-dd') : '',
+        ]);
+      });
+      rows.push(totalsRow(group.buildingName, '소계', group.totals));
+    });
+    rows.push(totalsRow('전체', '합계', grandTotals));
+
+    const ws = XLSX.utils.aoa_to_sheet([[`기준일: ${formatDateFns(asOf, 'yyyy-MM-dd')}`], header, ...rows]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "연체 분석");
+    XLSX.writeFile(wb, `연체분석_${formatDateFns(asOf, 'yyyyMMdd')}.xlsx`);
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const amountCells = (totals: Record<AgingBucket, number>, interest: number, credit: number, total: number, highlight = true) => (
+    <>
+      {agingBuckets.map(bucket => (
+        <TableCell key={bucket} className={cn('text-right', highlight && totals[bucket] > 0 && bucketClassNames[bucket])}>
+          {totals[bucket] > 0 ? formatCurrency(totals[bucket]) : '-'}
+        </TableCell>
+      ))}
+      <TableCell className="text-right">{interest > 0 ? formatCurrency(interest) : '-'}</TableCell>
+      <TableCell className="text-right">{credit > 0 ? `-${formatCurrency(credit)}` : '-'}</TableCell>
+      <TableCell className="text-right font-semibold">{formatCurrency(total)}</TableCell>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl">연체 분석</CardTitle>
+            <CardDescription>
+              {formatDateFns(asOf, 'yyyy-MM-dd')} 기준으로 미납 임대료·관리비를 납부기한이 지난 일수별로 나누어 보여줍니다. 합계는 원장 잔액과 같습니다.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={groups.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Excel
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>임차인</TableHead>
+              {agingBuckets.map(bucket => (
+                <TableHead key={bucket} className="text-right">{agingBucketLabels[bucket]}</TableHead>
+              ))}
+              <TableHead className="text-right">연체이자</TableHead>
+              <TableHead className="text-right">선납액</TableHead>
+              <TableHead className="text-right">합계</TableHead>
+              <TableHead>최초 미납일</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.length > 0 ? groups.map(group => (
+              <React.Fragment key={group.buildingId}>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableCell className="font-semibold">{group.buildingName}</TableCell>
+                  {amountCells(group.totals, group.totals.interest, group.totals.credit, group.totals.total, false)}
+                  <TableCell />
+                </TableRow>
+                {group.rows.map(({ lease, unitNames, aging }) => (
+                  <TableRow key={lease.id}>
+                    <TableCell className="pl-8">
+                      <Link href={`/tenants/${lease.id}`} className="hover:underline">{lease.tenantName}</Link>
+                      {unitNames.length > 0 && <div className="text-xs text-muted-foreground">{unitNames.join(', ')}</div>}
+                    </TableCell>
+                    {amountCells(aging.buckets, aging.interest, aging.credit, aging.total)}
+                    <TableCell>{aging.oldestDueDate ? formatDateFns(aging.oldestDueDate, 'yyyy-MM-dd') : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </React.Fragment>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={agingBuckets.length + 5} className="h-24 text-center">
+                  미납 내역이 있는 임차인이 없습니다.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+          {groups.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-semibold">전체 합계</TableCell>
+                {amountCells(grandTotals, grandTotals.interest, grandTotals.credit, grandTotals.total, false)}
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
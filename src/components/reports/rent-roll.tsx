@@ -0,0 +1,280 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { getGuestBuildingIds } from '@/lib/portfolio';
+import { collection, query, getDocs } from 'firebase/firestore';
+import { Building, LeaseAgreement, MaintenanceFee, MeterReading, Payment, RentAdjustment } from '@/lib/types';
+import { format as formatDateFns, parse } from 'date-fns';
+import { AlertTriangle, Download, Printer } from 'lucide-react';
+import * as XLSX from 'xlsx';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { RentRollRow, RentRollTotals, addRentRollTotals, buildRentRoll, emptyRentRollTotals, vatTreatmentLabels } from '@/lib/rent-roll';
+
+const formatDay = (date: Date) => formatDateFns(date, 'yyyy-MM-dd');
+
+const occupancyRate = (totals: RentRollTotals) =>
+  totals.unitCount > 0 ? Math.round((totals.occupiedUnitCount / totals.unitCount) * 1000) / 10 : 0;
+
+const unitLabel = (row: RentRollRow) => row.units.length > 0 ? row.units.map(u => u.name).join(', ') : '호실 미지정';
+
+export function RentRoll() {
+  const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const { toast } = useToast();
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [paymentsByLease, setPaymentsByLease] = useState<Map<string, Payment[]>>(new Map());
+  const [adjustmentsByLease, setAdjustmentsByLease] = useState<Map<string, RentAdjustment[]>>(new Map());
+  const [feesByBuilding, setFeesByBuilding] = useState<Map<string, MaintenanceFee[]>>(new Map());
+  const [readingsByBuilding, setReadingsByBuilding] = useState<Map<string, MeterReading[]>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [asOfText, setAsOfText] = useState(formatDay(new Date()));
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !membership) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership))),
+        ]);
+
+        const buildingsData = buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building);
+        const leasesData = leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement);
+
+        const [leaseRecords, buildingCharges] = await Promise.all([
+          fetchLeaseRecords(firestore, membership.portfolioId, leasesData.map(l => l.id), getGuestBuildingIds(membership)),
+          fetchBuildingCharges(firestore, membership.portfolioId, buildingsData.map(b => b.id)),
+        ]);
+
+        setBuildings(buildingsData.sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+        setLeases(leasesData);
+        setPaymentsByLease(leaseRecords.paymentsByLease);
+        setAdjustmentsByLease(leaseRecords.adjustmentsByLease);
+        setFeesByBuilding(buildingCharges.feesByBuilding);
+        setReadingsByBuilding(buildingCharges.readingsByBuilding);
+      } catch (e: any) {
+        console.error('Failed to load rent roll:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, membership]);
+
+  const asOf = useMemo(() => {
+    const parsed = parse(asOfText, 'yyyy-MM-dd', new Date());
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }, [asOfText]);
+
+  const groups = useMemo(() => {
+    if (!asOf) return [];
+    return buildings.map(building => buildRentRoll(building, leases, {
+      paymentsByLease,
+      adjustmentsByLease,
+      fees: feesByBuilding.get(building.id) || [],
+      readings: readingsByBuilding.get(building.id) || [],
+    }, asOf));
+  }, [buildings, leases, paymentsByLease, adjustmentsByLease, feesByBuilding, readingsByBuilding, asOf]);
+
+  const grandTotals = useMemo(() => groups.reduce((totals, group) => addRentRollTotals(totals, group.totals), emptyRentRollTotals()), [groups]);
+
+  const handleExport = () => {
+    if (!asOf || groups.length === 0) {
+      toast({ variant: 'destructive', title: '내보낼 데이터 없음', description: '등록된 건물이 없습니다.' });
+      return;
+    }
+
+    const header = ['건물', '호실', '면적(㎡)', '임차인', '계약 시작일', '현재 기간', '만기일', '재계약', '월 임대료', '부가세', '월 청구액', '보증금', '미납 잔액'];
+    const totalsRow = (label: string, totals: RentRollTotals) => [
+      label, `${totals.occupiedUnitCount}/${totals.unitCount}실 (${occupancyRate(totals)}%)`, totals.area, '', '', '', '', '',
+      totals.rent, '', totals.rentTotal, totals.deposit, totals.balance,
+    ];
+    const rows: (string | number)[][] = [];
+    groups.forEach(({ building, rows: rollRows, totals }) => {
+      rollRows.forEach(row => {
+        const { lease, term } = row;
+        rows.push([
+          building.name,
+          unitLabel(row),
+          row.units.reduce((sum, unit) => sum + (unit.area || 0), 0),
+          lease ? lease.tenantName : '공실',
+          lease ? formatDay(toDate(lease.leaseStartDate)) : '',
+          term ? `${formatDay(term.startDate)} ~ ${formatDay(term.endDate)}` : '',
+          term ? formatDay(term.endDate) : '',
+          term && term.renewalCount > 0 ? `${term.renewalCount}회` : '',
+          lease ? row.rent : '',
+          lease ? vatTreatmentLabels[lease.vatTreatment] : '',
+          lease ? row.rentTotal : '',
+          lease ? row.deposit : '',
+          lease ? row.balance : '',
+        ]);
+      });
+      rows.push(totalsRow(`${building.name} 소계`, totals));
+    });
+    rows.push(totalsRow('전체 합계', grandTotals));
+
+    const ws = XLSX.utils.aoa_to_sheet([[`기준일: ${formatDay(asOf)}`], header, ...rows]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "임대 현황");
+    XLSX.writeFile(wb, `임대현황_${formatDateFns(asOf, 'yyyyMMdd')}.xlsx`);
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const totalsCells = (totals: RentRollTotals) => (
+    <>
+      <TableCell className="text-right">{formatCurrency(totals.rent)}</TableCell>
+      <TableCell />
+      <TableCell className="text-right">{formatCurrency(totals.rentTotal)}</TableCell>
+      <TableCell className="text-right">{formatCurrency(totals.deposit)}</TableCell>
+      <TableCell className={cn('text-right', totals.balance > 0 && 'text-destructive')}>{formatCurrency(totals.balance)}</TableCell>
+    </>
+  );
+
+  return (
+    <Card className="print-only-card">
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl">임대 현황 (Rent Roll)</CardTitle>
+            <CardDescription>
+              {asOf ? `${formatDay(asOf)} 기준` : '기준일을 선택하세요.'} 전체 건물의 호실별 임차인, 계약 기간, 임대료, 보증금과 미납 잔액입니다.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-2 no-print">
+            <div className="space-y-2">
+              <Label htmlFor="rentRollAsOf">기준일</Label>
+              <Input id="rentRollAsOf" type="date" className="w-[180px]" value={asOfText} onChange={(e) => setAsOfText(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={handleExport} disabled={!asOf || groups.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Excel
+            </Button>
+            <Button variant="outline" onClick={() => window.print()} disabled={!asOf}>
+              <Printer className="mr-2 h-4 w-4" />
+              인쇄
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table className="print:text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead>호실</TableHead>
+              <TableHead>임차인</TableHead>
+              <TableHead>계약 기간</TableHead>
+              <TableHead className="text-right">월 임대료</TableHead>
+              <TableHead>부가세</TableHead>
+              <TableHead className="text-right">월 청구액</TableHead>
+              <TableHead className="text-right">보증금</TableHead>
+              <TableHead className="text-right">미납 잔액</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.length > 0 ? groups.map(({ building, rows, totals }) => (
+              <React.Fragment key={building.id}>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableCell colSpan={8} className="font-semibold">
+                    {building.name}
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">{building.address}</span>
+                  </TableCell>
+                </TableRow>
+                {rows.map(row => {
+                  const { lease, term } = row;
+                  return (
+                    <TableRow key={lease ? lease.id : row.units[0].id} className={cn(!lease && 'text-muted-foreground')}>
+                      <TableCell className="pl-8">{unitLabel(row)}</TableCell>
+                      <TableCell>
+                        {lease ? (
+                          <Link href={`/tenants/${lease.id}`} className="hover:underline">{lease.tenantName}</Link>
+                        ) : (
+                          <Badge variant="outline">공실</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {term ? (
+                          <>
+                            <div>{formatDay(term.startDate)} ~ {formatDay(term.endDate)}</div>
+                            {term.renewalCount > 0 && (
+                              <div className="text-xs text-muted-foreground">재계약 {term.renewalCount}회 · 최초 만기 {formatDay(term.originalEndDate)}</div>
+                            )}
+                          </>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{lease ? formatCurrency(row.rent) : '-'}</TableCell>
+                      <TableCell>{lease ? vatTreatmentLabels[lease.vatTreatment] : '-'}</TableCell>
+                      <TableCell className="text-right">{lease ? formatCurrency(row.rentTotal) : '-'}</TableCell>
+                      <TableCell className="text-right">{lease ? formatCurrency(row.deposit) : '-'}</TableCell>
+                      <TableCell className={cn('text-right', row.balance > 0 && 'text-destructive')}>{lease ? formatCurrency(row.balance) : '-'}</TableCell>
+                    </TableRow>
+                  );
+                })}
+                <TableRow className="font-medium">
+                  <TableCell colSpan={3} className="pl-8">
+                    소계 · 입주 {totals.occupiedUnitCount}/{totals.unitCount}실 ({occupancyRate(totals)}%)
+                  </TableCell>
+                  {totalsCells(totals)}
+                </TableRow>
+              </React.Fragment>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center">
+                  등록된 건물이 없습니다.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+          {groups.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={3} className="font-semibold">
+                  전체 합계 · 입주 {grandTotals.occupiedUnitCount}/{grandTotals.unitCount}실 ({occupancyRate(grandTotals)}%)
+                </TableCell>
+                {totalsCells(grandTotals)}
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
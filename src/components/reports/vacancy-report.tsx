@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { collection, query, getDocs } from 'firebase/firestore';
+import { Building, LeaseAgreement } from '@/lib/types';
+import { addDays, format as formatDateFns, isAfter, parse, subYears } from 'date-fns';
+import { AlertTriangle, Download, Printer } from 'lucide-react';
+import * as XLSX from 'xlsx';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency } from '@/lib/utils';
+import { UnitVacancy, VacancyTotals, addVacancyTotals, buildVacancyReport, emptyVacancyTotals, vacancyRate, vacancyRentSourceLabels } from '@/lib/vacancy';
+
+const formatDay = (date: Date) => formatDateFns(date, 'yyyy-MM-dd');
+
+const parseDay = (text: string) => {
+  const parsed = parse(text, 'yyyy-MM-dd', new Date());
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const vacantSinceLabel = (vacancy: UnitVacancy) =>
+  vacancy.vacantSince ? formatDay(vacancy.vacantSince) : '계약 이력 없음';
+
+export function VacancyReport() {
+  const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const { toast } = useToast();
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // 기본 기간: 오늘까지 최근 1년
+  const [startText, setStartText] = useState(formatDay(addDays(subYears(new Date(), 1), 1)));
+  const [endText, setEndText] = useState(formatDay(new Date()));
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !membership) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [buildingsSnapshot, leasesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), ...portfolioScope(membership))),
+        ]);
+
+        const buildingsData = buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building);
+        setBuildings(buildingsData.sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+        setLeases(leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement));
+      } catch (e: any) {
+        console.error('Failed to load vacancy report:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, membership]);
+
+  const period = useMemo(() => {
+    const start = parseDay(startText);
+    const end = parseDay(endText);
+    return start && end && !isAfter(start, end) ? { start, end } : null;
+  }, [startText, endText]);
+
+  const groups = useMemo(() => {
+    if (!period) return [];
+    return buildings.map(building => buildVacancyReport(building, leases, period.start, period.end));
+  }, [buildings, leases, period]);
+
+  const grandTotals = useMemo(() => groups.reduce((totals, group) => addVacancyTotals(totals, group.totals), emptyVacancyTotals()), [groups]);
+
+  const handleExport = () => {
+    if (!period || groups.length === 0) {
+      toast({ variant: 'destructive', title: '내보낼 데이터 없음', description: '등록된 건물이 없습니다.' });
+      return;
+    }
+
+    const header = ['건물', '호실', '상태', '공실 시작일', '현재 공실 일수', '기간 중 공실 일수', '기준 월 임대료', '기준', '추정 손실'];
+    const totalsRow = (label: string, totals: VacancyTotals) => [
+      label, `공실 ${totals.vacantUnitCount}/${totals.unitCount}실`, `공실률 ${vacancyRate(totals)}%`, '', '', totals.vacantDays, '', '', totals.estimatedLoss,
+    ];
+    const rows: (string | number)[][] = [];
+    groups.forEach(({ building, units, totals }) => {
+      units.forEach(vacancy => {
+        rows.push([
+          building.name,
+          vacancy.unit.name,
+          vacancy.isVacant ? '공실' : '입주',
+          vacancy.isVacant ? vacantSinceLabel(vacancy) : '',
+          vacancy.currentVacantDays ?? '',
+          vacancy.vacantDays,
+          vacancy.monthlyRent,
+          vacancyRentSourceLabels[vacancy.rentSource],
+          vacancy.estimatedLoss,
+        ]);
+      });
+      rows.push(totalsRow(`${building.name} 소계`, totals));
+    });
+    rows.push(totalsRow('전체 합계', grandTotals));
+
+    const ws = XLSX.utils.aoa_to_sheet([[`기간: ${formatDay(period.start)} ~ ${formatDay(period.end)}`], header, ...rows]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "공실 현황");
+    XLSX.writeFile(wb, `공실현황_${formatDateFns(period.start, 'yyyyMMdd')}_${formatDateFns(period.end, 'yyyyMMdd')}.xlsx`);
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const totalsCells = (totals: VacancyTotals) => (
+    <>
+      <TableCell className="text-right">{totals.vacantDays.toLocaleString()}일</TableCell>
+      <TableCell />
+      <TableCell className={cn('text-right', totals.estimatedLoss > 0 && 'text-destructive')}>{formatCurrency(totals.estimatedLoss)}</TableCell>
+    </>
+  );
+
+  return (
+    <Card className="print-only-card">
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl">공실 현황</CardTitle>
+            <CardDescription>
+              {period ? `${formatDay(period.start)} ~ ${formatDay(period.end)}` : '기간을 올바르게 선택하세요.'} 호실별 공실 기간과 추정 임대료 손실입니다.
+              손실은 호실의 시장 임대료, 없으면 직전 계약의 임대료를 일할 계산합니다.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-2 no-print">
+            <div className="space-y-2">
+              <Label htmlFor="vacancyStart">시작일</Label>
+              <Input id="vacancyStart" type="date" className="w-[160px]" value={startText} onChange={(e) => setStartText(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vacancyEnd">종료일</Label>
+              <Input id="vacancyEnd" type="date" className="w-[160px]" value={endText} onChange={(e) => setEndText(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={handleExport} disabled={!period || groups.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Excel
+            </Button>
+            <Button variant="outline" onClick={() => window.print()} disabled={!period}>
+              <Printer className="mr-2 h-4 w-4" />
+              인쇄
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table className="print:text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead>호실</TableHead>
+              <TableHead>상태</TableHead>
+              <TableHead>공실 시작일</TableHead>
+              <TableHead className="text-right">현재 공실 일수</TableHead>
+              <TableHead className="text-right">기간 중 공실 일수</TableHead>
+              <TableHead className="text-right">기준 월 임대료</TableHead>
+              <TableHead className="text-right">추정 손실</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.length > 0 ? groups.map(({ building, units, totals }) => (
+              <React.Fragment key={building.id}>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableCell colSpan={7} className="font-semibold">
+                    <Link href={`/buildings/${building.id}/timeline`} className="hover:underline">{building.name}</Link>
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">{building.address}</span>
+                  </TableCell>
+                </TableRow>
+                {units.map(vacancy => (
+                  <TableRow key={vacancy.unit.id} className={cn(!vacancy.isVacant && vacancy.vacantDays === 0 && 'text-muted-foreground')}>
+                    <TableCell className="pl-8">{vacancy.unit.name}</TableCell>
+                    <TableCell>
+                      {vacancy.isVacant ? <Badge variant="destructive">공실</Badge> : <Badge variant="outline">입주</Badge>}
+                    </TableCell>
+                    <TableCell>{vacancy.isVacant ? vacantSinceLabel(vacancy) : '-'}</TableCell>
+                    <TableCell className="text-right">{vacancy.currentVacantDays !== null ? `${vacancy.currentVacantDays.toLocaleString()}일` : '-'}</TableCell>
+                    <TableCell className="text-right">{vacancy.vacantDays.toLocaleString()}일</TableCell>
+                    <TableCell className="text-right">
+                      {vacancy.rentSource !== 'none' ? formatCurrency(vacancy.monthlyRent) : '-'}
+                      <div className="text-xs text-muted-foreground">{vacancyRentSourceLabels[vacancy.rentSource]}</div>
+                    </TableCell>
+                    <TableCell className={cn('text-right', vacancy.estimatedLoss > 0 && 'text-destructive')}>{formatCurrency(vacancy.estimatedLoss)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell colSpan={4} className="pl-8">
+                    소계 · 공실 {totals.vacantUnitCount}/{totals.unitCount}실 · 공실률 {vacancyRate(totals)}%
+                  </TableCell>
+                  {totalsCells(totals)}
+                </TableRow>
+              </React.Fragment>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center">
+                  등록된 건물이 없습니다.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+          {groups.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="font-semibold">
+                  전체 합계 · 공실 {grandTotals.vacantUnitCount}/{grandTotals.unitCount}실 · 공실률 {vacancyRate(grandTotals)}%
+                </TableCell>
+                {totalsCells(grandTotals)}
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
 import {
   collection,
   getDocs,
@@ -14,6 +15,8 @@ import {
   Timestamp,
   serverTimestamp,
   Firestore,
+  DocumentReference,
+  DocumentData,
 } from 'firebase/firestore';
 import { Button } from '@/components/ui/button';
 import {
@@ -36,10 +39,15 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
-import { Building, LeaseAgreement, Payment, RentAdjustment, UserProfile } from '@/lib/types';
+import { Building, DepositorAlias, DepositTransaction, LeaseAgreement, MaintenanceFee, MessageTemplate, MeterReading, Payment, PaymentReceipt, ReminderMessage, RentAdjustment, RentInvoice, TaxInvoice, UserProfile } from '@/lib/types';
 import { Loader2 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { errorEmitter, FirestorePermissionError } from '@/firebase';
+import { recordAuditLog } from '@/firebase/firestore/audit-log';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { isAdmin } from '@/lib/roles';
+import { canEditPortfolioData, portfolioCollections } from '@/lib/portfolio';
+import { beginDataOperation, endDataOperation } from '@/firebase/firestore/portfolios';
 
 
 interface BackupData {
@@ -47,6 +55,15 @@ interface BackupData {
   leaseAgreements: LeaseAgreement[];
   payments: Payment[];
   rentAdjustments: RentAdjustment[];
+  depositTransactions?: DepositTransaction[];
+  maintenanceFees?: MaintenanceFee[];
+  meterReadings?: MeterReading[];
+  taxInvoices?: TaxInvoice[];
+  rentInvoices?: RentInvoice[];
+  paymentReceipts?: PaymentReceipt[];
+  depositorAliases?: DepositorAlias[];
+  messageTemplates?: MessageTemplate[];
+  reminderMessages?: ReminderMessage[];
 }
 
 // Helper to convert various date formats from JSON to a Date object
@@ -76,31 +93,41 @@ function parseDate(dateValue: any): Date | null {
 }
 
 
-async function deleteCollectionForUser(
+// Firestore rejects batches with more than 500 writes.
+const BATCH_LIMIT = 500;
+
+// Backups made before portfolios existed carry the creator's `ownerId`; restored documents
+// belong to the active portfolio instead.
+function toPortfolioDocument<T extends object>(data: T, portfolioId: string) {
+  const { ownerId, ...rest } = data as T & { ownerId?: string };
+  return { ...rest, portfolioId };
+}
+
+async function deleteCollectionForPortfolio(
     firestore: Firestore, 
     collectionName: string, 
-    user: { id: string },
-) {
+    portfolioId: string,
+): Promise<number> {
     try {
-        const batch = writeBatch(firestore);
         const collectionRef = collection(firestore, collectionName);
-        const q = query(collectionRef, where('ownerId', '==', user.id));
+        const q = query(collectionRef, where('portfolioId', '==', portfolioId));
 
         const snapshot = await getDocs(q);
-        if (snapshot.empty) return; // Nothing to delete
-
-        snapshot.forEach(doc => {
-            batch.delete(doc.ref);
-        });
+        if (snapshot.empty) return 0; // Nothing to delete
 
-        await batch.commit();
+        for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+            const batch = writeBatch(firestore);
+            snapshot.docs.slice(i, i + BATCH_LIMIT).forEach(doc => batch.delete(doc.ref));
+            await batch.commit();
+        }
+        return snapshot.size;
 
     } catch (e: any) {
         // Throw a more specific error for debugging
         const specificError = new FirestorePermissionError({
             path: collectionName,
             operation: 'delete',
-            requestResourceData: { note: `Failed to batch delete documents for user ${user.id} in ${collectionName}.` }
+            requestResourceData: { note: `Failed to batch delete documents of portfolio ${portfolioId} in ${collectionName}.` }
         });
         errorEmitter.emit('permission-error', specificError);
         // Also re-throw the original error to be caught by the calling function
@@ -110,34 +137,64 @@ async function deleteCollectionForUser(
 
 export function DataManagement() {
   const { firestore, user } = useFirebase();
+  const portfolioState = usePortfolio();
+  const portfolioId = portfolioState?.portfolio.id;
   const { toast } = useToast();
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const canManageData = isAdmin(useUserProfile());
 
   const handleBackup = async () => {
-    if (!firestore || !user) return;
+    if (!firestore || !user || !portfolioId) return;
     setIsProcessing(true);
     toast({ title: '백업 시작', description: '데이터를 다운로드합니다.' });
 
     try {
-      const buildingsQuery = query(collection(firestore, 'buildings'), where('ownerId', '==', user.uid));
-      const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('ownerId', '==', user.uid));
-      const paymentsQuery = query(collection(firestore, 'payments'), where('ownerId', '==', user.uid));
-      const adjustmentsQuery = query(collection(firestore, 'rentAdjustments'), where('ownerId', '==', user.uid));
-
-      const [buildingsSnap, leasesSnap, paymentsSnap, adjustmentsSnap] = await Promise.all([
+      const buildingsQuery = query(collection(firestore, 'buildings'), where('portfolioId', '==', portfolioId));
+      const leasesQuery = query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId));
+      const paymentsQuery = query(collection(firestore, 'payments'), where('portfolioId', '==', portfolioId));
+      const adjustmentsQuery = query(collection(firestore, 'rentAdjustments'), where('portfolioId', '==', portfolioId));
+      const depositsQuery = query(collection(firestore, 'depositTransactions'), where('portfolioId', '==', portfolioId));
+      const maintenanceFeesQuery = query(collection(firestore, 'maintenanceFees'), where('portfolioId', '==', portfolioId));
+      const meterReadingsQuery = query(collection(firestore, 'meterReadings'), where('portfolioId', '==', portfolioId));
+      const taxInvoicesQuery = query(collection(firestore, 'taxInvoices'), where('portfolioId', '==', portfolioId));
+      const rentInvoicesQuery = query(collection(firestore, 'rentInvoices'), where('portfolioId', '==', portfolioId));
+      const receiptsQuery = query(collection(firestore, 'paymentReceipts'), where('portfolioId', '==', portfolioId));
+      const aliasesQuery = query(collection(firestore, 'depositorAliases'), where('portfolioId', '==', portfolioId));
+      const templatesQuery = query(collection(firestore, 'messageTemplates'), where('portfolioId', '==', portfolioId));
+      const messagesQuery = query(collection(firestore, 'reminderMessages'), where('portfolioId', '==', portfolioId));
+
+      const [buildingsSnap, leasesSnap, paymentsSnap, adjustmentsSnap, depositsSnap, maintenanceFeesSnap, meterReadingsSnap, taxInvoicesSnap, rentInvoicesSnap, receiptsSnap, aliasesSnap, templatesSnap, messagesSnap] = await Promise.all([
         getDocs(buildingsQuery),
         getDocs(leasesQuery),
         getDocs(paymentsQuery),
         getDocs(adjustmentsQuery),
+        getDocs(depositsQuery),
+        getDocs(maintenanceFeesQuery),
+        getDocs(meterReadingsQuery),
+        getDocs(taxInvoicesQuery),
+        getDocs(rentInvoicesQuery),
+        getDocs(receiptsQuery),
+        getDocs(aliasesQuery),
+        getDocs(templatesQuery),
+        getDocs(messagesQuery),
       ]);
 
       const buildings = buildingsSnap.docs.map(doc => doc.data() as Building);
       const leaseAgreements = leasesSnap.docs.map(doc => doc.data() as LeaseAgreement);
       const payments = paymentsSnap.docs.map(doc => doc.data() as Payment);
       const rentAdjustments = adjustmentsSnap.docs.map(doc => doc.data() as RentAdjustment);
+      const depositTransactions = depositsSnap.docs.map(doc => doc.data() as DepositTransaction);
+      const maintenanceFees = maintenanceFeesSnap.docs.map(doc => doc.data() as MaintenanceFee);
+      const meterReadings = meterReadingsSnap.docs.map(doc => doc.data() as MeterReading);
+      const taxInvoices = taxInvoicesSnap.docs.map(doc => doc.data() as TaxInvoice);
+      const rentInvoices = rentInvoicesSnap.docs.map(doc => doc.data() as RentInvoice);
+      const paymentReceipts = receiptsSnap.docs.map(doc => doc.data() as PaymentReceipt);
+      const depositorAliases = aliasesSnap.docs.map(doc => doc.data() as DepositorAlias);
+      const messageTemplates = templatesSnap.docs.map(doc => doc.data() as MessageTemplate);
+      const reminderMessages = messagesSnap.docs.map(doc => doc.data() as ReminderMessage);
       
-      const backupData: BackupData = { buildings, leaseAgreements, payments, rentAdjustments };
+      const backupData: BackupData = { buildings, leaseAgreements, payments, rentAdjustments, depositTransactions, maintenanceFees, meterReadings, taxInvoices, rentInvoices, paymentReceipts, depositorAliases, messageTemplates, reminderMessages };
       const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -156,50 +213,82 @@ export function DataManagement() {
     }
   };
 
-  const clearAllData = async (): Promise<boolean> => {
-    if (!firestore || !user) {
+  // Returns the number of deleted documents per collection, or null on failure.
+  // The audit log is never cleared, so resets and restores stay traceable.
+  const clearAllData = async (): Promise<Record<string, number> | null> => {
+    if (!firestore || !user || !portfolioId) {
         toast({ variant: 'destructive', title: '오류', description: '로그인이 필요합니다.' });
-        return false;
+        return null;
     }
     
     try {
-        const userOwnedCollections = ['buildings', 'leaseAgreements', 'payments', 'rentAdjustments', 'logs'];
+        const deletedCounts: Record<string, number> = {};
         
-        for (const name of userOwnedCollections) {
-            await deleteCollectionForUser(firestore, name, { id: user.uid });
+        for (const name of portfolioCollections) {
+            deletedCounts[name] = await deleteCollectionForPortfolio(firestore, name, portfolioId);
         }
 
-        return true;
+        return deletedCounts;
     } catch (error) {
         console.error("Failed to clear data:", error);
         toast({ variant: 'destructive', title: '데이터 삭제 실패', description: `기존 데이터를 삭제하는 중 오류가 발생했습니다: ${(error as Error).message}` });
-        return false;
+        return null;
     }
   }
 
 
   const handleRestore = async () => {
-    if (!uploadFile || !firestore || !user) return;
+    if (!uploadFile || !firestore || !user || !portfolioId) return;
     setIsProcessing(true);
 
     const reader = new FileReader();
     reader.onload = async (event) => {
+        let started = false;
         try {
             const backupData = JSON.parse(event.target?.result as string) as BackupData;
+
+            // Only admins may start a restore, so a rejected start stops it before anything is deleted.
+            await beginDataOperation(firestore, portfolioId, user.uid, 'restore_data');
+            started = true;
+            await recordAuditLog(firestore, {
+                action: 'restore_data',
+                details: {
+                    collection: 'all',
+                    portfolioId,
+                    fileName: uploadFile.name,
+                    restoredCounts: {
+                        buildings: (backupData.buildings || []).length,
+                        leaseAgreements: (backupData.leaseAgreements || []).length,
+                        payments: (backupData.payments || []).length,
+                        rentAdjustments: (backupData.rentAdjustments || []).length,
+                        depositTransactions: (backupData.depositTransactions || []).length,
+                        maintenanceFees: (backupData.maintenanceFees || []).length,
+                        meterReadings: (backupData.meterReadings || []).length,
+                        taxInvoices: (backupData.taxInvoices || []).length,
+                        rentInvoices: (backupData.rentInvoices || []).length,
+                        paymentReceipts: (backupData.paymentReceipts || []).length,
+                        depositorAliases: (backupData.depositorAliases || []).length,
+                        messageTemplates: (backupData.messageTemplates || []).length,
+                        reminderMessages: (backupData.reminderMessages || []).length,
+                    },
+                },
+            });
             
             toast({ title: '복원 준비 중', description: '기존 데이터를 삭제합니다...' });
-            const cleared = await clearAllData();
-            if (!cleared) {
+            const deletedCounts = await clearAllData();
+            if (!deletedCounts) {
                  setIsProcessing(false);
                  return;
             }
             toast({ title: '데이터 복원 중', description: '백업 파일로부터 데이터를 복원합니다...' });
 
-            const batch = writeBatch(firestore);
+            // Everything is validated and prepared before the first commit, then written in batches.
+            const writes: { docRef: DocumentReference; data: DocumentData }[] = [];
+            const set = (docRef: DocumentReference, data: DocumentData) => { writes.push({ docRef, data }); };
 
             (backupData.buildings || []).forEach(building => {
                 const docRef = doc(firestore, 'buildings', building.id || uuidv4());
-                batch.set(docRef, { ...building, ownerId: user.uid });
+                set(docRef, toPortfolioDocument(building, portfolioId));
             });
 
             (backupData.leaseAgreements || []).forEach(lease => {
@@ -212,8 +301,7 @@ export function DataManagement() {
                 }
 
                 const restoredLease = {
-                    ...lease,
-                    ownerId: user.uid,
+                    ...toPortfolioDocument(lease, portfolioId),
                     leaseStartDate: Timestamp.fromDate(startDate),
                     leaseEndDate: Timestamp.fromDate(endDate),
                     renewals: (lease.renewals || []).map(r => ({
@@ -222,9 +310,16 @@ export function DataManagement() {
                         newLeaseEndDate: Timestamp.fromDate(parseDate(r.newLeaseEndDate)!),
                     }))
                 };
-                batch.set(docRef, restoredLease);
+                set(docRef, restoredLease);
             });
 
+            // Payments, adjustments and deposit transactions carry their lease's building for guest access.
+            const buildingIdByLease = new Map((backupData.leaseAgreements || []).map(lease => [lease.id, lease.buildingId]));
+            const leaseBuilding = (leaseAgreementId: string) => {
+                const buildingId = buildingIdByLease.get(leaseAgreementId);
+                return buildingId ? { buildingId } : {};
+            };
+
             (backupData.payments || []).forEach(payment => {
                 const paymentId = payment.id || uuidv4();
                 const docRef = doc(firestore, 'payments', paymentId);
@@ -235,12 +330,12 @@ export function DataManagement() {
                 }
 
                 const restoredPayment = {
-                    ...payment,
+                    ...toPortfolioDocument(payment, portfolioId),
+                    ...leaseBuilding(payment.leaseAgreementId),
                     id: paymentId,
-                    ownerId: user.uid,
                     paymentDate: Timestamp.fromDate(paymentDate),
                 };
-                batch.set(docRef, restoredPayment);
+                set(docRef, restoredPayment);
             });
 
              (backupData.rentAdjustments || []).forEach(adj => {
@@ -252,15 +347,155 @@ export function DataManagement() {
                     throw new Error(`Adjustment for lease ${adj.leaseAgreementId} has an invalid date value.`);
                 }
                 const restoredAdj = {
-                    ...adj,
+                    ...toPortfolioDocument(adj, portfolioId),
+                    ...leaseBuilding(adj.leaseAgreementId),
                     id: adjId,
-                    ownerId: user.uid,
                     adjustmentDate: Timestamp.fromDate(adjDate),
                 };
-                batch.set(docRef, restoredAdj);
+                set(docRef, restoredAdj);
             });
-            
-            await batch.commit();
+
+            (backupData.depositTransactions || []).forEach(transaction => {
+                const transactionId = transaction.id || uuidv4();
+                const docRef = doc(firestore, 'depositTransactions', transactionId);
+                const transactionDate = parseDate(transaction.transactionDate);
+
+                if (!transactionDate) {
+                    throw new Error(`Deposit transaction for lease ${transaction.leaseAgreementId} has an invalid date value.`);
+                }
+                const restoredTransaction = {
+                    ...toPortfolioDocument(transaction, portfolioId),
+                    ...leaseBuilding(transaction.leaseAgreementId),
+                    id: transactionId,
+                    transactionDate: Timestamp.fromDate(transactionDate),
+                };
+                set(docRef, restoredTransaction);
+            });
+
+            (backupData.maintenanceFees || []).forEach(fee => {
+                const feeId = fee.id || uuidv4();
+                const docRef = doc(firestore, 'maintenanceFees', feeId);
+                const billingMonth = parseDate(fee.billingMonth);
+
+                if (!billingMonth) {
+                    throw new Error(`Maintenance fee for building ${fee.buildingId} has an invalid date value.`);
+                }
+                const restoredFee = {
+                    ...toPortfolioDocument(fee, portfolioId),
+                    id: feeId,
+                    billingMonth: Timestamp.fromDate(billingMonth),
+                };
+                set(docRef, restoredFee);
+            });
+
+            (backupData.meterReadings || []).forEach(reading => {
+                const readingId = reading.id || uuidv4();
+                const docRef = doc(firestore, 'meterReadings', readingId);
+                const readingMonth = parseDate(reading.readingMonth);
+
+                if (!readingMonth) {
+                    throw new Error(`Meter reading for unit ${reading.unitId} has an invalid date value.`);
+                }
+                const restoredReading = {
+                    ...toPortfolioDocument(reading, portfolioId),
+                    id: readingId,
+                    readingMonth: Timestamp.fromDate(readingMonth),
+                };
+                set(docRef, restoredReading);
+            });
+
+            (backupData.taxInvoices || []).forEach(invoice => {
+                const invoiceId = invoice.id || uuidv4();
+                const docRef = doc(firestore, 'taxInvoices', invoiceId);
+                const billingMonth = parseDate(invoice.billingMonth);
+                const issueDate = parseDate(invoice.issueDate);
+
+                if (!billingMonth || !issueDate) {
+                    throw new Error(`Tax invoice for ${invoice.tenantName} has an invalid date value.`);
+                }
+                const restoredInvoice = {
+                    ...toPortfolioDocument(invoice, portfolioId),
+                    id: invoiceId,
+                    billingMonth: Timestamp.fromDate(billingMonth),
+                    issueDate: Timestamp.fromDate(issueDate),
+                };
+                set(docRef, restoredInvoice);
+            });
+
+            (backupData.rentInvoices || []).forEach(invoice => {
+                const invoiceId = invoice.id || uuidv4();
+                const docRef = doc(firestore, 'rentInvoices', invoiceId);
+                const billingMonth = parseDate(invoice.billingMonth);
+                const issueDate = parseDate(invoice.issueDate);
+                const dueDate = parseDate(invoice.dueDate);
+
+                if (!billingMonth || !issueDate || !dueDate) {
+                    throw new Error(`Rent invoice ${invoice.invoiceNumber} has an invalid date value.`);
+                }
+                const restoredInvoice = {
+                    ...toPortfolioDocument(invoice, portfolioId),
+                    id: invoiceId,
+                    billingMonth: Timestamp.fromDate(billingMonth),
+                    issueDate: Timestamp.fromDate(issueDate),
+                    dueDate: Timestamp.fromDate(dueDate),
+                };
+                set(docRef, restoredInvoice);
+            });
+
+            (backupData.paymentReceipts || []).forEach(receipt => {
+                const receiptId = receipt.id || uuidv4();
+                const docRef = doc(firestore, 'paymentReceipts', receiptId);
+                const issueDate = parseDate(receipt.issueDate);
+                const paymentDate = parseDate(receipt.paymentDate);
+
+                if (!issueDate || !paymentDate) {
+                    throw new Error(`Payment receipt ${receipt.receiptNumber} has an invalid date value.`);
+                }
+                const restoredReceipt = {
+                    ...toPortfolioDocument(receipt, portfolioId),
+                    id: receiptId,
+                    issueDate: Timestamp.fromDate(issueDate),
+                    paymentDate: Timestamp.fromDate(paymentDate),
+                };
+                set(docRef, restoredReceipt);
+            });
+
+            (backupData.depositorAliases || []).forEach(alias => {
+                const aliasId = alias.id || uuidv4();
+                const docRef = doc(firestore, 'depositorAliases', aliasId);
+                set(docRef, { ...toPortfolioDocument(alias, portfolioId), id: aliasId });
+            });
+
+            (backupData.messageTemplates || []).forEach(template => {
+                const templateId = template.id || uuidv4();
+                const docRef = doc(firestore, 'messageTemplates', templateId);
+                set(docRef, { ...toPortfolioDocument(template, portfolioId), id: templateId });
+            });
+
+            (backupData.reminderMessages || []).forEach(message => {
+                const messageId = message.id || uuidv4();
+                const docRef = doc(firestore, 'reminderMessages', messageId);
+                const queuedAt = parseDate(message.queuedAt);
+                const sentAt = parseDate(message.sentAt);
+
+                if (!queuedAt) {
+                    throw new Error(`Reminder message for ${message.tenantName} has an invalid date value.`);
+                }
+                const restoredMessage = {
+                    ...toPortfolioDocument(message, portfolioId),
+                    id: messageId,
+                    queuedAt: Timestamp.fromDate(queuedAt),
+                    ...(sentAt ? { sentAt: Timestamp.fromDate(sentAt) } : {}),
+                };
+                set(docRef, restoredMessage);
+            });
+
+
+            for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+                const batch = writeBatch(firestore);
+                writes.slice(i, i + BATCH_LIMIT).forEach(({ docRef, data }) => batch.set(docRef, data));
+                await batch.commit();
+            }
 
             toast({ title: '복원 완료', description: '데이터가 성공적으로 복원되었습니다. 페이지를 새로고침합니다.' });
             setTimeout(() => window.location.reload(), 2000);
@@ -269,6 +504,9 @@ export function DataManagement() {
             console.error('Restore failed:', error);
             toast({ variant: 'destructive', title: '복원 실패', description: `백업 파일을 처리하는 중 오류가 발생했습니다: ${(error as Error).message}` });
         } finally {
+            if (started) {
+                await endDataOperation(firestore, portfolioId).catch(error => console.error('Failed to end restore:', error));
+            }
             setIsProcessing(false);
             setUploadFile(null);
         }
@@ -277,23 +515,46 @@ export function DataManagement() {
   };
 
   const handleReset = async () => {
+    if (!firestore || !user || !portfolioId) return;
     setIsProcessing(true);
-    toast({ title: '초기화 진행 중', description: '모든 데이터를 삭제합니다.' });
-    const success = await clearAllData();
-    if(success) {
-        toast({ title: '초기화 완료', description: '모든 데이터가 삭제되었습니다. 페이지를 새로고침합니다.' });
-        setTimeout(() => window.location.reload(), 2000);
+    try {
+        // Only admins may start a reset, so a rejected start stops it before anything is deleted.
+        await beginDataOperation(firestore, portfolioId, user.uid, 'clear_data');
+    } catch (error) {
+        console.error("Reset not allowed:", error);
+        toast({ variant: 'destructive', title: '초기화 실패', description: '데이터를 초기화할 권한이 없습니다.' });
+        setIsProcessing(false);
+        return;
+    }
+    try {
+        await recordAuditLog(firestore, { action: 'clear_data', details: { collection: 'all', portfolioId } });
+        toast({ title: '초기화 진행 중', description: '모든 데이터를 삭제합니다.' });
+        const deletedCounts = await clearAllData();
+        if(deletedCounts) {
+            toast({ title: '초기화 완료', description: '모든 데이터가 삭제되었습니다. 페이지를 새로고침합니다.' });
+            setTimeout(() => window.location.reload(), 2000);
+        }
+    } catch (error) {
+        console.error("Reset failed:", error);
+        toast({ variant: 'destructive', title: '초기화 실패', description: '초기화를 기록하는 중 오류가 발생했습니다.' });
+    } finally {
+        await endDataOperation(firestore, portfolioId).catch(error => console.error('Failed to end reset:', error));
+        setIsProcessing(false);
     }
-    setIsProcessing(false);
   }
 
+  // A backup holds the whole portfolio, beyond the buildings a guest may read.
+  if (!canEditPortfolioData(portfolioState?.membership)) return null;
+
   return (
     <div className="grid gap-6">
       <Card>
         <CardHeader>
           <CardTitle>데이터 백업 및 복원</CardTitle>
           <CardDescription>
-            모든 건물, 임차인 및 납부 데이터를 JSON 파일로 백업하거나 복원합니다.
+            {canManageData
+              ? '현재 포트폴리오의 모든 건물, 임차인 및 납부 데이터를 JSON 파일로 백업하거나 복원합니다.'
+              : '현재 포트폴리오의 모든 건물, 임차인 및 납부 데이터를 JSON 파일로 백업합니다. 복원과 초기화는 관리자만 할 수 있습니다.'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -302,6 +563,7 @@ export function DataManagement() {
               {isProcessing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
               데이터 백업
             </Button>
+            {canManageData && (
             <div className="flex w-full max-w-sm items-center space-x-2">
               <Input
                 type="file"
@@ -319,7 +581,7 @@ export function DataManagement() {
                   <AlertDialogHeader>
                     <AlertDialogTitle>정말 복원하시겠습니까?</AlertDialogTitle>
                     <AlertDialogDescription>
-                      이 작업은 현재 데이터베이스의 모든 정보를 삭제하고 백업 파일의 정보로 대체합니다. 이 작업은 되돌릴 수 없습니다.
+                      이 작업은 현재 포트폴리오의 모든 정보를 삭제하고 백업 파일의 정보로 대체합니다. 이 작업은 되돌릴 수 없습니다.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
@@ -332,14 +594,16 @@ export function DataManagement() {
                 </AlertDialogContent>
               </AlertDialog>
             </div>
+            )}
           </div>
         </CardContent>
       </Card>
+      {canManageData && (
       <Card className="border-destructive">
         <CardHeader>
           <CardTitle>데이터 초기화</CardTitle>
           <CardDescription className="text-destructive">
-            위험 구역: 이 작업은 모든 데이터를 영구적으로 삭제합니다.
+            위험 구역: 이 작업은 현재 포트폴리오의 모든 데이터를 영구적으로 삭제합니다.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -367,6 +631,7 @@ export function DataManagement() {
           </AlertDialog>
         </CardContent>
       </Card>
+      )}
     </div>
   );
 }
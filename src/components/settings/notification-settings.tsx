@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useNotifications } from '@/hooks/use-notifications';
+import { defaultNotificationSettings } from '@/lib/notifications';
+
+const daysField = (label: string) =>
+  z.coerce.number().int({ message: `${label}은(는) 정수로 입력해주세요.` }).min(0, { message: `${label}은(는) 0 이상이어야 합니다.` }).max(3650, { message: `${label}은(는) 3650일 이하여야 합니다.` });
+
+const formSchema = z.object({
+  overdueDays: daysField('연체 기준'),
+  expiringDays: daysField('만기 기준'),
+  renewalLookbackDays: daysField('재계약 확인 기간'),
+});
+
+const fields: { name: keyof z.infer<typeof formSchema>; label: string; description: string }[] = [
+  { name: 'overdueDays', label: '연체 기준 (일)', description: '납부기한을 이 일수보다 넘긴 미납액이 있으면 알립니다.' },
+  { name: 'expiringDays', label: '만기 기준 (일)', description: '재계약을 포함한 만기일이 이 일수 이내인 계약을 알립니다.' },
+  { name: 'renewalLookbackDays', label: '재계약 확인 기간 (일)', description: '최근 이 일수 안에 시작된 재계약 중 임대료가 바뀌지 않은 계약을 알립니다.' },
+];
+
+export function NotificationSettingsCard() {
+  const center = useNotifications();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: center?.settings || defaultNotificationSettings,
+  });
+
+  const settings = center?.settings;
+  useEffect(() => {
+    if (settings) {
+      form.reset(settings);
+    }
+  }, [form, settings]);
+
+  if (!center) return null;
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    setIsSaving(true);
+    try {
+      await center.saveSettings(values);
+      toast({ title: '알림 기준 저장됨', description: '새 기준으로 알림을 다시 검사합니다.' });
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '알림 기준을 저장하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>알림</CardTitle>
+        <CardDescription>
+          상단 알림에 표시할 장기 연체, 만기 임박, 재계약 임대료 미변경 기준입니다. 임대료를 조정한 달에 납부가 없는 경우는 항상 알립니다. 기준은 내 계정에만 적용됩니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-3">
+              {fields.map(({ name, label, description }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormDescription>{description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              저장
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
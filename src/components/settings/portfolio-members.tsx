@@ -0,0 +1,383 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { collection, getDocs, query } from 'firebase/firestore';
+import { Building, PortfolioInvitation, PortfolioMember, PortfolioRole } from '@/lib/types';
+import { canManagePortfolio, normalizeEmail, portfolioRoleLabels } from '@/lib/portfolio';
+import {
+  acceptPortfolioInvitation,
+  deletePortfolioInvitation,
+  fetchInvitationsForEmail,
+  fetchPortfolioInvitations,
+  fetchPortfolioMembers,
+  invitePortfolioMember,
+  portfolioScope,
+  removePortfolioMember,
+  updatePortfolioMemberRole,
+} from '@/firebase/firestore/portfolios';
+import { AlertTriangle, Loader2, Mail } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Checkbox } from '../ui/checkbox';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+
+const roles = Object.keys(portfolioRoleLabels) as PortfolioRole[];
+// A guest's access is fixed by their invitation; members are promoted between these roles only.
+const memberRoles: PortfolioRole[] = ['owner', 'manager'];
+
+export function PortfolioMembers() {
+  const { firestore, user } = useFirebase();
+  const portfolioState = usePortfolio();
+  const { toast } = useToast();
+
+  const [members, setMembers] = useState<PortfolioMember[]>([]);
+  const [invitations, setInvitations] = useState<PortfolioInvitation[]>([]);
+  const [receivedInvitations, setReceivedInvitations] = useState<PortfolioInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<PortfolioRole>('manager');
+  const [inviteBuildingIds, setInviteBuildingIds] = useState<string[]>([]);
+  const [buildings, setBuildings] = useState<Building[]>([]);
+
+  const portfolio = portfolioState?.portfolio;
+  const membership = portfolioState?.membership;
+  const canManage = canManagePortfolio(membership);
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !portfolio || !membership) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [membersData, invitationsData, receivedData, buildingsSnapshot] = await Promise.all([
+          fetchPortfolioMembers(firestore, portfolio.id),
+          fetchPortfolioInvitations(firestore, portfolio.id),
+          user.email ? fetchInvitationsForEmail(firestore, user.email) : Promise.resolve([]),
+          getDocs(query(collection(firestore, 'buildings'), ...portfolioScope(membership, 'id'))),
+        ]);
+        membersData.sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner') || a.email.localeCompare(b.email));
+        setMembers(membersData);
+        setInvitations(invitationsData);
+        setReceivedInvitations(receivedData);
+        setBuildings(buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building).sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (e: any) {
+        console.error('Failed to load portfolio members:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, portfolio, membership, triggerFetch]);
+
+  // Runs a change and reloads the lists, or reports the failure.
+  const run = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      toast({ title: '완료', description: successMessage });
+      setTriggerFetch(t => t + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '실패', description: '요청을 처리하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!firestore || !user || !portfolio) return;
+
+    const email = normalizeEmail(inviteEmail);
+    if (!/^\S+@\S+\.\S+$/.test(email)) {
+      toast({ variant: 'destructive', title: '이메일 오류', description: '올바른 이메일 주소를 입력해주세요.' });
+      return;
+    }
+    if (members.some(m => m.email === email)) {
+      toast({ variant: 'destructive', title: '초대 불가', description: '이미 포트폴리오의 구성원입니다.' });
+      return;
+    }
+    if (inviteRole === 'guest' && inviteBuildingIds.length === 0) {
+      toast({ variant: 'destructive', title: '건물 선택 필요', description: '게스트가 열람할 건물을 하나 이상 선택해주세요.' });
+      return;
+    }
+    if (inviteBuildingIds.length > 30) {
+      // Guest queries filter with Firestore's `in`, which takes at most 30 values.
+      toast({ variant: 'destructive', title: '건물 수 초과', description: '게스트에게는 최대 30개 건물까지 지정할 수 있습니다.' });
+      return;
+    }
+
+    await run(() => invitePortfolioMember(firestore, portfolio, email, inviteRole, user.email || '', inviteBuildingIds), `${email}님을 초대했습니다. 해당 이메일로 로그인하면 설정 화면에서 초대를 수락할 수 있습니다.`);
+    setInviteEmail('');
+    setInviteBuildingIds([]);
+  };
+
+  const buildingNames = (buildingIds: string[] = []) =>
+    buildingIds.map(id => buildings.find(b => b.id === id)?.name || id).join(', ');
+
+  const toggleInviteBuilding = (buildingId: string, checked: boolean) => {
+    setInviteBuildingIds(prev => checked ? [...prev, buildingId] : prev.filter(id => id !== buildingId));
+  };
+
+  const handleAccept = async (invitation: PortfolioInvitation) => {
+    if (!firestore || !user) return;
+    await run(() => acceptPortfolioInvitation(firestore, invitation, user), `${invitation.portfolioName}에 참여했습니다.`);
+    portfolioState?.reloadPortfolios();
+  };
+
+  const handleLeave = async (member: PortfolioMember) => {
+    if (!firestore) return;
+    await run(() => removePortfolioMember(firestore, member), `${portfolio?.name}에서 나갔습니다.`);
+    portfolioState?.reloadPortfolios();
+  };
+
+  if (!portfolio) return null;
+
+  if (isLoading) {
+    return <Skeleton className="h-[300px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="grid gap-6">
+      {receivedInvitations.length > 0 && (
+        <Card className="border-primary">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Mail className="h-5 w-5" />받은 초대</CardTitle>
+            <CardDescription>다른 사용자가 포트폴리오에 초대했습니다. 수락하면 해당 포트폴리오의 데이터를 함께 관리할 수 있습니다.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>포트폴리오</TableHead>
+                  <TableHead>역할</TableHead>
+                  <TableHead>초대한 사용자</TableHead>
+                  <TableHead className="text-right">작업</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receivedInvitations.map(invitation => (
+                  <TableRow key={`${invitation.portfolioId}-${invitation.id}`}>
+                    <TableCell className="font-medium">{invitation.portfolioName}</TableCell>
+                    <TableCell>
+                      {portfolioRoleLabels[invitation.role]}
+                      {invitation.role === 'guest' && (
+                        <span className="ml-1 text-xs text-muted-foreground">(건물 {invitation.buildingIds?.length ?? 0}개)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{invitation.invitedBy}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" disabled={isSubmitting} onClick={() => handleAccept(invitation)}>수락</Button>
+                        <Button size="sm" variant="outline" disabled={isSubmitting} onClick={() => firestore && run(() => deletePortfolioInvitation(firestore, invitation), '초대를 거절했습니다.')}>거절</Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>포트폴리오 구성원</CardTitle>
+          <CardDescription>
+            {portfolio.name}의 건물, 임차인 및 납부 데이터를 함께 관리하는 사용자입니다. 소유자는 구성원을 초대하고 역할을 바꿀 수 있습니다.
+            게스트는 초대할 때 지정한 건물의 데이터만 읽을 수 있습니다.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>이름</TableHead>
+                <TableHead>이메일</TableHead>
+                <TableHead>역할</TableHead>
+                <TableHead>열람 범위</TableHead>
+                <TableHead className="text-right">작업</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map(member => {
+                const isSelf = member.userId === user?.uid;
+                return (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      {member.displayName || '-'}
+                      {isSelf && <span className="ml-2 text-xs text-muted-foreground">(나)</span>}
+                    </TableCell>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>
+                      {canManage && !isSelf && member.role !== 'guest' ? (
+                        <Select
+                          value={member.role}
+                          disabled={isSubmitting}
+                          onValueChange={(role: PortfolioRole) => firestore && run(() => updatePortfolioMemberRole(firestore, member, role), `${member.email}님의 역할을 ${portfolioRoleLabels[role]}(으)로 변경했습니다.`)}
+                        >
+                          <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {memberRoles.map(role => <SelectItem key={role} value={role}>{portfolioRoleLabels[role]}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant={member.role === 'owner' ? 'default' : member.role === 'guest' ? 'secondary' : 'outline'}>{portfolioRoleLabels[member.role]}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {member.role === 'guest' ? buildingNames(member.buildingIds) : '전체'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end">
+                        {/* Owners cannot leave, so every portfolio keeps an owner. */}
+                        {((canManage && !isSelf) || (isSelf && member.role !== 'owner')) && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="destructive" disabled={isSubmitting}>{isSelf ? '나가기' : '제외'}</Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>{isSelf ? '포트폴리오에서 나가시겠습니까?' : '구성원을 제외하시겠습니까?'}</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {isSelf
+                                    ? `${portfolio.name}의 데이터에 더 이상 접근할 수 없습니다.`
+                                    : `${member.email}님은 ${portfolio.name}의 데이터에 더 이상 접근할 수 없습니다.`}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>취소</AlertDialogCancel>
+                                <AlertDialogAction
+                                  className="bg-destructive hover:bg-destructive/90"
+                                  onClick={() => isSelf ? handleLeave(member) : firestore && run(() => removePortfolioMember(firestore, member), `${member.email}님을 제외했습니다.`)}
+                                >
+                                  {isSelf ? '나가기' : '제외'}
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {canManage && (
+            <div className="space-y-4">
+              <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="email"
+                  placeholder="초대할 사용자 이메일"
+                  value={inviteEmail}
+                  onChange={e => setInviteEmail(e.target.value)}
+                  disabled={isSubmitting}
+                  className="sm:max-w-xs"
+                />
+                <Select value={inviteRole} onValueChange={(role: PortfolioRole) => setInviteRole(role)} disabled={isSubmitting}>
+                  <SelectTrigger className="sm:w-44"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {roles.map(role => <SelectItem key={role} value={role}>{portfolioRoleLabels[role]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={isSubmitting || !inviteEmail}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  초대
+                </Button>
+              </form>
+
+              {inviteRole === 'guest' && (
+                <div className="space-y-2 rounded-md border p-4">
+                  <p className="text-sm font-medium">열람할 건물</p>
+                  <p className="text-xs text-muted-foreground">
+                    게스트는 선택한 건물의 임차인, 원장, 납부 기록과 보고서만 읽을 수 있으며 데이터를 추가하거나 수정할 수 없습니다.
+                  </p>
+                  {buildings.length > 0 ? (
+                    <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                      {buildings.map(building => (
+                        <div key={building.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`invite-building-${building.id}`}
+                            checked={inviteBuildingIds.includes(building.id)}
+                            onCheckedChange={checked => toggleInviteBuilding(building.id, checked === true)}
+                            disabled={isSubmitting}
+                          />
+                          <Label htmlFor={`invite-building-${building.id}`} className="font-normal">{building.name}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">등록된 건물이 없습니다.</p>
+                  )}
+                </div>
+              )}
+
+              {invitations.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>초대한 이메일</TableHead>
+                      <TableHead>역할</TableHead>
+                      <TableHead className="text-right">작업</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invitations.map(invitation => (
+                      <TableRow key={invitation.id}>
+                        <TableCell>{invitation.email} <Badge variant="secondary" className="ml-2">수락 대기</Badge></TableCell>
+                        <TableCell>
+                          {portfolioRoleLabels[invitation.role]}
+                          {invitation.role === 'guest' && (
+                            <span className="ml-1 text-xs text-muted-foreground">({buildingNames(invitation.buildingIds)})</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" variant="outline" disabled={isSubmitting} onClick={() => firestore && run(() => deletePortfolioInvitation(firestore, invitation), `${invitation.email}님에 대한 초대를 취소했습니다.`)}>
+                            초대 취소
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
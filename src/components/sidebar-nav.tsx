@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, Users, Building, ShieldCheck, Wallet, Settings } from 'lucide-react';
+import { Home, Users, Building, ShieldCheck, Wallet, Settings, FileText, Hourglass, ClipboardList, UserCog, DoorOpen, CalendarClock, MessageSquareText, ReceiptText, Receipt } from 'lucide-react';
 
 import { cn } from '@/lib/utils';
 import {
@@ -16,6 +16,11 @@ import {
 } from '@/components/ui/sidebar';
 import { AppLogo } from './icons';
 import { useUser } from '@/firebase';
+import { useUserProfile } from '@/hooks/use-user-profile';
+import { isAdmin } from '@/lib/roles';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { canAccessPortfolioRoute } from '@/lib/portfolio';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 const menuItems = [
   {
@@ -33,15 +38,62 @@ const menuItems = [
     icon: Users,
     label: '임차인 관리',
   },
+  {
+    href: '/renewals',
+    icon: CalendarClock,
+    label: '재계약 관리',
+  },
   {
     href: '/payments',
     icon: Wallet,
     label: '납부 기록 관리',
   },
+  {
+    href: '/reminders',
+    icon: MessageSquareText,
+    label: '미납 안내',
+  },
+  {
+    href: '/invoices',
+    icon: ReceiptText,
+    label: '청구서',
+  },
+  {
+    href: '/receipts',
+    icon: Receipt,
+    label: '영수증',
+  },
+  {
+    href: '/tax-invoices',
+    icon: FileText,
+    label: '세금계산서',
+  },
+  {
+    href: '/reports/rent-roll',
+    icon: ClipboardList,
+    label: '임대 현황',
+  },
+  {
+    href: '/reports/aging',
+    icon: Hourglass,
+    label: '연체 분석',
+  },
+  {
+    href: '/reports/vacancy',
+    icon: DoorOpen,
+    label: '공실 현황',
+  },
   {
     href: '/audit-logs',
     icon: ShieldCheck,
     label: '활동 기록',
+    adminOnly: true,
+  },
+  {
+    href: '/admin/users',
+    icon: UserCog,
+    label: '사용자 관리',
+    adminOnly: true,
   }
 ];
 
@@ -56,6 +108,8 @@ const bottomMenuItems = [
 export function AppSidebar() {
   const pathname = usePathname();
   const { user } = useUser();
+  const profile = useUserProfile();
+  const portfolioState = usePortfolio();
 
   if (!user) {
     return null; // Don't render sidebar if no user
@@ -70,10 +124,22 @@ export function AppSidebar() {
             임대료 관리
           </span>
         </Link>
+        {portfolioState && portfolioState.portfolios.length > 1 && (
+          <Select value={portfolioState.portfolio.id} onValueChange={portfolioState.switchPortfolio}>
+            <SelectTrigger className="mt-2 group-data-[collapsible=icon]:hidden" aria-label="포트폴리오 선택">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {portfolioState.portfolios.map(portfolio => (
+                <SelectItem key={portfolio.id} value={portfolio.id}>{portfolio.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </SidebarHeader>
       <SidebarContent>
         <SidebarMenu>
-          {menuItems.map((item) => (
+          {menuItems.filter(item => (!item.adminOnly || isAdmin(profile)) && canAccessPortfolioRoute(portfolioState?.membership, item.href)).map((item) => (
             <SidebarMenuItem key={item.href}>
               <Link href={item.href} passHref>
                 <SidebarMenuButton
@@ -0,0 +1,514 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useFirebase, fetchLeaseRecords } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
+import { Building, LeaseAgreement, RentAdjustment, TaxInvoice, TaxInvoiceStatus } from '@/lib/types';
+import { v4 as uuidv4 } from 'uuid';
+import { format as formatDateFns, isSameMonth, parse, startOfMonth } from 'date-fns';
+import { AlertTriangle, Download, FilePlus2, Loader2, Trash2 } from 'lucide-react';
+import * as XLSX from 'xlsx';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { downloadCsv, formatCurrency } from '@/lib/utils';
+import { toDate } from '@/lib/rent-schedule';
+import { formatBusinessNumber } from '@/lib/business-info';
+import { HOMETAX_UPLOAD_HEADERS, buildHometaxRows, buildTaxInvoiceDrafts, getMissingBusinessInfo, taxInvoiceStatusLabels } from '@/lib/tax-invoice';
+import { saveTaxInvoices, deleteTaxInvoice } from '@/firebase/non-blocking-updates';
+
+const statusVariants: Record<TaxInvoiceStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  draft: 'outline',
+  issued: 'default',
+  amended: 'secondary',
+  cancelled: 'destructive',
+};
+
+const parseAmount = (value: string) => Number(value.replace(/,/g, '')) || 0;
+
+function IssueTaxInvoiceDialog({ invoice, onSave }: { invoice: TaxInvoice, onSave: () => void }) {
+  const { firestore } = useFirebase();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [approvalNumber, setApprovalNumber] = useState('');
+  const [issueDateText, setIssueDateText] = useState(formatDateFns(toDate(invoice.issueDate), 'yyyy-MM-dd'));
+
+  const handleSubmit = async () => {
+    if (!firestore) return;
+    const issueDate = parse(issueDateText, 'yyyy-MM-dd', new Date());
+    if (isNaN(issueDate.getTime())) {
+      toast({ variant: 'destructive', title: '작성일자 오류', description: '올바른 작성일자를 입력해주세요.' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await saveTaxInvoices(firestore, [{
+        ...invoice,
+        status: 'issued',
+        issueDate: Timestamp.fromDate(issueDate),
+        approvalNumber: approvalNumber.trim(),
+      }]);
+      toast({ title: '발급 처리됨', description: `${invoice.tenantName}의 세금계산서가 발급 완료로 기록되었습니다.` });
+      onSave();
+      setIsOpen(false);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '발급 정보를 저장하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">발급 처리</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>발급 처리</DialogTitle>
+          <DialogDescription>홈택스에서 발급한 세금계산서의 승인번호와 작성일자를 기록합니다.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="approvalNumber">승인번호</Label>
+            <Input id="approvalNumber" placeholder="예: 20240131-41000000-00000000" value={approvalNumber} onChange={(e) => setApprovalNumber(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="issueDate">작성일자</Label>
+            <Input id="issueDate" type="date" value={issueDateText} onChange={(e) => setIssueDateText(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            저장
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AmendTaxInvoiceDialog({ invoice, onSave }: { invoice: TaxInvoice, onSave: () => void }) {
+  const { firestore } = useFirebase();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [supplyValueText, setSupplyValueText] = useState(String(invoice.supplyValue));
+  const [vatText, setVatText] = useState(String(invoice.vat));
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = async () => {
+    if (!firestore) return;
+    if (!reason.trim()) {
+      toast({ variant: 'destructive', title: '수정 사유 필요', description: '수정 사유를 입력해주세요.' });
+      return;
+    }
+
+    const supplyValue = parseAmount(supplyValueText);
+    const vat = parseAmount(vatText);
+
+    setIsSubmitting(true);
+    try {
+      await saveTaxInvoices(firestore, [
+        { ...invoice, status: 'amended' },
+        {
+          ...invoice,
+          id: uuidv4(),
+          issueDate: Timestamp.fromDate(new Date()),
+          supplyValue,
+          vat,
+          total: supplyValue + vat,
+          status: 'draft',
+          approvalNumber: '',
+          originalInvoiceId: invoice.id,
+          notes: `수정발급 (${reason.trim()}${invoice.approvalNumber ? `, 당초 승인번호 ${invoice.approvalNumber}` : ''})`,
+        },
+      ]);
+      toast({ title: '수정발급 등록됨', description: '수정 세금계산서가 발급 대기로 등록되었습니다.' });
+      onSave();
+      setIsOpen(false);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '수정 세금계산서를 등록하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">수정발급</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>수정 세금계산서</DialogTitle>
+          <DialogDescription>
+            당초 세금계산서는 '수정발급됨'으로 바뀌고, 수정된 금액으로 새 세금계산서가 발급 대기로 등록됩니다.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplyValue">공급가액</Label>
+              <Input id="supplyValue" inputMode="numeric" value={supplyValueText} onChange={(e) => setSupplyValueText(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vat">세액</Label>
+              <Input id="vat" inputMode="numeric" value={vatText} onChange={(e) => setVatText(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reason">수정 사유</Label>
+            <Input id="reason" placeholder="예: 공급가액 변동" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            등록
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function TaxInvoices() {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [leases, setLeases] = useState<LeaseAgreement[]>([]);
+  const [adjustmentsByLease, setAdjustmentsByLease] = useState<Map<string, RentAdjustment[]>>(new Map());
+  const [invoices, setInvoices] = useState<TaxInvoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+  const [monthText, setMonthText] = useState(formatDateFns(new Date(), 'yyyy-MM'));
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !portfolioId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [buildingsSnapshot, leasesSnapshot, invoicesSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'buildings'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId))),
+          getDocs(query(collection(firestore, 'taxInvoices'), where('portfolioId', '==', portfolioId))),
+        ]);
+
+        const leasesData = leasesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as LeaseAgreement);
+        const { adjustmentsByLease } = await fetchLeaseRecords(firestore, portfolioId, leasesData.map(l => l.id));
+
+        setBuildings(buildingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Building));
+        setLeases(leasesData);
+        setAdjustmentsByLease(adjustmentsByLease);
+        setInvoices(invoicesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as TaxInvoice));
+      } catch (e: any) {
+        console.error('Failed to load tax invoices:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, portfolioId, triggerFetch]);
+
+  const month = useMemo(() => {
+    const parsed = parse(monthText, 'yyyy-MM', new Date());
+    return isNaN(parsed.getTime()) ? null : startOfMonth(parsed);
+  }, [monthText]);
+
+  const monthInvoices = useMemo(() => {
+    if (!month) return [];
+    return invoices
+      .filter(invoice => isSameMonth(toDate(invoice.billingMonth), month))
+      .sort((a, b) => a.tenantName.localeCompare(b.tenantName, 'ko') || toDate(a.issueDate).getTime() - toDate(b.issueDate).getTime());
+  }, [invoices, month]);
+
+  const pendingDrafts = useMemo(
+    () => month ? buildTaxInvoiceDrafts(leases, adjustmentsByLease, invoices, month) : [],
+    [leases, adjustmentsByLease, invoices, month]
+  );
+
+  // Amended invoices need the 수정세금계산서 form on Hometax, so only original drafts go into the bulk file.
+  const exportableInvoices = monthInvoices.filter(invoice => invoice.status === 'draft' && !invoice.originalInvoiceId);
+
+  const missingInfo = useMemo(() => {
+    const leaseIds = new Set(monthInvoices.filter(i => i.status === 'draft').map(i => i.leaseAgreementId));
+    return leases
+      .filter(lease => leaseIds.has(lease.id))
+      .map(lease => ({ lease, missing: getMissingBusinessInfo(lease, buildings.find(b => b.id === lease.buildingId)) }))
+      .filter(item => item.missing.length > 0);
+  }, [monthInvoices, leases, buildings]);
+
+  const handleGenerate = async () => {
+    if (!firestore || !user || !portfolioId || !month) return;
+    if (pendingDrafts.length === 0) {
+      toast({ title: '생성할 세금계산서 없음', description: '해당 월에 새로 발급할 부가세 과세 임대료가 없습니다.' });
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      await saveTaxInvoices(firestore, pendingDrafts.map(draft => ({
+        ...draft,
+        id: uuidv4(),
+        portfolioId,
+        billingMonth: Timestamp.fromDate(toDate(draft.billingMonth)),
+        issueDate: Timestamp.fromDate(toDate(draft.issueDate)),
+        notes: draft.notes || '',
+      })));
+      toast({ title: '세금계산서 생성됨', description: `${pendingDrafts.length}건의 세금계산서가 발급 대기로 등록되었습니다.` });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '생성 실패', description: '세금계산서를 생성하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCancel = async (invoice: TaxInvoice) => {
+    if (!firestore) return;
+    try {
+      await saveTaxInvoices(firestore, [{ ...invoice, status: 'cancelled' }]);
+      toast({ title: '발급 취소됨', description: `${invoice.tenantName}의 세금계산서가 취소로 기록되었습니다.` });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '취소 실패', description: '세금계산서를 취소하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  const handleDelete = async (invoice: TaxInvoice) => {
+    if (!firestore) return;
+    try {
+      await deleteTaxInvoice(firestore, invoice.id);
+      toast({ title: '세금계산서 삭제됨', description: '발급 대기 중인 세금계산서가 삭제되었습니다.' });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '삭제 실패', description: '세금계산서를 삭제하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  const handleExport = (type: 'xlsx' | 'csv') => {
+    if (!month || exportableInvoices.length === 0) {
+      toast({ variant: 'destructive', title: '내보낼 세금계산서 없음', description: '발급 대기 중인 세금계산서가 없습니다.' });
+      return;
+    }
+
+    const rows = [HOMETAX_UPLOAD_HEADERS, ...buildHometaxRows(exportableInvoices, leases, buildings)];
+    const fileName = `세금계산서_일괄발급_${formatDateFns(month, 'yyyyMM')}`;
+
+    if (type === 'csv') {
+      downloadCsv(rows, `${fileName}.csv`);
+      return;
+    }
+
+    const ws = XLSX.utils.aoa_to_sheet(rows);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "엑셀업로드양식");
+    XLSX.writeFile(wb, `${fileName}.xlsx`);
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const buildingNameById = new Map(buildings.map(b => [b.id, b.name]));
+  const monthTotals = monthInvoices
+    .filter(invoice => invoice.status === 'draft' || invoice.status === 'issued')
+    .reduce((acc, invoice) => ({ supplyValue: acc.supplyValue + invoice.supplyValue, vat: acc.vat + invoice.vat }), { supplyValue: 0, vat: 0 });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">세금계산서</CardTitle>
+        <CardDescription>
+          부가세가 있는 계약의 월 임대료로 세금계산서를 만들고, 홈택스 일괄발급 양식으로 내려받아 발급한 뒤 승인번호를 기록하세요.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="invoiceMonth">대상 월</Label>
+            <Input id="invoiceMonth" type="month" className="w-[180px]" value={monthText} onChange={(e) => setMonthText(e.target.value)} />
+          </div>
+          <Button onClick={handleGenerate} disabled={isGenerating || !month}>
+            {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FilePlus2 className="mr-2 h-4 w-4" />}
+            세금계산서 생성{pendingDrafts.length > 0 ? ` (${pendingDrafts.length}건)` : ''}
+          </Button>
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={exportableInvoices.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Excel
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('csv')} disabled={exportableInvoices.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+        </div>
+
+        {missingInfo.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>사업자 정보 확인 필요</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {missingInfo.map(({ lease, missing }) => (
+                  <li key={lease.id}>{lease.tenantName}: {missing.join(', ')}</li>
+                ))}
+              </ul>
+              공급자 정보는 건물 수정 화면에서, 공급받는자 정보는 계약 수정 화면에서 입력하세요.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>임차인</TableHead>
+              <TableHead>건물</TableHead>
+              <TableHead>작성일자</TableHead>
+              <TableHead>품목</TableHead>
+              <TableHead className="text-right">공급가액</TableHead>
+              <TableHead className="text-right">세액</TableHead>
+              <TableHead className="text-right">합계</TableHead>
+              <TableHead>상태</TableHead>
+              <TableHead>승인번호</TableHead>
+              <TableHead className="text-right">작업</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {monthInvoices.length > 0 ? monthInvoices.map(invoice => {
+              const lease = leases.find(l => l.id === invoice.leaseAgreementId);
+              const buyerNumber = lease?.tenantBusinessInfo?.registrationNumber;
+              return (
+                <TableRow key={invoice.id}>
+                  <TableCell>
+                    <div>{invoice.tenantName}</div>
+                    {buyerNumber && <div className="text-xs text-muted-foreground">{formatBusinessNumber(buyerNumber)}</div>}
+                  </TableCell>
+                  <TableCell>{buildingNameById.get(invoice.buildingId) || '-'}</TableCell>
+                  <TableCell>{formatDateFns(toDate(invoice.issueDate), 'yyyy-MM-dd')}</TableCell>
+                  <TableCell>
+                    <div>{invoice.itemName}</div>
+                    {invoice.notes && <div className="text-xs text-muted-foreground">{invoice.notes}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(invoice.supplyValue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(invoice.vat)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(invoice.total)}</TableCell>
+                  <TableCell><Badge variant={statusVariants[invoice.status]}>{taxInvoiceStatusLabels[invoice.status]}</Badge></TableCell>
+                  <TableCell className="text-xs">{invoice.approvalNumber || '-'}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      {invoice.status === 'draft' && (
+                        <>
+                          <IssueTaxInvoiceDialog invoice={invoice} onSave={() => setTriggerFetch(v => v + 1)} />
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8">
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>정말 삭제하시겠습니까?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  발급 대기 중인 세금계산서를 삭제합니다. 삭제 후 다시 생성할 수 있습니다.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>취소</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(invoice)} className="bg-destructive hover:bg-destructive/90">삭제</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </>
+                      )}
+                      {invoice.status === 'issued' && (
+                        <>
+                          <AmendTaxInvoiceDialog invoice={invoice} onSave={() => setTriggerFetch(v => v + 1)} />
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm">발급 취소</Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>발급을 취소하시겠습니까?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  홈택스에서 취소 처리한 세금계산서만 취소로 기록하세요. 취소된 월은 세금계산서를 다시 생성할 수 있습니다.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>닫기</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleCancel(invoice)} className="bg-destructive hover:bg-destructive/90">발급 취소</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            }) : (
+              <TableRow>
+                <TableCell colSpan={10} className="h-24 text-center">해당 월의 세금계산서가 없습니다.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {monthInvoices.length > 0 && (
+          <div className="flex justify-end gap-6 text-sm">
+            <span>공급가액 합계 <strong>{formatCurrency(monthTotals.supplyValue)}</strong></span>
+            <span>세액 합계 <strong>{formatCurrency(monthTotals.vat)}</strong></span>
+          </div>
+        )}
+
+        {monthInvoices.some(invoice => invoice.status === 'draft' && invoice.originalInvoiceId) && (
+          <p className="text-sm text-muted-foreground">
+            수정발급 대기 건은 일괄발급 파일에 포함되지 않습니다. 홈택스의 수정세금계산서 발급 메뉴에서 개별 발급한 뒤 승인번호를 기록하세요.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
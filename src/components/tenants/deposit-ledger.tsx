@@ -0,0 +1,534 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useFirebase, errorEmitter, FirestorePermissionError } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { canEditPortfolioData } from '@/lib/portfolio';
+import { doc, collection, query, where, getDocs, getDoc, Timestamp } from 'firebase/firestore';
+import { Building, DepositTransaction, DepositTransactionType, LeaseAgreement, MaintenanceFee, MeterReading, Payment, RentAdjustment } from '@/lib/types';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { format as formatDateFns, startOfDay } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { AlertTriangle, CalendarIcon, Loader2, PlusCircle, Printer, Trash2, ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Badge } from '../ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { Calendar } from '../ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatCurrency, formatDate, getLeaseDetails } from '@/lib/utils';
+import { calculateLeaseBalance, toDate } from '@/lib/rent-schedule';
+import { calculateLeaseFees } from '@/lib/utility-billing';
+import { deductionTypes, depositTransactionTypeLabels, summarizeDeposit } from '@/lib/deposit';
+import { saveDepositTransaction, deleteDepositTransaction } from '@/firebase/non-blocking-updates';
+
+const transactionFormSchema = z.object({
+  type: z.enum(['receipt', 'return', 'rent_offset', 'repair', 'restoration', 'other_deduction']),
+  transactionDate: z.date({ required_error: '일자를 선택해주세요.' }),
+  amount: z.preprocess(
+    (val) => (typeof val === 'string' ? val.replace(/,/g, '') : val),
+    z.coerce.number().min(1, { message: '금액을 1원 이상 입력해주세요.' })
+  ),
+  notes: z.string().optional(),
+});
+
+type TransactionFormValues = z.infer<typeof transactionFormSchema>;
+
+function DepositTransactionDialog({
+  lease,
+  triggerButton,
+  defaultValues,
+  onSave,
+}: {
+  lease: LeaseAgreement;
+  triggerButton: React.ReactNode;
+  defaultValues: Partial<TransactionFormValues>;
+  onSave: () => void;
+}) {
+  const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<TransactionFormValues>({
+    resolver: zodResolver(transactionFormSchema),
+    defaultValues: { type: 'receipt', transactionDate: new Date(), amount: 0, notes: '', ...defaultValues },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({ type: 'receipt', transactionDate: new Date(), amount: 0, notes: '', ...defaultValues });
+    }
+  }, [form, defaultValues, isOpen]);
+
+  const onSubmit = async (data: TransactionFormValues) => {
+    if (!firestore || !user || !portfolioId) return;
+    setIsSubmitting(true);
+
+    const transactionId = uuidv4();
+    const transactionDate = startOfDay(data.transactionDate);
+    const paymentId = data.type === 'rent_offset' ? uuidv4() : undefined;
+
+    const transaction: DepositTransaction = {
+      id: transactionId,
+      portfolioId,
+      leaseAgreementId: lease.id,
+      buildingId: lease.buildingId,
+      transactionDate: Timestamp.fromDate(transactionDate),
+      type: data.type,
+      amount: data.amount,
+      notes: data.notes || '',
+      ...(paymentId ? { paymentId } : {}),
+    };
+
+    const offsetPayment: Payment | undefined = paymentId ? {
+      id: paymentId,
+      portfolioId,
+      leaseAgreementId: lease.id,
+      buildingId: lease.buildingId,
+      paymentDate: Timestamp.fromDate(transactionDate),
+      paymentAmount: data.amount,
+      depositTransactionId: transactionId,
+    } : undefined;
+
+    try {
+      await saveDepositTransaction(firestore, transaction, offsetPayment);
+      toast({ title: '보증금 내역 저장됨', description: `${depositTransactionTypeLabels[data.type]} ${formatCurrency(data.amount)}이(가) 기록되었습니다.` });
+      onSave();
+      setIsOpen(false);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '보증금 내역을 저장하는 중 오류가 발생했습니다.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{triggerButton}</DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>보증금 내역 추가</DialogTitle>
+          <DialogDescription>보증금 수령, 반환 또는 공제 내역을 기록합니다. 미납 임대료 공제는 원장에 납부로도 반영됩니다.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <Label>구분</Label>
+            <Controller
+              name="type"
+              control={form.control}
+              render={({ field }) => (
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(depositTransactionTypeLabels) as DepositTransactionType[]).map(type => (
+                      <SelectItem key={type} value={type}>{depositTransactionTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+          <Controller
+            control={form.control}
+            name="transactionDate"
+            render={({ field }) => (
+              <div className="space-y-2">
+                <Label>일자</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn("w-full justify-start text-left font-normal", !field.value && "text-muted-foreground")}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {field.value ? formatDateFns(field.value, "yyyy년 M월 d일", { locale: ko }) : <span>날짜 선택</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={field.value}
+                      onSelect={field.onChange}
+                      captionLayout="dropdown-buttons"
+                      fromYear={2010}
+                      toYear={new Date().getFullYear() + 1}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                {form.formState.errors.transactionDate && <p className="text-sm font-medium text-destructive">{form.formState.errors.transactionDate.message}</p>}
+              </div>
+            )}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="depositAmount">금액 (원)</Label>
+            <Controller
+              name="amount"
+              control={form.control}
+              render={({ field }) => (
+                <Input
+                  id="depositAmount"
+                  type="text"
+                  value={new Intl.NumberFormat('ko-KR').format(field.value || 0)}
+                  onChange={(e) => {
+                    const rawValue = e.target.value.replace(/,/g, '');
+                    if (/^\d*$/.test(rawValue)) {
+                      field.onChange(Number(rawValue));
+                    }
+                  }}
+                />
+              )}
+            />
+            {form.formState.errors.amount && <p className="text-sm font-medium text-destructive">{form.formState.errors.amount.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="depositNotes">비고</Label>
+            <Textarea id="depositNotes" {...form.register('notes')} />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              저장
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function DepositLedger({ tenantId }: { tenantId: string }) {
+  const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const portfolioId = membership?.portfolioId;
+  // Guests read the settlement without recording or deleting transactions.
+  const canEdit = canEditPortfolioData(membership);
+  const { toast } = useToast();
+  const [lease, setLease] = useState<LeaseAgreement | null>(null);
+  const [building, setBuilding] = useState<Building | null>(null);
+  const [transactions, setTransactions] = useState<DepositTransaction[]>([]);
+  const [rentBalance, setRentBalance] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [triggerFetch, setTriggerFetch] = useState(0);
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!firestore || !user || !membership || !tenantId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const leaseDocRef = doc(firestore, 'leaseAgreements', tenantId);
+        const leaseSnapshot = await getDoc(leaseDocRef);
+
+        if (!leaseSnapshot.exists()) {
+          throw new Error("임대 계약 정보를 찾을 수 없습니다.");
+        }
+
+        if (leaseSnapshot.data()?.portfolioId !== portfolioId) {
+          const permissionError = new FirestorePermissionError({
+            path: leaseDocRef.path,
+            operation: 'get',
+          });
+          errorEmitter.emit('permission-error', permissionError);
+          throw permissionError;
+        }
+
+        const fetchedLease = { id: leaseSnapshot.id, ...leaseSnapshot.data() } as LeaseAgreement;
+        setLease(fetchedLease);
+
+        const buildingSnapshot = await getDoc(doc(firestore, 'buildings', fetchedLease.buildingId));
+        const fetchedBuilding = buildingSnapshot.exists() ? { id: buildingSnapshot.id, ...buildingSnapshot.data() } as Building : null;
+        setBuilding(fetchedBuilding);
+
+        const [transactionsSnapshot, paymentsSnapshot, adjustmentsSnapshot, feesSnapshot, readingsSnapshot] = await Promise.all([
+          getDocs(query(collection(firestore, 'depositTransactions'), ...portfolioScope(membership), where('leaseAgreementId', '==', tenantId))),
+          getDocs(query(collection(firestore, 'payments'), ...portfolioScope(membership), where('leaseAgreementId', '==', tenantId))),
+          getDocs(query(collection(firestore, 'rentAdjustments'), ...portfolioScope(membership), where('leaseAgreementId', '==', tenantId))),
+          getDocs(query(collection(firestore, 'maintenanceFees'), where('portfolioId', '==', portfolioId), where('buildingId', '==', fetchedLease.buildingId))),
+          getDocs(query(collection(firestore, 'meterReadings'), where('portfolioId', '==', portfolioId), where('buildingId', '==', fetchedLease.buildingId))),
+        ]);
+
+        const fetchedTransactions = transactionsSnapshot.docs
+          .map(doc => ({ id: doc.id, ...doc.data() }) as DepositTransaction)
+          .sort((a, b) => toDate(a.transactionDate).getTime() - toDate(b.transactionDate).getTime());
+        const payments = paymentsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Payment);
+        const adjustments = adjustmentsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as RentAdjustment);
+        const maintenanceFees = calculateLeaseFees(
+          fetchedLease,
+          fetchedBuilding,
+          feesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as MaintenanceFee),
+          readingsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as MeterReading)
+        );
+
+        setTransactions(fetchedTransactions);
+        setRentBalance(calculateLeaseBalance(fetchedLease, adjustments, payments, new Date(), maintenanceFees).balance);
+      } catch (e: any) {
+        console.error('Failed to build deposit ledger:', e);
+        setError(e.message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [firestore, user, membership, tenantId, triggerFetch]);
+
+  const unitNames = useMemo(() => {
+    if (!lease || !building) return [];
+    return (lease.unitIds || []).map(unitId => building.units?.find(u => u.id === unitId)?.name || unitId);
+  }, [lease, building]);
+
+  const summary = useMemo(() => lease ? summarizeDeposit(lease, transactions) : null, [lease, transactions]);
+
+  const handleDelete = async (transaction: DepositTransaction) => {
+    if (!firestore) return;
+    try {
+      await deleteDepositTransaction(firestore, transaction);
+      toast({ title: '보증금 내역 삭제됨', description: '선택한 보증금 내역이 삭제되었습니다.' });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error(error);
+      toast({ variant: 'destructive', title: '삭제 실패', description: '보증금 내역을 삭제하는 중 오류가 발생했습니다.' });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  if (error || !lease || !summary) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>오류</AlertTitle>
+        <AlertDescription className="whitespace-pre-wrap">
+          {error || '임대 계약 정보를 불러올 수 없습니다.'}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { leaseEndDate } = getLeaseDetails(lease);
+  const unpaidRent = Math.max(0, rentBalance);
+  const finalRefund = summary.heldAmount - unpaidRent;
+  const deductions = transactions.filter(t => deductionTypes.includes(t.type));
+  const refreshAfterSave = () => setTriggerFetch(v => v + 1);
+
+  return (
+    <div className="space-y-6" id="tenant-ledger-printable">
+      <div className="flex justify-between items-center no-print">
+        <Button asChild variant="outline" size="sm">
+          <Link href={`/tenants/${tenantId}`}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            원장으로 돌아가기
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          {canEdit && (
+            <DepositTransactionDialog
+              lease={lease}
+              defaultValues={{ type: 'receipt', amount: summary.shortfall }}
+              onSave={refreshAfterSave}
+              triggerButton={
+                <Button variant="outline" size="sm">
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  내역 추가
+                </Button>
+              }
+            />
+          )}
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            정산서 인쇄
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4 no-print">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>계약상 보증금</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(summary.agreedAmount)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>보관 중인 보증금</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(summary.heldAmount)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>미수령 보증금</CardDescription>
+            <CardTitle className={cn("text-2xl", summary.shortfall > 0 && "text-destructive")}>{formatCurrency(summary.shortfall)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>원장 미납 잔액</CardDescription>
+            <CardTitle className={cn("text-2xl", unpaidRent > 0 && "text-destructive")}>{formatCurrency(unpaidRent)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card className="no-print">
+        <CardHeader>
+          <CardTitle className="text-xl">보증금 내역</CardTitle>
+          <CardDescription>보증금의 수령, 재계약에 따른 증감, 공제 및 반환 내역입니다.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>일자</TableHead>
+                <TableHead>구분</TableHead>
+                <TableHead className="text-right">금액</TableHead>
+                <TableHead>비고</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.length > 0 ? transactions.map(t => (
+                <TableRow key={t.id}>
+                  <TableCell>{formatDate(t.transactionDate)}</TableCell>
+                  <TableCell>
+                    <Badge variant={t.type === 'receipt' ? 'default' : t.type === 'return' ? 'secondary' : 'destructive'}>
+                      {depositTransactionTypeLabels[t.type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(t.amount)}</TableCell>
+                  <TableCell className="text-xs">{t.notes}</TableCell>
+                  <TableCell>
+                    {canEdit && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-6 w-6">
+                            <Trash2 className="h-3 w-3 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>정말 삭제하시겠습니까?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              이 보증금 내역을 삭제합니다. 미납 임대료 공제 내역이면 원장에 반영된 납부 기록도 함께 삭제됩니다.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>취소</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(t)} className="bg-destructive hover:bg-destructive/90">삭제</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">기록된 보증금 내역이 없습니다.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="print-only-card">
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="text-xl">보증금 정산서</CardTitle>
+            <CardDescription>퇴거 시 보증금 반환 예정액을 계산합니다. ({formatDate(new Date())} 기준)</CardDescription>
+          </div>
+          {unpaidRent > 0 && canEdit && (
+            <DepositTransactionDialog
+              lease={lease}
+              defaultValues={{ type: 'rent_offset', amount: unpaidRent, notes: '미납 임대료 보증금 공제' }}
+              onSave={refreshAfterSave}
+              triggerButton={
+                <Button size="sm" className="no-print">미납액 공제 등록</Button>
+              }
+            />
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="font-semibold text-muted-foreground">임차인</p>
+              <p>{lease.tenantName}</p>
+            </div>
+            <div>
+              <p className="font-semibold text-muted-foreground">건물 및 호수</p>
+              <p>{lease.buildingName} {unitNames.join(', ')}</p>
+            </div>
+            <div>
+              <p className="font-semibold text-muted-foreground">계약 기간</p>
+              <p>{formatDate(lease.leaseStartDate)} ~ {formatDate(leaseEndDate)}</p>
+            </div>
+          </div>
+          <Table>
+            <TableBody>
+              <TableRow>
+                <TableCell>수령 보증금</TableCell>
+                <TableCell className="text-right">{formatCurrency(summary.receivedAmount)}</TableCell>
+              </TableRow>
+              {summary.returnedAmount > 0 && (
+                <TableRow>
+                  <TableCell>기 반환액</TableCell>
+                  <TableCell className="text-right">- {formatCurrency(summary.returnedAmount)}</TableCell>
+                </TableRow>
+              )}
+              {deductions.map(t => (
+                <TableRow key={t.id}>
+                  <TableCell>
+                    {depositTransactionTypeLabels[t.type]}
+                    {t.notes && <span className="text-xs text-muted-foreground"> ({t.notes})</span>}
+                  </TableCell>
+                  <TableCell className="text-right">- {formatCurrency(t.amount)}</TableCell>
+                </TableRow>
+              ))}
+              {unpaidRent > 0 && (
+                <TableRow>
+                  <TableCell>미공제 미납 임대료 (원장 기준)</TableCell>
+                  <TableCell className="text-right text-destructive">- {formatCurrency(unpaidRent)}</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-bold">{finalRefund >= 0 ? '반환 예정액' : '추가 청구액'}</TableCell>
+                <TableCell className={cn("text-right font-bold", finalRefund < 0 && "text-destructive")}>
+                  {formatCurrency(Math.abs(finalRefund))}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui
 import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { useFirebase } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
 import { Building, LeaseAgreement } from '@/lib/types';
 import { collection, query, where, serverTimestamp, doc, Timestamp, getDocs, getDoc } from 'firebase/firestore';
 import { v4 as uuidv4 } from 'uuid';
@@ -36,6 +37,9 @@ import { addDocumentNonBlocking, updateDocumentNonBlocking, deleteLeaseAgreement
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
 import { Calendar } from '../ui/calendar';
+import { BusinessInfoFields } from '../business-info-fields';
+import { businessInfoSchema, emptyBusinessInfo } from '@/lib/business-info';
+import { findUnitConflicts } from '@/lib/occupancy';
 
 
 const renewalSchema = z.object({
@@ -46,6 +50,10 @@ const renewalSchema = z.object({
     z.coerce.number().min(0, { message: '새 임대료를 입력해주세요.' })
   ),
   newLeaseEndDate: z.date({ required_error: '새 계약 종료일을 선택해주세요.'}),
+  newDepositAmount: z.preprocess(
+    (val) => (typeof val === 'string' ? String(val).replace(/,/g, '') : val),
+    z.coerce.number().min(0).optional()
+  ),
 });
 
 const formSchema = z.object({
@@ -69,6 +77,14 @@ const formSchema = z.object({
   leaseEndDate: z.date({ required_error: '계약 종료일을 선택해주세요.'}),
   rentFreePeriod: z.coerce.number().min(0).optional().default(0),
   rentFreeUnit: z.enum(['days', 'months']).optional().default('months'),
+  lateInterestRate: z.coerce.number().min(0, { message: '연체이자율은 0 이상이어야 합니다.' }).max(100, { message: '연체이자율은 100% 이하여야 합니다.' }).optional().default(0),
+  lateInterestGraceDays: z.coerce.number().int().min(0, { message: '유예 일수는 0 이상이어야 합니다.' }).optional().default(0),
+  maintenanceFeeMethod: z.enum(['area', 'fixed', 'none']).default('area'),
+  maintenanceFeeAmount: z.preprocess(
+    (val) => (typeof val === 'string' ? String(val).replace(/,/g, '') : val),
+    z.coerce.number().min(0, { message: '관리비는 0 이상이어야 합니다.' }).optional().default(0)
+  ),
+  tenantBusinessInfo: businessInfoSchema,
   paymentMethod: z.string({
     required_error: '결제 방식을 선택해주세요.',
   }),
@@ -87,6 +103,7 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
   const { toast } = useToast();
   const router = useRouter();
   const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
   const isEditMode = !!leaseId;
   
   const [buildings, setBuildings] = useState<Building[]>([]);
@@ -106,6 +123,11 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
       vatTreatment: 'none',
       rentFreePeriod: 0,
       rentFreeUnit: 'months',
+      lateInterestRate: 0,
+      lateInterestGraceDays: 0,
+      maintenanceFeeMethod: 'area',
+      maintenanceFeeAmount: 0,
+      tenantBusinessInfo: emptyBusinessInfo,
       rentCalculationMethod: 'contract_date',
       renewals: [],
     },
@@ -128,11 +150,11 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
 
   useEffect(() => {
     async function fetchData() {
-        if (!firestore || !user) return;
+        if (!firestore || !user || !portfolioId) return;
         setIsLoading(true);
         
         try {
-            const buildingsQuery = query(collection(firestore, 'buildings'), where('ownerId', '==', user.uid));
+            const buildingsQuery = query(collection(firestore, 'buildings'), where('portfolioId', '==', portfolioId));
             const buildingsSnapshot = await getDocs(buildingsQuery);
             const buildingsData = buildingsSnapshot.docs.map(doc => ({id: doc.id, ...doc.data()}) as Building);
             setBuildings(buildingsData);
@@ -153,6 +175,11 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
                         unitIds: existingLease.unitIds || [],
                         paymentMethod: existingLease.paymentMethod,
                         rentCalculationMethod: existingLease.rentCalculationMethod || 'contract_date',
+                        lateInterestRate: existingLease.lateInterestRate || 0,
+                        lateInterestGraceDays: existingLease.lateInterestGraceDays || 0,
+                        maintenanceFeeMethod: existingLease.maintenanceFeeMethod || 'area',
+                        maintenanceFeeAmount: existingLease.maintenanceFeeAmount || 0,
+                        tenantBusinessInfo: { ...emptyBusinessInfo, ...existingLease.tenantBusinessInfo },
                         renewals: (existingLease.renewals || []).map((r: any) => ({
                             ...r,
                             id: uuidv4(), // The ID is only for react-hook-form key, not stored in DB
@@ -176,10 +203,10 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
         }
     }
     fetchData();
-  }, [firestore, user, isEditMode, leaseId, form, toast]);
+  }, [firestore, user, portfolioId, isEditMode, leaseId, form, toast]);
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
-    if (!firestore || !user || !buildings) {
+    if (!firestore || !user || !portfolioId || !buildings) {
       toast({
         variant: 'destructive',
         title: '오류',
@@ -201,9 +228,34 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
     }
 
     try {
+        // 같은 호실을 기간이 겹치는 다른 계약이 이미 사용 중이면 저장하지 않음 (재계약 연장 기간 포함)
+        const buildingLeasesSnapshot = await getDocs(query(
+            collection(firestore, 'leaseAgreements'),
+            where('portfolioId', '==', portfolioId),
+            where('buildingId', '==', values.buildingId)
+        ));
+        const conflicts = findUnitConflicts(
+            { ...values, id: isEditMode ? leaseId : undefined },
+            buildingLeasesSnapshot.docs.map(d => ({ ...d.data(), id: d.id } as LeaseAgreement))
+        );
+        if (conflicts.length > 0) {
+            const unitName = (unitId: string) => selectedBuildingOnSubmit.units?.find(u => u.id === unitId)?.name || unitId;
+            const first = conflicts[0];
+            form.setError('unitIds', {
+                type: 'manual',
+                message: `이미 다른 계약이 사용 중인 호실입니다: ${Array.from(new Set(conflicts.map(c => unitName(c.unitId)))).join(', ')}`,
+            });
+            toast({
+                variant: 'destructive',
+                title: '호실 중복 계약',
+                description: `${unitName(first.unitId)} 호실은 ${first.lease.tenantName} 님이 ${formatDateFns(first.overlapStart, 'yyyy-MM-dd')} ~ ${formatDateFns(first.overlapEnd, 'yyyy-MM-dd')} 기간에 사용 중입니다.${conflicts.length > 1 ? ` 외 ${conflicts.length - 1}건` : ''}`,
+            });
+            return;
+        }
+
         const finalData = {
             ...values,
-            ownerId: user.uid,
+            portfolioId,
             buildingName: selectedBuildingOnSubmit.name,
             leaseStartDate: Timestamp.fromDate(values.leaseStartDate),
             leaseEndDate: Timestamp.fromDate(values.leaseEndDate),
@@ -211,7 +263,8 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
             renewals: (values.renewals || []).map(r => ({ 
                 renewalDate: Timestamp.fromDate(r.renewalDate),
                 newRentAmount: r.newRentAmount,
-                newLeaseEndDate: Timestamp.fromDate(r.newLeaseEndDate)
+                newLeaseEndDate: Timestamp.fromDate(r.newLeaseEndDate),
+                ...(r.newDepositAmount ? { newDepositAmount: r.newDepositAmount } : {}),
             }))
         };
 
@@ -636,7 +689,90 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
                 첫 계약 시 렌트프리 기간을 입력하세요.
               </FormDescription>
             </FormItem>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="lateInterestRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>연체이자율 (연 %)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.1" min={0} placeholder="0" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      0이면 연체이자를 계산하지 않습니다.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="lateInterestGraceDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>연체이자 유예 기간 (일)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} placeholder="0" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      납부 기한 이후 이 기간이 지나면 연체이자가 가산됩니다.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             
+            <div className="grid md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="maintenanceFeeMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>관리비 부과 방식</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="area">면적 비율 배분 (건물 관리비)</SelectItem>
+                        <SelectItem value="fixed">월 고정 금액</SelectItem>
+                        <SelectItem value="none">부과 안 함</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      면적 비율 배분은 건물의 월 관리비를 호실 면적 비율로 나눕니다.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.watch('maintenanceFeeMethod') === 'fixed' && (
+                <FormField
+                  control={form.control}
+                  name="maintenanceFeeAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>월 관리비</FormLabel>
+                      <FormControl>
+                        <Input type="text" placeholder="100,000" value={new Intl.NumberFormat('ko-KR').format(field.value || 0)}
+                          onChange={(e) => {
+                              const rawValue = e.target.value.replace(/,/g, '');
+                              if (/^\d*$/.test(rawValue)) field.onChange(Number(rawValue));
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
             <FormField
               control={form.control}
               name="vatTreatment"
@@ -674,6 +810,16 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
               )}
             />
 
+            {form.watch('vatTreatment') !== 'none' && (
+              <div>
+                <h3 className="text-sm font-medium">임차인 사업자 정보</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  세금계산서 발급 시 공급받는자 정보로 사용됩니다.
+                </p>
+                <BusinessInfoFields name="tenantBusinessInfo" />
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="paymentMethod"
@@ -803,6 +949,25 @@ export function NewTenantForm({ leaseId }: NewTenantFormProps) {
                           </FormItem>
                         )}
                       />
+                      <FormField
+                        control={form.control}
+                        name={`renewals.${index}.newDepositAmount`}
+                         render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>변경된 보증금 (선택)</FormLabel>
+                            <FormControl>
+                              <Input type="text" placeholder="변경이 없으면 비워두세요" value={field.value ? new Intl.NumberFormat('ko-KR').format(field.value) : ''}
+                                onChange={(e) => {
+                                    const rawValue = e.target.value.replace(/,/g, '');
+                                    if (/^\d*$/.test(rawValue)) field.onChange(rawValue ? Number(rawValue) : undefined);
+                                }}
+                              />
+                            </FormControl>
+                            <FormDescription>재계약으로 보증금이 변경되면 입력하세요. 보증금 정산의 계약상 보증금에 반영됩니다.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                       <FormField
                         control={form.control}
                         name={`renewals.${index}.newLeaseEndDate`}
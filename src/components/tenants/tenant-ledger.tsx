@@ -2,6 +2,9 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
 import { useFirebase, errorEmitter, FirestorePermissionError } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioScope } from '@/firebase/firestore/portfolios';
+import { canEditPortfolioData } from '@/lib/portfolio';
 import {
   doc,
   collection,
@@ -14,7 +17,7 @@ import {
   serverTimestamp,
   Firestore,
 } from 'firebase/firestore';
-import { LeaseAgreement, Payment, Building, RentAdjustment } from '@/lib/types';
+import { LeaseAgreement, Payment, PaymentAllocation, Building, RentAdjustment, MaintenanceFee, MeterReading, CreditHandling } from '@/lib/types';
 import * as XLSX from 'xlsx';
 import {
   Table,
@@ -26,23 +29,17 @@ import {
 } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { AlertTriangle, Info, Pencil, FileDown, Printer, Loader2 } from 'lucide-react';
+import { AlertTriangle, Info, Pencil, FileDown, Printer, Loader2, Wallet, ReceiptText, Undo2 } from 'lucide-react';
 import {
   format as formatDateFns,
-  addMonths,
-  addDays,
-  getDaysInMonth,
   isBefore,
-  isAfter,
-  startOfDay,
-  endOfMonth,
   startOfMonth,
-  differenceInCalendarDays,
-  isSameDay,
-  min,
-  max,
 } from 'date-fns';
 import { formatCurrency, formatDate, cn, getLeaseDetails } from '@/lib/utils';
+import { DueStatus, allocatePayments, buildLedgerLines, calculateDues, creditHandlingLabels, dueStatusLabels, getDueMonth, getWithdrawableAmount, isPaymentWithdrawal, paymentTypeLabels, toDate } from '@/lib/rent-schedule';
+import { getMaintenanceFeeMethod, maintenanceFeeMethodLabels } from '@/lib/maintenance-fee';
+import { calculateLeaseFees } from '@/lib/utility-billing';
+import { formatPaymentMethod, getPaymentMethod } from '@/lib/payment-method';
 import {
   Card,
   CardContent,
@@ -51,7 +48,11 @@ import {
   CardDescription,
 } from '../ui/card';
 import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
 import Link from 'next/link';
+import { PaymentReceiptDialog } from '../receipts/payment-receipt-dialog';
+import { PaymentWithdrawalDialog } from '../payments/payment-withdrawal-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import {
   Dialog,
   DialogContent,
@@ -67,7 +68,7 @@ import { Textarea } from '../ui/textarea';
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { updateDocumentNonBlocking, deleteDocumentNonBlocking, deleteRentAdjustment, updateRentAdjustment } from '@/firebase/non-blocking-updates';
+import { deleteDocumentNonBlocking, deleteRentAdjustment, updateLeaseCreditHandling, updateRentAdjustment } from '@/firebase/non-blocking-updates';
 import { v4 as uuidv4 } from 'uuid';
 import { useToast } from '@/hooks/use-toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
@@ -79,23 +80,24 @@ interface LedgerRow {
   supplyValue: number | null;
   vat: number | null;
   rent: number | null; // supplyValue + vat
+  fee: number | null; // 관리비 및 공과금
   payment: number | null;
   balance: number;
   notes?: string;
   isAdjustment?: boolean;
+  isInterest?: boolean;
   isDue: boolean;
   adjustmentId?: string;
+  dueStatus?: DueStatus;
+  paymentRecord?: Payment; // 입금·환불 행의 납부 기록 (영수증 발행, 환불·취소 기록용)
+  allocations?: PaymentAllocation[];
 }
 
-interface DueEvent {
-  date: Date;
-  amount: number;
-  description: string;
-  notes?: string;
-  isAdjustment?: boolean;
-  isDue: boolean;
-  adjustmentId?: string;
-}
+const dueStatusClassNames: Record<DueStatus, string> = {
+  paid: 'border-green-500 text-green-700',
+  partial: 'border-yellow-500 text-yellow-700',
+  unpaid: 'border-red-500 text-red-700',
+};
 
 const adjustmentFormSchema = z.object({
   adjustedRentAmount: z.preprocess(
@@ -105,128 +107,6 @@ const adjustmentFormSchema = z.object({
   notes: z.string().min(1, { message: "조정 사유를 입력해주세요."}),
 });
 
-// --- Calculation Logic ---
-
-// Helper function to safely convert Timestamp or Date to a Date object.
-const getDate = (d: Date | Timestamp): Date => d instanceof Timestamp ? d.toDate() : d;
-
-function getApplicableRent(lease: LeaseAgreement, date: Date): { rent: number, isRenewal: boolean } {
-    if (!lease.renewals || lease.renewals.length === 0) {
-        return { rent: lease.rentAmount, isRenewal: false };
-    }
-
-    const sortedRenewals = [...lease.renewals]
-        .sort((a, b) => getDate(a.renewalDate).getTime() - getDate(b.renewalDate).getTime())
-        .reverse();
-
-    for (const renewal of sortedRenewals) {
-        if (!isBefore(date, getDate(renewal.renewalDate))) {
-            return { rent: renewal.newRentAmount, isRenewal: true };
-        }
-    }
-
-    return { rent: lease.rentAmount, isRenewal: false };
-}
-
-function calculateDues(lease: LeaseAgreement, adjustments: RentAdjustment[]): DueEvent[] {
-    const dues: DueEvent[] = [];
-    const startDate = startOfDay(getDate(lease.leaseStartDate));
-    
-    const { leaseEndDate: effectiveLeaseEndDate } = getLeaseDetails(lease);
-
-    const today = startOfDay(new Date());
-
-    if (isBefore(effectiveLeaseEndDate, startDate)) return [];
-
-    let currentMonthStart = startOfMonth(startDate);
-    const finalBillableDate = min([effectiveLeaseEndDate, today]);
-
-    while (isBefore(currentMonthStart, finalBillableDate) || isSameDay(currentMonthStart, finalBillableDate)) {
-        const { rent: baseRentForMonth } = getApplicableRent(lease, currentMonthStart);
-        let notes: string | undefined;
-        let finalRentForMonth = baseRentForMonth;
-        let isProrated = false;
-
-        const adjustmentForMonth = adjustments.find(adj => 
-            isSameDay(startOfMonth(getDate(adj.adjustmentDate)), currentMonthStart)
-        );
-
-        if (adjustmentForMonth) {
-            finalRentForMonth = adjustmentForMonth.adjustedRentAmount;
-            notes = `조정: ${adjustmentForMonth.notes}`;
-            dues.push({
-                date: endOfMonth(currentMonthStart),
-                amount: Math.round(finalRentForMonth),
-                description: `${formatDateFns(currentMonthStart, 'yyyy-MM')}월분`,
-                notes,
-                isAdjustment: true,
-                isDue: true,
-                adjustmentId: adjustmentForMonth.id,
-            });
-
-        } else {
-             const periodStart = max([currentMonthStart, startDate]);
-             const periodEnd = min([endOfMonth(currentMonthStart), finalBillableDate]);
-             const daysInMonth = getDaysInMonth(currentMonthStart);
-             let billableDays = differenceInCalendarDays(periodEnd, periodStart) + 1;
-
-             if (isBefore(periodEnd, periodStart)) {
-                billableDays = 0;
-             }
-            
-            const rentFreeEndDate = lease.rentFreePeriod && lease.rentFreePeriod > 0
-                ? lease.rentFreeUnit === 'months'
-                    ? addDays(addMonths(startDate, lease.rentFreePeriod), -1)
-                    : addDays(startDate, lease.rentFreePeriod - 1)
-                : null;
-            
-            if (rentFreeEndDate && isAfter(rentFreeEndDate, currentMonthStart)) {
-                const freePeriodStartInThisMonth = max([periodStart, startDate]);
-                const freePeriodEndInThisMonth = min([periodEnd, rentFreeEndDate]);
-
-                if (isAfter(freePeriodEndInThisMonth, freePeriodStartInThisMonth) || isSameDay(freePeriodEndInThisMonth, freePeriodStartInThisMonth)) {
-                    const freeDays = differenceInCalendarDays(freePeriodEndInThisMonth, freePeriodStartInThisMonth) + 1;
-                    billableDays = Math.max(0, billableDays - freeDays);
-                }
-            }
-
-            if (billableDays <= 0) {
-                finalRentForMonth = 0;
-                notes = '렌트프리';
-            } else if (billableDays < daysInMonth) {
-                isProrated = true;
-                finalRentForMonth = (baseRentForMonth / daysInMonth) * billableDays;
-            } else {
-                 const isFirstMonthProrated = lease.rentCalculationMethod === 'end_of_month' && isSameDay(currentMonthStart, startOfMonth(startDate)) && startDate.getDate() !== 1;
-                 const isLastMonthProrated = lease.rentCalculationMethod === 'end_of_month' && isSameDay(currentMonthStart, startOfMonth(effectiveLeaseEndDate)) && !isSameDay(effectiveLeaseEndDate, endOfMonth(effectiveLeaseEndDate));
-
-                 if(isFirstMonthProrated || isLastMonthProrated) {
-                    isProrated = true;
-                    finalRentForMonth = (baseRentForMonth / daysInMonth) * billableDays;
-                 }
-            }
-             if (isProrated && !notes) {
-                notes = `일할계산 (${Math.round(billableDays)}일)`;
-            }
-
-            if (isAfter(currentMonthStart, effectiveLeaseEndDate) || isAfter(currentMonthStart, today)) {
-                break;
-            }
-            dues.push({
-                date: endOfMonth(currentMonthStart),
-                amount: Math.round(finalRentForMonth),
-                description: `${formatDateFns(currentMonthStart, 'yyyy-MM')}월분`,
-                notes,
-                isDue: true,
-            });
-        }
-        
-        currentMonthStart = addMonths(currentMonthStart, 1);
-    }
-    
-    return dues;
-}
-
 function RentAdjustmentDialog({
   triggerButton,
   lease,
@@ -239,6 +119,7 @@ function RentAdjustmentDialog({
   onSave: () => void,
 }) {
   const { firestore, user } = useFirebase();
+  const portfolioId = usePortfolio()?.portfolio.id;
   const [isOpen, setIsOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
@@ -261,7 +142,7 @@ function RentAdjustmentDialog({
 
 
   const onSubmit = async (data: z.infer<typeof adjustmentFormSchema>) => {
-    if (!firestore || !user) return;
+    if (!firestore || !user || !portfolioId) return;
     setIsSubmitting(true);
 
     const adjustmentId = ledgerRow.adjustmentId || uuidv4();
@@ -272,8 +153,9 @@ function RentAdjustmentDialog({
         adjustmentId,
         {
           id: adjustmentId,
-          ownerId: user.uid,
+          portfolioId,
           leaseAgreementId: lease.id,
+          buildingId: lease.buildingId,
           adjustmentDate: Timestamp.fromDate(adjustmentDate),
           adjustedRentAmount: data.adjustedRentAmount,
           notes: data.notes
@@ -382,12 +264,18 @@ function RentAdjustmentDialog({
 
 export function TenantLedger({ tenantId }: { tenantId: string }) {
   const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const portfolioId = membership?.portfolioId;
+  // Guests read the ledger without the adjustment and edit actions.
+  const canEdit = canEditPortfolioData(membership);
   const [ledger, setLedger] = useState<LedgerRow[]>([]);
   const [lease, setLease] = useState<LeaseAgreement | null>(null);
   const [building, setBuilding] = useState<Building | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [triggerFetch, setTriggerFetch] = useState(0);
+  const { toast } = useToast();
 
   const unitNames = useMemo(() => {
     if (!lease || !building) return [];
@@ -399,7 +287,7 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
 
   useEffect(() => {
     async function fetchData() {
-        if (!firestore || !user || !tenantId) {
+        if (!firestore || !user || !membership || !tenantId) {
             setIsLoading(false);
             return;
         }
@@ -415,7 +303,7 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
                 throw new Error("임대 계약 정보를 찾을 수 없습니다.");
             }
             
-            if(leaseSnapshot.data()?.ownerId !== user.uid) {
+            if(leaseSnapshot.data()?.portfolioId !== portfolioId) {
                 const permissionError = new FirestorePermissionError({
                     path: leaseDocRef.path,
                     operation: 'get',
@@ -430,7 +318,7 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
             const buildingDocRef = doc(firestore, 'buildings', fetchedLease.buildingId);
             const buildingSnapshot = await getDoc(buildingDocRef);
             
-            if (buildingSnapshot.exists() && buildingSnapshot.data()?.ownerId !== user.uid) {
+            if (buildingSnapshot.exists() && buildingSnapshot.data()?.portfolioId !== portfolioId) {
                  const permissionError = new FirestorePermissionError({
                     path: buildingDocRef.path,
                     operation: 'get',
@@ -442,10 +330,12 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
             const fetchedBuilding = buildingSnapshot.exists() ? { id: buildingSnapshot.id, ...buildingSnapshot.data() } as Building : null;
             setBuilding(fetchedBuilding);
 
-            const paymentsQuery = query(collection(firestore, 'payments'), where('leaseAgreementId', '==', tenantId));
-            const adjustmentsQuery = query(collection(firestore, 'rentAdjustments'), where('leaseAgreementId', '==', tenantId));
+            const paymentsQuery = query(collection(firestore, 'payments'), ...portfolioScope(membership), where('leaseAgreementId', '==', tenantId));
+            const adjustmentsQuery = query(collection(firestore, 'rentAdjustments'), ...portfolioScope(membership), where('leaseAgreementId', '==', tenantId));
+            const maintenanceFeesQuery = query(collection(firestore, 'maintenanceFees'), where('portfolioId', '==', portfolioId), where('buildingId', '==', fetchedLease.buildingId));
+            const meterReadingsQuery = query(collection(firestore, 'meterReadings'), where('portfolioId', '==', portfolioId), where('buildingId', '==', fetchedLease.buildingId));
             
-            const [paymentsSnapshot, adjustmentsSnapshot] = await Promise.all([
+            const [paymentsSnapshot, adjustmentsSnapshot, maintenanceFeesSnapshot, meterReadingsSnapshot] = await Promise.all([
                 getDocs(paymentsQuery).catch(e => {
                     const error = new FirestorePermissionError({ path: `payments where leaseAgreementId == ${tenantId}`, operation: 'list' });
                     errorEmitter.emit('permission-error', error);
@@ -455,80 +345,98 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
                     const error = new FirestorePermissionError({ path: `rentAdjustments where leaseAgreementId == ${tenantId}`, operation: 'list' });
                     errorEmitter.emit('permission-error', error);
                     throw error;
+                }),
+                getDocs(maintenanceFeesQuery).catch(e => {
+                    const error = new FirestorePermissionError({ path: `maintenanceFees where buildingId == ${fetchedLease.buildingId}`, operation: 'list' });
+                    errorEmitter.emit('permission-error', error);
+                    throw error;
+                }),
+                getDocs(meterReadingsQuery).catch(e => {
+                    const error = new FirestorePermissionError({ path: `meterReadings where buildingId == ${fetchedLease.buildingId}`, operation: 'list' });
+                    errorEmitter.emit('permission-error', error);
+                    throw error;
                 })
             ]);
             
             const fetchedPayments = paymentsSnapshot.docs
                 .map(doc => ({ id: doc.id, ...doc.data() }) as Payment)
-                .sort((a,b) => getDate(a.paymentDate).getTime() - getDate(b.paymentDate).getTime());
+                .sort((a,b) => toDate(a.paymentDate).getTime() - toDate(b.paymentDate).getTime());
             
+            setPayments(fetchedPayments);
+
             const fetchedAdjustments = adjustmentsSnapshot.docs
                 .map(doc => ({ id: doc.id, ...doc.data() }) as RentAdjustment);
 
-            const dues = calculateDues(fetchedLease, fetchedAdjustments);
-            
-            const paymentEvents = fetchedPayments.map((p) => ({
-                date: startOfDay(getDate(p.paymentDate)),
-                rent: null,
-                payment: p.paymentAmount,
-                description: '입금',
-                notes: undefined,
-                isAdjustment: false,
-                isDue: false,
-            }));
-
-            const dueEvents = dues.map((due) => ({
-                date: due.date,
-                rent: due.amount,
-                payment: null,
-                description: due.description,
-                notes: due.notes,
-                isAdjustment: due.isAdjustment,
-                isDue: true,
-                adjustmentId: due.adjustmentId,
-            }));
-
-            const allEvents = [...dueEvents, ...paymentEvents];
-
-            allEvents.sort((a, b) => {
-                if (!isSameDay(a.date, b.date)) {
-                return a.date.getTime() - b.date.getTime();
-                }
-                if (a.rent !== null && b.payment !== null) return -1;
-                if (a.payment !== null && b.rent !== null) return 1;
-                return 0;
-            });
+            const fetchedMaintenanceFees = maintenanceFeesSnapshot.docs
+                .map(doc => ({ id: doc.id, ...doc.data() }) as MaintenanceFee);
 
-            const newLedger: LedgerRow[] = [];
-            let runningBalance = 0;
-
-            for (const event of allEvents) {
-                let supplyValue: number | null = null;
-                let vat: number | null = null;
-                let totalRentForEvent = event.rent;
-
-                if (event.rent !== null) {
-                    const rentAmount = event.rent;
-                    if (fetchedLease.vatTreatment === 'included' && rentAmount > 0) {
-                        supplyValue = Math.round(rentAmount / 1.1);
-                        vat = rentAmount - supplyValue;
-                    } else if (fetchedLease.vatTreatment === 'excluded' && rentAmount > 0) {
-                        supplyValue = rentAmount;
-                        vat = Math.round(rentAmount * 0.1);
-                    } else {
-                        supplyValue = rentAmount;
-                        vat = 0;
+            const fetchedMeterReadings = meterReadingsSnapshot.docs
+                .map(doc => ({ id: doc.id, ...doc.data() }) as MeterReading);
+
+            const dues = calculateDues(fetchedLease, fetchedAdjustments);
+            const { settlements, allocationsByPayment } = allocatePayments(dues, fetchedPayments);
+            const fees = calculateLeaseFees(fetchedLease, fetchedBuilding, fetchedMaintenanceFees, fetchedMeterReadings);
+
+            const describePayment = (p: Payment): Pick<LedgerRow, 'description' | 'notes' | 'allocations'> => {
+                const notes = [];
+                if (isPaymentWithdrawal(p)) {
+                    // Refunds and reversals are their own lines, pointing back at the payment they take from.
+                    const original = fetchedPayments.find(o => o.id === p.originalPaymentId);
+                    if (original) {
+                        notes.push(`${formatDate(original.paymentDate)} 입금 ${formatCurrency(original.paymentAmount)} 대상`);
+                    }
+                    if (p.reason) {
+                        notes.push(p.reason);
                     }
-                    totalRentForEvent = supplyValue + (vat || 0);
-                    runningBalance += totalRentForEvent;
+                    return {
+                        description: paymentTypeLabels[p.type!],
+                        notes: notes.length > 0 ? notes.join(' / ') : undefined,
+                    };
                 }
-
-                if (event.payment !== null) {
-                    runningBalance -= event.payment;
+                if (p.maintenanceFeeAmount) {
+                    notes.push(`관리비 ${formatCurrency(p.maintenanceFeeAmount)} 포함`);
                 }
-
-                newLedger.push({ ...event, date: event.date, supplyValue, vat, rent: totalRentForEvent, balance: runningBalance });
-            }
+                const allocations = allocationsByPayment.get(p.id) || [];
+                if (allocations.length > 0) {
+                    notes.push(`충당${p.allocations ? '(지정)' : ''}: ${allocations.map(a => `${a.month}월분 ${formatCurrency(a.amount)}`).join(', ')}`);
+                }
+                return {
+                    description: '입금',
+                    notes: notes.length > 0 ? notes.join(' / ') : undefined,
+                    allocations,
+                };
+            };
+
+            const newLedger: LedgerRow[] = buildLedgerLines(fetchedLease, dues, fetchedPayments, fees).map(({ source, ...line }) => {
+                switch (source.kind) {
+                    case 'due':
+                        return {
+                            ...line,
+                            description: source.due.description,
+                            notes: source.due.notes,
+                            isAdjustment: source.due.isAdjustment,
+                            isDue: true,
+                            adjustmentId: source.due.adjustmentId,
+                            dueStatus: source.due.total > 0 ? settlements.find(s => s.month === getDueMonth(source.due))?.status : undefined,
+                        };
+                    case 'fee':
+                    case 'interest':
+                        return {
+                            ...line,
+                            description: source.line.description,
+                            notes: source.line.notes,
+                            isInterest: source.kind === 'interest',
+                            isDue: false,
+                        };
+                    case 'payment':
+                        return {
+                            ...line,
+                            ...describePayment(source.payment),
+                            paymentRecord: source.payment,
+                            isDue: false,
+                        };
+                }
+            });
             setLedger(newLedger);
 
         } catch (e: any) {
@@ -540,13 +448,25 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
     }
 
     fetchData();
-  }, [firestore, user, tenantId, triggerFetch]);
+  }, [firestore, user, membership, tenantId, triggerFetch]);
 
 
   const handlePrint = () => {
     window.print();
   };
 
+  const handleCreditHandlingChange = async (creditHandling: CreditHandling) => {
+    if (!firestore || !lease) return;
+    try {
+      await updateLeaseCreditHandling(firestore, lease.id, { creditHandling });
+      toast({ title: '과납 잔액 처리 변경됨', description: `${creditHandlingLabels[creditHandling]}(으)로 표시합니다.` });
+      setTriggerFetch(v => v + 1);
+    } catch (error) {
+      console.error('Error updating credit handling:', error);
+      toast({ variant: 'destructive', title: '저장 실패', description: '과납 잔액 처리 방식을 저장하지 못했습니다.' });
+    }
+  };
+
   const getVatText = () => {
     if (!lease) return '';
     switch (lease.vatTreatment) {
@@ -560,6 +480,21 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
     }
   };
 
+  const getLateInterestText = () => {
+    if (!lease?.lateInterestRate) return '';
+    const graceDays = lease.lateInterestGraceDays || 0;
+    return `연 ${lease.lateInterestRate}%${graceDays > 0 ? ` (유예 ${graceDays}일)` : ''}`;
+  };
+
+  const getMaintenanceFeeText = () => {
+    if (!lease) return '';
+    const method = getMaintenanceFeeMethod(lease);
+    if (method === 'fixed') {
+      return `${formatCurrency(lease.maintenanceFeeAmount || 0)} (${maintenanceFeeMethodLabels.fixed})`;
+    }
+    return maintenanceFeeMethodLabels[method];
+  };
+
   const handleExportToExcel = () => {
     if (!lease || !ledger) return;
 
@@ -578,11 +513,15 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
     if (lease.rentFreePeriod && lease.rentFreePeriod > 0) {
         leaseInfoData.push(['렌트프리', `${lease.rentFreePeriod}${lease.rentFreeUnit === 'months' ? '개월' : '일'}`]);
     }
+    if (lease.lateInterestRate && lease.lateInterestRate > 0) {
+        leaseInfoData.push(['연체이자율', getLateInterestText()]);
+    }
+    leaseInfoData.push(['관리비', getMaintenanceFeeText()]);
     leaseInfoData.push([]); // Add a blank row for spacing
 
     // 2. Create Ledger Table Header
     const ledgerHeader = [
-      '일자', '내용', '공급가액', '부가세', '합계 (차변)', '납부액 (대변)', '잔액', '비고'
+      '일자', '내용', '공급가액', '부가세', '합계 (차변)', '관리비·공과금 (차변)', '납부액 (대변)', '잔액', '납부 상태', '결제 방식', '입금자명', '거래 참조번호', '메모', '비고'
     ];
 
     // 3. Format Ledger Data
@@ -592,8 +531,14 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
       '공급가액': row.supplyValue !== null ? row.supplyValue : '',
       '부가세': row.vat !== null ? row.vat : '',
       '합계 (차변)': row.rent !== null ? row.rent : '',
+      '관리비·공과금 (차변)': row.fee !== null ? row.fee : '',
       '납부액 (대변)': row.payment !== null ? row.payment : '',
       '잔액': row.balance,
+      '납부 상태': row.dueStatus ? dueStatusLabels[row.dueStatus] : '',
+      '결제 방식': row.paymentRecord ? formatPaymentMethod(getPaymentMethod(row.paymentRecord, lease)) : '',
+      '입금자명': row.paymentRecord?.depositorName || '',
+      '거래 참조번호': row.paymentRecord?.bankReference || '',
+      '메모': row.paymentRecord?.memo || '',
       '비고': row.notes || '',
     }));
 
@@ -605,7 +550,8 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
     
     ws['!cols'] = [
         { wch: 12 }, { wch: 25 }, { wch: 15 }, { wch: 15 }, 
-        { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 20 }
+        { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 10 },
+        { wch: 10 }, { wch: 15 }, { wch: 20 }, { wch: 20 }, { wch: 20 }
     ];
 
     const wb = XLSX.utils.book_new();
@@ -647,6 +593,14 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
   const { rentAmount: currentRent, leaseEndDate: effectiveLeaseEndDate } = getLeaseDetails(lease);
   const isLeaseExpired = isBefore(effectiveLeaseEndDate, new Date());
 
+  // A negative closing balance is money held for the tenant: either left to cover the next
+  // charges or owed back as a refund, as chosen on the lease.
+  const credit = Math.max(0, -(ledger.length > 0 ? ledger[ledger.length - 1].balance : 0));
+  const creditHandling: CreditHandling = lease.creditHandling || 'carry_forward';
+  const refundablePayment = [...payments]
+    .reverse()
+    .find(p => !isPaymentWithdrawal(p) && getWithdrawableAmount(p, payments) > 0);
+
   return (
     <div className="space-y-6" id="tenant-ledger-printable">
       <Card className='print-only-card'>
@@ -665,11 +619,19 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
                 인쇄하기
             </Button>
             <Button asChild variant="outline" size="sm">
-              <Link href={`/tenants/${tenantId}/edit`}>
-                <Pencil className="mr-2 h-4 w-4" />
-                계약 수정
+              <Link href={`/tenants/${tenantId}/deposit`}>
+                <Wallet className="mr-2 h-4 w-4" />
+                보증금 정산
               </Link>
             </Button>
+            {canEdit && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/tenants/${tenantId}/edit`}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  계약 수정
+                </Link>
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent className="grid md:grid-cols-3 gap-4 text-sm">
@@ -718,6 +680,16 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
               </p>
             </div>
           )}
+          <div>
+            <p className="font-semibold text-muted-foreground">관리비</p>
+            <p>{getMaintenanceFeeText()}</p>
+          </div>
+          {lease?.lateInterestRate && lease.lateInterestRate > 0 ? (
+            <div>
+              <p className="font-semibold text-muted-foreground">연체이자율</p>
+              <p>{getLateInterestText()}</p>
+            </div>
+          ) : null}
         </CardContent>
       </Card>
 
@@ -733,26 +705,78 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
         </Alert>
       )}
 
+      {credit > 0 && (
+        <Alert variant={creditHandling === 'refund' ? 'destructive' : 'info'} className="no-print">
+          <Wallet className="h-4 w-4" />
+          <AlertTitle>과납 잔액 {formatCurrency(credit)} · {creditHandlingLabels[creditHandling]}</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>
+              {creditHandling === 'refund'
+                ? '청구액보다 많이 납부되어 임차인에게 돌려줄 금액입니다. 환불을 기록하면 원장에 별도 항목으로 남고 잔액이 정리됩니다.'
+                : '청구액보다 많이 납부된 금액으로, 다음 청구 임대료에 자동으로 충당됩니다.'}
+            </p>
+            {canEdit && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={creditHandling} onValueChange={(value) => handleCreditHandlingChange(value as CreditHandling)}>
+                  <SelectTrigger className="h-8 w-[180px] bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(creditHandlingLabels) as CreditHandling[]).map(handling => (
+                      <SelectItem key={handling} value={handling}>{creditHandlingLabels[handling]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {creditHandling === 'refund' && refundablePayment && (
+                  <PaymentWithdrawalDialog
+                    payment={refundablePayment}
+                    lease={lease}
+                    leasePayments={payments}
+                    defaultType="refund"
+                    defaultAmount={credit}
+                    onSave={() => setTriggerFetch(v => v + 1)}
+                    trigger={
+                      <Button variant="outline" size="sm" className="h-8 bg-background">
+                        <Undo2 className="mr-2 h-4 w-4" />
+                        환불 기록
+                      </Button>
+                    }
+                  />
+                )}
+              </div>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="rounded-lg border">
         <Table>
           <TableHeader>
             <TableRow>
               <TableHead className="w-[10%]">일자</TableHead>
-              <TableHead className="w-[15%]">내용</TableHead>
-              <TableHead className="w-[12%] text-right">공급가액</TableHead>
-              <TableHead className="w-[12%] text-right">부가세</TableHead>
-              <TableHead className="w-[12%] text-right">합계 (차변)</TableHead>
-              <TableHead className="w-[12%] text-right">납부액 (대변)</TableHead>
-              <TableHead className="w-[12%] text-right">잔액</TableHead>
-              <TableHead className="w-[15%] text-center">비고</TableHead>
+              <TableHead className="w-[14%]">내용</TableHead>
+              <TableHead className="w-[10%] text-right">공급가액</TableHead>
+              <TableHead className="w-[10%] text-right">부가세</TableHead>
+              <TableHead className="w-[11%] text-right">합계 (차변)</TableHead>
+              <TableHead className="w-[10%] text-right">관리비·공과금 (차변)</TableHead>
+              <TableHead className="w-[11%] text-right">납부액 (대변)</TableHead>
+              <TableHead className="w-[11%] text-right">잔액</TableHead>
+              <TableHead className="w-[13%] text-center">비고</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {ledger.length > 0 ? (
               ledger.map((row, index) => (
-                <TableRow key={index} className={cn(row.isAdjustment && "bg-yellow-50 dark:bg-yellow-900/20")}>
+                <TableRow key={index} className={cn(row.isAdjustment && "bg-yellow-50 dark:bg-yellow-900/20", row.isInterest && "bg-orange-50 dark:bg-orange-900/20")}>
                   <TableCell>{formatDate(row.date)}</TableCell>
-                  <TableCell>{row.description}</TableCell>
+                  <TableCell>
+                    {row.description}
+                    {row.dueStatus && (
+                      <Badge variant="outline" className={cn("ml-2 px-1.5 py-0 text-[10px]", dueStatusClassNames[row.dueStatus])}>
+                        {dueStatusLabels[row.dueStatus]}
+                      </Badge>
+                    )}
+                  </TableCell>
                   <TableCell className="text-right">
                     {row.supplyValue !== null
                       ? formatCurrency(row.supplyValue)
@@ -764,7 +788,10 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
                   <TableCell className="text-right">
                     {row.rent !== null ? formatCurrency(row.rent) : ''}
                   </TableCell>
-                  <TableCell className="text-right text-blue-600">
+                  <TableCell className="text-right">
+                    {row.fee !== null ? formatCurrency(row.fee) : ''}
+                  </TableCell>
+                  <TableCell className={cn('text-right', row.payment !== null && row.payment < 0 ? 'text-destructive' : 'text-blue-600')}>
                     {row.payment !== null ? formatCurrency(row.payment) : ''}
                   </TableCell>
                   <TableCell
@@ -778,7 +805,36 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
                   <TableCell className="text-center text-xs">
                     <div className="flex items-center justify-center gap-1">
                       <span className='flex-1'>{row.notes}</span>
-                      {row.isDue && (
+                      {row.paymentRecord && !isPaymentWithdrawal(row.paymentRecord) && canEdit && (
+                        <PaymentWithdrawalDialog
+                          payment={row.paymentRecord}
+                          lease={lease}
+                          leasePayments={payments}
+                          onSave={() => setTriggerFetch(v => v + 1)}
+                          trigger={
+                            <Button variant="ghost" size="icon" className="h-6 w-6 no-print">
+                              <Undo2 className="h-3 w-3" />
+                              <span className="sr-only">환불·입금 취소</span>
+                            </Button>
+                          }
+                        />
+                      )}
+                      {row.paymentRecord && !isPaymentWithdrawal(row.paymentRecord) && canEdit && (
+                        <PaymentReceiptDialog
+                          payment={row.paymentRecord}
+                          lease={lease}
+                          building={building}
+                          allocations={row.allocations || []}
+                          leasePayments={payments}
+                          trigger={
+                            <Button variant="ghost" size="icon" className="h-6 w-6 no-print">
+                              <ReceiptText className="h-3 w-3" />
+                              <span className="sr-only">영수증</span>
+                            </Button>
+                          }
+                        />
+                      )}
+                      {row.isDue && canEdit && (
                         <RentAdjustmentDialog 
                           lease={lease}
                           ledgerRow={row}
@@ -796,7 +852,7 @@ export function TenantLedger({ tenantId }: { tenantId: string }) {
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={8} className="h-24 text-center">
+                <TableCell colSpan={9} className="h-24 text-center">
                   표시할 데이터가 없습니다.
                 </TableCell>
               </TableRow>
@@ -25,13 +25,17 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '../ui/skeleton';
 import { AlertTriangle, Users } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
-import { useFirebase } from '@/firebase';
-import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
+import { useFirebase, fetchLeaseRecords, fetchBuildingCharges } from '@/firebase';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { getGuestBuildingIds } from '@/lib/portfolio';
+import { collection, query, where, getDocs, getDoc, doc } from 'firebase/firestore';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
-import { Building, TenantLeaseInfo, Payment } from '@/lib/types';
+import { Building, TenantLeaseInfo } from '@/lib/types';
 import { useRouter } from 'next/navigation';
 import { isBefore } from 'date-fns';
 import { getLeaseDetails } from '@/lib/utils';
+import { calculateLeaseBalance } from '@/lib/rent-schedule';
+import { calculateLeaseFees } from '@/lib/utility-billing';
 
 interface TenantsByBuildingTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
@@ -43,6 +47,8 @@ export function TenantsByBuildingTable<TData extends TenantLeaseInfo, TValue>({
   buildingId,
 }: TenantsByBuildingTableProps<TData, TValue>) {
   const { firestore, user } = useFirebase();
+  const membership = usePortfolio()?.membership;
+  const portfolioId = membership?.portfolioId;
   const router = useRouter();
 
   const [tableData, setTableData] = React.useState<TData[]>([]);
@@ -58,7 +64,7 @@ export function TenantsByBuildingTable<TData extends TenantLeaseInfo, TValue>({
 
   React.useEffect(() => {
     async function fetchData() {
-        if (!firestore || !user || !buildingId) {
+        if (!firestore || !user || !portfolioId || !buildingId) {
             setTableData([]);
             setIsLoading(false);
             return;
@@ -70,7 +76,7 @@ export function TenantsByBuildingTable<TData extends TenantLeaseInfo, TValue>({
         try {
             const leasesQuery = query(
                 collection(firestore, 'leaseAgreements'), 
-                where('ownerId', '==', user.uid),
+                where('portfolioId', '==', portfolioId),
                 where('buildingId', '==', buildingId)
             );
             const leasesSnapshot = await getDocs(leasesQuery);
@@ -82,47 +88,23 @@ export function TenantsByBuildingTable<TData extends TenantLeaseInfo, TValue>({
                 return;
             }
 
-            const leaseIds = leases.map(l => l.id);
-            let allPayments: Payment[] = [];
-            if (leaseIds.length > 0) {
-                const paymentPromises = [];
-                for (let i = 0; i < leaseIds.length; i += 30) {
-                    const batchIds = leaseIds.slice(i, i + 30);
-                    const paymentsQuery = query(
-                        collection(firestore, 'payments'),
-                        where('ownerId', '==', user.uid),
-                        where('leaseAgreementId', 'in', batchIds)
-                    );
-                    paymentPromises.push(getDocs(paymentsQuery));
-                }
-                const paymentSnapshots = await Promise.all(paymentPromises);
-                allPayments = paymentSnapshots.flatMap(snapshot => snapshot.docs.map(doc => doc.data() as Payment));
-            }
-            
-            const paymentsByLease = new Map<string, Payment[]>();
-            allPayments.forEach(p => {
-                if (!paymentsByLease.has(p.leaseAgreementId)) {
-                    paymentsByLease.set(p.leaseAgreementId, []);
-                }
-                paymentsByLease.get(p.leaseAgreementId)!.push(p);
-            });
+            const [{ paymentsByLease, adjustmentsByLease }, { feesByBuilding, readingsByBuilding }, buildingSnapshot] = await Promise.all([
+                fetchLeaseRecords(firestore, portfolioId, leases.map(l => l.id), getGuestBuildingIds(membership)),
+                fetchBuildingCharges(firestore, portfolioId, [buildingId]),
+                getDoc(doc(firestore, 'buildings', buildingId)),
+            ]);
+            const building = buildingSnapshot.exists() ? { id: buildingSnapshot.id, ...buildingSnapshot.data() } as Building : null;
+            const buildingFees = feesByBuilding.get(buildingId) || [];
+            const buildingReadings = readingsByBuilding.get(buildingId) || [];
             
             const leaseDataWithDetails = leases.map(lease => {
                 const leasePayments = paymentsByLease.get(lease.id) || [];
-                const startDate = (lease.leaseStartDate as Timestamp).toDate();
+                const leaseAdjustments = adjustmentsByLease.get(lease.id) || [];
                 const today = new Date();
 
-                const { rentAmount, leaseEndDate } = getLeaseDetails(lease);
-
-                let totalDue = 0;
-                let currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
-                while (currentDate <= today && currentDate <= leaseEndDate) {
-                    totalDue += rentAmount; // Simplified for this table
-                    currentDate.setMonth(currentDate.getMonth() + 1);
-                }
-
-                const totalPaid = leasePayments.reduce((sum, p) => sum + p.paymentAmount, 0);
-                const balance = totalDue - totalPaid;
+                const { leaseEndDate } = getLeaseDetails(lease);
+                const maintenanceFees = calculateLeaseFees(lease, building, buildingFees, buildingReadings, today);
+                const { balance } = calculateLeaseBalance(lease, leaseAdjustments, leasePayments, today, maintenanceFees);
                 
                 let status: TenantLeaseInfo['status'];
                  if (isBefore(leaseEndDate, today)) {
@@ -152,7 +134,7 @@ export function TenantsByBuildingTable<TData extends TenantLeaseInfo, TValue>({
         }
     }
     fetchData();
-  }, [firestore, user, buildingId]);
+  }, [firestore, user, membership, buildingId]);
 
   const table = useReactTable({
     data: tableData,
@@ -0,0 +1,136 @@
+'use client';
+
+import { collection, doc, getDoc, serverTimestamp, setDoc, writeBatch, DocumentReference, Firestore } from 'firebase/firestore';
+import { getAuth } from 'firebase/auth';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { AuditLogDetails, AuditOperation, diffDocuments, getAuditAction } from '@/lib/audit-log';
+
+export interface AuditLogEntry {
+  action: string;
+  details: AuditLogDetails;
+}
+
+/**
+ * A document write to record: the document's data before and after the change.
+ * `before` is null for a created document and `after` is null for a deleted one.
+ */
+export interface DocumentChange {
+  collection: string;
+  documentId: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
+
+/**
+ * Reads a document's current data so a change to it can be logged. Returns null if the
+ * document does not exist or cannot be read.
+ */
+export async function readAuditSnapshot(docRef: DocumentReference): Promise<Record<string, any> | null> {
+  try {
+    const snapshot = await getDoc(docRef);
+    return snapshot.exists() ? snapshot.data() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads several documents of a collection at once. See `readAuditSnapshot`.
+ */
+export async function readAuditSnapshots(firestore: Firestore, collectionName: string, ids: string[]): Promise<Map<string, Record<string, any> | null>> {
+  const snapshots = await Promise.all(ids.map(id => readAuditSnapshot(doc(firestore, collectionName, id))));
+  return new Map(ids.map((id, index) => [id, snapshots[index]]));
+}
+
+function toLogDocument(firestore: Firestore, uid: string, email: string | null, entry: AuditLogEntry) {
+  const logRef = doc(collection(firestore, 'logs'));
+  return {
+    ref: logRef,
+    data: {
+      id: logRef.id,
+      ownerId: uid,
+      userId: uid,
+      userEmail: email || '',
+      action: entry.action,
+      timestamp: serverTimestamp(),
+      details: entry.details,
+    },
+  };
+}
+
+/**
+ * Writes one log entry and waits for it. Used before bulk operations such as restore and reset,
+ * whose entries the security rules only accept from the admin running them.
+ */
+export async function recordAuditLog(firestore: Firestore, entry: AuditLogEntry) {
+  const user = getAuth(firestore.app).currentUser;
+  if (!user) throw new Error('로그인이 필요합니다.');
+
+  const log = toLogDocument(firestore, user.uid, user.email, entry);
+  try {
+    await setDoc(log.ref, log.data);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: log.ref.path,
+        operation: 'create',
+        requestResourceData: log.data,
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Appends entries to the `logs` collection as the signed-in user, in a single batch.
+ * Does NOT await the write; a failed log write never fails the change it records.
+ */
+export function appendAuditLogs(firestore: Firestore, entries: AuditLogEntry[]) {
+  const user = getAuth(firestore.app).currentUser;
+  if (!user || entries.length === 0) return;
+
+  const batch = writeBatch(firestore);
+  const logs = entries.map(entry => {
+    const log = toLogDocument(firestore, user.uid, user.email, entry);
+    batch.set(log.ref, log.data);
+    return log.data;
+  });
+
+  batch.commit()
+    .catch(error => {
+      errorEmitter.emit(
+        'permission-error',
+        new FirestorePermissionError({
+          path: 'logs',
+          operation: 'create',
+          requestResourceData: logs,
+        })
+      );
+    });
+}
+
+/**
+ * Logs document writes with a field-level before/after diff. A write that changed nothing is skipped.
+ */
+export function logDocumentChanges(firestore: Firestore, changes: DocumentChange[], extraDetails?: Record<string, unknown>) {
+  const entries = changes.flatMap(change => {
+    const operation: AuditOperation = !change.after ? 'delete' : !change.before ? 'create' : 'update';
+    const diff = diffDocuments(change.before, change.after);
+    if (operation === 'update' && Object.keys(diff).length === 0) return [];
+    const data = change.after || change.before || {};
+    return [{
+      action: getAuditAction(operation, change.collection),
+      details: {
+        collection: change.collection,
+        documentId: change.documentId,
+        ...(typeof data.leaseAgreementId === 'string' ? { leaseAgreementId: data.leaseAgreementId } : {}),
+        ...(typeof data.buildingId === 'string' ? { buildingId: data.buildingId } : {}),
+        changes: diff,
+        ...extraDetails,
+      },
+    }];
+  });
+  appendAuditLogs(firestore, entries);
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { doc, runTransaction, serverTimestamp, Firestore } from 'firebase/firestore';
+import { format as formatDateFns } from 'date-fns';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { logDocumentChanges, readAuditSnapshots } from '@/firebase/firestore/audit-log';
+
+// The numbered documents that draw their numbers from a counter; also the collection they are saved in.
+export type NumberedCollection = 'rentInvoices' | 'paymentReceipts';
+
+// One counter per portfolio, collection and month, e.g. `{portfolioId}_rentInvoices_202403`.
+const counterId = (portfolioId: string, name: NumberedCollection, period: string) => `${portfolioId}_${name}_${period}`;
+
+/**
+ * Saves newly numbered documents of a month, together with the documents they void, in one
+ * transaction that also advances the month's counter in `documentCounters`, so two users
+ * issuing at the same time never get the same number. `build` receives the allocated sequences
+ * in order; it may be called again when the transaction is retried.
+ *
+ * `lastIssuedSequence` is the highest sequence the caller already sees for the month, so
+ * numbering continues after documents issued before the month had a counter.
+ */
+export async function saveNumberedDocuments<T extends { id: string }>(
+  firestore: Firestore,
+  name: NumberedCollection,
+  portfolioId: string,
+  month: Date,
+  lastIssuedSequence: number,
+  count: number,
+  build: (sequences: number[]) => T[],
+  voided: T[] = []
+): Promise<T[]> {
+  const period = formatDateFns(month, 'yyyyMM');
+  const counterRef = doc(firestore, 'documentCounters', counterId(portfolioId, name, period));
+  const befores = await readAuditSnapshots(firestore, name, voided.map(document => document.id));
+
+  try {
+    const issued = await runTransaction(firestore, async transaction => {
+      const counter = await transaction.get(counterRef);
+      const last = Math.max(counter.data()?.lastSequence ?? 0, lastIssuedSequence);
+      const documents = build(Array.from({ length: count }, (_, i) => last + i + 1));
+
+      transaction.set(counterRef, { portfolioId, name, period, lastSequence: last + count, updatedAt: serverTimestamp() });
+      [...voided, ...documents].forEach(document => {
+        transaction.set(doc(firestore, name, document.id), document, { merge: true });
+      });
+      return documents;
+    });
+
+    logDocumentChanges(firestore, [
+      ...voided.map(document => {
+        const before = befores.get(document.id) || null;
+        return { collection: name, documentId: document.id, before, after: { ...before, ...document } };
+      }),
+      ...issued.map(document => ({ collection: name, documentId: document.id, before: null, after: document })),
+    ]);
+    return issued;
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: counterRef.path,
+        operation: 'write',
+        requestResourceData: { portfolioId, name, period, count },
+      })
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { collection, query, where, getDocs, Firestore } from 'firebase/firestore';
+import { MaintenanceFee, MeterReading, Payment, PaymentReceipt, RentAdjustment } from '@/lib/types';
+
+export interface LeaseRecords {
+  paymentsByLease: Map<string, Payment[]>;
+  adjustmentsByLease: Map<string, RentAdjustment[]>;
+}
+
+function groupByLease<T extends { leaseAgreementId: string }>(items: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  items.forEach(item => {
+    if (!grouped.has(item.leaseAgreementId)) {
+      grouped.set(item.leaseAgreementId, []);
+    }
+    grouped.get(item.leaseAgreementId)!.push(item);
+  });
+  return grouped;
+}
+
+/**
+ * Fetches the payments and rent adjustments of the given leases, grouped by lease id.
+ * Queries are split into batches of 30 ids to stay within Firestore's `in` limit.
+ *
+ * Guests may only query the records of their buildings, so when `guestBuildingIds` is given
+ * the records are selected by building and then narrowed to the given leases.
+ */
+export async function fetchLeaseRecords(firestore: Firestore, portfolioId: string, leaseIds: string[], guestBuildingIds?: string[]): Promise<LeaseRecords> {
+  if (leaseIds.length === 0) {
+    return { paymentsByLease: new Map(), adjustmentsByLease: new Map() };
+  }
+
+  const filterField = guestBuildingIds ? 'buildingId' : 'leaseAgreementId';
+  const filterIds = guestBuildingIds ?? leaseIds;
+  const paymentPromises = [];
+  const adjustmentPromises = [];
+  for (let i = 0; i < filterIds.length; i += 30) {
+    const batchIds = filterIds.slice(i, i + 30);
+    paymentPromises.push(getDocs(query(
+      collection(firestore, 'payments'),
+      where('portfolioId', '==', portfolioId),
+      where(filterField, 'in', batchIds)
+    )));
+    adjustmentPromises.push(getDocs(query(
+      collection(firestore, 'rentAdjustments'),
+      where('portfolioId', '==', portfolioId),
+      where(filterField, 'in', batchIds)
+    )));
+  }
+
+  const [paymentSnapshots, adjustmentSnapshots] = await Promise.all([
+    Promise.all(paymentPromises),
+    Promise.all(adjustmentPromises),
+  ]);
+
+  const requestedIds = new Set(leaseIds);
+  const payments = paymentSnapshots
+    .flatMap(snapshot => snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Payment))
+    .filter(payment => requestedIds.has(payment.leaseAgreementId));
+  const adjustments = adjustmentSnapshots
+    .flatMap(snapshot => snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as RentAdjustment))
+    .filter(adjustment => requestedIds.has(adjustment.leaseAgreementId));
+
+  return {
+    paymentsByLease: groupByLease(payments),
+    adjustmentsByLease: groupByLease(adjustments),
+  };
+}
+
+export interface BuildingCharges {
+  feesByBuilding: Map<string, MaintenanceFee[]>;
+  readingsByBuilding: Map<string, MeterReading[]>;
+}
+
+function groupByBuilding<T extends { buildingId: string }>(items: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  items.forEach(item => {
+    if (!grouped.has(item.buildingId)) {
+      grouped.set(item.buildingId, []);
+    }
+    grouped.get(item.buildingId)!.push(item);
+  });
+  return grouped;
+}
+
+/**
+ * Fetches the monthly maintenance fees and meter readings of the given buildings, grouped by building id.
+ */
+export async function fetchBuildingCharges(firestore: Firestore, portfolioId: string, buildingIds: string[]): Promise<BuildingCharges> {
+  const uniqueIds = Array.from(new Set(buildingIds));
+  if (uniqueIds.length === 0) {
+    return { feesByBuilding: new Map(), readingsByBuilding: new Map() };
+  }
+
+  const feePromises = [];
+  const readingPromises = [];
+  for (let i = 0; i < uniqueIds.length; i += 30) {
+    const batchIds = uniqueIds.slice(i, i + 30);
+    feePromises.push(getDocs(query(
+      collection(firestore, 'maintenanceFees'),
+      where('portfolioId', '==', portfolioId),
+      where('buildingId', 'in', batchIds)
+    )));
+    readingPromises.push(getDocs(query(
+      collection(firestore, 'meterReadings'),
+      where('portfolioId', '==', portfolioId),
+      where('buildingId', 'in', batchIds)
+    )));
+  }
+
+  const [feeSnapshots, readingSnapshots] = await Promise.all([
+    Promise.all(feePromises),
+    Promise.all(readingPromises),
+  ]);
+
+  const fees = feeSnapshots.flatMap(snapshot => snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as MaintenanceFee));
+  const readings = readingSnapshots.flatMap(snapshot => snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as MeterReading));
+
+  return {
+    feesByBuilding: groupByBuilding(fees),
+    readingsByBuilding: groupByBuilding(readings),
+  };
+}
+
+/**
+ * Fetches the receipts of a payment that are still valid, i.e. not yet voided.
+ */
+export async function fetchIssuedPaymentReceipts(firestore: Firestore, portfolioId: string, paymentId: string): Promise<PaymentReceipt[]> {
+  const snapshot = await getDocs(query(
+    collection(firestore, 'paymentReceipts'),
+    where('portfolioId', '==', portfolioId),
+    where('paymentId', '==', paymentId),
+    where('status', '==', 'issued')
+  ));
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as PaymentReceipt);
+}
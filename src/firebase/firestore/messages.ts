@@ -0,0 +1,110 @@
+'use client';
+
+import { deleteDoc, doc, setDoc, writeBatch, Firestore, Timestamp } from 'firebase/firestore';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { logDocumentChanges, readAuditSnapshot } from '@/firebase/firestore/audit-log';
+import { MessageTemplate, ReminderMessage } from '@/lib/types';
+import { MessageProvider } from '@/lib/message-providers';
+
+export async function saveMessageTemplate(firestore: Firestore, template: MessageTemplate) {
+  const templateRef = doc(firestore, 'messageTemplates', template.id);
+  const before = await readAuditSnapshot(templateRef);
+  try {
+    await setDoc(templateRef, template);
+    logDocumentChanges(firestore, [{ collection: 'messageTemplates', documentId: template.id, before, after: template }]);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: templateRef.path,
+        operation: 'write',
+        requestResourceData: template,
+      })
+    );
+    throw error;
+  }
+}
+
+export async function deleteMessageTemplate(firestore: Firestore, templateId: string) {
+  const templateRef = doc(firestore, 'messageTemplates', templateId);
+  const before = await readAuditSnapshot(templateRef);
+  try {
+    await deleteDoc(templateRef);
+    logDocumentChanges(firestore, [{ collection: 'messageTemplates', documentId: templateId, before, after: null }]);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: templateRef.path,
+        operation: 'delete',
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Adds reminder messages to the send queue in a single batch. Queued messages are kept on the
+ * lease's send history until `sendReminderMessages` delivers them.
+ */
+export async function queueReminderMessages(firestore: Firestore, messages: ReminderMessage[]) {
+  const batch = writeBatch(firestore);
+  messages.forEach(message => {
+    batch.set(doc(firestore, 'reminderMessages', message.id), message);
+  });
+
+  try {
+    await batch.commit();
+    logDocumentChanges(firestore, messages.map(message => ({ collection: 'reminderMessages', documentId: message.id, before: null, after: message })));
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: 'reminderMessages',
+        operation: 'create',
+        requestResourceData: messages,
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Delivers queued or failed messages one by one through the provider, then records each result
+ * in a single batch. Returns the messages with their new status.
+ */
+export async function sendReminderMessages(firestore: Firestore, messages: ReminderMessage[], provider: MessageProvider): Promise<ReminderMessage[]> {
+  const results: ReminderMessage[] = [];
+  for (const message of messages) {
+    const result = await provider
+      .send({ channel: message.channel, recipient: message.recipient, subject: message.subject, body: message.body })
+      .catch((error): { ok: false; error: string } => ({ ok: false, error: error instanceof Error ? error.message : String(error) }));
+
+    results.push(result.ok
+      ? { ...message, providerId: provider.id, status: 'sent', sentAt: Timestamp.now(), providerMessageId: result.providerMessageId || '', error: '' }
+      : { ...message, providerId: provider.id, status: 'failed', error: result.error || '알 수 없는 오류' });
+  }
+
+  const batch = writeBatch(firestore);
+  results.forEach(message => {
+    batch.set(doc(firestore, 'reminderMessages', message.id), message);
+  });
+
+  try {
+    await batch.commit();
+    logDocumentChanges(firestore, results.map((message, i) => ({ collection: 'reminderMessages', documentId: message.id, before: messages[i], after: message })));
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: 'reminderMessages',
+        operation: 'write',
+        requestResourceData: results,
+      })
+    );
+    throw error;
+  }
+
+  return results;
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { doc, FieldPath, updateDoc, Firestore } from 'firebase/firestore';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { NotificationSettings, NotificationState } from '@/lib/types';
+
+/**
+ * Saves the user's notification thresholds on their profile.
+ */
+export async function saveNotificationSettings(firestore: Firestore, userId: string, settings: NotificationSettings) {
+  const userRef = doc(firestore, 'users', userId);
+  try {
+    await updateDoc(userRef, { notificationSettings: settings });
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: userRef.path,
+        operation: 'update',
+        requestResourceData: { notificationSettings: settings },
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Replaces the read and snooze state of the user's notifications in one portfolio. Callers pass only
+ * the states of notifications that still exist, so resolved problems do not pile up on the profile.
+ */
+export async function saveNotificationStates(firestore: Firestore, userId: string, portfolioId: string, states: Record<string, NotificationState>) {
+  const userRef = doc(firestore, 'users', userId);
+  try {
+    await updateDoc(userRef, new FieldPath('notificationStates', portfolioId), states);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: userRef.path,
+        operation: 'update',
+        requestResourceData: { notificationStates: { [portfolioId]: states } },
+      })
+    );
+    throw error;
+  }
+}
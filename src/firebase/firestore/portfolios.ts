@@ -0,0 +1,418 @@
+'use client';
+
+import {
+  collection,
+  collectionGroup,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  where,
+  writeBatch,
+  Firestore,
+  QueryConstraint,
+} from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { appendAuditLogs } from '@/firebase/firestore/audit-log';
+import { Portfolio, PortfolioInvitation, PortfolioMember, PortfolioRole } from '@/lib/types';
+import { getGuestBuildingIds, getPersonalPortfolioId, normalizeEmail, portfolioCollections } from '@/lib/portfolio';
+
+// Firestore rejects batches with more than 500 writes.
+const BATCH_LIMIT = 500;
+
+// Collections scoped to a building through the `buildingId` copied from their lease.
+const leaseRecordCollections = ['payments', 'rentAdjustments', 'depositTransactions'];
+
+/**
+ * Query constraints selecting the documents of the member's portfolio. Guests read only their
+ * buildings, and the security rules reject queries that are not limited to them, so a building
+ * filter is added on `buildingField` (`id` for the buildings collection itself).
+ */
+export function portfolioScope(membership: Pick<PortfolioMember, 'portfolioId' | 'role' | 'buildingIds'>, buildingField: 'buildingId' | 'id' = 'buildingId'): QueryConstraint[] {
+  const constraints = [where('portfolioId', '==', membership.portfolioId)];
+  const buildingIds = getGuestBuildingIds(membership);
+  if (buildingIds) {
+    // An empty `in` list is an invalid query; a guest without buildings matches nothing.
+    constraints.push(where(buildingField, 'in', buildingIds.length > 0 ? buildingIds : ['']));
+  }
+  return constraints;
+}
+
+/**
+ * Fetches the signed-in user's memberships across all portfolios.
+ */
+export async function fetchPortfolioMemberships(firestore: Firestore, userId: string): Promise<PortfolioMember[]> {
+  const snapshot = await getDocs(query(collectionGroup(firestore, 'members'), where('userId', '==', userId)));
+  return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as PortfolioMember);
+}
+
+export async function fetchPortfolios(firestore: Firestore, portfolioIds: string[]): Promise<Portfolio[]> {
+  const snapshots = await Promise.all(portfolioIds.map(id => getDoc(doc(firestore, 'portfolios', id))));
+  return snapshots.filter(snapshot => snapshot.exists()).map(snapshot => ({ ...snapshot.data(), id: snapshot.id }) as Portfolio);
+}
+
+export async function fetchPortfolioMembers(firestore: Firestore, portfolioId: string): Promise<PortfolioMember[]> {
+  const snapshot = await getDocs(collection(firestore, 'portfolios', portfolioId, 'members'));
+  return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as PortfolioMember);
+}
+
+export async function fetchPortfolioInvitations(firestore: Firestore, portfolioId: string): Promise<PortfolioInvitation[]> {
+  const snapshot = await getDocs(collection(firestore, 'portfolios', portfolioId, 'invitations'));
+  return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as PortfolioInvitation);
+}
+
+/**
+ * Fetches the pending invitations addressed to an email, across all portfolios.
+ */
+export async function fetchInvitationsForEmail(firestore: Firestore, email: string): Promise<PortfolioInvitation[]> {
+  const snapshot = await getDocs(query(collectionGroup(firestore, 'invitations'), where('email', '==', normalizeEmail(email))));
+  return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as PortfolioInvitation);
+}
+
+/**
+ * Moves the documents the user created before portfolios existed, which carry the user's
+ * `ownerId`, into the given portfolio. The `ownerId` field is removed, so running this again
+ * finds nothing. Returns the number of moved documents per collection.
+ */
+export async function migrateLegacyData(firestore: Firestore, userId: string, portfolioId: string): Promise<Record<string, number>> {
+  const migratedCounts: Record<string, number> = {};
+
+  for (const name of portfolioCollections) {
+    const snapshot = await getDocs(query(collection(firestore, name), where('ownerId', '==', userId)));
+    migratedCounts[name] = snapshot.size;
+
+    for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(firestore);
+      snapshot.docs.slice(i, i + BATCH_LIMIT).forEach(doc => batch.update(doc.ref, { portfolioId, ownerId: deleteField() }));
+      try {
+        await batch.commit();
+      } catch (error) {
+        errorEmitter.emit(
+          'permission-error',
+          new FirestorePermissionError({
+            path: name,
+            operation: 'update',
+            requestResourceData: { note: `Failed to move documents of user ${userId} in ${name} into portfolio ${portfolioId}.` },
+          })
+        );
+        throw error;
+      }
+    }
+  }
+
+  if (Object.values(migratedCounts).some(count => count > 0)) {
+    appendAuditLogs(firestore, [{
+      action: 'migrate_portfolio_data',
+      details: { collection: 'portfolios', documentId: portfolioId, migratedCounts },
+    }]);
+  }
+
+  return migratedCounts;
+}
+
+// The restore or reset running on a portfolio, if any. The security rules check it by this path.
+const dataOperationRef = (firestore: Firestore, portfolioId: string) => doc(firestore, 'portfolios', portfolioId, 'dataOperations', 'current');
+
+/**
+ * Starts a restore or reset of a portfolio's data. Only admins may start one. While it runs, the
+ * security rules reject changes to the portfolio's data by anyone else, and only its admin may
+ * record the `restore_data` or `clear_data` audit entry. Fails if one is already running.
+ */
+export async function beginDataOperation(firestore: Firestore, portfolioId: string, userId: string, action: 'restore_data' | 'clear_data') {
+  const operationRef = dataOperationRef(firestore, portfolioId);
+  const data = { portfolioId, userId, action, startedAt: serverTimestamp() };
+  try {
+    await setDoc(operationRef, data);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: operationRef.path,
+        operation: 'create',
+        requestResourceData: data,
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Ends the restore or reset started with `beginDataOperation`, whether or not it succeeded.
+ */
+export async function endDataOperation(firestore: Firestore, portfolioId: string) {
+  const operationRef = dataOperationRef(firestore, portfolioId);
+  try {
+    await deleteDoc(operationRef);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: operationRef.path,
+        operation: 'delete',
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Copies each lease's `buildingId` onto its payments, rent adjustments and deposit transactions
+ * where it is missing or out of date, so guests scoped to a building can read them. Records
+ * written before the field existed, or left behind when a lease moved to another building, are
+ * fixed this way. Returns the number of updated documents per collection.
+ */
+export async function syncLeaseBuildingIds(firestore: Firestore, portfolioId: string): Promise<Record<string, number>> {
+  const leasesSnapshot = await getDocs(query(collection(firestore, 'leaseAgreements'), where('portfolioId', '==', portfolioId)));
+  const buildingIdByLease = new Map(leasesSnapshot.docs.map(doc => [doc.id, doc.data().buildingId as string]));
+  const updatedCounts: Record<string, number> = {};
+
+  for (const name of leaseRecordCollections) {
+    const snapshot = await getDocs(query(collection(firestore, name), where('portfolioId', '==', portfolioId)));
+    const outdated = snapshot.docs.filter(doc => {
+      const buildingId = buildingIdByLease.get(doc.data().leaseAgreementId);
+      return buildingId && doc.data().buildingId !== buildingId;
+    });
+    updatedCounts[name] = outdated.length;
+
+    for (let i = 0; i < outdated.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(firestore);
+      outdated.slice(i, i + BATCH_LIMIT).forEach(doc => batch.update(doc.ref, { buildingId: buildingIdByLease.get(doc.data().leaseAgreementId) }));
+      try {
+        await batch.commit();
+      } catch (error) {
+        errorEmitter.emit(
+          'permission-error',
+          new FirestorePermissionError({
+            path: name,
+            operation: 'update',
+            requestResourceData: { note: `Failed to copy lease building ids onto ${name} in portfolio ${portfolioId}.` },
+          })
+        );
+        throw error;
+      }
+    }
+  }
+
+  if (Object.values(updatedCounts).some(count => count > 0)) {
+    appendAuditLogs(firestore, [{
+      action: 'sync_building_ids',
+      details: { collection: 'portfolios', documentId: portfolioId, updatedCounts },
+    }]);
+  }
+
+  return updatedCounts;
+}
+
+/**
+ * Creates the user's personal portfolio with the user as its owner, then moves the user's
+ * existing data into it.
+ */
+export async function createPersonalPortfolio(firestore: Firestore, user: User): Promise<{ portfolio: Portfolio; membership: PortfolioMember }> {
+  const portfolioId = getPersonalPortfolioId(user.uid);
+  const portfolioRef = doc(firestore, 'portfolios', portfolioId);
+  const memberRef = doc(firestore, 'portfolios', portfolioId, 'members', user.uid);
+
+  const portfolioData = {
+    id: portfolioId,
+    name: `${user.displayName || user.email || '내'} 포트폴리오`,
+    ownerId: user.uid,
+    createdAt: serverTimestamp(),
+  };
+  const memberData = {
+    id: user.uid,
+    portfolioId,
+    userId: user.uid,
+    email: normalizeEmail(user.email || ''),
+    displayName: user.displayName || '',
+    role: 'owner' as PortfolioRole,
+    joinedAt: serverTimestamp(),
+  };
+
+  const batch = writeBatch(firestore);
+  batch.set(portfolioRef, portfolioData);
+  batch.set(memberRef, memberData);
+  try {
+    await batch.commit();
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: portfolioRef.path,
+        operation: 'create',
+        requestResourceData: portfolioData,
+      })
+    );
+    throw error;
+  }
+
+  appendAuditLogs(firestore, [{
+    action: 'create_portfolio',
+    details: { collection: 'portfolios', documentId: portfolioId, name: portfolioData.name },
+  }]);
+  await migrateLegacyData(firestore, user.uid, portfolioId);
+
+  // `createdAt` and `joinedAt` are still server timestamp sentinels here; nothing reads them before a reload.
+  return {
+    portfolio: portfolioData as unknown as Portfolio,
+    membership: memberData as unknown as PortfolioMember,
+  };
+}
+
+/**
+ * Invites an email address to a portfolio with the given role. Only the portfolio's owners may invite.
+ * Guests are invited to read the given buildings only; their lease records are prepared for that first.
+ */
+export async function invitePortfolioMember(firestore: Firestore, portfolio: Portfolio, email: string, role: PortfolioRole, invitedBy: string, buildingIds: string[] = []) {
+  const invitationId = normalizeEmail(email);
+  const invitationRef = doc(firestore, 'portfolios', portfolio.id, 'invitations', invitationId);
+  const data = {
+    id: invitationId,
+    portfolioId: portfolio.id,
+    portfolioName: portfolio.name,
+    email: invitationId,
+    role,
+    ...(role === 'guest' && { buildingIds }),
+    invitedBy,
+    createdAt: serverTimestamp(),
+  };
+  if (role === 'guest') {
+    await syncLeaseBuildingIds(firestore, portfolio.id);
+  }
+  try {
+    await setDoc(invitationRef, data);
+    appendAuditLogs(firestore, [{
+      action: 'invite_portfolio_member',
+      details: { collection: 'portfolios', documentId: portfolio.id, email: invitationId, role, ...(role === 'guest' && { buildingIds }) },
+    }]);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: invitationRef.path,
+        operation: 'create',
+        requestResourceData: data,
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Withdraws an invitation (by an owner) or declines it (by the invited user).
+ */
+export async function deletePortfolioInvitation(firestore: Firestore, invitation: PortfolioInvitation) {
+  const invitationRef = doc(firestore, 'portfolios', invitation.portfolioId, 'invitations', invitation.id);
+  try {
+    await deleteDoc(invitationRef);
+    appendAuditLogs(firestore, [{
+      action: 'cancel_portfolio_invitation',
+      details: { collection: 'portfolios', documentId: invitation.portfolioId, email: invitation.email },
+    }]);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: invitationRef.path,
+        operation: 'delete',
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Joins a portfolio with the role of the user's invitation, and removes the invitation.
+ */
+export async function acceptPortfolioInvitation(firestore: Firestore, invitation: PortfolioInvitation, user: User): Promise<PortfolioMember> {
+  const memberRef = doc(firestore, 'portfolios', invitation.portfolioId, 'members', user.uid);
+  const invitationRef = doc(firestore, 'portfolios', invitation.portfolioId, 'invitations', invitation.id);
+  const memberData = {
+    id: user.uid,
+    portfolioId: invitation.portfolioId,
+    userId: user.uid,
+    email: invitation.email,
+    displayName: user.displayName || '',
+    role: invitation.role,
+    ...(invitation.buildingIds && { buildingIds: invitation.buildingIds }),
+    joinedAt: serverTimestamp(),
+  };
+
+  const batch = writeBatch(firestore);
+  batch.set(memberRef, memberData);
+  batch.delete(invitationRef);
+  try {
+    await batch.commit();
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: memberRef.path,
+        operation: 'create',
+        requestResourceData: memberData,
+      })
+    );
+    throw error;
+  }
+
+  appendAuditLogs(firestore, [{
+    action: 'join_portfolio',
+    details: { collection: 'portfolios', documentId: invitation.portfolioId, email: invitation.email, role: invitation.role },
+  }]);
+  return memberData as unknown as PortfolioMember;
+}
+
+export async function updatePortfolioMemberRole(firestore: Firestore, member: PortfolioMember, role: PortfolioRole) {
+  const memberRef = doc(firestore, 'portfolios', member.portfolioId, 'members', member.userId);
+  try {
+    await updateDoc(memberRef, { role });
+    appendAuditLogs(firestore, [{
+      action: 'change_portfolio_member_role',
+      details: {
+        collection: 'portfolios',
+        documentId: member.portfolioId,
+        email: member.email,
+        changes: { role: { before: member.role, after: role } },
+      },
+    }]);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: memberRef.path,
+        operation: 'update',
+        requestResourceData: { role },
+      })
+    );
+    throw error;
+  }
+}
+
+/**
+ * Removes a member from a portfolio (by an owner) or leaves it (by the member).
+ */
+export async function removePortfolioMember(firestore: Firestore, member: PortfolioMember) {
+  const memberRef = doc(firestore, 'portfolios', member.portfolioId, 'members', member.userId);
+  try {
+    await deleteDoc(memberRef);
+    appendAuditLogs(firestore, [{
+      action: 'remove_portfolio_member',
+      details: { collection: 'portfolios', documentId: member.portfolioId, email: member.email, role: member.role },
+    }]);
+  } catch (error) {
+    errorEmitter.emit(
+      'permission-error',
+      new FirestorePermissionError({
+        path: memberRef.path,
+        operation: 'delete',
+      })
+    );
+    throw error;
+  }
+}
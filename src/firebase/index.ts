@@ -44,6 +44,7 @@ export * from './provider';
 export * from './client-provider';
 export * from './firestore/use-collection';
 export * from './firestore/use-doc';
+export * from './firestore/lease-records';
 export * from './non-blocking-updates';
 export * from './non-blocking-login';
 export * from './errors';
@@ -15,18 +15,34 @@ import {
   DocumentReference,
   SetOptions,
   CollectionReference,
+  WriteBatch,
   serverTimestamp,
 } from 'firebase/firestore';
 import { errorEmitter } from '@/firebase/error-emitter';
 import {FirestorePermissionError} from '@/firebase/errors';
 import { v4 as uuidv4 } from 'uuid';
+import { DepositorAlias, DepositTransaction, LeaseAgreement, MaintenanceFee, MeterReading, Payment, PaymentReceipt, Renewal, RentInvoice, TaxInvoice, UserProfile } from '@/lib/types';
+import { DocumentChange, appendAuditLogs, logDocumentChanges, readAuditSnapshot, readAuditSnapshots } from '@/firebase/firestore/audit-log';
+import { diffDocuments } from '@/lib/audit-log';
+import { UnitConflictError, findUnitConflicts } from '@/lib/occupancy';
+
+// The collection and id of a document reference, for audit log entries.
+const changeOf = (docRef: DocumentReference, before: Record<string, any> | null, after: Record<string, any> | null): DocumentChange => ({
+  collection: docRef.parent.id,
+  documentId: docRef.id,
+  before,
+  after,
+});
 
 /**
  * Initiates a setDoc operation for a document reference.
- * Does NOT await the write operation internally.
+ * Does NOT await the write operation internally. The document is read first so the
+ * change can be logged; await the returned promise to wait for the write.
  */
 export function setDocumentNonBlocking(docRef: DocumentReference, data: any, options?: SetOptions) {
-  setDoc(docRef, data, options || {})
+  return readAuditSnapshot(docRef)
+    .then(before => setDoc(docRef, data, options || {})
+      .then(() => logDocumentChanges(docRef.firestore, [changeOf(docRef, before, options && 'merge' in options && options.merge ? { ...before, ...data } : data)])))
     .catch(error => {
       errorEmitter.emit(
         'permission-error',
@@ -45,6 +61,7 @@ export function setDocumentNonBlocking(docRef: DocumentReference, data: any, opt
  */
 export function addDocumentNonBlocking(docRef: DocumentReference, data: any) {
   setDoc(docRef, data)
+    .then(() => logDocumentChanges(docRef.firestore, [changeOf(docRef, null, data)]))
     .catch(error => {
     errorEmitter.emit(
       'permission-error',
@@ -59,10 +76,12 @@ export function addDocumentNonBlocking(docRef: DocumentReference, data: any) {
 
 
 /**
- * Initiates an updateDoc operation for a document reference.
+ * Initiates an updateDoc operation for a document reference, reading the document first to log the change.
  */
 export function updateDocumentNonBlocking(docRef: DocumentReference, data: any) {
-  updateDoc(docRef, data)
+  return readAuditSnapshot(docRef)
+    .then(before => updateDoc(docRef, data)
+      .then(() => logDocumentChanges(docRef.firestore, [changeOf(docRef, before, { ...before, ...data })])))
     .catch(error => {
       errorEmitter.emit(
         'permission-error',
@@ -77,10 +96,12 @@ export function updateDocumentNonBlocking(docRef: DocumentReference, data: any)
 
 
 /**
- * Initiates a deleteDoc operation for a document reference.
+ * Initiates a deleteDoc operation for a document reference, reading the document first to log the change.
  */
 export function deleteDocumentNonBlocking(docRef: DocumentReference) {
-  deleteDoc(docRef)
+  return readAuditSnapshot(docRef)
+    .then(before => deleteDoc(docRef)
+      .then(() => logDocumentChanges(docRef.firestore, [changeOf(docRef, before, null)])))
     .catch(error => {
       errorEmitter.emit(
         'permission-error',
@@ -92,30 +113,52 @@ export function deleteDocumentNonBlocking(docRef: DocumentReference) {
     });
 }
 
+// Firestore rejects batches with more than 500 writes.
+const BATCH_LIMIT = 500;
+
+// Collections whose documents belong to a lease through `leaseAgreementId` and are deleted with it.
+// Queued reminder messages go too, so they are not sent for a deleted lease.
+const leaseRelatedCollections = [
+    'payments',
+    'rentAdjustments',
+    'depositTransactions',
+    'taxInvoices',
+    'depositorAliases',
+    'reminderMessages',
+    'rentInvoices',
+    'paymentReceipts',
+];
+
 /**
- * Deletes a lease agreement and all related payments and rent adjustments.
+ * Deletes a lease agreement and all related payments, rent adjustments, deposit transactions, tax invoices,
+ * depositor aliases, reminder messages, rent invoices and payment receipts. The related documents go first
+ * and the lease last, in batches within Firestore's limit, so a failed batch leaves the lease in place to
+ * delete again. Every deleted document is logged.
  */
 export async function deleteLeaseAgreementWithRelations(firestore: Firestore, leaseId: string) {
     if (!leaseId) return;
 
-    const batch = writeBatch(firestore);
-
-    // 1. Delete the lease agreement itself
     const leaseRef = doc(firestore, 'leaseAgreements', leaseId);
-    batch.delete(leaseRef);
+    const before = await readAuditSnapshot(leaseRef);
 
-    // 2. Find and delete related payments
-    const paymentsQuery = query(collection(firestore, 'payments'), where('leaseAgreementId', '==', leaseId));
-    const paymentsSnapshot = await getDocs(paymentsQuery);
-    paymentsSnapshot.forEach(doc => batch.delete(doc.ref));
-    
-    // 3. Find and delete related rent adjustments
-    const adjustmentsQuery = query(collection(firestore, 'rentAdjustments'), where('leaseAgreementId', '==', leaseId));
-    const adjustmentsSnapshot = await getDocs(adjustmentsQuery);
-    adjustmentsSnapshot.forEach(doc => batch.delete(doc.ref));
+    // Related documents are looked up within the lease's portfolio, which the rules require of queries.
+    const portfolioId = before?.portfolioId ?? '';
+    const relatedSnapshots = await Promise.all(leaseRelatedCollections.map(name =>
+        getDocs(query(collection(firestore, name), where('portfolioId', '==', portfolioId), where('leaseAgreementId', '==', leaseId)))
+    ));
+    const deletions = [
+        ...relatedSnapshots.flatMap(snapshot => snapshot.docs.map(related => ({ ref: related.ref, before: related.data() }))),
+        { ref: leaseRef, before },
+    ];
 
     try {
-        await batch.commit();
+        for (let i = 0; i < deletions.length; i += BATCH_LIMIT) {
+            const chunk = deletions.slice(i, i + BATCH_LIMIT);
+            const batch = writeBatch(firestore);
+            chunk.forEach(({ ref }) => batch.delete(ref));
+            await batch.commit();
+            logDocumentChanges(firestore, chunk.map(({ ref, before }) => changeOf(ref, before, null)));
+        }
         console.log(`Successfully deleted lease ${leaseId} and all related documents.`);
     } catch (error) {
         console.error("Error deleting lease agreement with relations:", error);
@@ -130,13 +173,109 @@ export async function deleteLeaseAgreementWithRelations(firestore: Firestore, le
 }
 
 
+/**
+ * Saves the renewal pipeline status and note of a lease.
+ */
+export async function updateLeaseRenewalStatus(firestore: Firestore, leaseId: string, data: Pick<LeaseAgreement, 'renewalStatus' | 'renewalNote'>) {
+    const leaseRef = doc(firestore, 'leaseAgreements', leaseId);
+    const before = await readAuditSnapshot(leaseRef);
+    try {
+        await updateDoc(leaseRef, data);
+        logDocumentChanges(firestore, [changeOf(leaseRef, before, { ...before, ...data })]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: leaseRef.path,
+              operation: 'update',
+              requestResourceData: data,
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Saves how a lease's credit balance is handled. Unlike `updateDocumentNonBlocking`, a failed
+ * write is rethrown so the ledger can report it.
+ */
+export async function updateLeaseCreditHandling(firestore: Firestore, leaseId: string, data: Pick<LeaseAgreement, 'creditHandling'>) {
+    const leaseRef = doc(firestore, 'leaseAgreements', leaseId);
+    const before = await readAuditSnapshot(leaseRef);
+    try {
+        await updateDoc(leaseRef, data);
+        logDocumentChanges(firestore, [changeOf(leaseRef, before, { ...before, ...data })]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: leaseRef.path,
+              operation: 'update',
+              requestResourceData: data,
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Appends a renewal to a lease, in the same shape the lease form saves. The pipeline status starts
+ * over for the renewed term.
+ */
+export async function recordLeaseRenewal(firestore: Firestore, leaseId: string, renewal: Renewal) {
+    const leaseRef = doc(firestore, 'leaseAgreements', leaseId);
+    const before = await readAuditSnapshot(leaseRef);
+    if (!before) {
+        throw new Error('임대 계약 정보를 찾을 수 없습니다.');
+    }
+    const lease = { ...before, id: leaseId } as LeaseAgreement;
+    const renewals = [...(lease.renewals || []), renewal];
+
+    // The renewal extends the lease's hold on its units, so it must not reach into another lease of them.
+    const buildingLeasesSnapshot = await getDocs(query(
+        collection(firestore, 'leaseAgreements'),
+        where('portfolioId', '==', lease.portfolioId),
+        where('buildingId', '==', lease.buildingId)
+    ));
+    const conflicts = findUnitConflicts(
+        { ...lease, renewals },
+        buildingLeasesSnapshot.docs.map(d => ({ ...d.data(), id: d.id } as LeaseAgreement))
+    );
+    if (conflicts.length > 0) {
+        throw new UnitConflictError(conflicts);
+    }
+
+    const data = {
+        renewals,
+        renewalStatus: 'not_contacted',
+        renewalNote: '',
+        updatedAt: serverTimestamp(),
+    };
+    try {
+        await updateDoc(leaseRef, data);
+        logDocumentChanges(firestore, [changeOf(leaseRef, before, { ...before, ...data })]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: leaseRef.path,
+              operation: 'update',
+              requestResourceData: data,
+            })
+        );
+        throw error;
+    }
+}
+
 /**
  * Updates a single rent adjustment record, creating it if it doesn't exist.
  */
 export async function updateRentAdjustment(firestore: Firestore, adjustmentId: string, data: any) {
     const adjustmentRef = doc(firestore, 'rentAdjustments', adjustmentId);
+    const before = await readAuditSnapshot(adjustmentRef);
     try {
         await setDoc(adjustmentRef, data, { merge: true });
+        logDocumentChanges(firestore, [changeOf(adjustmentRef, before, { ...before, ...data })]);
     } catch (error) {
          errorEmitter.emit(
             'permission-error',
@@ -152,8 +291,10 @@ export async function updateRentAdjustment(firestore: Firestore, adjustmentId: s
 
 export async function deleteRentAdjustment(firestore: Firestore, adjustmentId: string) {
     const adjustmentRef = doc(firestore, 'rentAdjustments', adjustmentId);
+    const before = await readAuditSnapshot(adjustmentRef);
     try {
         await deleteDoc(adjustmentRef);
+        logDocumentChanges(firestore, [changeOf(adjustmentRef, before, null)]);
     } catch (error) {
         errorEmitter.emit(
             'permission-error',
@@ -165,3 +306,465 @@ export async function deleteRentAdjustment(firestore: Firestore, adjustmentId: s
         throw error;
     }
 }
+
+/**
+ * Saves a deposit transaction. A rent offset also writes the payment that settles the
+ * offset rent on the lease ledger, in the same batch.
+ */
+export async function saveDepositTransaction(firestore: Firestore, transaction: DepositTransaction, offsetPayment?: Payment) {
+    const transactionRef = doc(firestore, 'depositTransactions', transaction.id);
+    const paymentRef = offsetPayment ? doc(firestore, 'payments', offsetPayment.id) : null;
+    const [before, paymentBefore] = await Promise.all([
+        readAuditSnapshot(transactionRef),
+        paymentRef ? readAuditSnapshot(paymentRef) : null,
+    ]);
+    const batch = writeBatch(firestore);
+    batch.set(transactionRef, transaction, { merge: true });
+    if (paymentRef && offsetPayment) {
+        batch.set(paymentRef, offsetPayment, { merge: true });
+    }
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, [
+            changeOf(transactionRef, before, { ...before, ...transaction }),
+            ...(paymentRef ? [changeOf(paymentRef, paymentBefore, { ...paymentBefore, ...offsetPayment })] : []),
+        ]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: transactionRef.path,
+              operation: 'write',
+              requestResourceData: transaction,
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Deletes a deposit transaction together with the payment it created, if any.
+ */
+export async function deleteDepositTransaction(firestore: Firestore, transaction: DepositTransaction) {
+    const transactionRef = doc(firestore, 'depositTransactions', transaction.id);
+    const paymentRef = transaction.paymentId ? doc(firestore, 'payments', transaction.paymentId) : null;
+    const paymentBefore = paymentRef ? await readAuditSnapshot(paymentRef) : null;
+    const batch = writeBatch(firestore);
+    batch.delete(transactionRef);
+    if (paymentRef) {
+        batch.delete(paymentRef);
+    }
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, [
+            changeOf(transactionRef, transaction, null),
+            ...(paymentRef ? [changeOf(paymentRef, paymentBefore, null)] : []),
+        ]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: transactionRef.path,
+              operation: 'delete',
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Saves a building's monthly maintenance fee, creating it if it doesn't exist.
+ */
+export async function saveMaintenanceFee(firestore: Firestore, fee: MaintenanceFee) {
+    const feeRef = doc(firestore, 'maintenanceFees', fee.id);
+    const before = await readAuditSnapshot(feeRef);
+    try {
+        await setDoc(feeRef, fee, { merge: true });
+        logDocumentChanges(firestore, [changeOf(feeRef, before, { ...before, ...fee })]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: feeRef.path,
+              operation: 'write',
+              requestResourceData: fee,
+            })
+        );
+        throw error;
+    }
+}
+
+export async function deleteMaintenanceFee(firestore: Firestore, feeId: string) {
+    const feeRef = doc(firestore, 'maintenanceFees', feeId);
+    const before = await readAuditSnapshot(feeRef);
+    try {
+        await deleteDoc(feeRef);
+        logDocumentChanges(firestore, [changeOf(feeRef, before, null)]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: feeRef.path,
+              operation: 'delete',
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Saves the meter readings of one month in a single batch, overwriting readings with the same id.
+ */
+export async function saveMeterReadings(firestore: Firestore, readings: MeterReading[]) {
+    const befores = await readAuditSnapshots(firestore, 'meterReadings', readings.map(reading => reading.id));
+    const batch = writeBatch(firestore);
+    readings.forEach(reading => {
+        batch.set(doc(firestore, 'meterReadings', reading.id), reading, { merge: true });
+    });
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, readings.map(reading => {
+            const before = befores.get(reading.id) || null;
+            return { collection: 'meterReadings', documentId: reading.id, before, after: { ...before, ...reading } };
+        }));
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: 'meterReadings',
+              operation: 'write',
+              requestResourceData: readings,
+            })
+        );
+        throw error;
+    }
+}
+
+export async function deleteMeterReading(firestore: Firestore, readingId: string) {
+    const readingRef = doc(firestore, 'meterReadings', readingId);
+    const before = await readAuditSnapshot(readingRef);
+    try {
+        await deleteDoc(readingRef);
+        logDocumentChanges(firestore, [changeOf(readingRef, before, null)]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: readingRef.path,
+              operation: 'delete',
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Saves tax invoices in a single batch, overwriting invoices with the same id.
+ * Used both to create a month's drafts and to record an issue, amendment or cancellation.
+ */
+export async function saveTaxInvoices(firestore: Firestore, invoices: TaxInvoice[]) {
+    const befores = await readAuditSnapshots(firestore, 'taxInvoices', invoices.map(invoice => invoice.id));
+    const batch = writeBatch(firestore);
+    invoices.forEach(invoice => {
+        batch.set(doc(firestore, 'taxInvoices', invoice.id), invoice, { merge: true });
+    });
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, invoices.map(invoice => {
+            const before = befores.get(invoice.id) || null;
+            return { collection: 'taxInvoices', documentId: invoice.id, before, after: { ...before, ...invoice } };
+        }));
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: 'taxInvoices',
+              operation: 'write',
+              requestResourceData: invoices,
+            })
+        );
+        throw error;
+    }
+}
+
+export async function deleteTaxInvoice(firestore: Firestore, invoiceId: string) {
+    const invoiceRef = doc(firestore, 'taxInvoices', invoiceId);
+    const before = await readAuditSnapshot(invoiceRef);
+    try {
+        await deleteDoc(invoiceRef);
+        logDocumentChanges(firestore, [changeOf(invoiceRef, before, null)]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: invoiceRef.path,
+              operation: 'delete',
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Saves rent invoices in a single batch, overwriting invoices with the same id.
+ * Used to void issued invoices; new invoices take their numbers through `saveNumberedDocuments`.
+ */
+export async function saveRentInvoices(firestore: Firestore, invoices: RentInvoice[]) {
+    const befores = await readAuditSnapshots(firestore, 'rentInvoices', invoices.map(invoice => invoice.id));
+    const batch = writeBatch(firestore);
+    invoices.forEach(invoice => {
+        batch.set(doc(firestore, 'rentInvoices', invoice.id), invoice, { merge: true });
+    });
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, invoices.map(invoice => {
+            const before = befores.get(invoice.id) || null;
+            return { collection: 'rentInvoices', documentId: invoice.id, before, after: { ...before, ...invoice } };
+        }));
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: 'rentInvoices',
+              operation: 'write',
+              requestResourceData: invoices,
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Saves payment receipts in one batch, e.g. to mark issued receipts void. New receipts take
+ * their numbers through `saveNumberedDocuments`.
+ */
+export async function savePaymentReceipts(firestore: Firestore, receipts: PaymentReceipt[]) {
+    const befores = await readAuditSnapshots(firestore, 'paymentReceipts', receipts.map(receipt => receipt.id));
+    const batch = writeBatch(firestore);
+    receipts.forEach(receipt => {
+        batch.set(doc(firestore, 'paymentReceipts', receipt.id), receipt, { merge: true });
+    });
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, receipts.map(receipt => {
+            const before = befores.get(receipt.id) || null;
+            return { collection: 'paymentReceipts', documentId: receipt.id, before, after: { ...before, ...receipt } };
+        }));
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: 'paymentReceipts',
+              operation: 'write',
+              requestResourceData: receipts,
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Creates the payments confirmed from a bank statement import, together with the depositor
+ * aliases to remember, in a single batch.
+ */
+export async function importBankPayments(firestore: Firestore, payments: Payment[], aliases: DepositorAlias[]) {
+    const batch = writeBatch(firestore);
+    payments.forEach(payment => {
+        batch.set(doc(firestore, 'payments', payment.id), payment);
+    });
+    aliases.forEach(alias => {
+        batch.set(doc(firestore, 'depositorAliases', alias.id), alias);
+    });
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, [
+            ...payments.map(payment => ({ collection: 'payments', documentId: payment.id, before: null, after: payment })),
+            ...aliases.map(alias => ({ collection: 'depositorAliases', documentId: alias.id, before: null, after: alias })),
+        ], { source: 'bank_import' });
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: 'payments',
+              operation: 'create',
+              requestResourceData: { payments, aliases },
+            })
+        );
+        throw error;
+    }
+}
+
+export async function deleteDepositorAlias(firestore: Firestore, aliasId: string) {
+    const aliasRef = doc(firestore, 'depositorAliases', aliasId);
+    const before = await readAuditSnapshot(aliasRef);
+    try {
+        await deleteDoc(aliasRef);
+        logDocumentChanges(firestore, [changeOf(aliasRef, before, null)]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: aliasRef.path,
+              operation: 'delete',
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Creates payment records in a single batch.
+ */
+export async function createPayments(firestore: Firestore, payments: Payment[]) {
+    const batch = writeBatch(firestore);
+    payments.forEach(payment => {
+        batch.set(doc(firestore, 'payments', payment.id), payment);
+    });
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, payments.map(payment => ({ collection: 'payments', documentId: payment.id, before: null, after: payment })));
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: 'payments',
+              operation: 'create',
+              requestResourceData: payments,
+            })
+        );
+        throw error;
+    }
+}
+
+// Marks the given issued receipts void in `batch`, returning the changes to log once it commits.
+function voidReceiptsInBatch(firestore: Firestore, batch: WriteBatch, issuedReceipts: PaymentReceipt[], voidReason: string): DocumentChange[] {
+    return issuedReceipts.map(receipt => {
+        const receiptRef = doc(firestore, 'paymentReceipts', receipt.id);
+        batch.update(receiptRef, { status: 'void', voidReason });
+        return changeOf(receiptRef, receipt, { ...receipt, status: 'void', voidReason });
+    });
+}
+
+/**
+ * Records a refund, reversal or chargeback against a payment. The given issued receipts of the
+ * payment are marked void in the same batch, since they no longer show what was paid.
+ */
+export async function recordPaymentWithdrawal(firestore: Firestore, withdrawal: Payment, issuedReceipts: PaymentReceipt[] = [], voidReason = '') {
+    const paymentRef = doc(firestore, 'payments', withdrawal.id);
+    const batch = writeBatch(firestore);
+    batch.set(paymentRef, withdrawal);
+    const receiptChanges = voidReceiptsInBatch(firestore, batch, issuedReceipts, voidReason);
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, [changeOf(paymentRef, null, withdrawal), ...receiptChanges]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: 'payments',
+              operation: 'create',
+              requestResourceData: withdrawal,
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Updates a payment. The given issued receipts of the payment are marked void in the same
+ * batch, for an edit that changes the amounts printed on them.
+ */
+export async function updatePayment(firestore: Firestore, paymentId: string, data: Record<string, any>, issuedReceipts: PaymentReceipt[] = [], voidReason = '') {
+    const paymentRef = doc(firestore, 'payments', paymentId);
+    const before = await readAuditSnapshot(paymentRef);
+    const batch = writeBatch(firestore);
+    batch.update(paymentRef, data);
+    const receiptChanges = voidReceiptsInBatch(firestore, batch, issuedReceipts, voidReason);
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, [changeOf(paymentRef, before, { ...before, ...data }), ...receiptChanges]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: paymentRef.path,
+              operation: 'update',
+              requestResourceData: data,
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Deletes a payment and marks its given issued receipts void in the same batch, so no receipt
+ * stays valid for a payment that is no longer recorded.
+ */
+export async function deletePayment(firestore: Firestore, paymentId: string, issuedReceipts: PaymentReceipt[] = [], voidReason = '') {
+    const paymentRef = doc(firestore, 'payments', paymentId);
+    const before = await readAuditSnapshot(paymentRef);
+    const batch = writeBatch(firestore);
+    batch.delete(paymentRef);
+    const receiptChanges = voidReceiptsInBatch(firestore, batch, issuedReceipts, voidReason);
+
+    try {
+        await batch.commit();
+        logDocumentChanges(firestore, [changeOf(paymentRef, before, null), ...receiptChanges]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: paymentRef.path,
+              operation: 'delete',
+            })
+        );
+        throw error;
+    }
+}
+
+/**
+ * Approves, revokes or changes the role of another user's profile. Only admins may do this.
+ * Each field that actually changes is logged on its own, as `approve_user` or `revoke_user`
+ * for `isApproved` and `change_user_role` for `role`.
+ */
+export async function updateUserAccess(firestore: Firestore, userId: string, data: Partial<Pick<UserProfile, 'isApproved' | 'role'>>) {
+    const userRef = doc(firestore, 'users', userId);
+    const before = await readAuditSnapshot(userRef);
+    try {
+        await updateDoc(userRef, data);
+        const changes = diffDocuments(before, { ...before, ...data });
+        const entryOf = (action: string, field: 'isApproved' | 'role') => ({
+            action,
+            details: {
+                collection: 'users',
+                documentId: userId,
+                email: before?.email,
+                changes: { [field]: changes[field] },
+            },
+        });
+        appendAuditLogs(firestore, [
+            ...(changes.isApproved ? [entryOf(data.isApproved ? 'approve_user' : 'revoke_user', 'isApproved')] : []),
+            ...(changes.role ? [entryOf('change_user_role', 'role')] : []),
+        ]);
+    } catch (error) {
+        errorEmitter.emit(
+            'permission-error',
+            new FirestorePermissionError({
+              path: userRef.path,
+              operation: 'update',
+              requestResourceData: data,
+            })
+        );
+        throw error;
+    }
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { NotificationSettings, NotificationState } from '@/lib/types';
+import { AppNotification } from '@/lib/notifications';
+
+export interface NotificationCenterState {
+  notifications: AppNotification[]; // 미루기 중인 알림을 뺀 현재 알림
+  states: Record<string, NotificationState>; // 알림 ID → 읽음/미루기 상태
+  unreadCount: number;
+  isLoading: boolean;
+  settings: NotificationSettings;
+  markRead: (ids: string[]) => void;
+  snooze: (id: string, days: number) => void;
+  saveSettings: (settings: NotificationSettings) => Promise<void>; // 저장 후 다시 검사
+  refresh: () => void;
+}
+
+// Notifications of the active portfolio, provided by the app layout so the scan runs once per portfolio.
+export const NotificationContext = createContext<NotificationCenterState | null>(null);
+
+export function useNotifications(): NotificationCenterState | null {
+  return useContext(NotificationContext);
+}
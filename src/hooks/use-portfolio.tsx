@@ -0,0 +1,19 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { Portfolio, PortfolioMember } from '@/lib/types';
+
+export interface PortfolioState {
+  portfolio: Portfolio; // 현재 선택된 포트폴리오
+  membership: PortfolioMember; // 선택된 포트폴리오에서의 내 구성원 정보
+  portfolios: Portfolio[]; // 내가 속한 모든 포트폴리오
+  switchPortfolio: (portfolioId: string) => void;
+  reloadPortfolios: () => void; // 초대 수락, 탈퇴 등으로 소속이 바뀐 뒤 다시 불러옴
+}
+
+// The active portfolio, provided by the app layout once the user's memberships have been loaded.
+export const PortfolioContext = createContext<PortfolioState | null>(null);
+
+export function usePortfolio(): PortfolioState | null {
+  return useContext(PortfolioContext);
+}
@@ -0,0 +1,11 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { UserProfile } from '@/lib/types';
+
+// The signed-in user's profile, provided by the app layout once it has been loaded.
+export const UserProfileContext = createContext<UserProfile | null>(null);
+
+export function useUserProfile(): UserProfile | null {
+  return useContext(UserProfileContext);
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { LeaseAgreement, Payment } from './types';
+import { agingBuckets, calculateLeaseAging, getAgingBucket } from './aging';
+import { calculateLeaseBalance } from './rent-schedule';
+import { calculateLeaseFees } from './utility-billing';
+
+const lease = (overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id: 'lease-1',
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '테스트빌딩',
+  tenantName: '홍길동',
+  tenantContact: '010-0000-0000',
+  tenantAddress: '',
+  unitIds: ['unit-1'],
+  leaseStartDate: new Date(2024, 0, 1),
+  leaseEndDate: new Date(2024, 11, 31),
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+const payment = (id: string, date: Date, amount: number, overrides: Partial<Payment> = {}): Payment => ({
+  id,
+  portfolioId: 'portfolio-1',
+  leaseAgreementId: 'lease-1',
+  paymentDate: date,
+  paymentAmount: amount,
+  ...overrides,
+});
+
+describe('getAgingBucket', () => {
+  it('puts each day count in its bucket, bounds included in the lower bucket', () => {
+    expect([0, 1, 30, 31, 60, 61, 90, 91].map(getAgingBucket)).toEqual([
+      'current', 'days1to30', 'days1to30', 'days31to60', 'days31to60', 'days61to90', 'days61to90', 'days90plus',
+    ]);
+  });
+});
+
+describe('calculateLeaseAging', () => {
+  const asOf = new Date(2024, 3, 15);
+
+  // Rent is due at the end of each month; the month in progress is billed up to the as-of date.
+  it('buckets each unpaid month by the days since its due date', () => {
+    const aging = calculateLeaseAging(lease(), [], [], [], asOf);
+
+    expect(aging.items.map(item => item.daysPastDue)).toEqual([75, 46, 15, -15]);
+    expect(aging.buckets).toEqual({ current: 500_000, days1to30: 1_000_000, days31to60: 1_000_000, days61to90: 1_000_000, days90plus: 0 });
+    expect(aging.oldestDueDate).toEqual(new Date(2024, 0, 31, 23, 59, 59, 999));
+  });
+
+  it('leaves out months covered by payments, oldest first', () => {
+    const aging = calculateLeaseAging(lease(), [], [payment('p1', new Date(2024, 1, 10), 1_500_000)], [], asOf);
+
+    expect(aging.buckets.days61to90).toBe(0);
+    expect(aging.buckets.days31to60).toBe(500_000);
+    expect(aging.items[0].description).toBe('2024-02월분 임대료');
+  });
+
+  it('ignores payments dated after the as-of date', () => {
+    const aging = calculateLeaseAging(lease(), [], [payment('p1', new Date(2024, 3, 20), 3_500_000)], [], asOf);
+
+    expect(aging.total).toBe(3_500_000);
+  });
+
+  it('reports money left over after every charge as credit', () => {
+    const aging = calculateLeaseAging(lease(), [], [payment('p1', new Date(2024, 0, 5), 4_000_000)], [], asOf);
+
+    expect(aging.items).toEqual([]);
+    expect(aging.credit).toBe(500_000);
+    expect(aging.total).toBe(-500_000);
+  });
+
+  it('totals to the ledger balance with fees, late interest and a reversal', () => {
+    const billed = lease({
+      vatTreatment: 'excluded',
+      lateInterestRate: 12,
+      lateInterestGraceDays: 5,
+      maintenanceFeeMethod: 'fixed',
+      maintenanceFeeAmount: 150_000,
+    });
+    const payments = [
+      payment('p1', new Date(2024, 0, 3), 1_250_000, { maintenanceFeeAmount: 150_000 }),
+      payment('p2', new Date(2024, 2, 20), 1_000_000),
+      payment('p2-reversal', new Date(2024, 2, 25), -400_000, { type: 'reversal', originalPaymentId: 'p2', reason: '이체 반환' }),
+    ];
+    const fees = calculateLeaseFees(billed, undefined, [], [], asOf);
+
+    const aging = calculateLeaseAging(billed, [], payments, fees, asOf);
+    const { balance } = calculateLeaseBalance(billed, [], payments, asOf, fees);
+
+    expect(aging.interest).toBeGreaterThan(0);
+    expect(aging.total).toBe(balance);
+    expect(agingBuckets.reduce((sum, bucket) => sum + aging.buckets[bucket], 0) + aging.interest - aging.credit).toBe(aging.total);
+  });
+});
@@ -0,0 +1,109 @@
+import { differenceInCalendarDays, startOfDay } from "date-fns";
+import { LeaseAgreement, Payment, RentAdjustment } from "./types";
+import { allocatePayments, calculateDues, calculateLateInterest, toDate } from "./rent-schedule";
+import type { MaintenanceFeeLine } from "./maintenance-fee";
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus';
+
+export const agingBuckets: AgingBucket[] = ['current', 'days1to30', 'days31to60', 'days61to90', 'days90plus'];
+
+export const agingBucketLabels: Record<AgingBucket, string> = {
+  current: '기한 내',
+  days1to30: '1~30일',
+  days31to60: '31~60일',
+  days61to90: '61~90일',
+  days90plus: '90일 초과',
+};
+
+/**
+ * An unpaid rent due or fee line of a lease with the days it is past its due date.
+ */
+export interface AgingItem {
+  dueDate: Date;
+  description: string;
+  unpaid: number;
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+export interface LeaseAging {
+  items: AgingItem[];
+  buckets: Record<AgingBucket, number>;
+  interest: number; // 미납 연체이자 (버킷에 포함하지 않음)
+  credit: number; // 어느 청구에도 충당되지 않고 남은 납부액 (선납)
+  total: number; // 버킷 합계 + 연체이자 - 선납액 = 원장 잔액
+  oldestDueDate: Date | null;
+}
+
+export function getAgingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days1to30';
+  if (daysPastDue <= 60) return 'days31to60';
+  if (daysPastDue <= 90) return 'days61to90';
+  return 'days90plus';
+}
+
+export const emptyAgingBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  days90plus: 0,
+});
+
+/**
+ * Buckets the unpaid dues of a lease by days past their due date. Rent dues come from the same
+ * schedule and payment allocation as the ledger; maintenance fees and utility charges are settled
+ * by the payments' `maintenanceFeeAmount`, oldest first. Accrued late interest is reported separately
+ * and is covered first by any payment left over after allocation, so `total` equals the ledger balance.
+ * @param fees The lease's fee lines from `calculateLeaseFees`.
+ * @param asOf The date the report is made for. Defaults to today.
+ */
+export function calculateLeaseAging(
+  lease: LeaseAgreement,
+  adjustments: RentAdjustment[],
+  payments: Payment[],
+  fees: MaintenanceFeeLine[],
+  asOf: Date = new Date()
+): LeaseAging {
+  const today = startOfDay(asOf);
+  const dues = calculateDues(lease, adjustments, asOf);
+  const paidPayments = payments.filter(p => startOfDay(toDate(p.paymentDate)) <= today);
+  const { settlements, unapplied } = allocatePayments(dues, paidPayments);
+
+  const items: AgingItem[] = [];
+  const addItem = (dueDate: Date, description: string, unpaid: number) => {
+    if (unpaid <= 0) return;
+    const daysPastDue = differenceInCalendarDays(today, startOfDay(dueDate));
+    items.push({ dueDate, description, unpaid, daysPastDue, bucket: getAgingBucket(daysPastDue) });
+  };
+
+  settlements.forEach(s => addItem(s.due.date, `${s.due.description} 임대료`, s.remaining));
+
+  let feePaid = paidPayments.reduce((sum, p) => sum + (p.maintenanceFeeAmount || 0), 0);
+  [...fees].sort((a, b) => a.date.getTime() - b.date.getTime()).forEach(fee => {
+    const applied = Math.min(fee.amount, feePaid);
+    feePaid -= applied;
+    addItem(fee.date, fee.description, fee.amount - applied);
+  });
+
+  items.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+  const buckets = emptyAgingBuckets();
+  items.forEach(item => { buckets[item.bucket] += item.unpaid; });
+
+  const accruedInterest = calculateLateInterest(lease, dues, paidPayments, asOf).reduce((sum, line) => sum + line.amount, 0);
+  const leftover = unapplied + feePaid;
+  const interest = Math.max(0, accruedInterest - leftover);
+  const credit = Math.max(0, leftover - accruedInterest);
+  const total = agingBuckets.reduce((sum, bucket) => sum + buckets[bucket], 0) + interest - credit;
+
+  return {
+    items,
+    buckets,
+    interest,
+    credit,
+    total,
+    oldestDueDate: items.length > 0 ? items[0].dueDate : null,
+  };
+}
@@ -0,0 +1,213 @@
+import { FieldValue, Timestamp } from "firebase/firestore";
+import { AuditLog } from "./types";
+
+export type AuditOperation = 'create' | 'update' | 'delete';
+
+/**
+ * The value of one field before and after a change. `null` means the field did not exist.
+ */
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * What a log entry's `details` holds for a document change.
+ */
+export interface AuditLogDetails {
+  collection: string;
+  documentId?: string;
+  leaseAgreementId?: string; // 변경된 문서가 속한 계약
+  buildingId?: string; // 변경된 문서가 속한 건물
+  changes?: Record<string, AuditChange>;
+  [key: string]: unknown;
+}
+
+// The entity name used in action names, e.g. `update_tenant` for a lease agreement.
+export const auditEntityByCollection: Record<string, string> = {
+  buildings: 'building',
+  leaseAgreements: 'tenant',
+  payments: 'payment',
+  rentAdjustments: 'rent_adjustment',
+  depositTransactions: 'deposit_transaction',
+  maintenanceFees: 'maintenance_fee',
+  meterReadings: 'meter_reading',
+  taxInvoices: 'tax_invoice',
+  rentInvoices: 'rent_invoice',
+  paymentReceipts: 'payment_receipt',
+  depositorAliases: 'depositor_alias',
+  messageTemplates: 'message_template',
+  reminderMessages: 'reminder_message',
+};
+
+export const auditCollectionLabels: Record<string, string> = {
+  buildings: '건물',
+  leaseAgreements: '임차인(계약)',
+  payments: '납부 기록',
+  rentAdjustments: '임대료 조정',
+  depositTransactions: '보증금 내역',
+  maintenanceFees: '관리비',
+  meterReadings: '검침',
+  taxInvoices: '세금계산서',
+  rentInvoices: '청구서',
+  paymentReceipts: '영수증',
+  depositorAliases: '입금자명',
+  messageTemplates: '메시지 문안',
+  reminderMessages: '미납 안내',
+  users: '사용자',
+  portfolios: '포트폴리오',
+  all: '전체 데이터',
+};
+
+export const auditActionLabels: Record<string, string> = {
+  login: "로그인",
+  create_tenant: "임차인 생성",
+  update_tenant: "임차인 수정",
+  delete_tenant: "임차인 삭제",
+  create_building: "건물 생성",
+  update_building: "건물 수정",
+  delete_building: "건물 삭제",
+  create_payment: "납부 생성",
+  update_payment: "납부 수정",
+  delete_payment: "납부 삭제",
+  create_rent_adjustment: "임대료 조정",
+  update_rent_adjustment: "임대료 조정",
+  delete_rent_adjustment: "임대료 조정 삭제",
+  create_deposit_transaction: "보증금 내역 생성",
+  update_deposit_transaction: "보증금 내역 수정",
+  delete_deposit_transaction: "보증금 내역 삭제",
+  create_maintenance_fee: "관리비 생성",
+  update_maintenance_fee: "관리비 수정",
+  delete_maintenance_fee: "관리비 삭제",
+  create_meter_reading: "검침 생성",
+  update_meter_reading: "검침 수정",
+  delete_meter_reading: "검침 삭제",
+  create_tax_invoice: "세금계산서 생성",
+  update_tax_invoice: "세금계산서 수정",
+  delete_tax_invoice: "세금계산서 삭제",
+  create_rent_invoice: "청구서 발행",
+  update_rent_invoice: "청구서 수정",
+  create_payment_receipt: "영수증 발행",
+  update_payment_receipt: "영수증 수정",
+  create_depositor_alias: "입금자명 등록",
+  delete_depositor_alias: "입금자명 삭제",
+  create_message_template: "메시지 문안 생성",
+  update_message_template: "메시지 문안 수정",
+  delete_message_template: "메시지 문안 삭제",
+  create_reminder_message: "미납 안내 등록",
+  update_reminder_message: "미납 안내 발송",
+  restore_data: "데이터 복원",
+  clear_data: "데이터 초기화",
+  approve_user: "사용자 승인",
+  revoke_user: "사용자 승인 취소",
+  change_user_role: "사용자 역할 변경",
+  create_portfolio: "포트폴리오 생성",
+  migrate_portfolio_data: "포트폴리오로 데이터 이전",
+  invite_portfolio_member: "구성원 초대",
+  cancel_portfolio_invitation: "초대 취소",
+  join_portfolio: "포트폴리오 참여",
+  change_portfolio_member_role: "구성원 역할 변경",
+  remove_portfolio_member: "구성원 제외",
+  sync_building_ids: "계약 건물 정보 보완",
+};
+
+export const getAuditActionLabel = (action: string) => auditActionLabels[action] || action;
+
+export function getAuditAction(operation: AuditOperation, collectionName: string): string {
+  return `${operation}_${auditEntityByCollection[collectionName] || collectionName}`;
+}
+
+/**
+ * Converts a Firestore field value to plain data that can be stored in a log entry:
+ * timestamps and dates become ISO strings and sentinels such as `deleteField()` become null.
+ */
+export function toAuditValue(value: unknown): unknown {
+  if (value === undefined || value === null || value instanceof FieldValue) return null;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (Array.isArray(value)) return value.map(toAuditValue);
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, v]) => [key, toAuditValue(v)]));
+  }
+  return value;
+}
+
+/**
+ * Lists the fields that differ between two versions of a document. Pass null as `before`
+ * for a created document and as `after` for a deleted one.
+ */
+export function diffDocuments(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  keys.forEach(key => {
+    const beforeValue = toAuditValue(before?.[key]);
+    const afterValue = toAuditValue(after?.[key]);
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[key] = { before: beforeValue, after: afterValue };
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Formats a logged field value for display: null as '-', objects and arrays as JSON.
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Gets the screen that shows the document a log entry changed, or null if there is none,
+ * e.g. because the entry deleted the tenant or building itself.
+ */
+export function getAuditLogLink(log: Pick<AuditLog, 'action' | 'details'>): { href: string; label: string } | null {
+  const details = log.details as AuditLogDetails | undefined;
+  if (!details?.collection) return null;
+
+  const isDelete = log.action.startsWith('delete_');
+  const { documentId } = details;
+  // Entries written before the references were stored only have them among the changed fields.
+  const reference = (field: 'leaseAgreementId' | 'buildingId') => {
+    const value = details[field] ?? details.changes?.[field]?.after ?? details.changes?.[field]?.before;
+    return typeof value === 'string' ? value : undefined;
+  };
+  const leaseAgreementId = reference('leaseAgreementId');
+  const buildingId = reference('buildingId');
+
+  switch (details.collection) {
+    case 'leaseAgreements':
+      return !isDelete && documentId ? { href: `/tenants/${documentId}`, label: '임차인 원장' } : null;
+    case 'buildings':
+      return !isDelete && documentId ? { href: `/buildings/${documentId}/edit`, label: '건물 정보' } : null;
+    case 'payments':
+    case 'rentAdjustments':
+      return leaseAgreementId ? { href: `/tenants/${leaseAgreementId}`, label: '임차인 원장' } : null;
+    case 'depositTransactions':
+      return leaseAgreementId ? { href: `/tenants/${leaseAgreementId}/deposit`, label: '보증금 정산' } : null;
+    case 'maintenanceFees':
+      return buildingId ? { href: `/buildings/${buildingId}/maintenance-fees`, label: '관리비 관리' } : null;
+    case 'meterReadings':
+      return buildingId ? { href: `/buildings/${buildingId}/meter-readings`, label: '검침 관리' } : null;
+    case 'taxInvoices':
+      return { href: '/tax-invoices', label: '세금계산서' };
+    case 'rentInvoices':
+      return documentId ? { href: `/invoices/${documentId}`, label: '청구서' } : null;
+    case 'paymentReceipts':
+      return documentId ? { href: `/receipts/${documentId}`, label: '영수증' } : null;
+    case 'depositorAliases':
+      return { href: '/payments/import', label: '은행 거래내역 가져오기' };
+    case 'users':
+      return { href: '/admin/users', label: '사용자 관리' };
+    case 'portfolios':
+      return { href: '/settings', label: '설정' };
+    default:
+      return null;
+  }
+}
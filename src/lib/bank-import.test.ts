@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { DepositorAlias, LeaseAgreement, Payment } from './types';
+import {
+  BankTransaction,
+  LeaseMatchCandidate,
+  findDuplicatePayment,
+  getExpectedPayments,
+  matchBankTransaction,
+  normalizeDepositorName,
+  parseBankStatement,
+} from './bank-import';
+
+const lease = (id: string, tenantName: string, overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id,
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '테스트빌딩',
+  tenantName,
+  tenantContact: '010-0000-0000',
+  tenantAddress: '',
+  unitIds: ['unit-1'],
+  leaseStartDate: new Date(2024, 0, 1),
+  leaseEndDate: new Date(2024, 11, 31),
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+const transaction = (depositorName: string, amount: number): BankTransaction => ({
+  rowNumber: 2,
+  date: new Date(2024, 2, 5),
+  depositorName,
+  amount,
+});
+
+const candidate = (lease: LeaseAgreement, amounts: number[] = []): LeaseMatchCandidate => ({
+  lease,
+  expectedPayments: amounts.map(amount => ({ label: '2024-03월분 임대료', amount, maintenanceFeeAmount: 0 })),
+});
+
+describe('parseBankStatement', () => {
+  it('finds the header row below the title rows and reads only deposits', () => {
+    const rows = [
+      ['거래내역조회'],
+      ['계좌번호', '123-456-789'],
+      ['거래일시', '출금액', '입금액(원)', '내용', '비고'],
+      ['2024.03.05 10:12:00', '', '1,000,000', '홍길동', '인터넷'],
+      ['2024.03.06 09:00:00', '50,000', '', '관리비 출금', ''],
+      ['합계', '', '1,000,000', '', ''],
+    ];
+
+    expect(parseBankStatement(rows)).toEqual([
+      { rowNumber: 4, date: new Date(2024, 2, 5, 10, 12), depositorName: '홍길동', amount: 1_000_000, memo: '인터넷' },
+    ]);
+  });
+
+  it('reads dates without separators and numeric amounts', () => {
+    const [deposit] = parseBankStatement([['거래일자', '입금액', '입금자명'], ['20240305', 550000, '(주)한빛']]);
+
+    expect(deposit).toMatchObject({ date: new Date(2024, 2, 5), amount: 550_000, depositorName: '(주)한빛' });
+  });
+
+  it('rejects a sheet without a date and a deposit column', () => {
+    expect(() => parseBankStatement([['이름', '금액'], ['홍길동', 1000]])).toThrow('거래일자와 입금액 열을 찾을 수 없습니다.');
+  });
+});
+
+describe('normalizeDepositorName', () => {
+  it('drops company markers, spaces and punctuation', () => {
+    expect(normalizeDepositorName('(주) 한빛 상사')).toBe('한빛상사');
+    expect(normalizeDepositorName('㈜한빛-상사')).toBe('한빛상사');
+    expect(normalizeDepositorName('한빛상사 주식회사')).toBe('한빛상사');
+  });
+});
+
+describe('matchBankTransaction', () => {
+  const hong = lease('lease-1', '홍길동');
+  const kim = lease('lease-2', '김철수');
+
+  it('is sure of a name and amount match', () => {
+    const match = matchBankTransaction(transaction('홍길동', 1_000_000), [candidate(hong, [1_000_000]), candidate(kim, [1_000_000])], []);
+
+    expect(match).toMatchObject({ leaseAgreementId: 'lease-1', confidence: 'high' });
+    expect(match.reasons).toEqual(['임차인명 일치', '2024-03월분 임대료 금액 일치']);
+  });
+
+  it('matches a depositor name the bank truncated', () => {
+    const company = lease('lease-3', '한빛상사 주식회사');
+
+    expect(matchBankTransaction(transaction('한빛상', 700_000), [candidate(company), candidate(kim)], [])).toMatchObject({
+      leaseAgreementId: 'lease-3',
+      confidence: 'medium',
+    });
+  });
+
+  it('matches a depositor name remembered for a lease', () => {
+    const aliases: DepositorAlias[] = [{ id: 'alias-1', portfolioId: 'portfolio-1', leaseAgreementId: 'lease-2', alias: '김씨네가게' }];
+
+    expect(matchBankTransaction(transaction('김씨네가게', 1_000_000), [candidate(hong, [1_000_000]), candidate(kim, [1_000_000])], aliases)).toMatchObject({
+      leaseAgreementId: 'lease-2',
+      confidence: 'high',
+      reasons: ['기억된 입금자명', '2024-03월분 임대료 금액 일치'],
+    });
+  });
+
+  it('asks for a check when only the amount of one lease fits', () => {
+    expect(matchBankTransaction(transaction('이영희', 800_000), [candidate(hong, [1_000_000]), candidate(kim, [800_000])], [])).toMatchObject({
+      leaseAgreementId: 'lease-2',
+      confidence: 'medium',
+    });
+  });
+
+  it('leaves a deposit unmatched when the amount fits several leases', () => {
+    const match = matchBankTransaction(transaction('이영희', 1_000_000), [candidate(hong, [1_000_000]), candidate(kim, [1_000_000])], []);
+
+    expect(match).toMatchObject({ leaseAgreementId: null, confidence: 'low' });
+    expect(match.reasons).toEqual(['금액이 일치하는 계약 2건: 홍길동, 김철수']);
+  });
+
+  it('finds nothing when neither name nor amount fits', () => {
+    expect(matchBankTransaction(transaction('이영희', 123_000), [candidate(hong, [1_000_000])], [])).toMatchObject({
+      leaseAgreementId: null,
+      confidence: 'none',
+      reasons: [],
+    });
+  });
+});
+
+describe('getExpectedPayments', () => {
+  it('expects the month\'s rent and the unpaid balance including it', () => {
+    const expected = getExpectedPayments(lease('lease-1', '홍길동'), [], [], [], new Date(2024, 1, 10));
+
+    expect(expected).toEqual([
+      { label: '2024-02월분 임대료', amount: 1_000_000, maintenanceFeeAmount: 0 },
+      { label: '미납 잔액', amount: 2_000_000, maintenanceFeeAmount: 0 },
+    ]);
+  });
+});
+
+describe('findDuplicatePayment', () => {
+  const recorded: Payment = { id: 'p1', portfolioId: 'portfolio-1', leaseAgreementId: 'lease-1', paymentDate: new Date(2024, 2, 5, 18), paymentAmount: 1_000_000 };
+
+  it('finds a payment of the same amount on the same day', () => {
+    expect(findDuplicatePayment(transaction('홍길동', 1_000_000), [recorded])).toBe(recorded);
+  });
+
+  it('does not treat another day or amount as a duplicate', () => {
+    expect(findDuplicatePayment(transaction('홍길동', 999_000), [recorded])).toBeUndefined();
+    expect(findDuplicatePayment({ ...transaction('홍길동', 1_000_000), date: new Date(2024, 2, 6) }, [recorded])).toBeUndefined();
+  });
+});
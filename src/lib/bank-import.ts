@@ -0,0 +1,262 @@
+import { endOfMonth, isSameDay, isSameMonth, isValid, parse, startOfDay } from "date-fns";
+import { DepositorAlias, LeaseAgreement, Payment, RentAdjustment } from "./types";
+import { calculateDues, calculateLeaseBalance, toDate } from "./rent-schedule";
+import type { MaintenanceFeeLine } from "./maintenance-fee";
+
+/**
+ * A deposit read from a bank statement export.
+ */
+export interface BankTransaction {
+  rowNumber: number; // 원본 파일의 행 번호 (1부터)
+  date: Date;
+  depositorName: string;
+  amount: number;
+  memo?: string;
+}
+
+export type MatchConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export const matchConfidenceLabels: Record<MatchConfidence, string> = {
+  high: '확실',
+  medium: '확인 필요',
+  low: '후보 여러 건',
+  none: '매칭 없음',
+};
+
+/**
+ * An amount the tenant of a lease is expected to pay around a given date.
+ */
+export interface ExpectedPayment {
+  label: string;
+  amount: number;
+  maintenanceFeeAmount: number;
+}
+
+export interface LeaseMatchCandidate {
+  lease: LeaseAgreement;
+  expectedPayments: ExpectedPayment[];
+}
+
+export interface BankMatch {
+  transaction: BankTransaction;
+  leaseAgreementId: string | null;
+  confidence: MatchConfidence;
+  maintenanceFeeAmount: number;
+  reasons: string[];
+}
+
+const HEADER_KEYWORDS = {
+  date: ['거래일시', '거래일자', '거래일', '일자', '날짜', '거래날짜', 'date'],
+  deposit: ['입금액', '입금금액', '맡기신금액', '입금', 'deposit'],
+  name: ['입금자명', '입금자', '보낸분', '의뢰인', '기재내용', '거래내용', '내용', '적요', 'description'],
+  memo: ['메모', '비고', '거래점', '거래구분'],
+};
+
+const normalizeHeader = (value: unknown) => String(value ?? '').replace(/\(.*?\)/g, '').replace(/\s/g, '').toLowerCase();
+
+const findColumn = (header: string[], keywords: string[], exclude: number[] = []) => {
+  for (const keyword of keywords) {
+    const index = header.findIndex((cell, i) => cell === keyword && !exclude.includes(i));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+const parseAmount = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').replace(/[,원\s]/g, '');
+  return text ? Number(text) || 0 : 0;
+};
+
+const DATE_FORMATS = ['yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm', 'yyyy-MM-dd', 'yyyy.MM.dd HH:mm:ss', 'yyyy.MM.dd HH:mm', 'yyyy.MM.dd', 'yyyy/MM/dd HH:mm:ss', 'yyyy/MM/dd', 'yyyyMMdd'];
+
+const parseStatementDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isValid(value) ? value : null;
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(text, dateFormat, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+  return null;
+};
+
+/**
+ * Reads the deposits from the rows of a bank statement sheet. The header row is located among the
+ * first 20 rows by its column names (거래일시, 입금액, 입금자명 ...); withdrawals and rows without a
+ * valid date are skipped.
+ * @param rows The sheet as an array of rows, e.g. from `XLSX.utils.sheet_to_json(ws, { header: 1 })`.
+ * @throws Error when no header row with a date and a deposit column is found.
+ */
+export function parseBankStatement(rows: unknown[][]): BankTransaction[] {
+  const headerIndex = rows.slice(0, 20).findIndex(row => {
+    const header = (row || []).map(normalizeHeader);
+    return findColumn(header, HEADER_KEYWORDS.date) >= 0 && findColumn(header, HEADER_KEYWORDS.deposit) >= 0;
+  });
+  if (headerIndex < 0) {
+    throw new Error('거래일자와 입금액 열을 찾을 수 없습니다. 은행에서 내려받은 거래내역 파일인지 확인해주세요.');
+  }
+
+  const header = rows[headerIndex].map(normalizeHeader);
+  const dateColumn = findColumn(header, HEADER_KEYWORDS.date);
+  const depositColumn = findColumn(header, HEADER_KEYWORDS.deposit);
+  const nameColumn = findColumn(header, HEADER_KEYWORDS.name);
+  const memoColumn = findColumn(header, HEADER_KEYWORDS.memo, [nameColumn]);
+
+  return rows.slice(headerIndex + 1).flatMap((row, i) => {
+    const date = parseStatementDate(row?.[dateColumn]);
+    const amount = parseAmount(row?.[depositColumn]);
+    if (!date || amount <= 0) return [];
+
+    return [{
+      rowNumber: headerIndex + i + 2,
+      date,
+      depositorName: nameColumn >= 0 ? String(row[nameColumn] ?? '').trim() : '',
+      amount,
+      memo: memoColumn >= 0 && row[memoColumn] ? String(row[memoColumn]).trim() : undefined,
+    }];
+  });
+}
+
+/**
+ * Normalizes a depositor or tenant name for comparison: drops company markers such as (주) and
+ * 주식회사, spaces and punctuation.
+ */
+export const normalizeDepositorName = (name: string): string => (name || '')
+  .replace(/\(주\)|㈜|주식회사|\(유\)|유한회사/g, '')
+  .replace(/[^0-9a-zA-Z가-힣]/g, '')
+  .toLowerCase();
+
+const namesMatch = (depositor: string, name: string | undefined) => {
+  const a = normalizeDepositorName(depositor);
+  const b = normalizeDepositorName(name || '');
+  if (a.length < 2 || b.length < 2) return false;
+  // Banks truncate long depositor names, so a prefix of the tenant name also counts.
+  return a === b || a.includes(b) || b.startsWith(a);
+};
+
+/**
+ * Lists the amounts a lease's tenant is expected to pay around a date: the month's rent, the rent
+ * plus that month's maintenance fees and utility charges, and the balance including that month.
+ * Dues are taken up to the end of the month so the current month's rent is not prorated to the date.
+ * @param fees The lease's fee lines from `calculateLeaseFees`.
+ */
+export function getExpectedPayments(
+  lease: LeaseAgreement,
+  adjustments: RentAdjustment[],
+  payments: Payment[],
+  fees: MaintenanceFeeLine[],
+  asOf: Date
+): ExpectedPayment[] {
+  const expected: ExpectedPayment[] = [];
+  const monthEnd = endOfMonth(asOf);
+  const dues = calculateDues(lease, adjustments, monthEnd);
+  const due = dues.find(line => isSameMonth(line.date, asOf)) || dues[dues.length - 1];
+
+  if (due && due.total > 0) {
+    expected.push({ label: `${due.description} 임대료`, amount: due.total, maintenanceFeeAmount: 0 });
+    const monthFees = fees.filter(fee => isSameMonth(fee.date, due.date)).reduce((sum, fee) => sum + fee.amount, 0);
+    if (monthFees > 0) {
+      expected.push({ label: `${due.description} 임대료+관리비`, amount: due.total + monthFees, maintenanceFeeAmount: monthFees });
+    }
+  }
+
+  const { balance, totalFees } = calculateLeaseBalance(lease, adjustments, payments, monthEnd, fees);
+  if (balance > 0 && !expected.some(e => e.amount === balance)) {
+    const paidFees = payments.reduce((sum, p) => sum + (p.maintenanceFeeAmount || 0), 0);
+    const unpaidFees = Math.min(balance, Math.max(0, totalFees - paidFees));
+    expected.push({ label: '미납 잔액', amount: balance, maintenanceFeeAmount: unpaidFees });
+  }
+
+  return expected;
+}
+
+/**
+ * Suggests the lease a deposit belongs to, by depositor alias, tenant name and expected amount.
+ * A name or alias match together with an expected amount is `high`; a name match alone, or an
+ * amount that fits exactly one lease, is `medium`; an amount that fits several leases is `low`.
+ * @param transaction The deposit to match.
+ * @param candidates The leases to consider with their expected payments.
+ * @param aliases The depositor names confirmed in earlier imports.
+ */
+export function matchBankTransaction(
+  transaction: BankTransaction,
+  candidates: LeaseMatchCandidate[],
+  aliases: DepositorAlias[]
+): BankMatch {
+  const depositor = normalizeDepositorName(transaction.depositorName);
+  const scored = candidates.map(candidate => {
+    const { lease } = candidate;
+    const reasons: string[] = [];
+    let nameScore = 0;
+
+    if (depositor && aliases.some(a => a.leaseAgreementId === lease.id && normalizeDepositorName(a.alias) === depositor)) {
+      nameScore = 2;
+      reasons.push('기억된 입금자명');
+    } else if (
+      namesMatch(transaction.depositorName, lease.tenantName) ||
+      namesMatch(transaction.depositorName, lease.tenantBusinessInfo?.name) ||
+      namesMatch(transaction.depositorName, lease.tenantBusinessInfo?.representative)
+    ) {
+      nameScore = 1;
+      reasons.push('임차인명 일치');
+    }
+
+    const expected = candidate.expectedPayments.find(e => e.amount === transaction.amount);
+    if (expected) {
+      reasons.push(`${expected.label} 금액 일치`);
+    }
+
+    return { lease, nameScore, expected, reasons };
+  });
+
+  const best = (items: typeof scored) => {
+    const sorted = [...items].sort((a, b) => (b.nameScore - a.nameScore) || (Number(!!b.expected) - Number(!!a.expected)));
+    const [first, second] = sorted;
+    const isTie = second && second.nameScore === first.nameScore && !!second.expected === !!first.expected;
+    return { first, isTie };
+  };
+
+  const toMatch = (item: typeof scored[number], confidence: MatchConfidence): BankMatch => ({
+    transaction,
+    leaseAgreementId: item.lease.id,
+    confidence,
+    maintenanceFeeAmount: item.expected?.maintenanceFeeAmount || 0,
+    reasons: item.reasons,
+  });
+
+  const named = scored.filter(item => item.nameScore > 0);
+  if (named.length > 0) {
+    const { first, isTie } = best(named);
+    if (!isTie) {
+      return toMatch(first, first.expected ? 'high' : 'medium');
+    }
+  }
+
+  const byAmount = (named.length > 0 ? named : scored).filter(item => item.expected);
+  if (byAmount.length === 1) {
+    return toMatch(byAmount[0], 'medium');
+  }
+
+  return {
+    transaction,
+    leaseAgreementId: null,
+    confidence: byAmount.length > 1 || named.length > 1 ? 'low' : 'none',
+    maintenanceFeeAmount: 0,
+    reasons: byAmount.length > 1
+      ? [`금액이 일치하는 계약 ${byAmount.length}건: ${byAmount.map(item => item.lease.tenantName).join(', ')}`]
+      : named.length > 1
+        ? [`이름이 일치하는 계약 ${named.length}건: ${named.map(item => item.lease.tenantName).join(', ')}`]
+        : [],
+  };
+}
+
+/**
+ * Finds a payment already recorded for the lease on the same day with the same amount,
+ * so a statement imported twice does not create duplicates.
+ */
+export function findDuplicatePayment(transaction: BankTransaction, payments: Payment[]): Payment | undefined {
+  return payments.find(p =>
+    p.paymentAmount === transaction.amount && isSameDay(startOfDay(toDate(p.paymentDate)), startOfDay(transaction.date))
+  );
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+const BUSINESS_NUMBER_WEIGHTS = [1, 3, 7, 1, 3, 7, 1, 3, 5];
+
+export const normalizeBusinessNumber = (value: string): string => (value || '').replace(/\D/g, '');
+
+/**
+ * Formats a business registration number as `123-45-67890`.
+ */
+export function formatBusinessNumber(value: string): string {
+  const digits = normalizeBusinessNumber(value);
+  if (digits.length !== 10) return value || '';
+  return `${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+}
+
+/**
+ * Validates a business registration number with the National Tax Service check digit.
+ */
+export function isValidBusinessNumber(value: string): boolean {
+  const digits = normalizeBusinessNumber(value).split('').map(Number);
+  if (digits.length !== 10) return false;
+
+  let sum = BUSINESS_NUMBER_WEIGHTS.reduce((acc, weight, i) => acc + digits[i] * weight, 0);
+  sum += Math.floor((digits[8] * 5) / 10);
+  return (10 - (sum % 10)) % 10 === digits[9];
+}
+
+export const businessInfoSchema = z.object({
+  registrationNumber: z.string().optional().default('').refine(
+    value => !value || isValidBusinessNumber(value),
+    { message: '올바른 사업자등록번호가 아닙니다.' }
+  ),
+  name: z.string().optional().default(''),
+  representative: z.string().optional().default(''),
+  address: z.string().optional().default(''),
+  businessType: z.string().optional().default(''),
+  businessItem: z.string().optional().default(''),
+  email: z.string().email({ message: '올바른 이메일 주소를 입력해주세요.' }).or(z.literal('')).optional().default(''),
+});
+
+export const emptyBusinessInfo = {
+  registrationNumber: '',
+  name: '',
+  representative: '',
+  address: '',
+  businessType: '',
+  businessItem: '',
+  email: '',
+};
@@ -0,0 +1,68 @@
+import { isBefore } from "date-fns";
+import { DepositTransaction, DepositTransactionType, LeaseAgreement } from "./types";
+import { toDate } from "./rent-schedule";
+
+export const depositTransactionTypeLabels: Record<DepositTransactionType, string> = {
+  receipt: '보증금 수령',
+  return: '보증금 반환',
+  rent_offset: '미납 임대료 공제',
+  repair: '수선비 공제',
+  restoration: '원상복구비 공제',
+  other_deduction: '기타 공제',
+};
+
+export const deductionTypes: DepositTransactionType[] = ['rent_offset', 'repair', 'restoration', 'other_deduction'];
+
+export interface DepositSummary {
+  agreedAmount: number; // 계약상 보증금 (재계약 반영)
+  receivedAmount: number; // 수령 합계
+  returnedAmount: number; // 반환 합계
+  deductedAmount: number; // 공제 합계
+  heldAmount: number; // 현재 보관 중인 보증금
+  shortfall: number; // 계약상 보증금 대비 미수령액
+  refundDue: number; // 반환 예정액
+}
+
+/**
+ * Gets the contractual deposit in effect on a date, considering renewals that changed it.
+ */
+export function getAgreedDeposit(lease: LeaseAgreement, asOf: Date = new Date()): number {
+  let agreed = lease.leaseDepositAmount || 0;
+
+  const sortedRenewals = [...(lease.renewals || [])]
+    .sort((a, b) => toDate(a.renewalDate).getTime() - toDate(b.renewalDate).getTime());
+
+  for (const renewal of sortedRenewals) {
+    if (!isBefore(asOf, toDate(renewal.renewalDate)) && renewal.newDepositAmount !== undefined && renewal.newDepositAmount !== null) {
+      agreed = renewal.newDepositAmount;
+    }
+  }
+
+  return agreed;
+}
+
+/**
+ * Summarizes a lease's deposit sub-ledger: what was received, returned and deducted,
+ * and what remains to be refunded on move-out.
+ */
+export function summarizeDeposit(lease: LeaseAgreement, transactions: DepositTransaction[], asOf: Date = new Date()): DepositSummary {
+  const sumOf = (types: DepositTransactionType[]) => transactions
+    .filter(t => types.includes(t.type))
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  const agreedAmount = getAgreedDeposit(lease, asOf);
+  const receivedAmount = sumOf(['receipt']);
+  const returnedAmount = sumOf(['return']);
+  const deductedAmount = sumOf(deductionTypes);
+  const heldAmount = receivedAmount - returnedAmount - deductedAmount;
+
+  return {
+    agreedAmount,
+    receivedAmount,
+    returnedAmount,
+    deductedAmount,
+    heldAmount,
+    shortfall: Math.max(0, agreedAmount - (receivedAmount - returnedAmount)),
+    refundDue: Math.max(0, heldAmount),
+  };
+}
@@ -0,0 +1,155 @@
+import {
+  format as formatDateFns,
+  addMonths,
+  getDaysInMonth,
+  isBefore,
+  isAfter,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  endOfMonth,
+  differenceInCalendarDays,
+  min,
+  max,
+} from "date-fns";
+import { Building, LeaseAgreement, MaintenanceFee, MaintenanceFeeMethod } from "./types";
+import { getLeaseDetails } from "./utils";
+import { toDate } from "./rent-schedule";
+
+/**
+ * A maintenance fee (관리비) or utility charge of one lease for one month.
+ */
+export interface MaintenanceFeeLine {
+  date: Date;
+  amount: number;
+  description: string;
+  notes?: string;
+  maintenanceFeeId?: string;
+}
+
+export const maintenanceFeeMethodLabels: Record<MaintenanceFeeMethod, string> = {
+  area: '면적 비율 배분',
+  fixed: '월 고정 금액',
+  none: '부과 안 함',
+};
+
+export const getMaintenanceFeeMethod = (lease: LeaseAgreement): MaintenanceFeeMethod => lease.maintenanceFeeMethod || 'area';
+
+/**
+ * Sums the area of every unit in the building. Vacant units count too, so their share stays with the owner.
+ */
+export function getBuildingArea(building: Building | null | undefined): number {
+  return (building?.units || []).reduce((sum, unit) => sum + (Number(unit.area) || 0), 0);
+}
+
+/**
+ * Sums the area of the units leased under this agreement.
+ */
+export function getLeasedArea(lease: LeaseAgreement, building: Building | null | undefined): number {
+  return (lease.unitIds || []).reduce((sum, unitId) => {
+    const unit = building?.units?.find(u => u.id === unitId);
+    return sum + (Number(unit?.area) || 0);
+  }, 0);
+}
+
+/**
+ * Counts the days of the month on which the lease is in effect.
+ */
+export function getActiveDaysInMonth(lease: LeaseAgreement, monthStart: Date): number {
+  const { leaseEndDate } = getLeaseDetails(lease);
+  const periodStart = max([monthStart, startOfDay(toDate(lease.leaseStartDate))]);
+  const periodEnd = min([endOfMonth(monthStart), startOfDay(leaseEndDate)]);
+  if (isBefore(periodEnd, periodStart)) return 0;
+  return differenceInCalendarDays(periodEnd, periodStart) + 1;
+}
+
+/**
+ * Computes this lease's share of a building's monthly maintenance fee, by leased area and
+ * prorated by the days the lease is in effect in that month.
+ * @returns The share, or null when the lease does not take part in area allocation that month.
+ */
+export function getMaintenanceFeeShare(
+  lease: LeaseAgreement,
+  building: Building | null | undefined,
+  fee: MaintenanceFee
+): MaintenanceFeeLine | null {
+  if (getMaintenanceFeeMethod(lease) !== 'area' || fee.buildingId !== lease.buildingId) return null;
+
+  const buildingArea = getBuildingArea(building);
+  const leasedArea = getLeasedArea(lease, building);
+  if (buildingArea <= 0 || leasedArea <= 0) return null;
+
+  const monthStart = startOfMonth(toDate(fee.billingMonth));
+  const activeDays = getActiveDaysInMonth(lease, monthStart);
+  if (activeDays <= 0) return null;
+
+  const daysInMonth = getDaysInMonth(monthStart);
+  const amount = Math.round(fee.totalAmount * (leasedArea / buildingArea) * (activeDays / daysInMonth));
+  const notes = [`면적 ${leasedArea}㎡ / ${buildingArea}㎡`];
+  if (activeDays < daysInMonth) {
+    notes.push(`일할계산 (${activeDays}일)`);
+  }
+  if (fee.notes) {
+    notes.push(fee.notes);
+  }
+
+  return {
+    date: endOfMonth(monthStart),
+    amount,
+    description: `${formatDateFns(monthStart, 'yyyy-MM')}월분 관리비`,
+    notes: notes.join(', '),
+    maintenanceFeeId: fee.id,
+  };
+}
+
+/**
+ * Builds the monthly maintenance fee charges of a lease up to `asOf`.
+ * `area` leases receive their share of each building fee; `fixed` leases are charged
+ * `maintenanceFeeAmount` every month of the lease, prorated by days in the first and last month.
+ * @param lease The lease agreement.
+ * @param building The building the lease belongs to, providing unit areas.
+ * @param fees The monthly maintenance fees recorded for the building.
+ * @param asOf The date up to which charges are generated. Defaults to today.
+ * @returns The fee lines in chronological order.
+ */
+export function calculateMaintenanceFees(
+  lease: LeaseAgreement,
+  building: Building | null | undefined,
+  fees: MaintenanceFee[],
+  asOf: Date = new Date()
+): MaintenanceFeeLine[] {
+  const method = getMaintenanceFeeMethod(lease);
+  const today = startOfDay(asOf);
+
+  if (method === 'area') {
+    return fees
+      .filter(fee => !isAfter(startOfMonth(toDate(fee.billingMonth)), today))
+      .map(fee => getMaintenanceFeeShare(lease, building, fee))
+      .filter((line): line is MaintenanceFeeLine => line !== null && line.amount > 0)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  if (method === 'fixed' && (lease.maintenanceFeeAmount || 0) > 0) {
+    const lines: MaintenanceFeeLine[] = [];
+    const { leaseEndDate } = getLeaseDetails(lease);
+    const lastMonth = startOfMonth(min([leaseEndDate, today]));
+    let currentMonthStart = startOfMonth(toDate(lease.leaseStartDate));
+
+    while (isBefore(currentMonthStart, lastMonth) || isSameDay(currentMonthStart, lastMonth)) {
+      const activeDays = getActiveDaysInMonth(lease, currentMonthStart);
+      const daysInMonth = getDaysInMonth(currentMonthStart);
+      if (activeDays > 0) {
+        lines.push({
+          date: endOfMonth(currentMonthStart),
+          amount: Math.round(lease.maintenanceFeeAmount! * (activeDays / daysInMonth)),
+          description: `${formatDateFns(currentMonthStart, 'yyyy-MM')}월분 관리비`,
+          notes: activeDays < daysInMonth ? `일할계산 (${activeDays}일)` : undefined,
+        });
+      }
+      currentMonthStart = addMonths(currentMonthStart, 1);
+    }
+    return lines;
+  }
+
+  return [];
+}
@@ -0,0 +1,61 @@
+import { v4 as uuidv4 } from "uuid";
+import { MessageChannel } from "./types";
+import { isValidRecipient } from "./messaging";
+
+export interface OutgoingMessage {
+  channel: MessageChannel;
+  recipient: string;
+  subject?: string;
+  body: string;
+}
+
+export interface SendResult {
+  ok: boolean;
+  providerMessageId?: string;
+  error?: string;
+}
+
+/**
+ * A service that delivers reminder messages. Each SMS, KakaoTalk or email vendor is wrapped in a
+ * provider and registered with `registerMessageProvider`; a failed delivery is returned as
+ * `ok: false` with a reason rather than thrown, so one bad recipient does not stop a batch.
+ */
+export interface MessageProvider {
+  id: string;
+  label: string;
+  channels: MessageChannel[];
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
+
+/**
+ * Logs messages to the browser console instead of delivering them, for trying out templates and
+ * the send history without a vendor account. Like a real vendor it rejects recipients that are not
+ * a mobile number or email address, so failed sends can be tried too.
+ */
+export const localStubProvider: MessageProvider = {
+  id: 'local',
+  label: '테스트 발송 (실제로 보내지 않음)',
+  channels: ['sms', 'kakao', 'email'],
+  async send(message) {
+    if (!isValidRecipient(message.channel, message.recipient)) {
+      return { ok: false, error: '수신처가 올바르지 않습니다.' };
+    }
+    console.info(`[${message.channel}] → ${message.recipient}${message.subject ? `\n${message.subject}` : ''}\n${message.body}`);
+    return { ok: true, providerMessageId: `local-${uuidv4()}` };
+  },
+};
+
+const providers = new Map<string, MessageProvider>([[localStubProvider.id, localStubProvider]]);
+
+export function registerMessageProvider(provider: MessageProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getMessageProvider(id: string): MessageProvider | undefined {
+  return providers.get(id);
+}
+
+// The registered providers that deliver on the channel.
+export function getMessageProviders(channel: MessageChannel): MessageProvider[] {
+  return Array.from(providers.values()).filter(provider => provider.channels.includes(channel));
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { Building, LeaseAgreement } from './types';
+import { LeaseAging, calculateLeaseAging } from './aging';
+import { buildReminderValues, defaultMessageTemplates, getReminderRecipient, isValidRecipient, renderTemplate } from './messaging';
+import { formatCurrency } from './utils';
+
+const lease = (overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id: 'lease-1',
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '이전 건물명',
+  tenantName: '홍길동',
+  tenantContact: '010-1234-5678',
+  tenantAddress: '',
+  unitIds: ['101', '102'],
+  leaseStartDate: new Date(2024, 0, 1),
+  leaseEndDate: new Date(2024, 11, 31),
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+const building: Building = {
+  id: 'building-1',
+  portfolioId: 'portfolio-1',
+  name: '한빛빌딩',
+  address: '',
+  units: [{ id: '101', name: '101호', area: 30 }, { id: '102', name: '102호', area: 30 }],
+  bankAccount: '국민은행 123-45-6789',
+};
+
+describe('renderTemplate', () => {
+  const values = { 임차인: '홍길동', 호실: '101호', 건물: '한빛빌딩', 월: '2024년 3월', 금액: '₩1,000,000', 계좌: '국민은행 123' };
+
+  it('fills every placeholder, repeated ones included', () => {
+    expect(renderTemplate('{임차인}님 {건물} {호실} {월} {금액} {계좌} - {임차인}', values))
+      .toBe('홍길동님 한빛빌딩 101호 2024년 3월 ₩1,000,000 국민은행 123 - 홍길동');
+  });
+
+  it('leaves unknown placeholders as they are', () => {
+    expect(renderTemplate('{임차안}님, {금액}', values)).toBe('{임차안}님, ₩1,000,000');
+  });
+
+  it('uses only known placeholders in the default templates', () => {
+    const texts = Object.values(defaultMessageTemplates).flatMap(template => [template.body, template.subject || '']);
+
+    texts.forEach(text => expect(renderTemplate(text, values)).not.toMatch(/\{[^{}]+\}/));
+  });
+});
+
+describe('buildReminderValues', () => {
+  it('takes names from the building and the amount from the ledger balance', () => {
+    const aging = calculateLeaseAging(lease(), [], [], [], new Date(2024, 2, 31));
+
+    expect(buildReminderValues(lease(), building, aging)).toEqual({
+      임차인: '홍길동',
+      호실: '101호, 102호',
+      건물: '한빛빌딩',
+      월: '2024년 1월~3월',
+      금액: formatCurrency(3_000_000),
+      계좌: '국민은행 123-45-6789',
+    });
+  });
+
+  it('names a single unpaid month and the years of months across a year end', () => {
+    const single = calculateLeaseAging(lease(), [], [], [], new Date(2024, 0, 31));
+    const acrossYears = calculateLeaseAging(lease({ leaseStartDate: new Date(2023, 11, 1) }), [], [], [], new Date(2024, 0, 31));
+
+    expect(buildReminderValues(lease(), building, single).월).toBe('2024년 1월');
+    expect(buildReminderValues(lease(), building, acrossYears).월).toBe('2023년 12월~2024년 1월');
+  });
+
+  it('falls back to the lease\'s building name and unit ids without the building', () => {
+    const aging: LeaseAging = { items: [], buckets: { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, days90plus: 0 }, interest: 0, credit: 0, total: 0, oldestDueDate: null };
+
+    expect(buildReminderValues(lease(), undefined, aging)).toMatchObject({ 호실: '101, 102', 건물: '이전 건물명', 계좌: '' });
+  });
+});
+
+describe('recipients', () => {
+  it('sends text messages to the digits of the contact and email to the business email', () => {
+    const withEmail = lease({ tenantBusinessInfo: { email: ' tenant@example.com ' } as LeaseAgreement['tenantBusinessInfo'] });
+
+    expect(getReminderRecipient(withEmail, 'sms')).toBe('01012345678');
+    expect(getReminderRecipient(withEmail, 'email')).toBe('tenant@example.com');
+    expect(getReminderRecipient(lease(), 'email')).toBe('');
+  });
+
+  it('accepts only mobile numbers for text channels', () => {
+    expect(isValidRecipient('sms', '01012345678')).toBe(true);
+    expect(isValidRecipient('kakao', '0212345678')).toBe(false);
+    expect(isValidRecipient('email', 'tenant@example.com')).toBe(true);
+    expect(isValidRecipient('email', 'tenant@example')).toBe(false);
+  });
+});
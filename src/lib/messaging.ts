@@ -0,0 +1,109 @@
+import { format, isSameMonth } from "date-fns";
+import { Building, LeaseAgreement, MessageChannel, MessageTemplate, ReminderMessageStatus } from "./types";
+import { LeaseAging } from "./aging";
+import { formatCurrency } from "./utils";
+
+export const messageChannels: MessageChannel[] = ['sms', 'kakao', 'email'];
+
+export const messageChannelLabels: Record<MessageChannel, string> = {
+  sms: '문자',
+  kakao: '카카오톡',
+  email: '이메일',
+};
+
+export const reminderMessageStatusLabels: Record<ReminderMessageStatus, string> = {
+  queued: '발송 대기',
+  sent: '발송 완료',
+  failed: '발송 실패',
+};
+
+/**
+ * The values a reminder template can refer to, keyed by placeholder name.
+ */
+export interface ReminderValues {
+  임차인: string;
+  호실: string;
+  건물: string;
+  월: string; // 미납된 달 (예: 2024년 3월, 여러 달이면 2024년 1월~3월)
+  금액: string; // 원장 잔액
+  계좌: string;
+}
+
+export const templatePlaceholders: { key: keyof ReminderValues; description: string }[] = [
+  { key: '임차인', description: '임차인 이름' },
+  { key: '호실', description: '계약한 호실' },
+  { key: '건물', description: '건물 이름' },
+  { key: '월', description: '미납된 달' },
+  { key: '금액', description: '미납 금액 (원장 잔액)' },
+  { key: '계좌', description: '건물의 입금 계좌' },
+];
+
+/**
+ * The text used when a portfolio has not saved a template for the channel.
+ */
+export const defaultMessageTemplates: Record<MessageChannel, Pick<MessageTemplate, 'name' | 'subject' | 'body'>> = {
+  sms: {
+    name: '기본 문안',
+    body: '[{건물}] {임차인}님, {월} 임대료 {금액}이 아직 입금되지 않았습니다. {계좌}(으)로 입금 부탁드립니다.',
+  },
+  kakao: {
+    name: '기본 문안',
+    body: '안녕하세요, {임차인}님.\n{건물} {호실} {월} 임대료 {금액}이 미납 상태입니다.\n\n입금 계좌: {계좌}\n\n이미 입금하셨다면 이 메시지는 무시해주세요.',
+  },
+  email: {
+    name: '기본 문안',
+    subject: '[{건물}] {월} 임대료 납부 안내',
+    body: '{임차인}님께,\n\n{건물} {호실}의 {월} 임대료 {금액}이 아직 입금되지 않아 안내드립니다.\n아래 계좌로 입금 부탁드립니다.\n\n입금 계좌: {계좌}\n\n이미 입금하셨다면 이 메일은 무시해주세요.\n감사합니다.',
+  },
+};
+
+/**
+ * Replaces `{name}` placeholders with their values. Unknown placeholders are left as they are
+ * so a typo stays visible in the preview.
+ */
+export function renderTemplate(text: string, values: ReminderValues): string {
+  return text.replace(/\{([^{}]+)\}/g, (match, key: string) =>
+    key in values ? values[key as keyof ReminderValues] : match
+  );
+}
+
+// The months of the unpaid items, e.g. `2024년 1월~3월`.
+function formatUnpaidMonths(aging: LeaseAging): string {
+  const dates = aging.items.map(item => item.dueDate);
+  if (dates.length === 0) return format(new Date(), 'yyyy년 M월');
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  if (isSameMonth(first, last)) return format(first, 'yyyy년 M월');
+  return `${format(first, 'yyyy년 M월')}~${format(last, first.getFullYear() === last.getFullYear() ? 'M월' : 'yyyy년 M월')}`;
+}
+
+/**
+ * Fills the placeholder values of a lease from its building and its aging, whose `total`
+ * is the ledger balance.
+ */
+export function buildReminderValues(lease: LeaseAgreement, building: Building | undefined, aging: LeaseAging): ReminderValues {
+  const unitNames = (lease.unitIds || []).map(unitId => building?.units?.find(u => u.id === unitId)?.name || unitId);
+  return {
+    임차인: lease.tenantName,
+    호실: unitNames.join(', '),
+    건물: building?.name || lease.buildingName,
+    월: formatUnpaidMonths(aging),
+    금액: formatCurrency(aging.total),
+    계좌: building?.bankAccount || '',
+  };
+}
+
+/**
+ * Where a reminder on the channel goes: the tenant's contact number for text messages,
+ * the email of the tenant's business info for email.
+ */
+export function getReminderRecipient(lease: LeaseAgreement, channel: MessageChannel): string {
+  if (channel === 'email') return lease.tenantBusinessInfo?.email?.trim() || '';
+  return (lease.tenantContact || '').replace(/[^0-9]/g, '');
+}
+
+// Text messages and KakaoTalk only reach mobile numbers.
+export function isValidRecipient(channel: MessageChannel, recipient: string): boolean {
+  if (channel === 'email') return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient);
+  return /^01[016789]\d{7,8}$/.test(recipient);
+}
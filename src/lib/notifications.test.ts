@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { LeaseAgreement, Payment, RentAdjustment } from './types';
+import { NotificationRecords, NotificationType, defaultNotificationSettings, getNotificationSettings, isNotificationSnoozed, scanNotifications } from './notifications';
+
+const lease = (id: string, overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id,
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '테스트빌딩',
+  tenantName: `임차인 ${id}`,
+  tenantContact: '010-0000-0000',
+  tenantAddress: '',
+  unitIds: ['101'],
+  leaseStartDate: new Date(2024, 0, 1),
+  leaseEndDate: new Date(2024, 11, 31),
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+const payment = (id: string, leaseId: string, date: Date, amount: number): Payment => ({
+  id,
+  portfolioId: 'portfolio-1',
+  leaseAgreementId: leaseId,
+  paymentDate: date,
+  paymentAmount: amount,
+});
+
+const adjustment = (id: string, leaseId: string, month: Date, amount: number): RentAdjustment => ({
+  id,
+  portfolioId: 'portfolio-1',
+  leaseAgreementId: leaseId,
+  adjustmentDate: Timestamp.fromDate(month),
+  adjustedRentAmount: amount,
+  notes: '',
+});
+
+const records = (leases: LeaseAgreement[], payments: Payment[] = [], adjustments: RentAdjustment[] = []): NotificationRecords => ({
+  buildings: [],
+  leases,
+  paymentsByLease: new Map(leases.map(l => [l.id, payments.filter(p => p.leaseAgreementId === l.id)])),
+  adjustmentsByLease: new Map(leases.map(l => [l.id, adjustments.filter(a => a.leaseAgreementId === l.id)])),
+  feesByBuilding: new Map(),
+  readingsByBuilding: new Map(),
+});
+
+const today = new Date(2024, 5, 15);
+const scan = (data: NotificationRecords, type: NotificationType) =>
+  scanNotifications(data, defaultNotificationSettings, today).filter(n => n.type === type);
+
+describe('scanNotifications', () => {
+  describe('overdue balances', () => {
+    it('reports rent unpaid for more than the overdue days, from the oldest month', () => {
+      const [notification] = scan(records([lease('a')]), 'overdue');
+
+      expect(notification).toMatchObject({
+        id: 'overdue_a_20240131',
+        leaseId: 'a',
+        title: '임차인 a 136일 연체',
+        href: '/tenants/a',
+      });
+      expect(notification.description).toContain('최초 미납 2024-01월분 임대료');
+    });
+
+    it('skips rent that is late by no more than the overdue days', () => {
+      const paid = [payment('p1', 'a', new Date(2024, 3, 30), 4_000_000)];
+
+      expect(scan(records([lease('a')], paid), 'overdue')).toEqual([]);
+    });
+
+    it('follows a custom overdue threshold', () => {
+      const paid = [payment('p1', 'a', new Date(2024, 3, 30), 4_000_000)];
+      const settings = getNotificationSettings({ overdueDays: 10 });
+
+      expect(scanNotifications(records([lease('a')], paid), settings, today).map(n => n.type)).toContain('overdue');
+    });
+  });
+
+  describe('expiring leases', () => {
+    it('reports leases ending within the expiring days, with their renewal status', () => {
+      const ending = lease('a', { leaseEndDate: new Date(2024, 6, 31), renewalStatus: 'negotiating' });
+      const [notification] = scan(records([ending, lease('b')]), 'expiring');
+
+      expect(notification).toMatchObject({ id: 'expiring_a_20240731', title: '임차인 a 만기 D-46' });
+      expect(notification.description).toContain('재계약 협의 중');
+    });
+
+    it('says a lease ending today ends today, and counts renewals in the end date', () => {
+      const endingToday = lease('a', { leaseEndDate: today });
+      const renewed = lease('b', {
+        leaseEndDate: new Date(2024, 6, 31),
+        renewals: [{ renewalDate: new Date(2024, 7, 1), newRentAmount: 1_000_000, newLeaseEndDate: new Date(2025, 6, 31) }],
+      });
+
+      expect(scan(records([endingToday, renewed]), 'expiring').map(n => n.title)).toEqual(['임차인 a 오늘 만기']);
+    });
+  });
+
+  describe('unchanged renewal rents', () => {
+    const renewed = (newRentAmount: number, renewalDate = new Date(2024, 5, 1)) => lease('a', {
+      leaseStartDate: new Date(2023, 5, 1),
+      leaseEndDate: new Date(2024, 4, 31),
+      renewals: [{ renewalDate, newRentAmount, newLeaseEndDate: new Date(2025, 4, 31) }],
+    });
+
+    it('reports a recent renewal that kept the previous rent', () => {
+      expect(scan(records([renewed(1_000_000)]), 'renewal_rent').map(n => n.id)).toEqual(['renewal_rent_a_20240601']);
+    });
+
+    it('skips renewals with a new rent, an adjustment since, or that started too long ago', () => {
+      expect(scan(records([renewed(1_100_000)]), 'renewal_rent')).toEqual([]);
+      expect(scan(records([renewed(1_000_000)], [], [adjustment('adj-1', 'a', new Date(2024, 5, 1), 1_100_000)]), 'renewal_rent')).toEqual([]);
+      expect(scan(records([renewed(1_000_000, new Date(2024, 0, 1))]), 'renewal_rent')).toEqual([]);
+    });
+  });
+
+  describe('unpaid adjusted months', () => {
+    it('reports an adjusted month without a payment in it', () => {
+      const [notification] = scan(records([lease('a')], [], [adjustment('adj-1', 'a', new Date(2024, 4, 1), 800_000)]), 'unpaid_adjustment');
+
+      expect(notification).toMatchObject({ id: 'unpaid_adjustment_adj-1', title: '임차인 a 2024년 5월 납부 없음' });
+    });
+
+    it('skips paid, rent-free and future adjusted months', () => {
+      const adjustments = [
+        adjustment('adj-1', 'a', new Date(2024, 4, 1), 800_000),
+        adjustment('adj-2', 'a', new Date(2024, 3, 1), 0),
+        adjustment('adj-3', 'a', new Date(2024, 6, 1), 800_000),
+      ];
+
+      expect(scan(records([lease('a')], [payment('p1', 'a', new Date(2024, 4, 25), 800_000)], adjustments), 'unpaid_adjustment')).toEqual([]);
+    });
+  });
+});
+
+describe('isNotificationSnoozed', () => {
+  it('is snoozed only until the snooze date', () => {
+    const state = { snoozedUntil: Timestamp.fromDate(new Date(2024, 5, 20)) };
+
+    expect(isNotificationSnoozed(state, today)).toBe(true);
+    expect(isNotificationSnoozed(state, new Date(2024, 5, 21))).toBe(false);
+    expect(isNotificationSnoozed(undefined, today)).toBe(false);
+  });
+});
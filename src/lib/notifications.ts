@@ -0,0 +1,164 @@
+import { addDays, format, isAfter, isBefore, isSameMonth, startOfDay, startOfMonth } from "date-fns";
+import { Building, LeaseAgreement, MaintenanceFee, MeterReading, NotificationSettings, NotificationState, Payment, RentAdjustment } from "./types";
+import { getApplicableRent, toDate } from "./rent-schedule";
+import { calculateLeaseAging } from "./aging";
+import { calculateLeaseFees } from "./utility-billing";
+import { getExpiringLeases, renewalStatusLabels } from "./renewals";
+import { formatCurrency } from "./utils";
+
+export type NotificationType = 'overdue' | 'expiring' | 'renewal_rent' | 'unpaid_adjustment';
+
+export const notificationTypeLabels: Record<NotificationType, string> = {
+  overdue: '장기 연체',
+  expiring: '만기 임박',
+  renewal_rent: '재계약 임대료 미변경',
+  unpaid_adjustment: '조정 월 미납',
+};
+
+export const defaultNotificationSettings: NotificationSettings = {
+  overdueDays: 30,
+  expiringDays: 60,
+  renewalLookbackDays: 90,
+};
+
+export const getNotificationSettings = (settings?: Partial<NotificationSettings>): NotificationSettings =>
+  ({ ...defaultNotificationSettings, ...settings });
+
+/**
+ * A problem found by scanning the portfolio. The id is derived from the data that raised it, so
+ * the read and snooze state stays with the same problem across scans, and a new occurrence (a new
+ * expiry date, another renewal) shows up unread again.
+ */
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  leaseId: string;
+  title: string;
+  description: string;
+  href: string;
+  date: Date; // 미납 기한, 만기일, 재계약일 등 알림의 기준일
+}
+
+export interface NotificationRecords {
+  buildings: Building[];
+  leases: LeaseAgreement[];
+  paymentsByLease: Map<string, Payment[]>;
+  adjustmentsByLease: Map<string, RentAdjustment[]>;
+  feesByBuilding: Map<string, MaintenanceFee[]>;
+  readingsByBuilding: Map<string, MeterReading[]>;
+}
+
+const dayKey = (date: Date) => format(date, 'yyyyMMdd');
+
+/**
+ * Balances unpaid for more than `overdueDays` days past their due date.
+ */
+function findOverdueBalances(records: NotificationRecords, settings: NotificationSettings, today: Date): AppNotification[] {
+  const buildingsMap = new Map(records.buildings.map(b => [b.id, b]));
+  return records.leases.flatMap(lease => {
+    const fees = calculateLeaseFees(lease, buildingsMap.get(lease.buildingId), records.feesByBuilding.get(lease.buildingId) || [], records.readingsByBuilding.get(lease.buildingId) || [], today);
+    const aging = calculateLeaseAging(lease, records.adjustmentsByLease.get(lease.id) || [], records.paymentsByLease.get(lease.id) || [], fees, today);
+    const overdueItems = aging.items.filter(item => item.daysPastDue > settings.overdueDays);
+    if (overdueItems.length === 0 || aging.total <= 0) return [];
+
+    const oldest = overdueItems[0];
+    const amount = overdueItems.reduce((sum, item) => sum + item.unpaid, 0);
+    return [{
+      id: `overdue_${lease.id}_${dayKey(oldest.dueDate)}`,
+      type: 'overdue' as const,
+      leaseId: lease.id,
+      title: `${lease.tenantName} ${oldest.daysPastDue}일 연체`,
+      description: `${settings.overdueDays}일 넘게 미납된 금액 ${formatCurrency(amount)} · 최초 미납 ${oldest.description}`,
+      href: `/tenants/${lease.id}`,
+      date: oldest.dueDate,
+    }];
+  });
+}
+
+/**
+ * Leases whose final end date, including renewals, is within `expiringDays` days.
+ */
+function findExpiringLeases(records: NotificationRecords, settings: NotificationSettings, today: Date): AppNotification[] {
+  return getExpiringLeases(records.leases, today, settings.expiringDays).map(({ lease, endDate, daysLeft, status }) => ({
+    id: `expiring_${lease.id}_${dayKey(endDate)}`,
+    type: 'expiring' as const,
+    leaseId: lease.id,
+    title: `${lease.tenantName} ${daysLeft === 0 ? '오늘 만기' : `만기 D-${daysLeft}`}`,
+    description: `${lease.buildingName} · ${format(endDate, 'yyyy-MM-dd')} 만기 · 재계약 ${renewalStatusLabels[status]}`,
+    href: `/tenants/${lease.id}`,
+    date: endDate,
+  }));
+}
+
+/**
+ * Renewals started in the last `renewalLookbackDays` days that kept the previous rent and have no
+ * rent adjustment since, which usually means the new rent was not entered.
+ */
+function findUnchangedRenewalRents(records: NotificationRecords, settings: NotificationSettings, today: Date): AppNotification[] {
+  const lookbackStart = addDays(today, -settings.renewalLookbackDays);
+  return records.leases.flatMap(lease => (lease.renewals || []).flatMap(renewal => {
+    const renewalDate = startOfDay(toDate(renewal.renewalDate));
+    if (isAfter(renewalDate, today) || isBefore(renewalDate, lookbackStart)) return [];
+
+    const previousRent = getApplicableRent(lease, addDays(renewalDate, -1)).rent;
+    const adjustedSince = (records.adjustmentsByLease.get(lease.id) || [])
+      .some(adjustment => !isBefore(toDate(adjustment.adjustmentDate), startOfMonth(renewalDate)));
+    if (renewal.newRentAmount !== previousRent || adjustedSince) return [];
+
+    return [{
+      id: `renewal_rent_${lease.id}_${dayKey(renewalDate)}`,
+      type: 'renewal_rent' as const,
+      leaseId: lease.id,
+      title: `${lease.tenantName} 재계약 임대료 확인`,
+      description: `${format(renewalDate, 'yyyy-MM-dd')} 재계약 후에도 임대료가 ${formatCurrency(previousRent)}로 그대로입니다.`,
+      href: `/tenants/${lease.id}`,
+      date: renewalDate,
+    }];
+  }));
+}
+
+/**
+ * Months up to the current one whose rent was adjusted but that have no payment dated in them.
+ * Adjustments to zero (rent-free months) are skipped.
+ */
+function findUnpaidAdjustedMonths(records: NotificationRecords, today: Date): AppNotification[] {
+  const leasesMap = new Map(records.leases.map(l => [l.id, l]));
+  return Array.from(records.adjustmentsByLease.entries()).flatMap(([leaseId, adjustments]) => {
+    const lease = leasesMap.get(leaseId);
+    if (!lease) return [];
+    const payments = records.paymentsByLease.get(leaseId) || [];
+
+    return adjustments.flatMap(adjustment => {
+      const month = startOfMonth(toDate(adjustment.adjustmentDate));
+      if (adjustment.adjustedRentAmount <= 0 || isAfter(month, today)) return [];
+      if (payments.some(p => isSameMonth(toDate(p.paymentDate), month))) return [];
+
+      return [{
+        id: `unpaid_adjustment_${adjustment.id}`,
+        type: 'unpaid_adjustment' as const,
+        leaseId,
+        title: `${lease.tenantName} ${format(month, 'yyyy년 M월')} 납부 없음`,
+        description: `임대료를 ${formatCurrency(adjustment.adjustedRentAmount)}로 조정한 달에 납부 기록이 없습니다.`,
+        href: `/tenants/${leaseId}`,
+        date: month,
+      }];
+    });
+  });
+}
+
+/**
+ * Runs every notification rule over the portfolio's data. Notifications are grouped by rule, most
+ * urgent rule first.
+ */
+export function scanNotifications(records: NotificationRecords, settings: NotificationSettings, asOf: Date = new Date()): AppNotification[] {
+  const today = startOfDay(asOf);
+  return [
+    ...findOverdueBalances(records, settings, today),
+    ...findExpiringLeases(records, settings, today),
+    ...findUnchangedRenewalRents(records, settings, today),
+    ...findUnpaidAdjustedMonths(records, today),
+  ];
+}
+
+export const isNotificationSnoozed = (state: NotificationState | undefined, now: Date) =>
+  !!state?.snoozedUntil && isAfter(toDate(state.snoozedUntil), now);
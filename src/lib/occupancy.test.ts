@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Building, LeaseAgreement } from './types';
+import { buildUnitTimelines, findUnitConflicts } from './occupancy';
+
+const lease = (id: string, start: Date, end: Date, overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id,
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '테스트빌딩',
+  tenantName: `임차인 ${id}`,
+  tenantContact: '010-0000-0000',
+  tenantAddress: '',
+  unitIds: ['101'],
+  leaseStartDate: start,
+  leaseEndDate: end,
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+const existing = lease('existing', new Date(2024, 0, 1), new Date(2024, 11, 31));
+
+describe('findUnitConflicts', () => {
+  it('allows a lease starting the day after another ends', () => {
+    expect(findUnitConflicts(lease('new', new Date(2025, 0, 1), new Date(2025, 11, 31)), [existing])).toEqual([]);
+  });
+
+  it('rejects a lease starting on the day another ends, since both days are occupied', () => {
+    const [conflict] = findUnitConflicts(lease('new', new Date(2024, 11, 31), new Date(2025, 11, 31)), [existing]);
+
+    expect(conflict).toMatchObject({ unitId: '101', lease: existing, overlapStart: new Date(2024, 11, 31), overlapEnd: new Date(2024, 11, 31) });
+  });
+
+  it('rejects a lease lying inside another and reports the overlapping days', () => {
+    const [conflict] = findUnitConflicts(lease('new', new Date(2024, 5, 1), new Date(2024, 6, 31)), [existing]);
+
+    expect(conflict.overlapStart).toEqual(new Date(2024, 5, 1));
+    expect(conflict.overlapEnd).toEqual(new Date(2024, 6, 31));
+  });
+
+  it('reports only the shared units', () => {
+    const conflicts = findUnitConflicts(lease('new', new Date(2024, 5, 1), new Date(2024, 6, 31), { unitIds: ['101', '102'] }), [
+      lease('other', new Date(2024, 0, 1), new Date(2024, 11, 31), { unitIds: ['102', '103'] }),
+    ]);
+
+    expect(conflicts.map(c => c.unitId)).toEqual(['102']);
+  });
+
+  it('ignores other units, other buildings and the lease\'s own stored version', () => {
+    const changed = lease('existing', new Date(2024, 0, 1), new Date(2025, 5, 30));
+
+    expect(findUnitConflicts(lease('new', new Date(2024, 5, 1), new Date(2024, 6, 31), { unitIds: ['102'] }), [existing])).toEqual([]);
+    expect(findUnitConflicts(lease('new', new Date(2024, 5, 1), new Date(2024, 6, 31), { buildingId: 'building-2' }), [existing])).toEqual([]);
+    expect(findUnitConflicts(changed, [existing])).toEqual([]);
+  });
+
+  it('counts renewals as extending a lease\'s period', () => {
+    const renewed = lease('existing', new Date(2024, 0, 1), new Date(2024, 11, 31), {
+      renewals: [{ renewalDate: new Date(2025, 0, 1), newRentAmount: 1_100_000, newLeaseEndDate: new Date(2025, 11, 31) }],
+    });
+    const [conflict] = findUnitConflicts(lease('new', new Date(2025, 2, 1), new Date(2026, 1, 28)), [renewed]);
+
+    expect(conflict.overlapEnd).toEqual(new Date(2025, 11, 31));
+  });
+});
+
+describe('buildUnitTimelines', () => {
+  const building: Building = {
+    id: 'building-1',
+    portfolioId: 'portfolio-1',
+    name: '테스트빌딩',
+    address: '',
+    units: [{ id: '101', name: '101호', area: 50 }],
+  };
+
+  it('fills the range with leases and the vacant days between them', () => {
+    const [timeline] = buildUnitTimelines(building, [
+      lease('a', new Date(2023, 6, 1), new Date(2024, 2, 31)),
+      lease('b', new Date(2024, 4, 1), new Date(2025, 3, 30)),
+    ], new Date(2024, 0, 1), new Date(2024, 11, 31));
+
+    expect(timeline.segments.map(s => [s.type, s.start, s.end])).toEqual([
+      ['lease', new Date(2024, 0, 1), new Date(2024, 2, 31)],
+      ['vacant', new Date(2024, 3, 1), new Date(2024, 3, 30)],
+      ['lease', new Date(2024, 4, 1), new Date(2024, 11, 31)],
+    ]);
+    expect(timeline.segments[1]).toMatchObject({ days: 30 });
+  });
+
+  it('flags leases that overlap on the unit', () => {
+    const [timeline] = buildUnitTimelines(building, [
+      lease('a', new Date(2024, 0, 1), new Date(2024, 5, 30)),
+      lease('b', new Date(2024, 5, 1), new Date(2024, 11, 31)),
+    ], new Date(2024, 0, 1), new Date(2024, 11, 31));
+
+    expect(timeline.segments.map(s => s.type === 'lease' && s.hasConflict)).toEqual([true, true]);
+  });
+});
@@ -0,0 +1,127 @@
+import { addDays, differenceInCalendarDays, isAfter, isBefore, max as maxDate, min as minDate, startOfDay } from "date-fns";
+import { Building, BuildingUnit, LeaseAgreement } from "./types";
+import { toDate } from "./rent-schedule";
+import { getLeaseDetails } from "./utils";
+
+/**
+ * The days a lease occupies its units, both inclusive: from the contract start to the final end
+ * date including renewals.
+ */
+export interface LeasePeriod {
+  start: Date;
+  end: Date;
+}
+
+export function getLeasePeriod(lease: Pick<LeaseAgreement, 'leaseStartDate' | 'leaseEndDate' | 'renewals'>): LeasePeriod {
+  return {
+    start: startOfDay(toDate(lease.leaseStartDate)),
+    end: startOfDay(getLeaseDetails(lease as LeaseAgreement).leaseEndDate),
+  };
+}
+
+const periodsOverlap = (a: LeasePeriod, b: LeasePeriod) => !isAfter(a.start, b.end) && !isAfter(b.start, a.end);
+
+/**
+ * A unit that a lease being saved shares with another lease of the building for overlapping days.
+ */
+export interface UnitConflict {
+  unitId: string;
+  lease: LeaseAgreement; // 겹치는 기존 계약
+  overlapStart: Date;
+  overlapEnd: Date;
+}
+
+/**
+ * Finds the units of a lease that other leases of the same building already occupy during any of
+ * its days. Renewals extend both periods, so a renewed lease keeps its units until its last end date.
+ * @param lease The lease being saved. Its own stored version, matched by `id`, is ignored.
+ * @param leases The leases of the building.
+ */
+export function findUnitConflicts(
+  lease: Pick<LeaseAgreement, 'buildingId' | 'unitIds' | 'leaseStartDate' | 'leaseEndDate' | 'renewals'> & { id?: string },
+  leases: LeaseAgreement[]
+): UnitConflict[] {
+  const period = getLeasePeriod(lease);
+  const conflicts: UnitConflict[] = [];
+
+  leases.forEach(other => {
+    if (other.id === lease.id || other.buildingId !== lease.buildingId) return;
+    const otherPeriod = getLeasePeriod(other);
+    if (!periodsOverlap(period, otherPeriod)) return;
+
+    (lease.unitIds || []).filter(unitId => (other.unitIds || []).includes(unitId)).forEach(unitId => {
+      conflicts.push({
+        unitId,
+        lease: other,
+        overlapStart: maxDate([period.start, otherPeriod.start]),
+        overlapEnd: minDate([period.end, otherPeriod.end]),
+      });
+    });
+  });
+
+  return conflicts.sort((a, b) => a.overlapStart.getTime() - b.overlapStart.getTime());
+}
+
+/**
+ * Thrown when saving a lease would give it units that other leases occupy on the same days.
+ */
+export class UnitConflictError extends Error {
+  constructor(public readonly conflicts: UnitConflict[]) {
+    super(`호실 중복 계약: ${conflicts.map(c => `${c.unitId} (${c.lease.tenantName})`).join(', ')}`);
+    this.name = 'UnitConflictError';
+  }
+}
+
+export type TimelineSegment =
+  | { type: 'lease'; start: Date; end: Date; lease: LeaseAgreement; hasConflict: boolean }
+  | { type: 'vacant'; start: Date; end: Date; days: number };
+
+export interface UnitTimeline {
+  unit: BuildingUnit;
+  segments: TimelineSegment[]; // 시작일 순. 겹치는 계약은 hasConflict로 표시
+}
+
+/**
+ * Lays out each unit of a building over a date range: the leases covering it, clipped to the range,
+ * and the vacancy gaps between them. Leases that overlap on the same unit are flagged, since they
+ * were saved before overlaps were rejected.
+ */
+export function buildUnitTimelines(building: Building, leases: LeaseAgreement[], rangeStart: Date, rangeEnd: Date): UnitTimeline[] {
+  const start = startOfDay(rangeStart);
+  const end = startOfDay(rangeEnd);
+  const range: LeasePeriod = { start, end };
+
+  return (building.units || []).map(unit => {
+    const unitLeases = leases
+      .filter(lease => lease.buildingId === building.id && (lease.unitIds || []).includes(unit.id))
+      .map(lease => ({ lease, period: getLeasePeriod(lease) }))
+      .filter(({ period }) => periodsOverlap(period, range))
+      .sort((a, b) => a.period.start.getTime() - b.period.start.getTime());
+
+    const segments: TimelineSegment[] = [];
+    let cursor = start; // 아직 계약으로 채워지지 않은 첫날
+    unitLeases.forEach(({ lease, period }) => {
+      const segmentStart = maxDate([period.start, start]);
+      const segmentEnd = minDate([period.end, end]);
+      if (isBefore(cursor, segmentStart)) {
+        const gapEnd = addDays(segmentStart, -1);
+        segments.push({ type: 'vacant', start: cursor, end: gapEnd, days: differenceInCalendarDays(gapEnd, cursor) + 1 });
+      }
+      segments.push({
+        type: 'lease',
+        start: segmentStart,
+        end: segmentEnd,
+        lease,
+        hasConflict: unitLeases.some(other => other.lease.id !== lease.id && periodsOverlap(other.period, period)),
+      });
+      if (!isBefore(segmentEnd, cursor)) {
+        cursor = addDays(segmentEnd, 1);
+      }
+    });
+    if (!isAfter(cursor, end)) {
+      segments.push({ type: 'vacant', start: cursor, end, days: differenceInCalendarDays(end, cursor) + 1 });
+    }
+
+    return { unit, segments };
+  });
+}
@@ -0,0 +1,25 @@
+import { LeaseAgreement, Payment, PaymentMethod } from "./types";
+
+export const paymentMethods: PaymentMethod[] = ['bank_transfer', 'credit_card', 'cash'];
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  bank_transfer: '계좌이체',
+  credit_card: '카드결제',
+  cash: '현금',
+};
+
+const isPaymentMethod = (value: string | undefined): value is PaymentMethod =>
+  !!value && (paymentMethods as string[]).includes(value);
+
+/**
+ * The method of a payment. Payments recorded before methods were kept per payment fall back
+ * to the lease's usual method.
+ */
+export function getPaymentMethod(payment: Pick<Payment, 'paymentMethod'>, lease?: Pick<LeaseAgreement, 'paymentMethod'> | null): PaymentMethod | undefined {
+  if (payment.paymentMethod) return payment.paymentMethod;
+  return isPaymentMethod(lease?.paymentMethod) ? lease.paymentMethod : undefined;
+}
+
+// The label of a stored method value, or the value itself if it is not a known method.
+export const formatPaymentMethod = (method: string | undefined): string =>
+  isPaymentMethod(method) ? paymentMethodLabels[method] : method || '-';
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Building, LeaseAgreement, Payment } from './types';
+import { buildPaymentReceiptDraft, formatKoreanAmount, formatReceiptNumber, getLastReceiptSequence, getUnappliedReceiptAmount } from './payment-receipt';
+
+describe('formatKoreanAmount', () => {
+  it('writes every digit with its unit', () => {
+    expect(formatKoreanAmount(1_250_000)).toBe('일백이십오만');
+    expect(formatKoreanAmount(12_345_678)).toBe('일천이백삼십사만오천육백칠십팔');
+    expect(formatKoreanAmount(10_000)).toBe('일만');
+  });
+
+  it('skips empty groups of four digits', () => {
+    expect(formatKoreanAmount(100_000_005)).toBe('일억오');
+    expect(formatKoreanAmount(1_000_000_000_000)).toBe('일조');
+  });
+
+  it('writes zero, negative and fractional amounts', () => {
+    expect(formatKoreanAmount(0)).toBe('영');
+    expect(formatKoreanAmount(-30_000)).toBe('마이너스 삼만');
+    expect(formatKoreanAmount(1_500.7)).toBe('일천오백');
+  });
+});
+
+describe('receipt numbers', () => {
+  const march = new Date(2024, 2, 15);
+
+  it('continues after the highest number of the issue month only', () => {
+    const existing = [{ receiptNumber: 'R-202403-002' }, { receiptNumber: 'R-202403-010' }, { receiptNumber: 'R-202402-031' }];
+
+    expect(getLastReceiptSequence(existing, march)).toBe(10);
+    expect(getLastReceiptSequence([], march)).toBe(0);
+  });
+
+  it('pads the sequence to three digits', () => {
+    expect(formatReceiptNumber(march, 7)).toBe('R-202403-007');
+    expect(formatReceiptNumber(march, 1234)).toBe('R-202403-1234');
+  });
+});
+
+describe('buildPaymentReceiptDraft', () => {
+  const lease: LeaseAgreement = {
+    id: 'lease-1',
+    portfolioId: 'portfolio-1',
+    buildingId: 'building-1',
+    buildingName: '이전 건물명',
+    tenantName: '홍길동',
+    tenantContact: '010-0000-0000',
+    tenantAddress: '',
+    unitIds: ['101'],
+    leaseStartDate: new Date(2024, 0, 1),
+    leaseEndDate: new Date(2024, 11, 31),
+    leaseDepositAmount: 10_000_000,
+    rentAmount: 1_000_000,
+    vatTreatment: 'none',
+    paymentMethod: 'bank_transfer',
+    rentCalculationMethod: 'contract_date',
+  };
+  const building: Building = { id: 'building-1', portfolioId: 'portfolio-1', name: '한빛빌딩', address: '', units: [{ id: '101', name: '101호', area: 30 }] };
+  const payment: Payment = {
+    id: 'p1',
+    portfolioId: 'portfolio-1',
+    leaseAgreementId: 'lease-1',
+    paymentDate: new Date(2024, 2, 5),
+    paymentAmount: 2_300_000,
+    maintenanceFeeAmount: 100_000,
+    paymentMethod: 'credit_card',
+  };
+
+  it('takes the amounts and months of the payment and the names of the building', () => {
+    const draft = buildPaymentReceiptDraft(payment, lease, building, [{ month: '2024-03', amount: 1_000_000 }, { month: '2024-02', amount: 1_000_000 }], new Date(2024, 2, 6));
+
+    expect(draft).toMatchObject({
+      paymentId: 'p1',
+      amount: 2_300_000,
+      maintenanceFeeAmount: 100_000,
+      paymentMethod: 'credit_card',
+      allocations: [{ month: '2024-02', amount: 1_000_000 }, { month: '2024-03', amount: 1_000_000 }],
+      buildingName: '한빛빌딩',
+      unitNames: ['101호'],
+      landlordName: '한빛빌딩',
+    });
+    expect(getUnappliedReceiptAmount(draft)).toBe(200_000);
+  });
+
+  it('takes off the reversals recorded against the payment but not its refunds', () => {
+    const withdrawal = (id: string, amount: number, type: Payment['type'], maintenanceFeeAmount?: number): Payment => ({
+      id,
+      portfolioId: 'portfolio-1',
+      leaseAgreementId: 'lease-1',
+      paymentDate: new Date(2024, 2, 20),
+      paymentAmount: amount,
+      type,
+      originalPaymentId: 'p1',
+      ...(maintenanceFeeAmount ? { maintenanceFeeAmount } : {}),
+    });
+    const leasePayments = [payment, withdrawal('w1', -2_250_000, 'reversal', -50_000), withdrawal('w2', -20_000, 'refund')];
+
+    const draft = buildPaymentReceiptDraft(payment, lease, building, [], new Date(2024, 2, 21), leasePayments);
+
+    expect(draft).toMatchObject({ amount: 50_000, maintenanceFeeAmount: 50_000 });
+  });
+});
@@ -0,0 +1,97 @@
+import { format as formatDateFns } from "date-fns";
+import { Building, LeaseAgreement, Payment, PaymentAllocation, PaymentReceipt, PaymentReceiptStatus } from "./types";
+import { getPaymentMethod } from "./payment-method";
+import { getNetPaymentAmounts } from "./rent-schedule";
+
+export const paymentReceiptStatusLabels: Record<PaymentReceiptStatus, string> = {
+  issued: '발행',
+  void: '무효',
+};
+
+export type PaymentReceiptDraft = Omit<PaymentReceipt, 'id' | 'portfolioId' | 'receiptNumber' | 'status'>;
+
+const DIGITS = ['', '일', '이', '삼', '사', '오', '육', '칠', '팔', '구'];
+const SMALL_UNITS = ['', '십', '백', '천'];
+const LARGE_UNITS = ['', '만', '억', '조'];
+
+/**
+ * Writes an amount in Korean numerals as on a receipt, e.g. 1,250,000 → `일백이십오만`.
+ * Every digit is written out, including a leading 일, so the amount cannot be altered.
+ */
+export function formatKoreanAmount(amount: number): string {
+  let rest = Math.floor(Math.abs(amount));
+  if (rest === 0) return '영';
+
+  const groups: string[] = [];
+  for (let unit = 0; rest > 0; unit++) {
+    const group = rest % 10000;
+    rest = Math.floor(rest / 10000);
+    if (group === 0) continue;
+    const words = String(group).padStart(4, '0').split('').map(Number)
+      .map((digit, i) => digit ? `${DIGITS[digit]}${SMALL_UNITS[3 - i]}` : '')
+      .join('');
+    groups.unshift(`${words}${LARGE_UNITS[unit]}`);
+  }
+  return `${amount < 0 ? '마이너스 ' : ''}${groups.join('')}`;
+}
+
+/**
+ * Builds the receipt of one payment from the lease, the building's landlord details and the
+ * months the payment was applied to (the ledger's allocation of that payment). The amounts are
+ * net of the reversals and chargebacks recorded against the payment in `leasePayments`.
+ */
+export function buildPaymentReceiptDraft(
+  payment: Payment,
+  lease: LeaseAgreement,
+  building: Building | null | undefined,
+  allocations: PaymentAllocation[],
+  issueDate: Date,
+  leasePayments: Payment[] = []
+): PaymentReceiptDraft {
+  const { paymentAmount, maintenanceFeeAmount } = getNetPaymentAmounts(payment, leasePayments);
+  const unitNames = (lease.unitIds || []).map(unitId => building?.units?.find(u => u.id === unitId)?.name || unitId);
+  const landlord = building?.businessInfo;
+  const tenant = lease.tenantBusinessInfo;
+
+  return {
+    paymentId: payment.id,
+    leaseAgreementId: lease.id,
+    buildingId: lease.buildingId,
+    issueDate,
+    paymentDate: payment.paymentDate,
+    amount: paymentAmount,
+    paymentMethod: getPaymentMethod(payment, lease) || lease.paymentMethod,
+    maintenanceFeeAmount,
+    allocations: [...allocations].sort((a, b) => a.month.localeCompare(b.month)),
+    tenantName: tenant?.name || lease.tenantName,
+    ...(tenant?.registrationNumber ? { tenantRegistrationNumber: tenant.registrationNumber } : {}),
+    buildingName: building?.name || lease.buildingName,
+    unitNames,
+    landlordName: landlord?.name || building?.name || lease.buildingName,
+    ...(landlord?.registrationNumber ? { landlordRegistrationNumber: landlord.registrationNumber } : {}),
+    ...(landlord?.representative ? { landlordRepresentative: landlord.representative } : {}),
+    ...(landlord?.address ? { landlordAddress: landlord.address } : {}),
+  };
+}
+
+/**
+ * The part of a receipt's amount that was not applied to any month or to maintenance fees,
+ * i.e. rent paid in advance.
+ */
+export const getUnappliedReceiptAmount = (receipt: Pick<PaymentReceipt, 'amount' | 'maintenanceFeeAmount' | 'allocations'>): number =>
+  Math.max(0, receipt.amount - receipt.maintenanceFeeAmount - receipt.allocations.reduce((sum, a) => sum + a.amount, 0));
+
+/**
+ * The highest sequence among the receipt numbers already issued in an issue month, e.g. 2 for
+ * `R-202403-001` and `R-202403-002`, or 0 if none.
+ */
+export function getLastReceiptSequence(existingReceipts: Pick<PaymentReceipt, 'receiptNumber'>[], issueDate: Date): number {
+  const prefix = `R-${formatDateFns(issueDate, 'yyyyMM')}`;
+  return existingReceipts
+    .filter(receipt => receipt.receiptNumber.startsWith(`${prefix}-`))
+    .reduce((max, receipt) => Math.max(max, Number(receipt.receiptNumber.slice(prefix.length + 1)) || 0), 0);
+}
+
+/** The receipt number of a sequence in an issue month, e.g. `R-202403-001`. */
+export const formatReceiptNumber = (issueDate: Date, sequence: number): string =>
+  `R-${formatDateFns(issueDate, 'yyyyMM')}-${String(sequence).padStart(3, '0')}`;
@@ -0,0 +1,57 @@
+import { PortfolioMember, PortfolioRole } from "./types";
+
+export const portfolioRoleLabels: Record<PortfolioRole, string> = {
+  owner: '소유자',
+  manager: '담당자',
+  guest: '게스트 (읽기 전용)',
+};
+
+// Collections whose documents belong to a portfolio through their `portfolioId`.
+export const portfolioCollections = [
+  'buildings',
+  'leaseAgreements',
+  'payments',
+  'rentAdjustments',
+  'depositTransactions',
+  'maintenanceFees',
+  'meterReadings',
+  'taxInvoices',
+  'rentInvoices',
+  'paymentReceipts',
+  'depositorAliases',
+  'messageTemplates',
+  'reminderMessages',
+];
+
+/**
+ * The id of a user's personal portfolio. Data created before portfolios existed is moved
+ * into it, so the id is derived from the user rather than generated.
+ */
+export const getPersonalPortfolioId = (userId: string) => userId;
+
+// Invitations are keyed by email, so addresses are compared in lower case.
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const canManagePortfolio = (membership: Pick<PortfolioMember, 'role'> | null | undefined) => membership?.role === 'owner';
+
+// Guests only read the data of their buildings; owners and managers edit everything.
+export const canEditPortfolioData = (membership: Pick<PortfolioMember, 'role'> | null | undefined) =>
+  !!membership && membership.role !== 'guest';
+
+/**
+ * The buildings a guest may read, or undefined for members who see the whole portfolio.
+ */
+export function getGuestBuildingIds(membership: Pick<PortfolioMember, 'role' | 'buildingIds'> | null | undefined): string[] | undefined {
+  return membership?.role === 'guest' ? membership.buildingIds ?? [] : undefined;
+}
+
+// Data entry screens guests may not open. Sub-routes are included.
+const editorOnlyRoutes = ['/buildings/new', '/tenants/new', '/renewals', '/payments/new', '/payments/import', '/tax-invoices', '/invoices', '/receipts', '/reminders'];
+// Per-building and per-tenant screens that only edit data. Guests see building details read-only.
+const editorOnlyRoutePatterns = [/^\/tenants\/[^/]+\/edit$/, /^\/buildings\/[^/]+\/(maintenance-fees|meter-readings)$/];
+
+export function canAccessPortfolioRoute(membership: Pick<PortfolioMember, 'role'> | null | undefined, pathname: string): boolean {
+  if (membership?.role !== 'guest') return true;
+  return !editorOnlyRoutes.some(route => pathname === route || pathname.startsWith(`${route}/`))
+    && !editorOnlyRoutePatterns.some(pattern => pattern.test(pathname));
+}
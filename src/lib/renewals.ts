@@ -0,0 +1,57 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, startOfDay } from "date-fns";
+import { LeaseAgreement, RenewalStatus } from "./types";
+import { getApplicableRent } from "./rent-schedule";
+import { getAgreedDeposit } from "./deposit";
+import { getLeaseTerm } from "./rent-roll";
+import { getLeaseDetails } from "./utils";
+
+export const renewalStatusLabels: Record<RenewalStatus, string> = {
+  not_contacted: '미연락',
+  negotiating: '협의 중',
+  renewing: '재계약 예정',
+  leaving: '퇴거 예정',
+};
+
+// 만기 조회 기간 (일)
+export const expiryWindows = [30, 60, 90, 180];
+
+/**
+ * A lease in the renewal pipeline: its final end date, including renewals, and the days left until it.
+ */
+export interface ExpiringLease {
+  lease: LeaseAgreement;
+  endDate: Date;
+  daysLeft: number; // 0이면 오늘 만기
+  status: RenewalStatus;
+}
+
+/**
+ * Lists the leases whose final end date falls between today and `withinDays` days later,
+ * soonest first.
+ */
+export function getExpiringLeases(leases: LeaseAgreement[], today: Date, withinDays: number): ExpiringLease[] {
+  const day = startOfDay(today);
+  return leases
+    .map(lease => {
+      const endDate = startOfDay(getLeaseDetails(lease).leaseEndDate);
+      return { lease, endDate, daysLeft: differenceInCalendarDays(endDate, day), status: lease.renewalStatus || 'not_contacted' };
+    })
+    .filter(item => item.daysLeft >= 0 && item.daysLeft <= withinDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+/**
+ * Suggested values for renewing a lease: the new term starts the day after the current end date
+ * and runs as long as the current term, at the current rent and deposit.
+ */
+export function getSuggestedRenewal(lease: LeaseAgreement, endDate: Date) {
+  const term = getLeaseTerm(lease, endDate);
+  const termMonths = Math.max(differenceInCalendarMonths(addDays(term.endDate, 1), term.startDate), 1);
+  const renewalDate = addDays(endDate, 1);
+  return {
+    renewalDate,
+    newLeaseEndDate: addDays(addMonths(renewalDate, termMonths), -1),
+    newRentAmount: getApplicableRent(lease, endDate).rent,
+    newDepositAmount: getAgreedDeposit(lease, endDate),
+  };
+}
@@ -0,0 +1,102 @@
+import { addDays, endOfDay, endOfMonth, format as formatDateFns, isAfter, isBefore, isSameMonth, startOfMonth } from "date-fns";
+import { Building, LeaseAgreement, MaintenanceFee, MeterReading, Payment, RentAdjustment, RentInvoice, RentInvoiceLine, RentInvoiceStatus } from "./types";
+import { calculateDues, calculateLeaseBalance, toDate } from "./rent-schedule";
+import { calculateLeaseFees } from "./utility-billing";
+
+export const rentInvoiceStatusLabels: Record<RentInvoiceStatus, string> = {
+  issued: '발행',
+  void: '무효',
+};
+
+/**
+ * The ledger records of one lease that an invoice is built from.
+ */
+export interface RentInvoiceRecords {
+  adjustments: RentAdjustment[];
+  payments: Payment[];
+  fees: MaintenanceFee[];
+  readings: MeterReading[];
+}
+
+export type RentInvoiceDraft = Omit<RentInvoice, 'id' | 'portfolioId' | 'invoiceNumber' | 'status'>;
+
+/**
+ * Builds the invoice of one lease for one month from the same rent schedule, fees and payments
+ * as the ledger. The month's lines are its rent dues (with VAT as in the ledger), maintenance fees
+ * and utility charges. The previous balance is the ledger balance at the end of the previous
+ * month, less payments received up to the issue date.
+ * @param month Any date in the billing month.
+ * @param issueDate The issue date; payments after it are not deducted.
+ * @returns The draft, or null when the month has no charges and nothing is outstanding.
+ */
+export function buildRentInvoiceDraft(
+  lease: LeaseAgreement,
+  building: Building | null | undefined,
+  records: RentInvoiceRecords,
+  month: Date,
+  issueDate: Date
+): RentInvoiceDraft | null {
+  const monthStart = startOfMonth(month);
+  const monthEnd = endOfMonth(monthStart);
+  const previousMonthEnd = addDays(monthStart, -1);
+
+  const dues = calculateDues(lease, records.adjustments, monthEnd).filter(due => isSameMonth(due.date, monthStart));
+  const fees = calculateLeaseFees(lease, building, records.fees, records.readings, monthEnd);
+
+  const lines: RentInvoiceLine[] = [
+    ...dues
+      .filter(due => due.total > 0)
+      .map(due => ({
+        description: `${due.description} 임대료${due.notes ? ` (${due.notes})` : ''}`,
+        supplyValue: due.supplyValue,
+        vat: due.vat,
+        amount: due.total,
+      })),
+    ...fees
+      .filter(line => isSameMonth(line.date, monthStart))
+      .map(line => ({ description: line.description, supplyValue: line.amount, vat: 0, amount: line.amount })),
+  ];
+
+  const paymentsToDate = records.payments.filter(p => !isAfter(toDate(p.paymentDate), endOfDay(issueDate)));
+  const feesBefore = fees.filter(line => isBefore(line.date, monthStart));
+  const previousBalance = calculateLeaseBalance(lease, records.adjustments, paymentsToDate, previousMonthEnd, feesBefore).balance;
+
+  const currentCharges = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (lines.length === 0 && previousBalance <= 0) return null;
+
+  const unitNames = (lease.unitIds || []).map(unitId => building?.units?.find(u => u.id === unitId)?.name || unitId);
+  const landlord = building?.businessInfo;
+
+  return {
+    leaseAgreementId: lease.id,
+    buildingId: lease.buildingId,
+    billingMonth: monthStart,
+    issueDate,
+    dueDate: dues[0]?.date || monthEnd,
+    tenantName: lease.tenantName,
+    buildingName: building?.name || lease.buildingName,
+    unitNames,
+    landlordName: landlord?.name || building?.name || lease.buildingName,
+    ...(landlord?.registrationNumber ? { landlordRegistrationNumber: landlord.registrationNumber } : {}),
+    ...(building?.bankAccount ? { bankAccount: building.bankAccount } : {}),
+    lines,
+    currentCharges,
+    previousBalance,
+    totalDue: currentCharges + previousBalance,
+  };
+}
+
+/**
+ * The highest sequence among the invoice numbers already issued for a billing month, e.g. 2
+ * for `202403-001` and `202403-002`, or 0 if none.
+ */
+export function getLastInvoiceSequence(existingInvoices: Pick<RentInvoice, 'invoiceNumber'>[], month: Date): number {
+  const prefix = formatDateFns(month, 'yyyyMM');
+  return existingInvoices
+    .filter(invoice => invoice.invoiceNumber.startsWith(`${prefix}-`))
+    .reduce((max, invoice) => Math.max(max, Number(invoice.invoiceNumber.slice(prefix.length + 1)) || 0), 0);
+}
+
+/** The invoice number of a sequence in a billing month, e.g. `202403-001`. */
+export const formatInvoiceNumber = (month: Date, sequence: number): string =>
+  `${formatDateFns(month, 'yyyyMM')}-${String(sequence).padStart(3, '0')}`;
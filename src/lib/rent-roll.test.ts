@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { Building, LeaseAgreement, Payment } from './types';
+import { buildRentRoll, getLeaseTerm, isLeaseActiveOn } from './rent-roll';
+import { calculateLeaseBalance } from './rent-schedule';
+
+const building: Building = {
+  id: 'building-1',
+  portfolioId: 'portfolio-1',
+  name: '테스트빌딩',
+  address: '',
+  units: [
+    { id: '101', name: '101호', area: 60 },
+    { id: '102', name: '102호', area: 40 },
+    { id: '103', name: '103호', area: 50 },
+  ],
+};
+
+const lease = (id: string, overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id,
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '테스트빌딩',
+  tenantName: `임차인 ${id}`,
+  tenantContact: '010-0000-0000',
+  tenantAddress: '',
+  unitIds: [],
+  leaseStartDate: new Date(2024, 0, 1),
+  leaseEndDate: new Date(2024, 11, 31),
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+const payment = (id: string, leaseId: string, date: Date, amount: number): Payment => ({
+  id,
+  portfolioId: 'portfolio-1',
+  leaseAgreementId: leaseId,
+  paymentDate: date,
+  paymentAmount: amount,
+});
+
+describe('getLeaseTerm', () => {
+  const renewed = lease('a', {
+    renewals: [{ renewalDate: new Date(2025, 0, 1), newRentAmount: 1_100_000, newLeaseEndDate: new Date(2025, 11, 31) }],
+  });
+
+  it('is the original contract before the renewal starts', () => {
+    expect(getLeaseTerm(renewed, new Date(2024, 11, 31))).toMatchObject({ endDate: new Date(2024, 11, 31), renewalCount: 0 });
+  });
+
+  it('is the renewed term from the renewal date', () => {
+    expect(getLeaseTerm(renewed, new Date(2025, 0, 1))).toMatchObject({
+      startDate: new Date(2025, 0, 1),
+      endDate: new Date(2025, 11, 31),
+      originalEndDate: new Date(2024, 11, 31),
+      renewalCount: 1,
+    });
+  });
+
+  it('keeps a lease active through its renewed end date', () => {
+    expect(isLeaseActiveOn(renewed, new Date(2025, 11, 31))).toBe(true);
+    expect(isLeaseActiveOn(renewed, new Date(2026, 0, 1))).toBe(false);
+  });
+});
+
+describe('buildRentRoll', () => {
+  const asOf = new Date(2024, 5, 15);
+  const occupying = lease('a', { unitIds: ['101', '102'], vatTreatment: 'excluded' });
+  const ended = lease('b', { unitIds: ['103'], leaseEndDate: new Date(2024, 2, 31) });
+  const unassigned = lease('c', { rentAmount: 500_000, leaseDepositAmount: 5_000_000 });
+  const payments = [
+    payment('p1', 'a', new Date(2024, 1, 10), 2_000_000),
+    payment('p2', 'a', new Date(2024, 5, 20), 3_000_000),
+  ];
+  const roll = buildRentRoll(building, [occupying, ended, unassigned], {
+    paymentsByLease: new Map([['a', payments]]),
+    adjustmentsByLease: new Map(),
+    fees: [],
+    readings: [],
+  }, asOf);
+
+  it('merges the units of a lease, lists vacant units and then leases without units', () => {
+    expect(roll.rows.map(row => [row.lease?.id ?? null, row.units.map(unit => unit.id)])).toEqual([
+      ['a', ['101', '102']],
+      [null, ['103']],
+      ['c', []],
+    ]);
+  });
+
+  it('counts only payments made by the as-of date in the balance', () => {
+    const { balance } = calculateLeaseBalance(occupying, [], [payments[0]], asOf);
+
+    expect(roll.rows[0].balance).toBe(balance);
+    expect(roll.rows[0].rentTotal).toBe(1_100_000);
+  });
+
+  it('totals units, areas, rents and deposits', () => {
+    expect(roll.totals).toMatchObject({
+      unitCount: 3,
+      occupiedUnitCount: 2,
+      area: 150,
+      occupiedArea: 100,
+      rent: 1_500_000,
+      rentTotal: 1_600_000,
+      deposit: 15_000_000,
+    });
+    expect(roll.totals.balance).toBe(roll.rows.reduce((sum, row) => sum + row.balance, 0));
+  });
+
+  it('keeps a deposit lowered to zero at renewal', () => {
+    const renewed = lease('a', {
+      unitIds: ['101'],
+      renewals: [{ renewalDate: new Date(2024, 3, 1), newRentAmount: 1_000_000, newLeaseEndDate: new Date(2025, 2, 31), newDepositAmount: 0 }],
+    });
+    const [row] = buildRentRoll(building, [renewed], { paymentsByLease: new Map(), adjustmentsByLease: new Map(), fees: [], readings: [] }, asOf).rows;
+
+    expect(row.deposit).toBe(0);
+  });
+});
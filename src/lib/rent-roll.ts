@@ -0,0 +1,186 @@
+import { isAfter, isBefore, startOfDay } from "date-fns";
+import { Building, BuildingUnit, LeaseAgreement, MaintenanceFee, MeterReading, Payment, RentAdjustment } from "./types";
+import { calculateLeaseBalance, getApplicableRent, splitVat, toDate } from "./rent-schedule";
+import { calculateLeaseFees } from "./utility-billing";
+import { getAgreedDeposit } from "./deposit";
+import { getLeaseDetails } from "./utils";
+
+export const vatTreatmentLabels: Record<LeaseAgreement['vatTreatment'], string> = {
+  none: '미발행',
+  included: '포함',
+  excluded: '별도',
+};
+
+/**
+ * The term of a lease in effect on a date: the original contract or the latest renewal
+ * that has started by then.
+ */
+export interface LeaseTerm {
+  startDate: Date; // 계약 시작일 또는 재계약일
+  endDate: Date; // 해당 기간의 만기일
+  originalEndDate: Date; // 최초 계약 만기일
+  renewalCount: number; // 기준일까지 시작된 재계약 횟수
+}
+
+/**
+ * One line of the rent roll: a lease with the units it occupies on the as-of date,
+ * or a single vacant unit when `lease` is null.
+ */
+export interface RentRollRow {
+  units: BuildingUnit[];
+  lease: LeaseAgreement | null;
+  term: LeaseTerm | null;
+  rent: number; // 계약상 월 임대료
+  rentTotal: number; // 부가세 처리 후 월 청구액
+  deposit: number;
+  balance: number;
+}
+
+export interface RentRollGroup {
+  building: Building;
+  rows: RentRollRow[];
+  totals: RentRollTotals;
+}
+
+export interface RentRollTotals {
+  unitCount: number;
+  occupiedUnitCount: number;
+  area: number;
+  occupiedArea: number;
+  rent: number;
+  rentTotal: number;
+  deposit: number;
+  balance: number;
+}
+
+export const emptyRentRollTotals = (): RentRollTotals => ({
+  unitCount: 0,
+  occupiedUnitCount: 0,
+  area: 0,
+  occupiedArea: 0,
+  rent: 0,
+  rentTotal: 0,
+  deposit: 0,
+  balance: 0,
+});
+
+export function addRentRollTotals(a: RentRollTotals, b: RentRollTotals): RentRollTotals {
+  return {
+    unitCount: a.unitCount + b.unitCount,
+    occupiedUnitCount: a.occupiedUnitCount + b.occupiedUnitCount,
+    area: a.area + b.area,
+    occupiedArea: a.occupiedArea + b.occupiedArea,
+    rent: a.rent + b.rent,
+    rentTotal: a.rentTotal + b.rentTotal,
+    deposit: a.deposit + b.deposit,
+    balance: a.balance + b.balance,
+  };
+}
+
+/**
+ * Gets the term of a lease in effect on a date, considering renewals.
+ */
+export function getLeaseTerm(lease: LeaseAgreement, asOf: Date): LeaseTerm {
+  const originalEndDate = toDate(lease.leaseEndDate);
+  const term: LeaseTerm = { startDate: toDate(lease.leaseStartDate), endDate: originalEndDate, originalEndDate, renewalCount: 0 };
+
+  const sortedRenewals = [...(lease.renewals || [])]
+    .sort((a, b) => toDate(a.renewalDate).getTime() - toDate(b.renewalDate).getTime());
+
+  for (const renewal of sortedRenewals) {
+    if (!isBefore(asOf, toDate(renewal.renewalDate))) {
+      term.startDate = toDate(renewal.renewalDate);
+      term.endDate = toDate(renewal.newLeaseEndDate);
+      term.renewalCount += 1;
+    }
+  }
+
+  return term;
+}
+
+/**
+ * Whether a lease occupies its units on a date: between the contract start and the
+ * final end date including renewals.
+ */
+export function isLeaseActiveOn(lease: LeaseAgreement, date: Date): boolean {
+  const day = startOfDay(date);
+  return !isAfter(startOfDay(toDate(lease.leaseStartDate)), day) && !isBefore(startOfDay(getLeaseDetails(lease).leaseEndDate), day);
+}
+
+/**
+ * Builds the rent roll of one building as of a date. Every unit appears once: units occupied by
+ * the same lease are merged into one row, and leases without assigned units are listed after them.
+ * The balance only counts payments made by the as-of date, so it matches the ledger on that day.
+ */
+export function buildRentRoll(
+  building: Building,
+  leases: LeaseAgreement[],
+  records: {
+    paymentsByLease: Map<string, Payment[]>;
+    adjustmentsByLease: Map<string, RentAdjustment[]>;
+    fees: MaintenanceFee[];
+    readings: MeterReading[];
+  },
+  asOf: Date
+): RentRollGroup {
+  const units = building.units || [];
+  const activeLeases = leases
+    .filter(lease => lease.buildingId === building.id && isLeaseActiveOn(lease, asOf))
+    .sort((a, b) => toDate(b.leaseStartDate).getTime() - toDate(a.leaseStartDate).getTime());
+
+  const leaseRow = (lease: LeaseAgreement, leaseUnits: BuildingUnit[]): RentRollRow => {
+    const { rent } = getApplicableRent(lease, asOf);
+    const fees = calculateLeaseFees(lease, building, records.fees, records.readings, asOf);
+    const payments = (records.paymentsByLease.get(lease.id) || [])
+      .filter(p => !isAfter(startOfDay(toDate(p.paymentDate)), startOfDay(asOf)));
+    const { balance } = calculateLeaseBalance(lease, records.adjustmentsByLease.get(lease.id) || [], payments, asOf, fees);
+    return {
+      units: leaseUnits,
+      lease,
+      term: getLeaseTerm(lease, asOf),
+      rent,
+      rentTotal: splitVat(rent, lease.vatTreatment).total,
+      deposit: getAgreedDeposit(lease, asOf),
+      balance,
+    };
+  };
+
+  const rows: RentRollRow[] = [];
+  const rowByLease = new Map<string, RentRollRow>();
+  units.forEach(unit => {
+    // The most recently started lease wins if several overlap on the same unit.
+    const lease = activeLeases.find(l => (l.unitIds || []).includes(unit.id));
+    if (!lease) {
+      rows.push({ units: [unit], lease: null, term: null, rent: 0, rentTotal: 0, deposit: 0, balance: 0 });
+      return;
+    }
+    const existing = rowByLease.get(lease.id);
+    if (existing) {
+      existing.units.push(unit);
+      return;
+    }
+    const row = leaseRow(lease, [unit]);
+    rowByLease.set(lease.id, row);
+    rows.push(row);
+  });
+
+  activeLeases
+    .filter(lease => !rowByLease.has(lease.id) && !(lease.unitIds || []).some(id => units.some(u => u.id === id)))
+    .forEach(lease => rows.push(leaseRow(lease, [])));
+
+  const totals = rows.reduce((acc, row) => {
+    const area = row.units.reduce((sum, unit) => sum + (unit.area || 0), 0);
+    return addRentRollTotals(acc, {
+      unitCount: row.units.length,
+      occupiedUnitCount: row.lease ? row.units.length : 0,
+      area,
+      occupiedArea: row.lease ? area : 0,
+      rent: row.rent,
+      rentTotal: row.rentTotal,
+      deposit: row.deposit,
+      balance: row.balance,
+    });
+  }, emptyRentRollTotals());
+
+  return { building, rows, totals };
+}
@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { LeaseAgreement, Payment, RentAdjustment } from './types';
+import {
+  allocatePayments,
+  buildLedgerLines,
+  calculateDues,
+  calculateLeaseBalance,
+  getWithdrawableAmount,
+  getWithdrawalFeePart,
+} from './rent-schedule';
+import { calculateLeaseFees } from './utility-billing';
+
+const lease = (overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id: 'lease-1',
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '테스트빌딩',
+  tenantName: '홍길동',
+  tenantContact: '010-0000-0000',
+  tenantAddress: '',
+  unitIds: ['unit-1'],
+  leaseStartDate: new Date(2024, 0, 1),
+  leaseEndDate: new Date(2024, 11, 31),
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+const payment = (id: string, date: Date, amount: number, overrides: Partial<Payment> = {}): Payment => ({
+  id,
+  portfolioId: 'portfolio-1',
+  leaseAgreementId: 'lease-1',
+  paymentDate: date,
+  paymentAmount: amount,
+  ...overrides,
+});
+
+const endOfApril = new Date(2024, 3, 30);
+
+describe('calculateDues', () => {
+  it('bills one due per month up to the as-of date', () => {
+    const dues = calculateDues(lease(), [], endOfApril);
+
+    expect(dues.map(d => d.description)).toEqual(['2024-01월분', '2024-02월분', '2024-03월분', '2024-04월분']);
+    expect(dues.every(d => d.amount === 1_000_000)).toBe(true);
+  });
+
+  it('prorates the first month of a lease starting mid-month by days', () => {
+    const [first, second] = calculateDues(lease({ leaseStartDate: new Date(2024, 0, 15) }), [], endOfApril);
+
+    expect(first.amount).toBe(Math.round(1_000_000 / 31 * 17));
+    expect(first.notes).toBe('일할계산 (17일)');
+    expect(second.amount).toBe(1_000_000);
+  });
+
+  it('prorates the month in progress up to the as-of date', () => {
+    const dues = calculateDues(lease(), [], new Date(2024, 3, 15));
+
+    expect(dues[dues.length - 1].amount).toBe(500_000);
+  });
+
+  it('bills nothing for rent-free months', () => {
+    const dues = calculateDues(lease({ rentFreePeriod: 1, rentFreeUnit: 'months' }), [], endOfApril);
+
+    expect(dues[0].amount).toBe(0);
+    expect(dues[0].notes).toBe('렌트프리');
+    expect(dues[1].amount).toBe(1_000_000);
+  });
+
+  it('prorates the rest of a month after rent-free days', () => {
+    const [first] = calculateDues(lease({ rentFreePeriod: 10, rentFreeUnit: 'days' }), [], endOfApril);
+
+    expect(first.amount).toBe(Math.round(1_000_000 / 31 * 21));
+  });
+
+  it('bills the renewed rent from the renewal date and past the original end date', () => {
+    const renewed = lease({
+      leaseEndDate: new Date(2024, 1, 29),
+      renewals: [{ renewalDate: new Date(2024, 2, 1), newRentAmount: 1_200_000, newLeaseEndDate: new Date(2025, 1, 28) }],
+    });
+
+    expect(calculateDues(renewed, [], endOfApril).map(d => d.amount)).toEqual([1_000_000, 1_000_000, 1_200_000, 1_200_000]);
+  });
+
+  it('replaces the rent of an adjusted month', () => {
+    const adjustment: RentAdjustment = {
+      id: 'adjustment-1',
+      portfolioId: 'portfolio-1',
+      leaseAgreementId: 'lease-1',
+      adjustmentDate: Timestamp.fromDate(new Date(2024, 1, 1)),
+      adjustedRentAmount: 800_000,
+      notes: '수리 기간',
+    };
+    const february = calculateDues(lease(), [adjustment], endOfApril)[1];
+
+    expect(february.amount).toBe(800_000);
+    expect(february.isAdjustment).toBe(true);
+    expect(february.adjustmentId).toBe('adjustment-1');
+    expect(february.notes).toBe('조정: 수리 기간');
+  });
+
+  it('adds VAT to the total of VAT-excluded leases', () => {
+    const [first] = calculateDues(lease({ vatTreatment: 'excluded' }), [], endOfApril);
+
+    expect(first).toMatchObject({ amount: 1_000_000, supplyValue: 1_000_000, vat: 100_000, total: 1_100_000 });
+  });
+});
+
+describe('allocatePayments', () => {
+  const dues = calculateDues(lease(), [], new Date(2024, 2, 31));
+
+  it('applies payments to the oldest open month first', () => {
+    const { settlements, allocationsByPayment, unapplied } = allocatePayments(dues, [
+      payment('p1', new Date(2024, 1, 5), 1_500_000),
+      payment('p2', new Date(2024, 2, 5), 1_000_000),
+    ]);
+
+    expect(settlements.map(s => s.status)).toEqual(['paid', 'paid', 'partial']);
+    expect(settlements[2].remaining).toBe(500_000);
+    expect(allocationsByPayment.get('p1')).toEqual([{ month: '2024-01', amount: 1_000_000 }, { month: '2024-02', amount: 500_000 }]);
+    expect(allocationsByPayment.get('p2')).toEqual([{ month: '2024-02', amount: 500_000 }, { month: '2024-03', amount: 500_000 }]);
+    expect(unapplied).toBe(0);
+  });
+
+  it('applies manual allocations before the oldest open month', () => {
+    const { settlements } = allocatePayments(dues, [
+      payment('p1', new Date(2024, 1, 5), 1_000_000, { allocations: [{ month: '2024-03', amount: 1_000_000 }] }),
+      payment('p2', new Date(2024, 2, 5), 500_000),
+    ]);
+
+    expect(settlements.map(s => s.status)).toEqual(['partial', 'unpaid', 'paid']);
+  });
+
+  it('applies the part of a manual allocation that does not fit to the oldest open month', () => {
+    const { allocationsByPayment } = allocatePayments(dues, [
+      payment('p1', new Date(2024, 1, 5), 1_500_000, { allocations: [{ month: '2024-02', amount: 1_500_000 }] }),
+    ]);
+
+    expect(allocationsByPayment.get('p1')).toEqual([{ month: '2024-02', amount: 1_000_000 }, { month: '2024-01', amount: 500_000 }]);
+  });
+
+  it('applies only the rent portion and keeps the rest as unapplied', () => {
+    const { settlements, unapplied } = allocatePayments(dues, [
+      payment('p1', new Date(2024, 1, 5), 3_600_000, { maintenanceFeeAmount: 100_000 }),
+    ]);
+
+    expect(settlements.every(s => s.status === 'paid')).toBe(true);
+    expect(unapplied).toBe(500_000);
+  });
+});
+
+describe('withdrawals', () => {
+  const dues = calculateDues(lease(), [], new Date(2024, 2, 31));
+  const january = payment('p1', new Date(2024, 0, 5), 1_000_000);
+  const february = payment('p2', new Date(2024, 1, 5), 1_000_000);
+  const withdrawal = (id: string, original: Payment, amount: number, overrides: Partial<Payment> = {}) =>
+    payment(id, new Date(2024, 2, 10), -amount, { type: 'reversal', originalPaymentId: original.id, reason: '이체 반환', ...overrides });
+
+  it('reopens the part of the month a partial reversal takes back', () => {
+    const reversal = withdrawal('r1', february, 400_000);
+    const { settlements, unapplied } = allocatePayments(dues, [january, february, reversal]);
+
+    expect(settlements.map(s => s.status)).toEqual(['paid', 'partial', 'unpaid']);
+    expect(settlements[1].remaining).toBe(400_000);
+    expect(unapplied).toBe(0);
+    expect(getWithdrawableAmount(february, [january, february, reversal])).toBe(600_000);
+  });
+
+  it('reopens the whole month of a fully charged back payment', () => {
+    const chargeback = withdrawal('c1', february, 1_000_000, { type: 'chargeback' });
+    const { settlements, allocationsByPayment } = allocatePayments(dues, [january, february, chargeback]);
+
+    expect(settlements.map(s => s.status)).toEqual(['paid', 'unpaid', 'unpaid']);
+    expect(allocationsByPayment.has('p2')).toBe(false);
+    expect(getWithdrawableAmount(february, [january, february, chargeback])).toBe(0);
+  });
+
+  it('takes a second reversal from what the first one left', () => {
+    const first = withdrawal('r1', february, 300_000);
+    const second = withdrawal('r2', february, 700_000);
+
+    expect(getWithdrawableAmount(february, [february, first])).toBe(700_000);
+    expect(allocatePayments(dues, [january, february, first, second]).settlements.map(s => s.status)).toEqual(['paid', 'unpaid', 'unpaid']);
+  });
+
+  it('takes a refund of credit out of the unapplied amount without reopening months', () => {
+    const advance = payment('p1', new Date(2024, 0, 5), 3_500_000);
+    const refund = withdrawal('f1', advance, 500_000, { type: 'refund' });
+    const { settlements, unapplied } = allocatePayments(dues, [advance, refund]);
+
+    expect(settlements.every(s => s.status === 'paid')).toBe(true);
+    expect(unapplied).toBe(0);
+    expect(getWithdrawalFeePart(advance, [advance], 'refund', 500_000)).toBe(0);
+  });
+
+  it('takes the part a reversal cannot take from its original out of the unapplied amount', () => {
+    const reversal = withdrawal('r1', february, 1_200_000);
+    const { settlements, unapplied } = allocatePayments(dues, [january, february, reversal]);
+
+    expect(settlements.map(s => s.status)).toEqual(['paid', 'unpaid', 'unpaid']);
+    expect(unapplied).toBe(-200_000);
+  });
+
+  it('takes back the rent part of a payment before its maintenance fee part', () => {
+    const withFee = payment('p2', new Date(2024, 1, 5), 1_150_000, { maintenanceFeeAmount: 150_000 });
+
+    expect(getWithdrawalFeePart(withFee, [withFee], 'reversal', 400_000)).toBe(0);
+    expect(getWithdrawalFeePart(withFee, [withFee], 'reversal', 1_050_000)).toBe(50_000);
+    expect(getWithdrawalFeePart(withFee, [withFee], 'chargeback', 1_150_000)).toBe(150_000);
+  });
+
+  it('splits a later reversal by what earlier withdrawals left of the rent and the fee', () => {
+    const withFee = payment('p2', new Date(2024, 1, 5), 1_150_000, { maintenanceFeeAmount: 150_000 });
+    const first = withdrawal('r1', withFee, 1_050_000, { maintenanceFeeAmount: -50_000 });
+    const leasePayments = [january, withFee, first];
+
+    expect(getWithdrawableAmount(withFee, leasePayments)).toBe(100_000);
+    expect(getWithdrawalFeePart(withFee, leasePayments, 'reversal', 100_000)).toBe(100_000);
+
+    const second = withdrawal('r2', withFee, 100_000, { maintenanceFeeAmount: -100_000 });
+    const { settlements, unapplied } = allocatePayments(dues, [...leasePayments, second]);
+    expect(settlements.map(s => s.status)).toEqual(['paid', 'unpaid', 'unpaid']);
+    expect(unapplied).toBe(0);
+  });
+});
+
+describe('calculateLeaseBalance', () => {
+  // The ledger shows the last line of `buildLedgerLines`; the dashboard table and the stat cards
+  // call `calculateLeaseBalance` with the fee lines of `calculateLeaseFees`.
+  it('matches the final balance of the ledger', () => {
+    const asOf = new Date(2024, 5, 15);
+    const billed = lease({
+      leaseStartDate: new Date(2024, 0, 10),
+      vatTreatment: 'excluded',
+      lateInterestRate: 12,
+      lateInterestGraceDays: 5,
+      maintenanceFeeMethod: 'fixed',
+      maintenanceFeeAmount: 150_000,
+    });
+    const adjustments: RentAdjustment[] = [{
+      id: 'adjustment-1',
+      portfolioId: 'portfolio-1',
+      leaseAgreementId: 'lease-1',
+      adjustmentDate: Timestamp.fromDate(new Date(2024, 2, 1)),
+      adjustedRentAmount: 700_000,
+      notes: '공사',
+    }];
+    const payments = [
+      payment('p1', new Date(2024, 1, 10), 1_250_000, { maintenanceFeeAmount: 150_000 }),
+      payment('p2', new Date(2024, 3, 20), 2_000_000, { allocations: [{ month: '2024-03', amount: 770_000 }] }),
+      payment('p3', new Date(2024, 4, 2), 500_000),
+      payment('p3-reversal', new Date(2024, 4, 9), -500_000, { type: 'reversal', originalPaymentId: 'p3', reason: '이체 반환' }),
+    ];
+    const fees = calculateLeaseFees(billed, undefined, [], [], asOf);
+
+    const dues = calculateDues(billed, adjustments, asOf);
+    const ledger = buildLedgerLines(billed, dues, payments, fees, asOf);
+    const { balance, totalDue, totalFees, totalInterest, totalPaid } = calculateLeaseBalance(billed, adjustments, payments, asOf, fees);
+
+    expect(fees.length).toBeGreaterThan(0);
+    expect(totalInterest).toBeGreaterThan(0);
+    expect(ledger[ledger.length - 1].balance).toBe(balance);
+    expect(balance).toBe(totalDue + totalFees + totalInterest - totalPaid);
+  });
+
+  it('orders charges before payments on the same day', () => {
+    const dues = calculateDues(lease(), [], new Date(2024, 0, 31));
+    const ledger = buildLedgerLines(lease(), dues, [payment('p1', new Date(2024, 0, 31), 1_000_000)], [], new Date(2024, 0, 31));
+
+    expect(ledger.map(line => line.source.kind)).toEqual(['due', 'payment']);
+    expect(ledger.map(line => line.balance)).toEqual([1_000_000, 0]);
+  });
+});
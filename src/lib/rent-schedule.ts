@@ -0,0 +1,542 @@
+import { Timestamp } from "firebase/firestore";
+import {
+  format as formatDateFns,
+  addMonths,
+  addDays,
+  getDaysInMonth,
+  isBefore,
+  isAfter,
+  startOfDay,
+  endOfMonth,
+  startOfMonth,
+  differenceInCalendarDays,
+  isSameDay,
+  min,
+  max,
+} from "date-fns";
+import { CreditHandling, LeaseAgreement, Payment, PaymentAllocation, PaymentType, RentAdjustment } from "./types";
+import { getLeaseDetails } from "./utils";
+import type { MaintenanceFeeLine } from "./maintenance-fee";
+
+/**
+ * A single rent charge produced by the schedule. `amount` is the contract rent for the
+ * period; `supplyValue`, `vat` and `total` are the amounts after applying `vatTreatment`.
+ */
+export interface DueLine {
+  date: Date;
+  amount: number;
+  supplyValue: number;
+  vat: number;
+  total: number;
+  description: string;
+  notes?: string;
+  isAdjustment?: boolean;
+  adjustmentId?: string;
+}
+
+/**
+ * Late-payment interest (연체이자) accrued on one due line, dated on the day the
+ * payments covered it or on the as-of date if it is still unpaid.
+ */
+export interface InterestLine {
+  date: Date;
+  dueDate: Date;
+  amount: number;
+  days: number;
+  description: string;
+  notes: string;
+}
+
+export type DueStatus = 'paid' | 'partial' | 'unpaid';
+
+export const dueStatusLabels: Record<DueStatus, string> = {
+  paid: '완납',
+  partial: '일부 납부',
+  unpaid: '미납',
+};
+
+/**
+ * How the payments of a lease settled one due line.
+ */
+export interface DueSettlement {
+  due: DueLine;
+  month: string; // yyyy-MM
+  paid: number;
+  remaining: number;
+  status: DueStatus;
+  applications: { paymentId: string; date: Date; amount: number }[];
+}
+
+export interface PaymentAllocationResult {
+  settlements: DueSettlement[];
+  allocationsByPayment: Map<string, PaymentAllocation[]>;
+  unapplied: number; // 어느 달에도 충당되지 않은 임대료 납부액 (선납). 환불이 선납액보다 많으면 음수
+}
+
+/**
+ * What a ledger line records: a rent due, a maintenance fee or utility charge, late interest or a payment.
+ */
+export type LedgerSource =
+  | { kind: 'due'; due: DueLine }
+  | { kind: 'fee'; line: MaintenanceFeeLine }
+  | { kind: 'interest'; line: InterestLine }
+  | { kind: 'payment'; payment: Payment };
+
+export interface LedgerLine {
+  date: Date;
+  source: LedgerSource;
+  supplyValue: number | null;
+  vat: number | null;
+  rent: number | null; // supplyValue + vat
+  fee: number | null; // 관리비 및 공과금
+  payment: number | null;
+  balance: number; // 이 줄까지의 누적 잔액
+}
+
+export interface LeaseBalance {
+  totalDue: number;
+  totalFees: number;
+  totalInterest: number;
+  totalPaid: number;
+  balance: number;
+}
+
+// Helper function to safely convert Timestamp or Date to a Date object.
+export const toDate = (d: Date | Timestamp): Date => d instanceof Timestamp ? d.toDate() : new Date(d);
+
+// The part of a payment applied to rent; the rest (`maintenanceFeeAmount`) goes to maintenance fees.
+export const getRentPortion = (payment: Payment): number => payment.paymentAmount - (payment.maintenanceFeeAmount || 0);
+
+export const paymentTypeLabels: Record<PaymentType, string> = {
+  payment: '입금',
+  refund: '환불',
+  reversal: '입금 취소',
+  chargeback: '카드 결제 취소',
+};
+
+export const creditHandlingLabels: Record<CreditHandling, string> = {
+  carry_forward: '다음 청구에 충당',
+  refund: '환불 예정',
+};
+
+// Refunds, reversals and chargebacks are stored as payments with a negative amount.
+export const isPaymentWithdrawal = (payment: Pick<Payment, 'type'>): boolean => !!payment.type && payment.type !== 'payment';
+
+// The refunds, reversals and chargebacks recorded against a payment.
+const getLinkedWithdrawals = (payment: Payment, leasePayments: Payment[]): Payment[] =>
+  leasePayments.filter(p => p.originalPaymentId === payment.id);
+
+// What is left of a payment after the refunds, reversals and chargebacks already recorded against it.
+export const getWithdrawableAmount = (payment: Payment, leasePayments: Payment[]): number =>
+  payment.paymentAmount + getLinkedWithdrawals(payment, leasePayments).reduce((sum, p) => sum + p.paymentAmount, 0);
+
+/**
+ * What a payment still stands for once the reversals and chargebacks recorded against it are
+ * taken off, as its receipt shows it. Refunds pay back credit separately and leave it as it was.
+ */
+export function getNetPaymentAmounts(payment: Payment, leasePayments: Payment[]): { paymentAmount: number; maintenanceFeeAmount: number } {
+  const takenBack = getLinkedWithdrawals(payment, leasePayments).filter(p => p.type !== 'refund');
+  return {
+    paymentAmount: payment.paymentAmount + takenBack.reduce((sum, p) => sum + p.paymentAmount, 0),
+    maintenanceFeeAmount: Math.max(0, (payment.maintenanceFeeAmount || 0) + takenBack.reduce((sum, p) => sum + (p.maintenanceFeeAmount || 0), 0)),
+  };
+}
+
+/**
+ * The part of a new withdrawal of `amount` from a payment that takes back maintenance fees. A
+ * reversal or chargeback takes back the rent part of the original first, then its maintenance fee
+ * part, counting only what the withdrawals already recorded against it have left of each. A refund
+ * returns credit and takes back no fees.
+ */
+export function getWithdrawalFeePart(payment: Payment, leasePayments: Payment[], type: Exclude<PaymentType, 'payment'>, amount: number): number {
+  if (type === 'refund') return 0;
+  const earlier = getLinkedWithdrawals(payment, leasePayments);
+  const rentLeft = getRentPortion(payment) + earlier.reduce((sum, p) => sum + getRentPortion(p), 0);
+  const feeLeft = (payment.maintenanceFeeAmount || 0) + earlier.reduce((sum, p) => sum + (p.maintenanceFeeAmount || 0), 0);
+  return Math.min(Math.max(0, feeLeft), Math.max(0, amount - Math.max(0, rentLeft)));
+}
+
+/**
+ * Splits a rent amount into supply value and VAT according to the lease's VAT treatment.
+ */
+export function splitVat(amount: number, vatTreatment: LeaseAgreement['vatTreatment']): { supplyValue: number; vat: number; total: number } {
+  let supplyValue: number;
+  let vat: number;
+
+  if (vatTreatment === 'included' && amount > 0) {
+    supplyValue = Math.round(amount / 1.1);
+    vat = amount - supplyValue;
+  } else if (vatTreatment === 'excluded' && amount > 0) {
+    supplyValue = amount;
+    vat = Math.round(amount * 0.1);
+  } else {
+    supplyValue = amount;
+    vat = 0;
+  }
+
+  return { supplyValue, vat, total: supplyValue + vat };
+}
+
+/**
+ * Returns the monthly rent in effect on the given date, considering renewals.
+ */
+export function getApplicableRent(lease: LeaseAgreement, date: Date): { rent: number, isRenewal: boolean } {
+  if (!lease.renewals || lease.renewals.length === 0) {
+    return { rent: lease.rentAmount, isRenewal: false };
+  }
+
+  const sortedRenewals = [...lease.renewals]
+    .sort((a, b) => toDate(a.renewalDate).getTime() - toDate(b.renewalDate).getTime())
+    .reverse();
+
+  for (const renewal of sortedRenewals) {
+    if (!isBefore(date, toDate(renewal.renewalDate))) {
+      return { rent: renewal.newRentAmount, isRenewal: true };
+    }
+  }
+
+  return { rent: lease.rentAmount, isRenewal: false };
+}
+
+/**
+ * Builds the dated rent schedule of a lease up to `asOf`, applying renewals,
+ * rent-free periods, proration and monthly rent adjustments.
+ * @param lease The lease agreement.
+ * @param adjustments The rent adjustments recorded for this lease.
+ * @param asOf The date up to which dues are generated. Defaults to today.
+ * @returns The due lines in chronological order.
+ */
+export function calculateDues(lease: LeaseAgreement, adjustments: RentAdjustment[], asOf: Date = new Date()): DueLine[] {
+  const dues: DueLine[] = [];
+  const startDate = startOfDay(toDate(lease.leaseStartDate));
+
+  const { leaseEndDate: effectiveLeaseEndDate } = getLeaseDetails(lease);
+
+  const today = startOfDay(asOf);
+
+  if (isBefore(effectiveLeaseEndDate, startDate)) return [];
+
+  let currentMonthStart = startOfMonth(startDate);
+  const finalBillableDate = min([effectiveLeaseEndDate, today]);
+
+  const pushDue = (due: Omit<DueLine, 'supplyValue' | 'vat' | 'total'>) => {
+    dues.push({ ...due, ...splitVat(due.amount, lease.vatTreatment) });
+  };
+
+  while (isBefore(currentMonthStart, finalBillableDate) || isSameDay(currentMonthStart, finalBillableDate)) {
+    const { rent: baseRentForMonth } = getApplicableRent(lease, currentMonthStart);
+    let notes: string | undefined;
+    let finalRentForMonth = baseRentForMonth;
+    let isProrated = false;
+
+    const adjustmentForMonth = adjustments.find(adj =>
+      isSameDay(startOfMonth(toDate(adj.adjustmentDate)), currentMonthStart)
+    );
+
+    if (adjustmentForMonth) {
+      finalRentForMonth = adjustmentForMonth.adjustedRentAmount;
+      notes = `조정: ${adjustmentForMonth.notes}`;
+      pushDue({
+        date: endOfMonth(currentMonthStart),
+        amount: Math.round(finalRentForMonth),
+        description: `${formatDateFns(currentMonthStart, 'yyyy-MM')}월분`,
+        notes,
+        isAdjustment: true,
+        adjustmentId: adjustmentForMonth.id,
+      });
+    } else {
+      const periodStart = max([currentMonthStart, startDate]);
+      const periodEnd = min([endOfMonth(currentMonthStart), finalBillableDate]);
+      const daysInMonth = getDaysInMonth(currentMonthStart);
+      let billableDays = differenceInCalendarDays(periodEnd, periodStart) + 1;
+
+      if (isBefore(periodEnd, periodStart)) {
+        billableDays = 0;
+      }
+
+      const rentFreeEndDate = lease.rentFreePeriod && lease.rentFreePeriod > 0
+        ? lease.rentFreeUnit === 'months'
+          ? addDays(addMonths(startDate, lease.rentFreePeriod), -1)
+          : addDays(startDate, lease.rentFreePeriod - 1)
+        : null;
+
+      if (rentFreeEndDate && isAfter(rentFreeEndDate, currentMonthStart)) {
+        const freePeriodStartInThisMonth = max([periodStart, startDate]);
+        const freePeriodEndInThisMonth = min([periodEnd, rentFreeEndDate]);
+
+        if (isAfter(freePeriodEndInThisMonth, freePeriodStartInThisMonth) || isSameDay(freePeriodEndInThisMonth, freePeriodStartInThisMonth)) {
+          const freeDays = differenceInCalendarDays(freePeriodEndInThisMonth, freePeriodStartInThisMonth) + 1;
+          billableDays = Math.max(0, billableDays - freeDays);
+        }
+      }
+
+      if (billableDays <= 0) {
+        finalRentForMonth = 0;
+        notes = '렌트프리';
+      } else if (billableDays < daysInMonth) {
+        isProrated = true;
+        finalRentForMonth = (baseRentForMonth / daysInMonth) * billableDays;
+      } else {
+        const isFirstMonthProrated = lease.rentCalculationMethod === 'end_of_month' && isSameDay(currentMonthStart, startOfMonth(startDate)) && startDate.getDate() !== 1;
+        const isLastMonthProrated = lease.rentCalculationMethod === 'end_of_month' && isSameDay(currentMonthStart, startOfMonth(effectiveLeaseEndDate)) && !isSameDay(effectiveLeaseEndDate, endOfMonth(effectiveLeaseEndDate));
+
+        if (isFirstMonthProrated || isLastMonthProrated) {
+          isProrated = true;
+          finalRentForMonth = (baseRentForMonth / daysInMonth) * billableDays;
+        }
+      }
+      if (isProrated && !notes) {
+        notes = `일할계산 (${Math.round(billableDays)}일)`;
+      }
+
+      if (isAfter(currentMonthStart, effectiveLeaseEndDate) || isAfter(currentMonthStart, today)) {
+        break;
+      }
+      pushDue({
+        date: endOfMonth(currentMonthStart),
+        amount: Math.round(finalRentForMonth),
+        description: `${formatDateFns(currentMonthStart, 'yyyy-MM')}월분`,
+        notes,
+      });
+    }
+
+    currentMonthStart = addMonths(currentMonthStart, 1);
+  }
+
+  return dues;
+}
+
+export const getDueMonth = (due: Pick<DueLine, 'date'>): string => formatDateFns(due.date, 'yyyy-MM');
+
+/**
+ * Allocates the rent portion of each payment to due lines. Payments with `allocations` are applied
+ * to the months they name first, up to what is still owed for each month; everything else, including
+ * the part of a manual allocation that did not fit, is applied to the oldest open month first.
+ * @param dues The due lines from `calculateDues`.
+ * @param payments The payments to allocate.
+ * @returns The settlement of every due line, the months each payment was applied to, and the amount left over.
+ */
+export function allocatePayments(dues: DueLine[], payments: Payment[]): PaymentAllocationResult {
+  const settlements: DueSettlement[] = dues.map(due => ({
+    due,
+    month: getDueMonth(due),
+    paid: 0,
+    remaining: Math.max(0, due.total),
+    status: 'unpaid',
+    applications: [],
+  }));
+  const allocationsByPayment = new Map<string, PaymentAllocation[]>();
+
+  const apply = (settlement: DueSettlement, payment: Payment, amount: number) => {
+    const applied = Math.min(amount, settlement.remaining);
+    if (applied <= 0) return 0;
+    settlement.paid += applied;
+    settlement.remaining -= applied;
+    settlement.applications.push({ paymentId: payment.id, date: startOfDay(toDate(payment.paymentDate)), amount: applied });
+
+    const allocations = allocationsByPayment.get(payment.id) || [];
+    const existing = allocations.find(a => a.month === settlement.month);
+    if (existing) {
+      existing.amount += applied;
+    } else {
+      allocations.push({ month: settlement.month, amount: applied });
+    }
+    allocationsByPayment.set(payment.id, allocations);
+    return applied;
+  };
+
+  const sortedPayments = payments
+    .filter(p => !isPaymentWithdrawal(p))
+    .sort((a, b) => toDate(a.paymentDate).getTime() - toDate(b.paymentDate).getTime());
+  const leftover = new Map(sortedPayments.map(p => [p.id, Math.max(0, getRentPortion(p))]));
+
+  // A reversal or chargeback takes back the rent its original payment would have covered, so the
+  // months it paid become open again. Refunds, and any part an original cannot absorb, come out of
+  // the amount left over instead.
+  let withdrawn = 0;
+  payments.filter(isPaymentWithdrawal).forEach(withdrawal => {
+    const amount = Math.max(0, -getRentPortion(withdrawal));
+    const originalId = withdrawal.type !== 'refund' ? withdrawal.originalPaymentId : undefined;
+    const available = originalId ? leftover.get(originalId) : undefined;
+    const taken = available !== undefined ? Math.min(available, amount) : 0;
+    if (available !== undefined) leftover.set(originalId!, available - taken);
+    withdrawn += amount - taken;
+  });
+
+  sortedPayments.forEach(payment => {
+    (payment.allocations || []).forEach(allocation => {
+      const settlement = settlements.find(s => s.month === allocation.month);
+      if (!settlement) return;
+      const applied = apply(settlement, payment, Math.min(allocation.amount, leftover.get(payment.id)!));
+      leftover.set(payment.id, leftover.get(payment.id)! - applied);
+    });
+  });
+
+  sortedPayments.forEach(payment => {
+    for (const settlement of settlements) {
+      if (leftover.get(payment.id)! <= 0) break;
+      const applied = apply(settlement, payment, leftover.get(payment.id)!);
+      leftover.set(payment.id, leftover.get(payment.id)! - applied);
+    }
+  });
+
+  settlements.forEach(settlement => {
+    settlement.status = settlement.remaining <= 0 ? 'paid' : settlement.paid > 0 ? 'partial' : 'unpaid';
+    settlement.applications.sort((a, b) => a.date.getTime() - b.date.getTime());
+  });
+
+  return {
+    settlements,
+    allocationsByPayment,
+    unapplied: Array.from(leftover.values()).reduce((sum, amount) => sum + amount, 0) - withdrawn,
+  };
+}
+
+/**
+ * Accrues yearly late-payment interest on each due line from the end of the grace period
+ * until payments cover it. Payments are applied to dues as `allocatePayments` does;
+ * interest itself is not compounded.
+ * @param lease The lease agreement, providing `lateInterestRate` and `lateInterestGraceDays`.
+ * @param dues The due lines from `calculateDues`.
+ * @param payments The payments recorded for this lease.
+ * @param asOf The date up to which interest accrues on unpaid dues. Defaults to today.
+ * @returns One interest line per due line that accrued interest.
+ */
+export function calculateLateInterest(lease: LeaseAgreement, dues: DueLine[], payments: Payment[], asOf: Date = new Date()): InterestLine[] {
+  const rate = lease.lateInterestRate || 0;
+  if (rate <= 0) return [];
+
+  const graceDays = lease.lateInterestGraceDays || 0;
+  const today = startOfDay(asOf);
+  const dailyRate = rate / 100 / 365;
+
+  const { settlements } = allocatePayments(
+    dues,
+    payments.filter(p => !isAfter(startOfDay(toDate(p.paymentDate)), today))
+  );
+
+  const lines: InterestLine[] = [];
+
+  for (const { due, applications, remaining } of settlements) {
+    if (due.total <= 0) continue;
+
+    const accrualStart = addDays(startOfDay(due.date), graceDays);
+    let interest = 0;
+    for (const application of applications) {
+      interest += application.amount * dailyRate * Math.max(0, differenceInCalendarDays(application.date, accrualStart));
+    }
+
+    const unpaid = remaining;
+    const coveredDate = unpaid <= 0 && applications.length > 0 ? applications[applications.length - 1].date : null;
+
+    const endDate = coveredDate || today;
+    if (unpaid > 0) {
+      interest += unpaid * dailyRate * Math.max(0, differenceInCalendarDays(today, accrualStart));
+    }
+
+    const amount = Math.round(interest);
+    if (amount <= 0) continue;
+
+    const days = Math.max(0, differenceInCalendarDays(endDate, accrualStart));
+    lines.push({
+      date: endDate,
+      dueDate: due.date,
+      amount,
+      days,
+      description: `${due.description} 연체이자`,
+      notes: `연 ${rate}%, ${days}일${coveredDate ? '' : ' (미납)'}`,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Computes the balance of a lease as of a date: the VAT-inclusive total of all dues plus
+ * maintenance fees and accrued late interest, minus every payment recorded for the lease.
+ * This matches the ledger's final balance.
+ * @param maintenanceFees The lease's maintenance fee and utility lines from `calculateLeaseFees`, if any.
+ */
+export function calculateLeaseBalance(
+  lease: LeaseAgreement,
+  adjustments: RentAdjustment[],
+  payments: Payment[],
+  asOf: Date = new Date(),
+  maintenanceFees: MaintenanceFeeLine[] = []
+): LeaseBalance {
+  const dues = calculateDues(lease, adjustments, asOf);
+  const totalDue = dues.reduce((sum, due) => sum + due.total, 0);
+  const totalFees = maintenanceFees.reduce((sum, line) => sum + line.amount, 0);
+  const totalInterest = calculateLateInterest(lease, dues, payments, asOf).reduce((sum, line) => sum + line.amount, 0);
+  const totalPaid = payments.reduce((sum, p) => sum + p.paymentAmount, 0);
+  return { totalDue, totalFees, totalInterest, totalPaid, balance: totalDue + totalFees + totalInterest - totalPaid };
+}
+
+/**
+ * Lays out the ledger of a lease: its dues, fee lines, late interest and payments in date order,
+ * charges before payments on the same day, each with the running balance after it. The last
+ * line's balance is `calculateLeaseBalance` for the same records.
+ * @param maintenanceFees The lease's maintenance fee and utility lines from `calculateLeaseFees`, if any.
+ */
+export function buildLedgerLines(
+  lease: LeaseAgreement,
+  dues: DueLine[],
+  payments: Payment[],
+  maintenanceFees: MaintenanceFeeLine[] = [],
+  asOf: Date = new Date()
+): LedgerLine[] {
+  const lines: Omit<LedgerLine, 'balance'>[] = [
+    ...dues.map(due => ({
+      date: due.date,
+      source: { kind: 'due' as const, due },
+      supplyValue: due.supplyValue,
+      vat: due.vat,
+      rent: due.total,
+      fee: null,
+      payment: null,
+    })),
+    ...maintenanceFees.map(line => ({
+      date: line.date,
+      source: { kind: 'fee' as const, line },
+      supplyValue: null,
+      vat: null,
+      rent: null,
+      fee: line.amount,
+      payment: null,
+    })),
+    // 연체이자는 부가세 과세 대상이 아니므로 공급가액으로만 기록합니다.
+    ...calculateLateInterest(lease, dues, payments, asOf).map(line => ({
+      date: line.date,
+      source: { kind: 'interest' as const, line },
+      supplyValue: line.amount,
+      vat: 0,
+      rent: line.amount,
+      fee: null,
+      payment: null,
+    })),
+    ...payments.map(payment => ({
+      date: startOfDay(toDate(payment.paymentDate)),
+      source: { kind: 'payment' as const, payment },
+      supplyValue: null,
+      vat: null,
+      rent: null,
+      fee: null,
+      payment: payment.paymentAmount,
+    })),
+  ];
+
+  lines.sort((a, b) => {
+    if (!isSameDay(a.date, b.date)) {
+      return a.date.getTime() - b.date.getTime();
+    }
+    if (a.payment === null && b.payment !== null) return -1;
+    if (a.payment !== null && b.payment === null) return 1;
+    return 0;
+  });
+
+  let balance = 0;
+  return lines.map(line => {
+    balance += (line.rent ?? 0) + (line.fee ?? 0) - (line.payment ?? 0);
+    return { ...line, balance };
+  });
+}
@@ -0,0 +1,22 @@
+import { UserProfile, UserRole } from "./types";
+
+export const userRoleLabels: Record<UserRole, string> = {
+  admin: '관리자',
+  member: '일반 사용자',
+};
+
+// Routes only admins may open. Sub-routes are included.
+export const adminOnlyRoutes = ['/audit-logs', '/admin'];
+
+export function getUserRole(profile: Pick<UserProfile, 'role'> | null | undefined): UserRole {
+  return profile?.role === 'admin' ? 'admin' : 'member';
+}
+
+// Like the security rules, an admin whose approval was revoked has no admin rights.
+export const isAdmin = (profile: Pick<UserProfile, 'role' | 'isApproved'> | null | undefined) =>
+  getUserRole(profile) === 'admin' && profile?.isApproved === true;
+
+export function canAccessRoute(role: UserRole, pathname: string): boolean {
+  if (role === 'admin') return true;
+  return !adminOnlyRoutes.some(route => pathname === route || pathname.startsWith(`${route}/`));
+}
@@ -0,0 +1,178 @@
+import { format as formatDateFns, endOfMonth, isSameMonth, startOfMonth } from "date-fns";
+import { Building, BusinessInfo, LeaseAgreement, RentAdjustment, TaxInvoice, TaxInvoiceStatus } from "./types";
+import { calculateDues, toDate } from "./rent-schedule";
+import { isValidBusinessNumber, normalizeBusinessNumber } from "./business-info";
+
+export const taxInvoiceStatusLabels: Record<TaxInvoiceStatus, string> = {
+  draft: '발급 대기',
+  issued: '발급 완료',
+  amended: '수정발급됨',
+  cancelled: '발급 취소',
+};
+
+/**
+ * Column headers of the National Tax Service (홈택스) bulk-issue Excel template for
+ * ordinary tax invoices. Each invoice takes one row; the template allows four items.
+ */
+export const HOMETAX_UPLOAD_HEADERS = [
+  '전자(세금)계산서 종류(01:일반, 02:영세율)',
+  '작성일자',
+  '공급자 등록번호("-" 없이 입력)',
+  '공급자 종사업장번호',
+  '공급자 상호',
+  '공급자 성명',
+  '공급자 사업장주소',
+  '공급자 업태',
+  '공급자 종목',
+  '공급자 이메일',
+  '공급받는자 등록번호("-" 없이 입력)',
+  '공급받는자 종사업장번호',
+  '공급받는자 상호',
+  '공급받는자 성명',
+  '공급받는자 사업장주소',
+  '공급받는자 업태',
+  '공급받는자 종목',
+  '공급받는자 이메일1',
+  '공급받는자 이메일2',
+  '공급가액 합계',
+  '세액 합계',
+  '비고',
+  ...[1, 2, 3, 4].flatMap(n => [
+    `일자${n}(2자리, 작성년월 제외)`,
+    `품목${n}`,
+    `규격${n}`,
+    `수량${n}`,
+    `단가${n}`,
+    `공급가액${n}`,
+    `세액${n}`,
+    `품목비고${n}`,
+  ]),
+  '현금',
+  '수표',
+  '어음',
+  '외상미수금',
+  '영수(01), 청구(02)',
+];
+
+/**
+ * Lists the business details still missing before tax invoices can be issued for this lease.
+ * @returns Human-readable labels of the missing fields; empty when the lease is ready.
+ */
+export function getMissingBusinessInfo(lease: LeaseAgreement, building: Building | null | undefined): string[] {
+  const missing: string[] = [];
+  const check = (info: BusinessInfo | undefined, party: string) => {
+    if (!info?.registrationNumber || !isValidBusinessNumber(info.registrationNumber)) missing.push(`${party} 사업자등록번호`);
+    if (!info?.name) missing.push(`${party} 상호`);
+    if (!info?.representative) missing.push(`${party} 대표자 성명`);
+  };
+  check(building?.businessInfo, '공급자');
+  check(lease.tenantBusinessInfo, '공급받는자');
+  return missing;
+}
+
+/**
+ * Builds the draft tax invoices of one month: one per VAT-bearing lease with a rent due that month
+ * and no invoice yet other than cancelled ones. Maintenance fees and utility charges are not included.
+ * @param leases The lease agreements to consider.
+ * @param adjustmentsByLease The rent adjustments of each lease, keyed by lease id.
+ * @param existingInvoices The tax invoices already recorded.
+ * @param month Any date in the target month.
+ * @returns The new drafts, without `id` and `portfolioId`.
+ */
+export function buildTaxInvoiceDrafts(
+  leases: LeaseAgreement[],
+  adjustmentsByLease: Map<string, RentAdjustment[]>,
+  existingInvoices: TaxInvoice[],
+  month: Date
+): Omit<TaxInvoice, 'id' | 'portfolioId'>[] {
+  const monthStart = startOfMonth(month);
+  const monthEnd = endOfMonth(monthStart);
+
+  return leases.flatMap(lease => {
+    if (lease.vatTreatment === 'none') return [];
+
+    const alreadyInvoiced = existingInvoices.some(invoice =>
+      invoice.leaseAgreementId === lease.id &&
+      invoice.status !== 'cancelled' &&
+      isSameMonth(toDate(invoice.billingMonth), monthStart)
+    );
+    if (alreadyInvoiced) return [];
+
+    const due = calculateDues(lease, adjustmentsByLease.get(lease.id) || [], monthEnd)
+      .find(line => isSameMonth(line.date, monthStart));
+    if (!due || due.total <= 0) return [];
+
+    return [{
+      leaseAgreementId: lease.id,
+      buildingId: lease.buildingId,
+      tenantName: lease.tenantName,
+      billingMonth: monthStart,
+      issueDate: due.date,
+      itemName: `${due.description} 임대료`,
+      supplyValue: due.supplyValue,
+      vat: due.vat,
+      total: due.total,
+      status: 'draft' as const,
+      notes: due.notes,
+    }];
+  });
+}
+
+/**
+ * Converts tax invoices into rows of the Hometax bulk-issue template, in the order of
+ * `HOMETAX_UPLOAD_HEADERS`. Invoices are billed (청구) since rent is invoiced before payment.
+ * @param invoices The invoices to export, usually the month's drafts.
+ * @param leases The lease agreements, providing the tenant's business details.
+ * @param buildings The buildings, providing the landlord's business details.
+ */
+export function buildHometaxRows(
+  invoices: TaxInvoice[],
+  leases: LeaseAgreement[],
+  buildings: Building[]
+): (string | number)[][] {
+  return invoices.map(invoice => {
+    const lease = leases.find(l => l.id === invoice.leaseAgreementId);
+    const supplier = buildings.find(b => b.id === invoice.buildingId)?.businessInfo;
+    const buyer = lease?.tenantBusinessInfo;
+    const issueDate = toDate(invoice.issueDate);
+
+    return [
+      '01',
+      formatDateFns(issueDate, 'yyyyMMdd'),
+      normalizeBusinessNumber(supplier?.registrationNumber || ''),
+      '',
+      supplier?.name || '',
+      supplier?.representative || '',
+      supplier?.address || '',
+      supplier?.businessType || '',
+      supplier?.businessItem || '',
+      supplier?.email || '',
+      normalizeBusinessNumber(buyer?.registrationNumber || ''),
+      '',
+      buyer?.name || invoice.tenantName,
+      buyer?.representative || '',
+      buyer?.address || lease?.tenantAddress || '',
+      buyer?.businessType || '',
+      buyer?.businessItem || '',
+      buyer?.email || '',
+      '',
+      invoice.supplyValue,
+      invoice.vat,
+      invoice.notes || '',
+      formatDateFns(issueDate, 'dd'),
+      invoice.itemName,
+      '',
+      '',
+      '',
+      invoice.supplyValue,
+      invoice.vat,
+      '',
+      ...Array(24).fill(''),
+      '',
+      '',
+      '',
+      '',
+      '02',
+    ];
+  });
+}
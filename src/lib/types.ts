@@ -2,29 +2,81 @@ import { type DocumentReference, type Timestamp } from 'firebase/firestore';
 
 export type TenantStatus = 'paid' | 'overdue' | 'vacant';
 
+export type PaymentMethod =
+  | 'bank_transfer' // 계좌이체
+  | 'credit_card' // 카드결제
+  | 'cash'; // 현금
+
+export type PaymentType =
+  | 'payment' // 입금
+  | 'refund' // 환불 (과납·선납액 반환)
+  | 'reversal' // 입금 취소 (이체 반환 등)
+  | 'chargeback'; // 카드 결제 취소
+
 export interface Payment {
   id: string;
-  ownerId: string;
+  portfolioId: string;
   leaseAgreementId: string;
+  buildingId?: string; // 계약의 건물. 게스트의 열람 범위를 확인하는 데 사용
   paymentDate: Timestamp | Date;
   paymentAmount: number;
+  depositTransactionId?: string; // 보증금에서 공제하여 충당한 경우 해당 보증금 거래 ID
+  maintenanceFeeAmount?: number; // 납부액 중 관리비에 충당한 금액 (나머지는 임대료)
+  allocations?: PaymentAllocation[]; // 직접 지정한 월별 충당 내역 (없으면 오래된 달부터 자동 충당)
+  paymentMethod?: PaymentMethod; // 이 납부의 결제 방식 (없으면 계약의 결제 방식)
+  depositorName?: string; // 입금자명
+  bankReference?: string; // 은행 거래 참조번호, 카드 승인번호 등
+  memo?: string;
+  type?: PaymentType; // 없으면 입금. 환불·입금 취소·카드 결제 취소는 납부액이 음수입니다.
+  originalPaymentId?: string; // 환불·취소의 대상 납부 기록 ID
+  reason?: string; // 환불·취소 사유
+}
+
+export interface PaymentAllocation {
+  month: string; // 충당 대상 월 (yyyy-MM)
+  amount: number;
+}
+
+export interface DepositorAlias {
+  id: string;
+  portfolioId: string;
+  leaseAgreementId: string;
+  alias: string; // 은행 거래내역에 표시되는 입금자명
 }
 
 export interface BuildingUnit {
   id: string;
   name: string;
   area: number;
+  marketRent?: number; // 월 시장 임대료 (공실 손실 추정용, 0 또는 없으면 마지막 계약 임대료 사용)
 }
 
 export interface Renewal {
   renewalDate: Timestamp | Date;
   newRentAmount: number;
   newLeaseEndDate: Timestamp | Date;
+  newDepositAmount?: number; // 재계약 시 변경된 보증금 (없으면 기존 보증금 유지)
+}
+
+export type RenewalStatus =
+  | 'not_contacted' // 미연락
+  | 'negotiating' // 협의 중
+  | 'renewing' // 재계약 예정
+  | 'leaving'; // 퇴거 예정
+
+export interface BusinessInfo {
+  registrationNumber: string; // 사업자등록번호 (숫자 10자리)
+  name: string; // 상호
+  representative: string; // 대표자 성명
+  address?: string; // 사업장 주소
+  businessType?: string; // 업태
+  businessItem?: string; // 종목
+  email?: string; // 세금계산서 수신/발신 이메일
 }
 
 export interface LeaseAgreement {
   id: string;
-  ownerId: string;
+  portfolioId: string;
   buildingId: string;
   buildingName: string;
   tenantName: string;
@@ -41,17 +93,207 @@ export interface LeaseAgreement {
   rentFreePeriod?: number;
   rentFreeUnit?: 'days' | 'months';
   renewals?: Renewal[];
+  lateInterestRate?: number; // 연체이자율 (연 %)
+  lateInterestGraceDays?: number; // 연체이자 유예 일수
+  maintenanceFeeMethod?: MaintenanceFeeMethod; // 관리비 부과 방식 (기본값: area)
+  maintenanceFeeAmount?: number; // fixed인 경우 월 관리비
+  tenantBusinessInfo?: BusinessInfo; // 임차인 사업자 정보 (세금계산서 공급받는자)
+  renewalStatus?: RenewalStatus; // 만기 전 재계약 진행 상태 (없으면 not_contacted)
+  renewalNote?: string; // 재계약 협의 메모
+  creditHandling?: CreditHandling; // 과납 잔액 처리 방식 (없으면 carry_forward)
+}
+
+export type CreditHandling =
+  | 'carry_forward' // 다음 청구에 충당
+  | 'refund'; // 환불 예정
+
+export type MaintenanceFeeMethod =
+  | 'area' // 건물 관리비를 전용면적 비율로 배분
+  | 'fixed' // 계약별 월 고정 관리비
+  | 'none'; // 관리비 없음
+
+export type TaxInvoiceStatus =
+  | 'draft' // 발급 대기
+  | 'issued' // 발급 완료
+  | 'amended' // 수정세금계산서로 대체됨
+  | 'cancelled'; // 발급 취소
+
+export interface TaxInvoice {
+  id: string;
+  portfolioId: string;
+  leaseAgreementId: string;
+  buildingId: string;
+  tenantName: string;
+  billingMonth: Timestamp | Date; // 대상 월의 1일
+  issueDate: Timestamp | Date; // 작성일자
+  itemName: string; // 품목
+  supplyValue: number;
+  vat: number;
+  total: number;
+  status: TaxInvoiceStatus;
+  approvalNumber?: string; // 국세청 승인번호
+  originalInvoiceId?: string; // 수정발급한 경우 원본 세금계산서 ID
+  notes?: string;
+}
+
+export type RentInvoiceStatus =
+  | 'issued' // 발행
+  | 'void'; // 무효 (재발행 등)
+
+export interface RentInvoiceLine {
+  description: string; // 예: 2024-03월분 임대료, 2024-03 관리비
+  supplyValue: number;
+  vat: number;
+  amount: number; // supplyValue + vat
+}
+
+// 발행 시점의 원장 내용을 그대로 저장하여 나중에 같은 내용으로 다시 인쇄합니다.
+export interface RentInvoice {
+  id: string;
+  portfolioId: string;
+  leaseAgreementId: string;
+  buildingId: string;
+  invoiceNumber: string; // 청구서 번호 (yyyyMM-001, 청구 월별 일련번호)
+  billingMonth: Timestamp | Date; // 청구 대상 월의 1일
+  issueDate: Timestamp | Date;
+  dueDate: Timestamp | Date; // 납부기한
+  tenantName: string;
+  buildingName: string;
+  unitNames: string[];
+  landlordName: string; // 임대인 상호 (없으면 건물 이름)
+  landlordRegistrationNumber?: string;
+  bankAccount?: string; // 입금 계좌
+  lines: RentInvoiceLine[]; // 이번 달 임대료, 관리비, 공과금
+  currentCharges: number; // 이번 달 청구액 합계
+  previousBalance: number; // 전월까지의 미납액 (음수이면 선납액)
+  totalDue: number; // 이번 달 청구액 + 전월까지의 미납액
+  status: RentInvoiceStatus;
+  voidReason?: string;
+}
+
+export type PaymentReceiptStatus =
+  | 'issued' // 발행
+  | 'void'; // 무효 (재발행 등)
+
+// 납부 한 건에 대한 영수증. 발행 시점의 내용을 그대로 저장하여 다시 인쇄합니다.
+export interface PaymentReceipt {
+  id: string;
+  portfolioId: string;
+  paymentId: string;
+  leaseAgreementId: string;
+  buildingId: string;
+  receiptNumber: string; // 영수증 번호 (R-yyyyMM-001, 발행 월별 일련번호)
+  issueDate: Timestamp | Date;
+  paymentDate: Timestamp | Date;
+  amount: number; // 납부액
+  paymentMethod: string; // 납부의 결제 방식 (없으면 계약의 결제 방식)
+  maintenanceFeeAmount: number; // 납부액 중 관리비 충당액
+  allocations: PaymentAllocation[]; // 임대료를 충당한 월
+  tenantName: string;
+  tenantRegistrationNumber?: string;
+  buildingName: string;
+  unitNames: string[];
+  landlordName: string;
+  landlordRegistrationNumber?: string;
+  landlordRepresentative?: string;
+  landlordAddress?: string;
+  status: PaymentReceiptStatus;
+  voidReason?: string;
+  originalReceiptId?: string; // 재발행한 경우 무효 처리된 원래 영수증 ID
+}
+
+export type MessageChannel =
+  | 'sms' // 문자
+  | 'kakao' // 카카오톡 알림톡
+  | 'email'; // 이메일
+
+export interface MessageTemplate {
+  id: string;
+  portfolioId: string;
+  name: string;
+  channel: MessageChannel;
+  subject?: string; // 이메일 제목
+  body: string; // {임차인}, {금액} 등의 자리표시자를 포함한 본문
+}
+
+export type ReminderMessageStatus =
+  | 'queued' // 발송 대기
+  | 'sent' // 발송 완료
+  | 'failed'; // 발송 실패
+
+export interface ReminderMessage {
+  id: string;
+  portfolioId: string;
+  leaseAgreementId: string;
+  buildingId: string;
+  tenantName: string;
+  channel: MessageChannel;
+  recipient: string; // 휴대폰 번호 또는 이메일 주소
+  subject?: string;
+  body: string; // 자리표시자를 채운 본문
+  amountDue: number; // 메시지를 만들 때의 원장 잔액
+  templateId?: string;
+  providerId: string; // 발송에 사용한 발송 서비스
+  providerMessageId?: string; // 발송 서비스가 돌려준 메시지 ID
+  status: ReminderMessageStatus;
+  error?: string; // 발송 실패 사유
+  queuedAt: Timestamp;
+  sentAt?: Timestamp;
+}
+
+export type UtilityType = 'electricity' | 'water';
+
+export interface MeterReading {
+  id: string;
+  portfolioId: string;
+  buildingId: string;
+  unitId: string;
+  utilityType: UtilityType;
+  readingMonth: Timestamp | Date; // 검침 대상 월의 1일
+  reading: number; // 검침값 (누적 지침)
+  tariff: number; // 단위당 요금 (원)
+  notes?: string;
+}
+
+export interface MaintenanceFee {
+  id: string;
+  portfolioId: string;
+  buildingId: string;
+  billingMonth: Timestamp | Date; // 부과 대상 월의 1일
+  totalAmount: number; // 건물 전체 관리비
+  notes?: string;
 }
 
 export interface RentAdjustment {
   id: string;
-  ownerId: string;
+  portfolioId: string;
   leaseAgreementId: string;
+  buildingId?: string; // 계약의 건물
   adjustmentDate: Timestamp; // 조정 대상 월의 1일
   adjustedRentAmount: number;
   notes: string;
 }
 
+export type DepositTransactionType =
+  | 'receipt' // 보증금 수령 (재계약 증액분 포함)
+  | 'return' // 보증금 반환 (감액분 또는 퇴거 시 반환)
+  | 'rent_offset' // 미납 임대료 공제
+  | 'repair' // 수선비 공제
+  | 'restoration' // 원상복구비 공제
+  | 'other_deduction'; // 기타 공제
+
+export interface DepositTransaction {
+  id: string;
+  portfolioId: string;
+  leaseAgreementId: string;
+  buildingId?: string; // 계약의 건물
+  transactionDate: Timestamp | Date;
+  type: DepositTransactionType;
+  amount: number;
+  notes?: string;
+  paymentId?: string; // rent_offset인 경우 함께 생성된 납부 기록 ID
+}
+
 // This represents the combined data for the tenant table, directly from the LeaseAgreement document
 export interface TenantLeaseInfo extends LeaseAgreement {
   status: TenantStatus;
@@ -62,24 +304,82 @@ export interface TenantLeaseInfo extends LeaseAgreement {
 
 export interface Building {
   id: string;
-  ownerId: string;
+  portfolioId: string;
   name: string;
   address: string;
   units?: BuildingUnit[];
+  businessInfo?: BusinessInfo; // 임대인 사업자 정보 (세금계산서 공급자)
+  bankAccount?: string; // 임대료 입금 계좌 (미납 안내 메시지에 표시)
 }
 
+export type UserRole =
+  | 'admin' // 모든 메뉴와 기능 (감사 로그, 데이터 복원·초기화 포함)
+  | 'member'; // 감사 로그와 데이터 복원·초기화를 제외한 기능
+
 export interface UserProfile {
   id: string; // Corresponds to Firebase Auth UID
   email: string;
   displayName?: string;
   isApproved: boolean; // 사용자가 앱 사용을 승인받았는지 여부
+  role?: UserRole; // 없으면 member
+  activePortfolioId?: string; // 마지막으로 선택한 포트폴리오
+  notificationSettings?: NotificationSettings; // 알림 기준 (없으면 기본값)
+  notificationStates?: Record<string, Record<string, NotificationState>>; // 포트폴리오 ID → 알림 ID → 읽음/미루기 상태
+}
+
+export interface NotificationSettings {
+  overdueDays: number; // 납부기한을 이 일수보다 넘긴 미납액을 알림
+  expiringDays: number; // 만기가 이 일수 이내인 계약을 알림
+  renewalLookbackDays: number; // 최근 이 일수 안에 시작된 재계약만 임대료 변경 여부를 확인
+}
+
+export interface NotificationState {
+  readAt?: Timestamp;
+  snoozedUntil?: Timestamp; // 이 시각까지 알림 목록에서 숨김
 }
 
 export interface AuditLog {
   id: string;
+  ownerId: string;
   userId: string;
   userEmail: string;
   action: string;
   timestamp: Timestamp;
   details?: Record<string, any>;
 }
+
+export type PortfolioRole =
+  | 'owner' // 데이터 편집과 구성원·초대 관리
+  | 'manager' // 데이터 편집
+  | 'guest'; // 지정된 건물의 데이터 열람만 가능
+
+export interface Portfolio {
+  id: string; // 기존 데이터를 옮겨 온 개인 포트폴리오는 만든 사용자의 UID
+  name: string;
+  ownerId: string; // 포트폴리오를 만든 사용자
+  createdAt: Timestamp;
+}
+
+// portfolios/{portfolioId}/members/{userId}
+export interface PortfolioMember {
+  id: string; // 사용자 UID
+  portfolioId: string;
+  userId: string;
+  email: string;
+  displayName?: string;
+  role: PortfolioRole;
+  buildingIds?: string[]; // guest가 열람할 수 있는 건물
+  joinedAt: Timestamp;
+}
+
+// portfolios/{portfolioId}/invitations/{email}
+export interface PortfolioInvitation {
+  id: string; // 초대받은 이메일 (소문자)
+  portfolioId: string;
+  portfolioName: string;
+  email: string;
+  role: PortfolioRole;
+  buildingIds?: string[]; // guest로 초대한 경우 열람할 수 있는 건물
+  invitedBy: string; // 초대한 사용자 이메일
+  createdAt: Timestamp;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Building, LeaseAgreement, MeterReading } from './types';
+import { calculateMeterUsages, calculateUtilityCharges, getPreviousReading } from './utility-billing';
+
+const lease = (overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id: 'lease-1',
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '테스트빌딩',
+  tenantName: '홍길동',
+  tenantContact: '010-0000-0000',
+  tenantAddress: '',
+  unitIds: ['101'],
+  leaseStartDate: new Date(2024, 0, 1),
+  leaseEndDate: new Date(2024, 11, 31),
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+const reading = (month: number, value: number, overrides: Partial<MeterReading> = {}): MeterReading => ({
+  id: `${overrides.unitId || '101'}-${overrides.utilityType || 'electricity'}-${month}`,
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  unitId: '101',
+  utilityType: 'electricity',
+  readingMonth: new Date(2024, month, 1),
+  reading: value,
+  tariff: 100,
+  ...overrides,
+});
+
+const building: Building = {
+  id: 'building-1',
+  portfolioId: 'portfolio-1',
+  name: '테스트빌딩',
+  address: '',
+  units: [{ id: '101', name: '101호', area: 50 }, { id: '102', name: '102호', area: 50 }],
+};
+
+describe('calculateMeterUsages', () => {
+  it('derives each usage from the previous reading of the same meter', () => {
+    const usages = calculateMeterUsages([
+      reading(1, 1_300),
+      reading(0, 1_000),
+      reading(1, 550, { utilityType: 'water', tariff: 1_000 }),
+      reading(0, 500, { utilityType: 'water', tariff: 1_000 }),
+    ]);
+
+    expect(usages.map(u => [u.reading.id, u.previousReading, u.usage, u.amount])).toEqual([
+      ['101-electricity-0', null, null, 0],
+      ['101-water-0', null, null, 0],
+      ['101-electricity-1', 1_000, 300, 30_000],
+      ['101-water-1', 500, 50, 50_000],
+    ]);
+  });
+
+  it('flags a usage above twice the average of the three before it, and a meter running backwards', () => {
+    const usages = calculateMeterUsages([
+      reading(0, 0),
+      reading(1, 100),
+      reading(2, 300),
+      reading(3, 600),
+      reading(4, 1_401),
+      reading(5, 1_300),
+    ]);
+
+    expect(usages[4]).toMatchObject({ usage: 801, averageUsage: 200, isUnusual: true });
+    expect(usages[5]).toMatchObject({ usage: -101, amount: 0, isUnusual: true });
+    expect(usages.slice(1, 4).some(u => u.isUnusual)).toBe(false);
+  });
+});
+
+describe('getPreviousReading', () => {
+  it('finds the latest reading of the meter before the month', () => {
+    const readings = [reading(0, 1_000), reading(1, 1_300), reading(2, 1_500), reading(1, 80, { unitId: '102' })];
+
+    expect(getPreviousReading(readings, { unitId: '101', utilityType: 'electricity' }, new Date(2024, 2, 1))?.reading).toBe(1_300);
+    expect(getPreviousReading(readings, { unitId: '101', utilityType: 'electricity' }, new Date(2024, 0, 1))).toBeNull();
+  });
+});
+
+describe('calculateUtilityCharges', () => {
+  it('bills one line per month and utility over the lease\'s units', () => {
+    const lines = calculateUtilityCharges(lease({ unitIds: ['101', '102'] }), building, [
+      reading(0, 1_000),
+      reading(1, 1_300),
+      reading(0, 200, { unitId: '102' }),
+      reading(1, 400, { unitId: '102' }),
+      reading(0, 9_000, { unitId: '103' }),
+      reading(1, 9_900, { unitId: '103' }),
+    ], new Date(2024, 2, 15));
+
+    expect(lines).toEqual([
+      { date: new Date(2024, 1, 29, 23, 59, 59, 999), amount: 50_000, description: '2024-02월분 전기요금', notes: '101호 300kWh, 102호 200kWh' },
+    ]);
+  });
+
+  it('prorates the month a lease starts in by the days it was in effect', () => {
+    const [line] = calculateUtilityCharges(lease({ leaseStartDate: new Date(2024, 3, 16) }), building, [
+      reading(2, 1_000),
+      reading(3, 1_300),
+    ], new Date(2024, 4, 15));
+
+    expect(line).toMatchObject({ amount: 15_000, notes: '101호 300kWh (일할 15일)' });
+  });
+
+  it('leaves out months after the as-of date', () => {
+    expect(calculateUtilityCharges(lease(), building, [reading(0, 1_000), reading(4, 1_300)], new Date(2024, 2, 31))).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  format as formatDateFns,
+  getDaysInMonth,
+  isAfter,
+  isBefore,
+  startOfDay,
+  startOfMonth,
+  endOfMonth,
+} from "date-fns";
+import { Building, LeaseAgreement, MaintenanceFee, MeterReading, UtilityType } from "./types";
+import { toDate } from "./rent-schedule";
+import { calculateMaintenanceFees, getActiveDaysInMonth, type MaintenanceFeeLine } from "./maintenance-fee";
+
+/**
+ * A usage that is more than this many times the average of the previous readings is flagged.
+ */
+export const UNUSUAL_USAGE_RATIO = 2;
+
+export const utilityTypeLabels: Record<UtilityType, string> = {
+  electricity: '전기',
+  water: '수도',
+};
+
+export const utilityUnitLabels: Record<UtilityType, string> = {
+  electricity: 'kWh',
+  water: '㎥',
+};
+
+/**
+ * A meter reading with the usage derived from the previous reading of the same unit and utility.
+ */
+export interface MeterUsage {
+  reading: MeterReading;
+  previousReading: number | null;
+  usage: number | null; // null for the first reading of a meter
+  amount: number;
+  averageUsage: number | null; // average of up to three previous usages
+  isUnusual: boolean;
+}
+
+const sameMeter = (a: Pick<MeterReading, 'unitId' | 'utilityType'>, b: Pick<MeterReading, 'unitId' | 'utilityType'>) =>
+  a.unitId === b.unitId && a.utilityType === b.utilityType;
+
+/**
+ * Finds the latest reading of the same meter before the given month.
+ */
+export function getPreviousReading(
+  readings: MeterReading[],
+  meter: Pick<MeterReading, 'unitId' | 'utilityType'>,
+  readingMonth: Date
+): MeterReading | null {
+  const monthStart = startOfMonth(readingMonth);
+  return readings
+    .filter(r => sameMeter(r, meter) && isBefore(startOfMonth(toDate(r.readingMonth)), monthStart))
+    .sort((a, b) => toDate(b.readingMonth).getTime() - toDate(a.readingMonth).getTime())[0] || null;
+}
+
+/**
+ * Derives the usage of every reading from the previous reading of the same meter, and flags
+ * usages that exceed `UNUSUAL_USAGE_RATIO` times the average of the up to three previous usages.
+ * @returns The usages in chronological order.
+ */
+export function calculateMeterUsages(readings: MeterReading[]): MeterUsage[] {
+  const sorted = [...readings].sort((a, b) => toDate(a.readingMonth).getTime() - toDate(b.readingMonth).getTime());
+  const lastByMeter = new Map<string, MeterReading>();
+  const usagesByMeter = new Map<string, number[]>();
+
+  return sorted.map(reading => {
+    const key = `${reading.unitId}:${reading.utilityType}`;
+    const previous = lastByMeter.get(key);
+    const history = usagesByMeter.get(key) || [];
+
+    const usage = previous ? reading.reading - previous.reading : null;
+    const recent = history.slice(-3);
+    const averageUsage = recent.length > 0 ? recent.reduce((sum, u) => sum + u, 0) / recent.length : null;
+    const isUnusual = usage !== null && (usage < 0 || (averageUsage !== null && averageUsage > 0 && usage > averageUsage * UNUSUAL_USAGE_RATIO));
+
+    lastByMeter.set(key, reading);
+    if (usage !== null && usage >= 0) {
+      usagesByMeter.set(key, [...history, usage]);
+    }
+
+    return {
+      reading,
+      previousReading: previous ? previous.reading : null,
+      usage,
+      amount: usage !== null && usage > 0 ? Math.round(usage * reading.tariff) : 0,
+      averageUsage,
+      isUnusual,
+    };
+  });
+}
+
+/**
+ * Builds the utility charges of a lease up to `asOf`: the usage of every unit in `unitIds`
+ * times the reading's tariff, one line per month and utility. A lease that occupied the unit
+ * for only part of the month is charged for the days it was in effect.
+ * @param lease The lease agreement.
+ * @param building The building the lease belongs to, providing unit names.
+ * @param readings The meter readings recorded for the building.
+ * @param asOf The date up to which charges are generated. Defaults to today.
+ * @returns The charge lines in chronological order.
+ */
+export function calculateUtilityCharges(
+  lease: LeaseAgreement,
+  building: Building | null | undefined,
+  readings: MeterReading[],
+  asOf: Date = new Date()
+): MaintenanceFeeLine[] {
+  const today = startOfDay(asOf);
+  const unitIds = new Set(lease.unitIds || []);
+  const grouped = new Map<string, { monthStart: Date; utilityType: UtilityType; amount: number; details: string[] }>();
+
+  calculateMeterUsages(readings.filter(r => unitIds.has(r.unitId))).forEach(({ reading, usage, amount }) => {
+    if (usage === null || amount <= 0) return;
+
+    const monthStart = startOfMonth(toDate(reading.readingMonth));
+    if (isAfter(monthStart, today)) return;
+
+    const activeDays = getActiveDaysInMonth(lease, monthStart);
+    if (activeDays <= 0) return;
+
+    const daysInMonth = getDaysInMonth(monthStart);
+    const key = `${formatDateFns(monthStart, 'yyyy-MM')}:${reading.utilityType}`;
+    const group = grouped.get(key) || { monthStart, utilityType: reading.utilityType, amount: 0, details: [] };
+    const unitName = building?.units?.find(u => u.id === reading.unitId)?.name || reading.unitId;
+
+    group.amount += amount * (activeDays / daysInMonth);
+    group.details.push(`${unitName} ${usage}${utilityUnitLabels[reading.utilityType]}${activeDays < daysInMonth ? ` (일할 ${activeDays}일)` : ''}`);
+    grouped.set(key, group);
+  });
+
+  return Array.from(grouped.values())
+    .map(group => ({
+      date: endOfMonth(group.monthStart),
+      amount: Math.round(group.amount),
+      description: `${formatDateFns(group.monthStart, 'yyyy-MM')}월분 ${utilityTypeLabels[group.utilityType]}요금`,
+      notes: group.details.join(', '),
+    }))
+    .filter(line => line.amount > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Builds every non-rent charge of a lease up to `asOf`: maintenance fees and utility charges,
+ * in chronological order.
+ */
+export function calculateLeaseFees(
+  lease: LeaseAgreement,
+  building: Building | null | undefined,
+  fees: MaintenanceFee[],
+  readings: MeterReading[],
+  asOf: Date = new Date()
+): MaintenanceFeeLine[] {
+  return [
+    ...calculateMaintenanceFees(lease, building, fees, asOf),
+    ...calculateUtilityCharges(lease, building, readings, asOf),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
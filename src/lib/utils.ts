@@ -17,6 +17,31 @@ export function formatCurrency(amount: number) {
   }).format(amount);
 }
 
+/**
+ * Serializes rows to CSV, quoting cells that contain commas, quotes or line breaks.
+ */
+export const toCsv = (rows: (string | number)[][]) => rows
+  .map(row => row.map(cell => {
+    const text = String(cell ?? '');
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(','))
+  .join('\r\n');
+
+/**
+ * Downloads rows as a UTF-8 CSV file. The BOM lets Excel open Korean text correctly.
+ */
+export function downloadCsv(rows: (string | number)[][], fileName: string) {
+  const blob = new Blob(['\ufeff' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export function formatDate(date: Date | Timestamp | string | undefined | null): string {
   if (!date) {
     return "";
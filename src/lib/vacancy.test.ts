@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Building, LeaseAgreement } from './types';
+import { addVacancyTotals, buildVacancyReport, getUnitReferenceRent, vacancyRate } from './vacancy';
+
+const building: Building = {
+  id: 'building-1',
+  portfolioId: 'portfolio-1',
+  name: '테스트빌딩',
+  address: '',
+  units: [
+    { id: '101', name: '101호', area: 60 },
+    { id: '102', name: '102호', area: 40, marketRent: 800_000 },
+    { id: '103', name: '103호', area: 50 },
+  ],
+};
+
+const lease = (overrides: Partial<LeaseAgreement> = {}): LeaseAgreement => ({
+  id: 'lease-1',
+  portfolioId: 'portfolio-1',
+  buildingId: 'building-1',
+  buildingName: '테스트빌딩',
+  tenantName: '홍길동',
+  tenantContact: '010-0000-0000',
+  tenantAddress: '',
+  unitIds: ['101', '102'],
+  leaseStartDate: new Date(2024, 0, 1),
+  leaseEndDate: new Date(2024, 2, 31),
+  leaseDepositAmount: 10_000_000,
+  rentAmount: 1_000_000,
+  vatTreatment: 'none',
+  paymentMethod: 'bank_transfer',
+  rentCalculationMethod: 'contract_date',
+  ...overrides,
+});
+
+describe('getUnitReferenceRent', () => {
+  it('prefers the market rent of the unit', () => {
+    expect(getUnitReferenceRent(building.units![1], building, [lease()], new Date(2024, 5, 30))).toEqual({ rent: 800_000, source: 'market' });
+  });
+
+  it('splits the last lease\'s rent by area', () => {
+    expect(getUnitReferenceRent(building.units![0], building, [lease()], new Date(2024, 5, 30))).toEqual({ rent: 600_000, source: 'last_lease' });
+  });
+
+  it('has no reference for a unit never leased', () => {
+    expect(getUnitReferenceRent(building.units![2], building, [lease()], new Date(2024, 5, 30))).toEqual({ rent: 0, source: 'none' });
+  });
+});
+
+describe('buildVacancyReport', () => {
+  const report = buildVacancyReport(building, [lease()], new Date(2024, 0, 1), new Date(2024, 5, 30));
+
+  it('measures each unit\'s vacancy since its last lease ended', () => {
+    const [first, second, never] = report.units;
+
+    expect(first).toMatchObject({ isVacant: true, vacantSince: new Date(2024, 3, 1), currentVacantDays: 91, vacantDays: 91, estimatedLoss: 1_795_068 });
+    expect(second).toMatchObject({ vacantDays: 91, rentSource: 'market', estimatedLoss: 2_393_425 });
+    expect(never).toMatchObject({ isVacant: true, vacantSince: null, currentVacantDays: null, vacantDays: 182, estimatedLoss: 0 });
+  });
+
+  it('totals the units and their vacant days', () => {
+    expect(report.totals).toEqual({
+      unitCount: 3,
+      vacantUnitCount: 3,
+      unitDays: 546,
+      vacantDays: 364,
+      estimatedLoss: 1_795_068 + 2_393_425,
+    });
+    expect(vacancyRate(report.totals)).toBe(66.7);
+  });
+
+  it('counts an occupied unit as not vacant at the period end', () => {
+    const occupied = buildVacancyReport(building, [lease({ leaseEndDate: new Date(2024, 11, 31) })], new Date(2024, 0, 1), new Date(2024, 5, 30));
+
+    expect(occupied.totals.vacantUnitCount).toBe(1);
+    expect(occupied.totals.estimatedLoss).toBe(0);
+  });
+
+  it('adds building totals together for the portfolio total', () => {
+    const total = addVacancyTotals(report.totals, report.totals);
+
+    expect(total.vacantDays).toBe(728);
+    expect(vacancyRate(total)).toBe(vacancyRate(report.totals));
+  });
+});
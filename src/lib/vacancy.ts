@@ -0,0 +1,145 @@
+import { addDays, differenceInCalendarDays, isAfter, startOfDay } from "date-fns";
+import { Building, BuildingUnit, LeaseAgreement } from "./types";
+import { getApplicableRent } from "./rent-schedule";
+import { buildUnitTimelines, getLeasePeriod } from "./occupancy";
+
+export type VacancyRentSource = 'market' | 'last_lease' | 'none';
+
+export const vacancyRentSourceLabels: Record<VacancyRentSource, string> = {
+  market: '시장 임대료',
+  last_lease: '직전 계약',
+  none: '기준 없음',
+};
+
+/**
+ * The vacancy of one unit over a period. A unit is vacant on the days no lease covers it,
+ * so units that were never leased are vacant for the whole period.
+ */
+export interface UnitVacancy {
+  unit: BuildingUnit;
+  isVacant: boolean; // 기간 종료일 기준 공실 여부
+  vacantSince: Date | null; // 현재 공실이 시작된 날 (이전 계약이 없으면 null)
+  currentVacantDays: number | null; // 공실 시작일부터 종료일까지 일수
+  vacantDays: number; // 기간 중 공실 일수
+  monthlyRent: number; // 손실 추정에 쓰는 월 임대료
+  rentSource: VacancyRentSource;
+  estimatedLoss: number; // 기간 중 공실 일수만큼의 추정 임대료 손실
+}
+
+export interface VacancyTotals {
+  unitCount: number;
+  vacantUnitCount: number;
+  unitDays: number; // 호실 수 × 기간 일수
+  vacantDays: number;
+  estimatedLoss: number;
+}
+
+export interface VacancyGroup {
+  building: Building;
+  units: UnitVacancy[];
+  totals: VacancyTotals;
+}
+
+export const emptyVacancyTotals = (): VacancyTotals => ({
+  unitCount: 0,
+  vacantUnitCount: 0,
+  unitDays: 0,
+  vacantDays: 0,
+  estimatedLoss: 0,
+});
+
+export function addVacancyTotals(a: VacancyTotals, b: VacancyTotals): VacancyTotals {
+  return {
+    unitCount: a.unitCount + b.unitCount,
+    vacantUnitCount: a.vacantUnitCount + b.vacantUnitCount,
+    unitDays: a.unitDays + b.unitDays,
+    vacantDays: a.vacantDays + b.vacantDays,
+    estimatedLoss: a.estimatedLoss + b.estimatedLoss,
+  };
+}
+
+// Share of a lease's rent charged to one of its units, by area, or evenly when areas are missing.
+function getUnitShare(lease: LeaseAgreement, unit: BuildingUnit, building: Building): number {
+  const leaseUnits = (building.units || []).filter(u => (lease.unitIds || []).includes(u.id));
+  if (leaseUnits.length <= 1) return 1;
+  const totalArea = leaseUnits.reduce((sum, u) => sum + (u.area || 0), 0);
+  return totalArea > 0 ? (unit.area || 0) / totalArea : 1 / leaseUnits.length;
+}
+
+/**
+ * The monthly rent a vacant unit would earn: its market rent when set, otherwise the last rent
+ * of the latest lease that covered it by `asOf`, split by area for leases of several units.
+ */
+export function getUnitReferenceRent(unit: BuildingUnit, building: Building, leases: LeaseAgreement[], asOf: Date): { rent: number; source: VacancyRentSource } {
+  if (unit.marketRent && unit.marketRent > 0) {
+    return { rent: unit.marketRent, source: 'market' };
+  }
+
+  const day = startOfDay(asOf);
+  const lastLease = leases
+    .filter(lease => (lease.unitIds || []).includes(unit.id) && !isAfter(getLeasePeriod(lease).start, day))
+    .sort((a, b) => getLeasePeriod(b).start.getTime() - getLeasePeriod(a).start.getTime())[0];
+  if (!lastLease) {
+    return { rent: 0, source: 'none' };
+  }
+
+  const { end } = getLeasePeriod(lastLease);
+  const { rent } = getApplicableRent(lastLease, isAfter(end, day) ? day : end);
+  return { rent: Math.round(rent * getUnitShare(lastLease, unit, building)), source: 'last_lease' };
+}
+
+// Rent lost over a number of vacant days, from a monthly rent.
+const estimateLoss = (monthlyRent: number, days: number) => Math.round((monthlyRent * 12 / 365) * days);
+
+/**
+ * Builds the vacancy report of one building for a period, both ends inclusive. The current
+ * vacancy of each unit is measured at the period end and may have started before the period.
+ */
+export function buildVacancyReport(building: Building, leases: LeaseAgreement[], periodStart: Date, periodEnd: Date): VacancyGroup {
+  const start = startOfDay(periodStart);
+  const end = startOfDay(periodEnd);
+  const periodDays = Math.max(differenceInCalendarDays(end, start) + 1, 0);
+  const buildingLeases = leases.filter(lease => lease.buildingId === building.id);
+
+  const units = periodDays === 0 ? [] : buildUnitTimelines(building, buildingLeases, start, end).map(({ unit, segments }): UnitVacancy => {
+    const vacantDays = segments.reduce((sum, segment) => segment.type === 'vacant' ? sum + segment.days : sum, 0);
+    const lastSegment = segments[segments.length - 1];
+    const isVacant = lastSegment?.type === 'vacant';
+
+    let vacantSince: Date | null = null;
+    if (isVacant) {
+      // The vacancy started the day after the latest lease of the unit that ended before it.
+      const lastEnd = buildingLeases
+        .filter(lease => (lease.unitIds || []).includes(unit.id))
+        .map(lease => getLeasePeriod(lease).end)
+        .filter(leaseEnd => !isAfter(leaseEnd, lastSegment.start))
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+      vacantSince = lastEnd ? addDays(lastEnd, 1) : null;
+    }
+
+    const { rent, source } = getUnitReferenceRent(unit, building, buildingLeases, end);
+    return {
+      unit,
+      isVacant,
+      vacantSince,
+      currentVacantDays: vacantSince ? differenceInCalendarDays(end, vacantSince) + 1 : null,
+      vacantDays,
+      monthlyRent: rent,
+      rentSource: source,
+      estimatedLoss: estimateLoss(rent, vacantDays),
+    };
+  });
+
+  const totals = units.reduce((acc, unit) => addVacancyTotals(acc, {
+    unitCount: 1,
+    vacantUnitCount: unit.isVacant ? 1 : 0,
+    unitDays: periodDays,
+    vacantDays: unit.vacantDays,
+    estimatedLoss: unit.estimatedLoss,
+  }), emptyVacancyTotals());
+
+  return { building, units, totals };
+}
+
+export const vacancyRate = (totals: VacancyTotals) =>
+  totals.unitDays > 0 ? Math.round((totals.vacantDays / totals.unitDays) * 1000) / 10 : 0;